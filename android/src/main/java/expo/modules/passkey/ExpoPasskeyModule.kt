@@ -6,14 +6,18 @@ import androidx.activity.ComponentActivity
 import expo.modules.kotlin.Promise
 import expo.modules.kotlin.modules.Module
 import expo.modules.kotlin.modules.ModuleDefinition
+import kotlinx.coroutines.CancellationException
 import kotlinx.coroutines.CoroutineScope
 import kotlinx.coroutines.Dispatchers
+import kotlinx.coroutines.Job
 import kotlinx.coroutines.launch
 
 class ExpoPasskeyModule : Module() {
   private val TAG = "ExpoPasskeyModule"
   private val mainScope = CoroutineScope(Dispatchers.Main)
   private var credentialManager: PasskeyCredentialManager? = null
+  // Request started by createPasskey or authenticateWithPasskey, cancelled by cancel
+  private var pendingRequest: Job? = null
 
   override fun definition() = ModuleDefinition {
     Name("ExpoPasskeyModule")
@@ -46,11 +50,17 @@ class ExpoPasskeyModule : Module() {
       
       Log.d(TAG, "Starting createPasskey with request: ${requestJson.take(100)}...")
       
-      mainScope.launch {
+      pendingRequest = mainScope.launch {
         try {
           val result = credentialManager?.createPasskey(activity, requestJson)
           Log.d(TAG, "createPasskey successful, result length: ${result?.length ?: 0}")
           promise.resolve(result)
+        } catch (e: CancellationException) {
+          Log.d(TAG, "createPasskey cancelled")
+          promise.reject("ERR_CANCELED", "The passkey request was cancelled", e)
+        } catch (e: PasskeyException) {
+          Log.w(TAG, "createPasskey failed with ${e.code}: ${e.message}")
+          promise.reject(e.code, e.message, e)
         } catch (e: Exception) {
           Log.e(TAG, "createPasskey error: ${e.message}", e)
           promise.reject("ERR_CREATE_FAILED", e.message, e)
@@ -72,16 +82,29 @@ class ExpoPasskeyModule : Module() {
       
       Log.d(TAG, "Starting authenticateWithPasskey with request: ${requestJson.take(100)}...")
       
-      mainScope.launch {
+      pendingRequest = mainScope.launch {
         try {
           val result = credentialManager?.authenticateWithPasskey(activity, requestJson)
           Log.d(TAG, "authenticateWithPasskey successful, result length: ${result?.length ?: 0}")
           promise.resolve(result)
+        } catch (e: CancellationException) {
+          Log.d(TAG, "authenticateWithPasskey cancelled")
+          promise.reject("ERR_CANCELED", "The passkey request was cancelled", e)
+        } catch (e: PasskeyException) {
+          Log.w(TAG, "authenticateWithPasskey failed with ${e.code}: ${e.message}")
+          promise.reject(e.code, e.message, e)
         } catch (e: Exception) {
           Log.e(TAG, "authenticateWithPasskey error: ${e.message}", e)
           promise.reject("ERR_AUTH_FAILED", e.message, e)
         }
       }
     }
+
+    AsyncFunction("cancel") { promise: Promise ->
+      // Cancelling the coroutine dismisses the Credential Manager sheet
+      pendingRequest?.cancel()
+      pendingRequest = null
+      promise.resolve(null)
+    }
   }
 }
\ No newline at end of file
@@ -11,6 +11,7 @@ import androidx.credentials.GetPublicKeyCredentialOption
 import androidx.credentials.exceptions.CreateCredentialException
 import androidx.credentials.exceptions.GetCredentialException
 import com.google.gson.Gson
+import kotlinx.coroutines.CancellationException
 import kotlinx.coroutines.Dispatchers
 import kotlinx.coroutines.withContext
 import org.json.JSONArray
@@ -81,7 +82,9 @@ class PasskeyCredentialManager(private val context: Context) {
         return@withContext responseJson
       } catch (e: CreateCredentialException) {
         Log.e(TAG, "Passkey creation failed", e)
-        throw Exception("Passkey creation failed: ${e.message}")
+        throw PasskeyException(createErrorCode(e), "Passkey creation failed: ${e.message}")
+      } catch (e: CancellationException) {
+        throw e
       } catch (e: Exception) {
         Log.e(TAG, "Unexpected error during passkey creation", e)
         throw Exception("Passkey creation failed: ${e.message}")
@@ -155,11 +158,13 @@ class PasskeyCredentialManager(private val context: Context) {
         return@withContext responseJson
       } catch (e: GetCredentialException) {
         Log.e(TAG, "Passkey authentication failed", e)
-        throw Exception("Passkey authentication failed: ${e.message}")
+        throw PasskeyException(getErrorCode(e), "Passkey authentication failed: ${e.message}")
+      } catch (e: CancellationException) {
+        throw e
       } catch (e: Exception) {
         Log.e(TAG, "Unexpected error during passkey authentication", e)
         throw Exception("Passkey authentication failed: ${e.message}")
       }
     }
   }
-}
\ No newline at end of file
+}
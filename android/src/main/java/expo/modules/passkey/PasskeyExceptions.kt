@@ -0,0 +1,64 @@
+package expo.modules.passkey
+
+import androidx.credentials.exceptions.CreateCredentialCancellationException
+import androidx.credentials.exceptions.CreateCredentialException
+import androidx.credentials.exceptions.CreateCredentialInterruptedException
+import androidx.credentials.exceptions.CreateCredentialNoCreateOptionException
+import androidx.credentials.exceptions.CreateCredentialProviderConfigurationException
+import androidx.credentials.exceptions.GetCredentialCancellationException
+import androidx.credentials.exceptions.GetCredentialException
+import androidx.credentials.exceptions.GetCredentialInterruptedException
+import androidx.credentials.exceptions.GetCredentialProviderConfigurationException
+import androidx.credentials.exceptions.NoCredentialException
+import androidx.credentials.exceptions.domerrors.AbortError
+import androidx.credentials.exceptions.domerrors.DomError
+import androidx.credentials.exceptions.domerrors.InvalidStateError
+import androidx.credentials.exceptions.domerrors.NotAllowedError
+import androidx.credentials.exceptions.domerrors.NotSupportedError
+import androidx.credentials.exceptions.domerrors.SecurityError
+import androidx.credentials.exceptions.domerrors.TimeoutError
+import androidx.credentials.exceptions.publickeycredential.CreatePublicKeyCredentialDomException
+import androidx.credentials.exceptions.publickeycredential.GetPublicKeyCredentialDomException
+
+/**
+ * Passkey failure carrying the error code the promise is rejected with.
+ * The codes match the ones the iOS module derives from its exception names.
+ */
+class PasskeyException(val code: String, message: String?) : Exception(message)
+
+/**
+ * Classifies a Credential Manager failure while creating a passkey
+ */
+internal fun createErrorCode(e: CreateCredentialException): String = when (e) {
+  is CreateCredentialCancellationException -> "ERR_USER_CANCELLED"
+  is CreateCredentialInterruptedException -> "ERR_INTERRUPTED"
+  is CreateCredentialProviderConfigurationException,
+  is CreateCredentialNoCreateOptionException -> "ERR_NOT_SUPPORTED"
+  // InvalidStateError means the authenticator matched one of the excludeCredentials
+  is CreatePublicKeyCredentialDomException ->
+    if (e.domError is InvalidStateError) "ERR_CREDENTIAL_EXCLUDED" else domErrorCode(e.domError, "ERR_CREATE_FAILED")
+  else -> "ERR_CREATE_FAILED"
+}
+
+/**
+ * Classifies a Credential Manager failure while authenticating with a passkey
+ */
+internal fun getErrorCode(e: GetCredentialException): String = when (e) {
+  is GetCredentialCancellationException -> "ERR_USER_CANCELLED"
+  is GetCredentialInterruptedException -> "ERR_INTERRUPTED"
+  is NoCredentialException -> "ERR_NO_CREDENTIAL"
+  is GetCredentialProviderConfigurationException -> "ERR_NOT_SUPPORTED"
+  is GetPublicKeyCredentialDomException -> domErrorCode(e.domError, "ERR_AUTH_FAILED")
+  else -> "ERR_AUTH_FAILED"
+}
+
+private fun domErrorCode(domError: DomError, fallback: String): String = when (domError) {
+  is NotAllowedError -> "ERR_NOT_ALLOWED"
+  is AbortError -> "ERR_CANCELED"
+  is TimeoutError -> "ERR_TIMEOUT"
+  // The rpId does not match the app's Digital Asset Links
+  is SecurityError -> "ERR_SECURITY"
+  is NotSupportedError -> "ERR_NOT_SUPPORTED"
+  is InvalidStateError -> "ERR_INVALID_STATE"
+  else -> fallback
+}
@@ -94,6 +94,17 @@ public class ExpoPasskeyModule: Module, PasskeyResultHandler {
         promise.reject(error)
       }
     }
+    
+    AsyncFunction("cancel") { () in
+      guard let delegate = self.passkeyDelegate else {
+        return
+      }
+      
+      // Reset the delegate first so the sheet's own cancellation callback is ignored
+      self.passkeyDelegate = nil
+      delegate.cancel()
+      delegate.promise?.reject(CanceledException())
+    }.runOnQueue(.main)
   }
   
   @available(iOS 15.0, *)
@@ -130,6 +141,16 @@ public class ExpoPasskeyModule: Module, PasskeyResultHandler {
         platformRequest.userVerificationPreference = convertUserVerificationPreference(userVerification)
       }
       
+      // Let the platform refuse authenticators that already hold one of the user's passkeys
+      if #available(iOS 17.4, *), let excludeCredentials = options.excludeCredentials, !excludeCredentials.isEmpty {
+        platformRequest.excludedCredentials = excludeCredentials.compactMap { credential in
+          guard let credentialData = Data(base64URLEncoded: credential.id) else {
+            return nil
+          }
+          return ASAuthorizationPlatformPublicKeyCredentialDescriptor(credentialID: credentialData)
+        }
+      }
+      
       requests.append(platformRequest)
     }
     
@@ -162,6 +183,10 @@ public class ExpoPasskeyModule: Module, PasskeyResultHandler {
         securityKeyRequest.residentKeyPreference = convertResidentKeyPreference(residentKey)
       }
       
+      if #available(iOS 17.4, *), let excludeCredentials = options.excludeCredentials, !excludeCredentials.isEmpty {
+        securityKeyRequest.excludedCredentials = convertSecurityKeyDescriptors(excludeCredentials)
+      }
+      
       requests.append(securityKeyRequest)
     }
     
@@ -221,28 +246,7 @@ public class ExpoPasskeyModule: Module, PasskeyResultHandler {
     }
     
     if let allowCredentials = options.allowCredentials, !allowCredentials.isEmpty {
-      securityKeyRequest.allowedCredentials = allowCredentials.compactMap { credential in
-        guard let credentialData = Data(base64URLEncoded: credential.id) else {
-          return nil
-        }
-        
-        var transports = ASAuthorizationSecurityKeyPublicKeyCredentialDescriptor.Transport.allSupported
-        if let credentialTransports = credential.transports, !credentialTransports.isEmpty {
-          transports = credentialTransports.compactMap { transport -> ASAuthorizationSecurityKeyPublicKeyCredentialDescriptor.Transport? in
-            switch transport {
-            case "ble": return .bluetooth
-            case "nfc": return .nfc
-            case "usb": return .usb
-            default: return nil
-            }
-          }
-        }
-        
-        return ASAuthorizationSecurityKeyPublicKeyCredentialDescriptor(
-          credentialID: credentialData,
-          transports: transports
-        )
-      }
+      securityKeyRequest.allowedCredentials = convertSecurityKeyDescriptors(allowCredentials)
     }
     
     requests.append(securityKeyRequest)
@@ -353,13 +357,27 @@ public class ExpoPasskeyModule: Module, PasskeyResultHandler {
     // Reset the delegate to allow future operations
     passkeyDelegate = nil
     
+    // The authenticator already holds one of the excluded credentials
+    if #available(iOS 18.0, *), let asError = error as? ASAuthorizationError, asError.code == .matchedExcludedCredential {
+      delegate.promise?.reject(CredentialExcludedException())
+      return
+    }
+    
     // Convert the error to an appropriate exception
     if let asError = error as? ASAuthorizationError {
       switch asError.code {
       case .canceled:
         delegate.promise?.reject(UserCancelledException())
       case .failed:
-        delegate.promise?.reject(PasskeyRequestFailedException())
+        // A missing or mismatched associated domain is reported as a failed request
+        let reason = (asError as NSError).userInfo[NSLocalizedFailureReasonErrorKey] as? String ?? asError.localizedDescription
+        if reason.contains("not associated with domain") {
+          delegate.promise?.reject(NotConfiguredException())
+        } else {
+          delegate.promise?.reject(PasskeyRequestFailedException())
+        }
+      case .notHandled:
+        delegate.promise?.reject(NoCredentialException())
       case .invalidResponse:
         delegate.promise?.reject(PasskeyAuthorizationFailedException())
       default:
@@ -372,6 +390,32 @@ public class ExpoPasskeyModule: Module, PasskeyResultHandler {
   
   // MARK: - Helper Methods
   
+  @available(iOS 15.0, *)
+  private func convertSecurityKeyDescriptors(_ credentials: [PublicKeyCredentialDescriptor]) -> [ASAuthorizationSecurityKeyPublicKeyCredentialDescriptor] {
+    return credentials.compactMap { credential in
+      guard let credentialData = Data(base64URLEncoded: credential.id) else {
+        return nil
+      }
+      
+      var transports = ASAuthorizationSecurityKeyPublicKeyCredentialDescriptor.Transport.allSupported
+      if let credentialTransports = credential.transports, !credentialTransports.isEmpty {
+        transports = credentialTransports.compactMap { transport -> ASAuthorizationSecurityKeyPublicKeyCredentialDescriptor.Transport? in
+          switch transport {
+          case "ble": return .bluetooth
+          case "nfc": return .nfc
+          case "usb": return .usb
+          default: return nil
+          }
+        }
+      }
+      
+      return ASAuthorizationSecurityKeyPublicKeyCredentialDescriptor(
+        credentialID: credentialData,
+        transports: transports
+      )
+    }
+  }
+  
   @available(iOS 15.0, *)
   private func convertUserVerificationPreference(_ value: String) -> ASAuthorizationPublicKeyCredentialUserVerificationPreference {
     switch value {
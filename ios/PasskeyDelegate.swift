@@ -10,6 +10,7 @@ protocol PasskeyResultHandler {
 @available(iOS 15.0, *)
 class PasskeyDelegate: NSObject, ASAuthorizationControllerDelegate, ASAuthorizationControllerPresentationContextProviding {
   private let handler: PasskeyResultHandler
+  private var controller: ASAuthorizationController?
   var promise: Promise?
   
   init(handler: PasskeyResultHandler) {
@@ -19,11 +20,20 @@ class PasskeyDelegate: NSObject, ASAuthorizationControllerDelegate, ASAuthorizat
   
   // Perform the authorization request for a given ASAuthorizationController instance
   func performAuthForController(controller: ASAuthorizationController) {
+    self.controller = controller
     controller.delegate = self
     controller.presentationContextProvider = self
     controller.performRequests()
   }
   
+  // Dismiss the system sheet of the pending request
+  func cancel() {
+    if #available(iOS 16.0, *) {
+      controller?.cancel()
+    }
+    controller = nil
+  }
+  
   // Provide window for authentication UI
   func presentationAnchor(for controller: ASAuthorizationController) -> ASPresentationAnchor {
     let scenes = UIApplication.shared.connectedScenes
@@ -31,6 +31,12 @@ internal class UserCancelledException: Exception {
   }
 }
 
+internal class CanceledException: Exception {
+  override var reason: String {
+    "The passkey request was cancelled"
+  }
+}
+
 internal class InvalidChallengeException: Exception {
   override var reason: String {
     "The provided challenge was invalid"
@@ -55,6 +61,18 @@ internal class PasskeyAuthorizationFailedException: Exception {
   }
 }
 
+internal class CredentialExcludedException: Exception {
+  override var reason: String {
+    "A passkey for this account is already registered on this authenticator"
+  }
+}
+
+internal class NoCredentialException: Exception {
+  override var reason: String {
+    "No passkey for this account was found on this device"
+  }
+}
+
 internal class UnknownException: Exception {
   override var reason: String {
     "An unknown exception occurred"
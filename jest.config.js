@@ -21,6 +21,7 @@ export default {
       testMatch: [
         '<rootDir>/src/client/**/__tests__/**/*.test.ts',
         '<rootDir>/src/utils/**/__tests__/**/*.test.ts',
+        '<rootDir>/src/react/**/__tests__/**/*.test.ts',
       ],
       preset: 'ts-jest',
       testEnvironment: 'node',
@@ -23,6 +23,13 @@ export interface ExpoPasskeyInterface {
    * @returns Promise resolving to credential JSON string
    */
   authenticateWithPasskey(options: { requestJson: string }): Promise<string>;
+
+  /**
+   * Cancel the pending createPasskey or authenticateWithPasskey request.
+   * The pending promise rejects with the ERR_CANCELED code.
+   * @returns Promise resolving once the request has been dismissed
+   */
+  cancel(): Promise<void>;
 }
 
 // This call loads the native module object from the JSI or Native Modules bridge
@@ -45,4 +45,10 @@ export interface ExpoPasskeyModule {
    * @returns Promise resolving to credential JSON string
    */
   authenticateWithPasskey(options: AuthenticatePasskeyOptions): Promise<string>;
+
+  /**
+   * Cancel the pending passkey request and dismiss the system sheet
+   * @returns Promise resolving once the request has been dismissed
+   */
+  cancel(): Promise<void>;
 }
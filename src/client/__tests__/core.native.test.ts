@@ -35,11 +35,27 @@ jest.mock("../native-module", () => ({
     },
     authenticatorAttachment: "platform",
   }),
+  cancelNativePasskeyRequest: jest.fn().mockResolvedValue(undefined),
 }));
 
+import {
+  ERROR_CODES,
+  PasskeyError,
+  registerErrorMessages,
+} from "../../types/errors";
 import { expoPasskeyClient } from "../core.native";
+import {
+  authenticateWithNativePasskey,
+  cancelNativePasskeyRequest,
+  createNativePasskey,
+} from "../native-module";
 import { getDeviceInfo, hasPasskeysRegistered } from "../utils/device";
 import { loadExpoModules } from "../utils/modules";
+import {
+  removeCredentialId,
+  storeCredentialId,
+  updateCredentialMetadata,
+} from "../utils/storage";
 
 // Mock dependencies
 jest.mock("../utils/device", () => ({
@@ -109,6 +125,7 @@ jest.mock("../utils/storage", () => ({
   getCredentialMetadata: jest.fn().mockResolvedValue({}),
   updateCredentialLastUsed: jest.fn(),
   removeCredentialId: jest.fn(),
+  updateCredentialMetadata: jest.fn(),
 }));
 
 describe("Expo Passkey Client", () => {
@@ -393,6 +410,208 @@ describe("Expo Passkey Client", () => {
 
   // Common functionality tests
   describe("Common functionality tests", () => {
+    describe("registerPasskey", () => {
+      test("passes server-generated creation options to the native module", async () => {
+        const creationOptions = {
+          rp: { id: "example.com", name: "Test App" },
+          user: { id: "dXNlcjEyMw", name: "user@example.com", displayName: "User" },
+          challenge: "server-challenge",
+          pubKeyCredParams: [{ type: "public-key", alg: -7 }],
+          excludeCredentials: [{ type: "public-key", id: "existing-cred" }],
+        };
+
+        mockFetch
+          .mockResolvedValueOnce({
+            data: { ...creationOptions, challengeId: "challenge-id" },
+            error: null,
+          })
+          .mockResolvedValueOnce({
+            data: { success: true, rpName: "Test App", rpId: "example.com" },
+            error: null,
+          });
+
+        const { actions } = createTestPlugin();
+
+        const result = await actions.registerPasskey({
+          userId: "user123",
+          attestation: "none",
+        });
+
+        expect(result.error).toBeNull();
+        expect(mockFetch).toHaveBeenNthCalledWith(
+          1,
+          "/expo-passkey/registration-options",
+          expect.objectContaining({
+            method: "POST",
+            body: expect.objectContaining({ attestation: "none" }),
+          }),
+        );
+        expect(createNativePasskey).toHaveBeenCalledWith({
+          requestJson: JSON.stringify(creationOptions),
+        });
+        expect(mockFetch).toHaveBeenNthCalledWith(
+          2,
+          "/expo-passkey/register",
+          expect.objectContaining({
+            body: expect.objectContaining({ challengeId: "challenge-id" }),
+          }),
+        );
+      });
+
+      test("sends the fetch options with the registration options request", async () => {
+        mockFetch.mockResolvedValueOnce({
+          data: null,
+          error: { code: "SESSION_REQUIRED", status: 401 },
+        });
+
+        const { actions } = createTestPlugin();
+        const headers = { Authorization: "Bearer token" };
+
+        await actions.registerPasskey({ userId: "user123" }, { headers });
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          "/expo-passkey/registration-options",
+          expect.objectContaining({ method: "POST", headers }),
+        );
+      });
+
+      test("does not start when the signal is already aborted", async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        const { actions } = createTestPlugin();
+
+        const result = await actions.registerPasskey({
+          userId: "user123",
+          signal: controller.signal,
+        });
+
+        expect((result.error as PasskeyError).code).toBe(
+          ERROR_CODES.WEBAUTHN.CANCELED,
+        );
+        expect(mockFetch).not.toHaveBeenCalled();
+        expect(createNativePasskey).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("authenticateWithPasskey", () => {
+      test("uses the timeout returned with the challenge", async () => {
+        mockFetch
+          .mockResolvedValueOnce({
+            data: {
+              challenge: "server-challenge",
+              challengeId: "challenge-id",
+              timeout: 30000,
+            },
+            error: null,
+          })
+          .mockResolvedValueOnce({
+            data: { token: "jwt-token-123", user: { id: "user123" } },
+            error: null,
+          });
+
+        const { actions } = createTestPlugin();
+
+        await actions.authenticateWithPasskey({ timeout: 120000 });
+
+        expect(mockFetch.mock.calls[0][1].body.timeout).toBe(120000);
+        const { requestJson } = (authenticateWithNativePasskey as jest.Mock)
+          .mock.calls[0][0];
+        expect(JSON.parse(requestJson).timeout).toBe(30000);
+      });
+
+      test("reports an expired challenge with a distinct error", async () => {
+        mockFetch
+          .mockResolvedValueOnce({
+            data: { challenge: "server-challenge", challengeId: "challenge-id" },
+            error: null,
+          })
+          .mockResolvedValueOnce({
+            data: null,
+            error: {
+              code: "EXPIRED_CHALLENGE",
+              message: "Challenge has expired. Please request a new one.",
+              status: 400,
+              statusText: "Bad Request",
+            },
+          });
+
+        const { actions } = createTestPlugin();
+
+        const result = await actions.authenticateWithPasskey();
+
+        expect(result.error).toBeInstanceOf(PasskeyError);
+        expect((result.error as PasskeyError).code).toBe(
+          ERROR_CODES.WEBAUTHN.CHALLENGE_EXPIRED,
+        );
+      });
+
+      test("sends the caller's fetch options with the challenge request", async () => {
+        mockFetch
+          .mockResolvedValueOnce({
+            data: { challenge: "server-challenge", challengeId: "challenge-id" },
+            error: null,
+          })
+          .mockResolvedValueOnce({
+            data: { token: "jwt-token-123", user: { id: "user123" } },
+            error: null,
+          });
+
+        const { actions } = createTestPlugin();
+        const controller = new AbortController();
+
+        await actions.authenticateWithPasskey(
+          { signal: controller.signal },
+          {
+            headers: { "x-custom": "value" },
+            signal: new AbortController().signal,
+          },
+        );
+
+        expect(mockFetch.mock.calls[0][0]).toBe("/expo-passkey/challenge");
+        expect(mockFetch.mock.calls[0][1].headers).toEqual({
+          "x-custom": "value",
+        });
+        expect(mockFetch.mock.calls[0][1].signal).toBe(controller.signal);
+      });
+
+      test("cancels the native request when the signal aborts", async () => {
+        mockFetch.mockResolvedValueOnce({
+          data: { challenge: "server-challenge", challengeId: "challenge-id" },
+          error: null,
+        });
+
+        // The native sheet stays open until cancelNativePasskeyRequest dismisses it
+        let rejectNative: (error: Error) => void = () => undefined;
+        (authenticateWithNativePasskey as jest.Mock).mockImplementationOnce(
+          () =>
+            new Promise((_resolve, reject) => {
+              rejectNative = reject;
+            }),
+        );
+        (cancelNativePasskeyRequest as jest.Mock).mockImplementationOnce(
+          async () => rejectNative(new Error("The passkey request was cancelled")),
+        );
+
+        const { actions } = createTestPlugin();
+        const controller = new AbortController();
+
+        const pending = actions.authenticateWithPasskey({
+          signal: controller.signal,
+        });
+        await new Promise((resolve) => setImmediate(resolve));
+        controller.abort();
+        const result = await pending;
+
+        expect(cancelNativePasskeyRequest).toHaveBeenCalled();
+        expect((result.error as PasskeyError).code).toBe(
+          ERROR_CODES.WEBAUTHN.CANCELED,
+        );
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(mockFetch.mock.calls[0][1].signal).toBe(controller.signal);
+      });
+    });
+
     describe("listPasskeys", () => {
       test("successfully lists user passkeys", async () => {
         // Mock API response for listing passkeys
@@ -425,6 +644,107 @@ describe("Expo Passkey Client", () => {
         expect(result.data).toBeDefined();
         expect(result.error).toBeNull();
       });
+
+      test("stores the passkey name when syncing a server passkey", async () => {
+        mockFetch.mockResolvedValue({
+          data: {
+            passkeys: [
+              {
+                id: "passkey-2",
+                credentialId: "cred-id-2",
+                name: "Work laptop",
+                platform: "web",
+                metadata: {},
+                lastUsed: "2023-01-02T00:00:00Z",
+                createdAt: "2023-01-01T00:00:00Z",
+                status: "active",
+              },
+            ],
+          },
+        });
+
+        const { actions } = createTestPlugin();
+
+        await actions.listPasskeys({ userId: "user123" });
+
+        expect(storeCredentialId).toHaveBeenCalledWith(
+          "cred-id-2",
+          "user123",
+          expect.any(Object),
+          expect.objectContaining({ name: "Work laptop" })
+        );
+      });
+
+      test("resolves with the server code and status on failure", async () => {
+        mockFetch.mockResolvedValue({
+          data: null,
+          error: {
+            code: "SESSION_REQUIRED",
+            message: "Session required",
+            status: 401,
+            statusText: "Unauthorized",
+          },
+        });
+
+        const { actions } = createTestPlugin();
+
+        const result = await actions.listPasskeys({ userId: "user123" });
+
+        expect(result.error).toBeInstanceOf(PasskeyError);
+        expect(result.error).toMatchObject({
+          code: ERROR_CODES.SERVER.SESSION_REQUIRED,
+          status: 401,
+          retryable: false,
+        });
+      });
+
+      test("translates catalog messages into the client locale", async () => {
+        registerErrorMessages("es", {
+          [ERROR_CODES.SERVER.SESSION_REQUIRED]: "Inicia sesión para continuar",
+        });
+        mockFetch.mockResolvedValue({
+          data: null,
+          error: {
+            code: ERROR_CODES.SERVER.SESSION_REQUIRED,
+            message: "You must be logged in to do this",
+            status: 401,
+          },
+        });
+
+        const actions = expoPasskeyClient({ locale: "es-MX" }).getActions(
+          mockFetch
+        );
+
+        const result = await actions.listPasskeys({ userId: "user123" });
+
+        expect(result.error).toMatchObject({
+          code: ERROR_CODES.SERVER.SESSION_REQUIRED,
+          message: "Inicia sesión para continuar",
+          status: 401,
+        });
+      });
+    });
+
+    describe("listPasskeyEvents", () => {
+      test("requests the current user's events", async () => {
+        mockFetch.mockResolvedValue({
+          data: { events: [], nextOffset: undefined },
+        });
+
+        const { actions } = createTestPlugin();
+
+        const result = await actions.listPasskeyEvents({ offset: 20 });
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          "/expo-passkey/events",
+          expect.objectContaining({
+            method: "GET",
+            query: expect.objectContaining({ offset: "20" }),
+          })
+        );
+        expect(result.data).toEqual({ events: [], nextOffset: undefined });
+        expect(result.error).toBeNull();
+      });
     });
 
     describe("revokePasskey", () => {
@@ -456,6 +776,101 @@ describe("Expo Passkey Client", () => {
       });
     });
 
+    describe("revokePasskeys", () => {
+      test("revokes matching passkeys and cleans up local storage", async () => {
+        mockFetch.mockResolvedValue({
+          data: {
+            success: true,
+            revoked: 2,
+            credentialIds: ["cred-a", "cred-b"],
+            sessionsRevoked: 0,
+          },
+        });
+
+        const { actions } = createTestPlugin();
+
+        const result = await actions.revokePasskeys({
+          exceptCredentialId: "cred-id-123",
+        });
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          "/expo-passkey/revoke-many",
+          expect.objectContaining({ method: "POST" })
+        );
+        expect(removeCredentialId).toHaveBeenCalledWith(
+          "cred-a",
+          expect.any(Object)
+        );
+        expect(removeCredentialId).toHaveBeenCalledWith(
+          "cred-b",
+          expect.any(Object)
+        );
+        expect(result.data?.revoked).toBe(2);
+        expect(result.error).toBeNull();
+      });
+    });
+
+    describe("deletePasskey", () => {
+      test("deletes a passkey and removes it from local storage", async () => {
+        mockFetch.mockResolvedValue({
+          data: { success: true, deleted: 1 },
+        });
+
+        const { actions } = createTestPlugin();
+
+        const result = await actions.deletePasskey({
+          credentialId: "cred-id-123",
+        });
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          "/expo-passkey/delete",
+          expect.objectContaining({ method: "POST" })
+        );
+        expect(removeCredentialId).toHaveBeenCalledWith(
+          "cred-id-123",
+          expect.any(Object)
+        );
+        expect(result).toEqual({
+          data: { success: true, deleted: 1 },
+          error: null,
+        });
+      });
+    });
+
+    describe("renamePasskey", () => {
+      test("renames a passkey and updates local metadata", async () => {
+        mockFetch.mockResolvedValue({
+          data: {
+            success: true,
+            credentialId: "cred-id-123",
+            name: "Personal phone",
+          },
+        });
+
+        const { actions } = createTestPlugin();
+
+        const result = await actions.renamePasskey({
+          credentialId: "cred-id-123",
+          name: "Personal phone",
+        });
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          "/expo-passkey/update",
+          expect.objectContaining({
+            method: "POST",
+            body: { credentialId: "cred-id-123", name: "Personal phone" },
+          })
+        );
+        expect(updateCredentialMetadata).toHaveBeenCalledWith(
+          "cred-id-123",
+          { name: "Personal phone" },
+          expect.any(Object)
+        );
+        expect(result.error).toBeNull();
+        expect(result.data?.name).toBe("Personal phone");
+      });
+    });
+
     describe("checkPasskeyRegistration", () => {
       test("successfully checks if a passkey is registered", async () => {
         // Mock API response
@@ -477,6 +892,39 @@ describe("Expo Passkey Client", () => {
         expect(result.biometricSupport).toBeDefined();
         expect(result.error).toBeNull();
       });
+
+      test("stores the passkey names of synced server passkeys", async () => {
+        mockFetch.mockResolvedValue({
+          data: {
+            passkeys: [
+              {
+                credentialId: "cred-id-123",
+                name: "Personal phone",
+                platform: "ios",
+                status: "active",
+              },
+              { credentialId: "other-cred", platform: "ios", status: "active" },
+            ],
+          },
+        });
+
+        const { actions } = createTestPlugin();
+
+        await actions.checkPasskeyRegistration("user123");
+
+        expect(storeCredentialId).toHaveBeenCalledWith(
+          "cred-id-123",
+          "user123",
+          expect.any(Object),
+          expect.objectContaining({ name: "Personal phone" })
+        );
+        expect(storeCredentialId).toHaveBeenCalledWith(
+          "other-cred",
+          "user123",
+          expect.any(Object),
+          expect.objectContaining({ name: undefined })
+        );
+      });
     });
 
     describe("Fetch plugin behavior", () => {
@@ -19,6 +19,7 @@ const mockWebAuthnBrowser = {
   browserSupportsWebAuthn: jest.fn(),
   startRegistration: jest.fn(),
   startAuthentication: jest.fn(),
+  WebAuthnAbortService: { cancelCeremony: jest.fn() },
 };
 
 jest.mock("@simplewebauthn/browser", () => mockWebAuthnBrowser);
@@ -26,22 +27,6 @@ jest.mock("@simplewebauthn/browser", () => mockWebAuthnBrowser);
 // Mock the web utilities
 jest.mock("../utils/web", () => ({
   getWebAuthnBrowser: jest.fn(() => mockWebAuthnBrowser),
-  createWebRegistrationOptions: jest.fn(
-    (challenge, userId, userName, displayName, rpId, rpName) => ({
-      rp: { id: rpId, name: rpName },
-      user: { id: userId, name: userName, displayName },
-      challenge,
-      pubKeyCredParams: [{ type: "public-key", alg: -7 }],
-      timeout: 60000,
-      authenticatorSelection: {
-        authenticatorAttachment: "platform",
-        userVerification: "preferred",
-        residentKey: "preferred",
-      },
-      attestation: "none",
-      excludeCredentials: [],
-    }),
-  ),
   createWebAuthenticationOptions: jest.fn((challenge, rpId) => ({
     challenge,
     rpId,
@@ -51,11 +36,35 @@ jest.mock("../utils/web", () => ({
   })),
   isWebAuthnSupportedInBrowser: jest.fn(),
   isPlatformAuthenticatorAvailable: jest.fn(),
+  isConditionalMediationAvailable: jest.fn(),
 }));
 
 // Import after mocking
+import { ERROR_CODES, PasskeyError } from "../../types/errors";
 import { expoPasskeyClient } from "../core.web";
 
+// Server-generated creation options returned by /expo-passkey/registration-options
+const mockCreationOptions = {
+  rp: { id: "example.com", name: "Test App" },
+  user: { id: "dXNlcjEyMw", name: "testuser", displayName: "Test User" },
+  challenge: "test-challenge",
+  pubKeyCredParams: [{ type: "public-key", alg: -7 }],
+  timeout: 60000,
+  authenticatorSelection: {
+    authenticatorAttachment: "platform",
+    userVerification: "required",
+    residentKey: "required",
+  },
+  attestation: "none",
+  excludeCredentials: [],
+};
+
+// Response body of /expo-passkey/registration-options
+const mockOptionsResponse = {
+  ...mockCreationOptions,
+  challengeId: "registration-challenge-id",
+};
+
 describe("core.web - ExpoPasskeyClient", () => {
   const originalWindow = global.window;
   const originalNavigator = global.navigator;
@@ -93,6 +102,9 @@ describe("core.web - ExpoPasskeyClient", () => {
     require("../utils/web").isPlatformAuthenticatorAvailable.mockResolvedValue(
       true,
     );
+    require("../utils/web").isConditionalMediationAvailable.mockResolvedValue(
+      true,
+    );
     mockWebAuthnBrowser.startRegistration.mockResolvedValue({
       id: "test-credential-id",
       rawId: "test-raw-id",
@@ -127,10 +139,15 @@ describe("core.web - ExpoPasskeyClient", () => {
       expect(plugin.id).toBe("expo-passkey");
       expect(plugin.pathMethods).toEqual({
         "/expo-passkey/challenge": "POST",
+        "/expo-passkey/registration-options": "POST",
         "/expo-passkey/register": "POST",
         "/expo-passkey/authenticate": "POST",
         "/expo-passkey/list/:userId": "GET",
         "/expo-passkey/revoke": "POST",
+        "/expo-passkey/revoke-many": "POST",
+        "/expo-passkey/delete": "POST",
+        "/expo-passkey/update": "POST",
+        "/expo-passkey/events": "GET",
       });
     });
 
@@ -162,6 +179,7 @@ describe("core.web - ExpoPasskeyClient", () => {
     it("should successfully get challenge", async () => {
       const challengeResponse: ChallengeResponse = {
         challenge: "test-challenge-123",
+        challengeId: "challenge-id-123",
       };
 
       mockFetch.mockResolvedValueOnce({
@@ -215,6 +233,7 @@ describe("core.web - ExpoPasskeyClient", () => {
     it("should handle fetch options", async () => {
       const challengeResponse: ChallengeResponse = {
         challenge: "test-challenge",
+        challengeId: "challenge-id",
       };
 
       mockFetch.mockResolvedValueOnce({
@@ -252,7 +271,7 @@ describe("core.web - ExpoPasskeyClient", () => {
     it("should successfully register passkey", async () => {
       // Mock successful challenge response first
       mockFetch.mockResolvedValueOnce({
-        data: { challenge: "test-challenge" },
+        data: mockOptionsResponse,
         error: null,
       });
 
@@ -291,16 +310,50 @@ describe("core.web - ExpoPasskeyClient", () => {
       expect(mockFetch).toHaveBeenCalledTimes(2);
       expect(mockFetch).toHaveBeenNthCalledWith(
         1,
-        "/expo-passkey/challenge",
+        "/expo-passkey/registration-options",
         expect.any(Object),
       );
       expect(mockFetch).toHaveBeenNthCalledWith(
         2,
         "/expo-passkey/register",
-        expect.any(Object),
+        expect.objectContaining({
+          body: expect.objectContaining({
+            challengeId: "registration-challenge-id",
+          }),
+        }),
       );
     });
 
+    it("should send the fetch options with both requests", async () => {
+      mockFetch.mockResolvedValueOnce({
+        data: mockOptionsResponse,
+        error: null,
+      });
+      mockFetch.mockResolvedValueOnce({
+        data: { success: true, rpName: "Test App", rpId: "example.com" },
+        error: null,
+      });
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+      const headers = { Authorization: "Bearer token" };
+
+      await actions.registerPasskey(
+        { userId: "user123" },
+        { headers, credentials: "include" },
+      );
+
+      for (const path of [
+        "/expo-passkey/registration-options",
+        "/expo-passkey/register",
+      ]) {
+        expect(mockFetch).toHaveBeenCalledWith(
+          path,
+          expect.objectContaining({ headers, credentials: "include" }),
+        );
+      }
+    });
+
     it("should handle WebAuthn not supported", async () => {
       require("../utils/web").isWebAuthnSupportedInBrowser.mockReturnValue(
         false,
@@ -343,7 +396,7 @@ describe("core.web - ExpoPasskeyClient", () => {
 
     it("should handle WebAuthn registration failure", async () => {
       mockFetch.mockResolvedValueOnce({
-        data: { challenge: "test-challenge" },
+        data: mockOptionsResponse,
         error: null,
       });
 
@@ -365,9 +418,113 @@ describe("core.web - ExpoPasskeyClient", () => {
       expect(result.error?.message).toContain("User cancelled");
     });
 
+    it("should report an authenticator that is already registered", async () => {
+      mockFetch.mockResolvedValueOnce({
+        data: mockOptionsResponse,
+        error: null,
+      });
+
+      mockWebAuthnBrowser.startRegistration.mockRejectedValueOnce(
+        Object.assign(new Error("Authenticator was previously registered"), {
+          name: "InvalidStateError",
+          code: "ERROR_AUTHENTICATOR_PREVIOUSLY_REGISTERED",
+        }),
+      );
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+
+      const result = await actions.registerPasskey({ userId: "user123" });
+
+      expect(result.data).toBeNull();
+      expect(result.error).toBeInstanceOf(PasskeyError);
+      expect((result.error as PasskeyError).code).toBe(
+        ERROR_CODES.WEBAUTHN.CREDENTIAL_EXCLUDED,
+      );
+      // The server is never asked to register the duplicate
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report an expired challenge with a distinct error", async () => {
+      mockFetch.mockResolvedValueOnce({
+        data: mockOptionsResponse,
+        error: null,
+      });
+      mockFetch.mockResolvedValueOnce({
+        data: null,
+        error: {
+          code: "EXPIRED_CHALLENGE",
+          message: "Challenge has expired. Please request a new one.",
+          status: 400,
+          statusText: "Bad Request",
+        },
+      });
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+
+      const result = await actions.registerPasskey({ userId: "user123" });
+
+      expect(result.error).toBeInstanceOf(PasskeyError);
+      expect((result.error as PasskeyError).code).toBe(
+        ERROR_CODES.WEBAUTHN.CHALLENGE_EXPIRED,
+      );
+    });
+
+    it("should carry the server code and status on the result error", async () => {
+      mockFetch.mockResolvedValueOnce({
+        data: mockOptionsResponse,
+        error: null,
+      });
+      mockFetch.mockResolvedValueOnce({
+        data: null,
+        error: {
+          code: "device_already_registered",
+          message: "Device already registered",
+          status: 400,
+          statusText: "Bad Request",
+        },
+      });
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+
+      const result = await actions.registerPasskey({ userId: "user123" });
+
+      expect(result.error).toBeInstanceOf(PasskeyError);
+      expect(result.error).toMatchObject({
+        code: ERROR_CODES.SERVER.CREDENTIAL_EXISTS,
+        message: "Device already registered",
+        status: 400,
+        retryable: false,
+      });
+    });
+
+    it("should resolve with a canceled error when the request is aborted", async () => {
+      const controller = new AbortController();
+      // Aborting makes the pending options request reject
+      mockFetch.mockImplementationOnce(async () => {
+        controller.abort();
+        throw new DOMException("The operation was aborted.", "AbortError");
+      });
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+
+      const result = await actions.registerPasskey({
+        userId: "user123",
+        signal: controller.signal,
+      });
+
+      expect((result.error as PasskeyError).code).toBe(
+        ERROR_CODES.WEBAUTHN.CANCELED,
+      );
+      expect(mockWebAuthnBrowser.startRegistration).not.toHaveBeenCalled();
+    });
+
     it("should handle custom options", async () => {
       mockFetch.mockResolvedValueOnce({
-        data: { challenge: "test-challenge" },
+        data: mockOptionsResponse,
         error: null,
       });
 
@@ -403,15 +560,19 @@ describe("core.web - ExpoPasskeyClient", () => {
         metadata: customMetadata,
       });
 
-      const createOptionsCall =
-        require("../utils/web").createWebRegistrationOptions.mock.calls[0];
-      const options = createOptionsCall[6];
+      // Preferences are forwarded to the server, which builds the options
+      const optionsCall = mockFetch.mock.calls[0];
+      expect(optionsCall[0]).toBe("/expo-passkey/registration-options");
+      expect(optionsCall[1].body.attestation).toBe("direct");
+      expect(
+        optionsCall[1].body.authenticatorSelection.authenticatorAttachment,
+      ).toBe("cross-platform");
+      expect(optionsCall[1].body.timeout).toBe(30000);
 
-      expect(options.attestation).toBe("direct");
-      expect(options.authenticatorSelection.authenticatorAttachment).toBe(
-        "cross-platform",
-      );
-      expect(options.timeout).toBe(30000);
+      // Server options are handed to the browser untouched
+      expect(mockWebAuthnBrowser.startRegistration).toHaveBeenCalledWith({
+        optionsJSON: mockCreationOptions,
+      });
 
       // Check registration request body
       const registerCall = mockFetch.mock.calls[1];
@@ -423,7 +584,7 @@ describe("core.web - ExpoPasskeyClient", () => {
     it("should successfully authenticate with passkey", async () => {
       // Mock successful responses in the correct order
       mockFetch.mockResolvedValueOnce({
-        data: { challenge: "auth-challenge" },
+        data: { challenge: "auth-challenge", challengeId: "auth-challenge-id" },
         error: null,
       });
 
@@ -451,6 +612,13 @@ describe("core.web - ExpoPasskeyClient", () => {
 
       expect(mockWebAuthnBrowser.startAuthentication).toHaveBeenCalled();
       expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        "/expo-passkey/authenticate",
+        expect.objectContaining({
+          body: expect.objectContaining({ challengeId: "auth-challenge-id" }),
+        }),
+      );
     });
 
     it("should handle authentication without userId (auto-discovery)", async () => {
@@ -510,6 +678,30 @@ describe("core.web - ExpoPasskeyClient", () => {
       expect(result.error?.message).toContain("Authentication failed");
     });
 
+    it("should classify browser failures by their DOMException name", async () => {
+      mockFetch.mockResolvedValueOnce({
+        data: { challenge: "auth-challenge" },
+        error: null,
+      });
+
+      mockWebAuthnBrowser.startAuthentication.mockRejectedValueOnce(
+        Object.assign(new Error("The RP ID is invalid for this domain"), {
+          name: "SecurityError",
+          code: "ERROR_PASSTHROUGH_SEE_CAUSE_PROPERTY",
+        }),
+      );
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+
+      const result = await actions.authenticateWithPasskey();
+
+      expect(result.error).toBeInstanceOf(PasskeyError);
+      expect((result.error as PasskeyError).code).toBe(
+        ERROR_CODES.WEBAUTHN.INVALID_RP_ID,
+      );
+    });
+
     it("should handle server authentication failure", async () => {
       mockFetch.mockResolvedValueOnce({
         data: { challenge: "auth-challenge" },
@@ -536,6 +728,120 @@ describe("core.web - ExpoPasskeyClient", () => {
       expect(result.error?.message).toContain("Invalid credential");
     });
 
+    it("should use the timeout returned with the challenge", async () => {
+      mockFetch.mockResolvedValueOnce({
+        data: { challenge: "auth-challenge", timeout: 30000 },
+        error: null,
+      });
+      mockFetch.mockResolvedValueOnce({
+        data: { token: "auth-token", user: { id: "user123" } },
+        error: null,
+      });
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+
+      await actions.authenticateWithPasskey({ timeout: 120000 });
+
+      expect(mockFetch.mock.calls[0][1].body.timeout).toBe(120000);
+      const createOptionsCall =
+        require("../utils/web").createWebAuthenticationOptions.mock.calls[0];
+      expect(createOptionsCall[2].timeout).toBe(30000);
+    });
+
+    it("should report an expired challenge with a distinct error", async () => {
+      mockFetch.mockResolvedValueOnce({
+        data: { challenge: "auth-challenge" },
+        error: null,
+      });
+      mockFetch.mockResolvedValueOnce({
+        data: null,
+        error: {
+          code: "EXPIRED_CHALLENGE",
+          message: "Challenge has expired. Please request a new one.",
+          status: 400,
+          statusText: "Bad Request",
+        },
+      });
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+
+      const result = await actions.authenticateWithPasskey();
+
+      expect(result.error).toBeInstanceOf(PasskeyError);
+      expect((result.error as PasskeyError).code).toBe(
+        ERROR_CODES.WEBAUTHN.CHALLENGE_EXPIRED,
+      );
+    });
+
+    it("should cancel the browser ceremony when the signal aborts", async () => {
+      mockFetch.mockResolvedValueOnce({
+        data: { challenge: "auth-challenge", challengeId: "auth-challenge-id" },
+        error: null,
+      });
+
+      let rejectCeremony: (error: Error) => void = () => undefined;
+      mockWebAuthnBrowser.startAuthentication.mockImplementationOnce(
+        () =>
+          new Promise((_resolve, reject) => {
+            rejectCeremony = reject;
+          }),
+      );
+      mockWebAuthnBrowser.WebAuthnAbortService.cancelCeremony.mockImplementationOnce(
+        () => rejectCeremony(new Error("Authentication ceremony was sent an abort signal")),
+      );
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+      const controller = new AbortController();
+
+      const pending = actions.authenticateWithPasskey({
+        signal: controller.signal,
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort();
+      const result = await pending;
+
+      expect(
+        mockWebAuthnBrowser.WebAuthnAbortService.cancelCeremony,
+      ).toHaveBeenCalled();
+      expect((result.error as PasskeyError).code).toBe(
+        ERROR_CODES.WEBAUTHN.CANCELED,
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][1].signal).toBe(controller.signal);
+    });
+
+    it("should send the caller's fetch options with the challenge request", async () => {
+      mockFetch.mockResolvedValueOnce({
+        data: { challenge: "auth-challenge", challengeId: "auth-challenge-id" },
+        error: null,
+      });
+      mockFetch.mockResolvedValueOnce({
+        data: { token: "auth-token", user: { id: "user123" } },
+        error: null,
+      });
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+      const controller = new AbortController();
+
+      await actions.authenticateWithPasskey(
+        { signal: controller.signal },
+        {
+          headers: { "x-custom": "value" },
+          signal: new AbortController().signal,
+        },
+      );
+
+      expect(mockFetch.mock.calls[0][0]).toBe("/expo-passkey/challenge");
+      expect(mockFetch.mock.calls[0][1].headers).toEqual({
+        "x-custom": "value",
+      });
+      expect(mockFetch.mock.calls[0][1].signal).toBe(controller.signal);
+    });
+
     it("should use custom options", async () => {
       mockFetch.mockResolvedValueOnce({
         data: { challenge: "auth-challenge" },
@@ -577,6 +883,139 @@ describe("core.web - ExpoPasskeyClient", () => {
     });
   });
 
+  describe("authenticateWithPasskeyAutofill action", () => {
+    it("should authenticate with a passkey picked from autofill", async () => {
+      mockFetch.mockResolvedValueOnce({
+        data: { challenge: "auth-challenge", challengeId: "auth-challenge-id" },
+        error: null,
+      });
+      mockFetch.mockResolvedValueOnce({
+        data: { token: "auth-token", user: { id: "user123" } },
+        error: null,
+      });
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+
+      const result = await actions.authenticateWithPasskeyAutofill();
+
+      expect(result.data).toEqual({
+        token: "auth-token",
+        user: { id: "user123" },
+      });
+      expect(mockFetch.mock.calls[0][1].body.userId).toBe("auto-discovery");
+      expect(mockWebAuthnBrowser.startAuthentication).toHaveBeenCalledWith(
+        expect.objectContaining({ useBrowserAutofill: true }),
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        "/expo-passkey/authenticate",
+        expect.objectContaining({
+          body: expect.objectContaining({ challengeId: "auth-challenge-id" }),
+        }),
+      );
+    });
+
+    it("should fail when the browser does not support autofill", async () => {
+      require("../utils/web").isConditionalMediationAvailable.mockResolvedValue(
+        false,
+      );
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+
+      const result = await actions.authenticateWithPasskeyAutofill();
+
+      expect(result.error).toBeInstanceOf(PasskeyError);
+      expect((result.error as PasskeyError).code).toBe(
+        ERROR_CODES.WEBAUTHN.NOT_SUPPORTED,
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should cancel the pending request when the signal aborts", async () => {
+      mockFetch.mockResolvedValueOnce({
+        data: { challenge: "auth-challenge", challengeId: "auth-challenge-id" },
+        error: null,
+      });
+
+      let rejectCeremony: (error: Error) => void = () => undefined;
+      mockWebAuthnBrowser.startAuthentication.mockImplementationOnce(
+        () =>
+          new Promise((_resolve, reject) => {
+            rejectCeremony = reject;
+          }),
+      );
+      mockWebAuthnBrowser.WebAuthnAbortService.cancelCeremony.mockImplementationOnce(
+        () => rejectCeremony(new Error("Authentication ceremony was sent an abort signal")),
+      );
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+      const controller = new AbortController();
+
+      const pending = actions.authenticateWithPasskeyAutofill({
+        signal: controller.signal,
+      });
+      // Let the challenge request settle before aborting
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort();
+      const result = await pending;
+
+      expect(
+        mockWebAuthnBrowser.WebAuthnAbortService.cancelCeremony,
+      ).toHaveBeenCalled();
+      expect((result.error as PasskeyError).code).toBe(
+        ERROR_CODES.WEBAUTHN.CANCELED,
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should send the caller's fetch options with the challenge request", async () => {
+      mockFetch.mockResolvedValueOnce({
+        data: { challenge: "auth-challenge", challengeId: "auth-challenge-id" },
+        error: null,
+      });
+      mockFetch.mockResolvedValueOnce({
+        data: { token: "auth-token", user: { id: "user123" } },
+        error: null,
+      });
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+      const controller = new AbortController();
+
+      await actions.authenticateWithPasskeyAutofill(
+        { signal: controller.signal },
+        {
+          headers: { "x-custom": "value" },
+          signal: new AbortController().signal,
+        },
+      );
+
+      expect(mockFetch.mock.calls[0][1].headers).toEqual({
+        "x-custom": "value",
+      });
+      expect(mockFetch.mock.calls[0][1].signal).toBe(controller.signal);
+    });
+
+    it("should not start when the signal is already aborted", async () => {
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await actions.authenticateWithPasskeyAutofill({
+        signal: controller.signal,
+      });
+
+      expect((result.error as PasskeyError).code).toBe(
+        ERROR_CODES.WEBAUTHN.CANCELED,
+      );
+      expect(mockWebAuthnBrowser.startAuthentication).not.toHaveBeenCalled();
+    });
+  });
+
   describe("listPasskeys action", () => {
     it("should successfully list passkeys", async () => {
       const passkeysResponse: ListPasskeysSuccessResponse = {
@@ -655,6 +1094,67 @@ describe("core.web - ExpoPasskeyClient", () => {
     });
   });
 
+  describe("listPasskeyEvents action", () => {
+    it("should request a page of events with the given filters", async () => {
+      const eventsResponse = {
+        events: [
+          {
+            id: "event-1",
+            type: "authenticated" as const,
+            credentialId: "cred1",
+            ipAddress: "203.0.113.7",
+            userAgent: "Mozilla/5.0",
+            platform: "web",
+            metadata: {},
+            createdAt: "2023-01-01T00:00:00Z",
+          },
+        ],
+        nextOffset: 1,
+      };
+      mockFetch.mockResolvedValueOnce({ data: eventsResponse, error: null });
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+
+      const result = await actions.listPasskeyEvents({
+        limit: 1,
+        credentialId: "cred1",
+        type: "authenticated",
+      });
+
+      expect(result.data).toEqual(eventsResponse);
+      expect(result.error).toBeNull();
+      expect(mockFetch).toHaveBeenCalledWith("/expo-passkey/events", {
+        method: "GET",
+        credentials: "include",
+        headers: {
+          Accept: "application/json",
+        },
+        query: {
+          limit: "1",
+          offset: undefined,
+          credentialId: "cred1",
+          type: "authenticated",
+        },
+      });
+    });
+
+    it("should handle events failure", async () => {
+      mockFetch.mockResolvedValueOnce({
+        data: null,
+        error: { message: "Not Found", statusText: "Not Found" },
+      });
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+
+      const result = await actions.listPasskeyEvents();
+
+      expect(result.data?.events).toEqual([]);
+      expect(result.error?.message).toContain("Not Found");
+    });
+  });
+
   describe("revokePasskey action", () => {
     it("should successfully revoke passkey", async () => {
       mockFetch.mockResolvedValueOnce({
@@ -716,6 +1216,146 @@ describe("core.web - ExpoPasskeyClient", () => {
     });
   });
 
+  describe("revokePasskeys action", () => {
+    it("should revoke all passkeys except the current one", async () => {
+      const response = {
+        success: true,
+        revoked: 2,
+        credentialIds: ["cred1", "cred2"],
+        sessionsRevoked: 1,
+      };
+      mockFetch.mockResolvedValueOnce({ data: response, error: null });
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+
+      const result = await actions.revokePasskeys({
+        exceptCredentialId: "cred-current",
+        revokeSessions: true,
+      });
+
+      expect(result).toEqual({ data: response, error: null });
+      expect(mockFetch).toHaveBeenCalledWith("/expo-passkey/revoke-many", {
+        method: "POST",
+        body: {
+          credentialIds: undefined,
+          platform: undefined,
+          exceptCredentialId: "cred-current",
+          reason: undefined,
+          revokeSessions: true,
+        },
+      });
+    });
+
+    it("should handle bulk revocation failure", async () => {
+      mockFetch.mockResolvedValueOnce({
+        data: null,
+        error: { message: "Unauthorized", statusText: "Unauthorized" },
+      });
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+
+      const result = await actions.revokePasskeys({ platform: "android" });
+
+      expect(result.data).toBeNull();
+      expect(result.error?.message).toContain("Unauthorized");
+    });
+  });
+
+  describe("deletePasskey action", () => {
+    it("should request permanent deletion", async () => {
+      mockFetch.mockResolvedValueOnce({
+        data: { success: true, deleted: 4 },
+        error: null,
+      });
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+
+      const result = await actions.deletePasskey({
+        credentialId: "cred123",
+        purgeRevoked: true,
+      });
+
+      expect(result).toEqual({
+        data: { success: true, deleted: 4 },
+        error: null,
+      });
+      expect(mockFetch).toHaveBeenCalledWith("/expo-passkey/delete", {
+        method: "POST",
+        body: {
+          credentialId: "cred123",
+          purgeRevoked: true,
+        },
+      });
+    });
+
+    it("should handle deletion failure", async () => {
+      mockFetch.mockResolvedValueOnce({
+        data: null,
+        error: { message: "Credential not found", statusText: "Not Found" },
+      });
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+
+      const result = await actions.deletePasskey({ credentialId: "cred123" });
+
+      expect(result.data).toBeNull();
+      expect(result.error?.message).toContain("Credential not found");
+    });
+  });
+
+  describe("renamePasskey action", () => {
+    it("should send the new name to the update endpoint", async () => {
+      mockFetch.mockResolvedValueOnce({
+        data: { success: true, credentialId: "cred123", name: "Work laptop" },
+        error: null,
+      });
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+
+      const result = await actions.renamePasskey({
+        credentialId: "cred123",
+        name: "Work laptop",
+      });
+
+      expect(result.data).toEqual({
+        success: true,
+        credentialId: "cred123",
+        name: "Work laptop",
+      });
+      expect(result.error).toBeNull();
+      expect(mockFetch).toHaveBeenCalledWith("/expo-passkey/update", {
+        method: "POST",
+        body: {
+          credentialId: "cred123",
+          name: "Work laptop",
+        },
+      });
+    });
+
+    it("should handle rename failure", async () => {
+      mockFetch.mockResolvedValueOnce({
+        data: null,
+        error: { message: "Credential not found", statusText: "Not Found" },
+      });
+
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+
+      const result = await actions.renamePasskey({
+        credentialId: "cred123",
+        name: "Work laptop",
+      });
+
+      expect(result.data).toBeNull();
+      expect(result.error?.message).toContain("Credential not found");
+    });
+  });
+
   describe("checkPasskeyRegistration action", () => {
     it("should check registration with WebAuthn supported", async () => {
       const passkeysResponse: ListPasskeysSuccessResponse = {
@@ -861,6 +1501,15 @@ describe("core.web - ExpoPasskeyClient", () => {
         require("../utils/web").isPlatformAuthenticatorAvailable,
       ).toHaveBeenCalled();
     });
+
+    it("should check conditional mediation availability", async () => {
+      const plugin = expoPasskeyClient();
+      const actions = plugin.getActions(mockFetch);
+
+      await expect(actions.isConditionalMediationAvailable()).resolves.toBe(
+        true,
+      );
+    });
   });
 
   describe("fetch plugins", () => {
@@ -1078,7 +1727,7 @@ describe("core.web - ExpoPasskeyClient", () => {
     it("should handle complete registration flow", async () => {
       // Setup successful mocks for complete flow
       mockFetch.mockResolvedValueOnce({
-        data: { challenge: "reg-challenge" },
+        data: mockOptionsResponse,
         error: null,
       });
 
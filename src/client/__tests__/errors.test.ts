@@ -0,0 +1,223 @@
+/**
+ * @file Tests for error utilities
+ * @module expo-passkey/client/utils/errors.test
+ */
+
+import {
+  ERROR_CODES,
+  PasskeyError,
+  registerErrorMessages,
+} from "../../types/errors";
+import {
+  getWebAuthnErrorCode,
+  isExpiredChallengeError,
+  localizeError,
+  toServerError,
+  toWebAuthnError,
+} from "../utils/errors";
+
+/**
+ * Builds an error shaped like the ones the native modules reject with
+ */
+const nativeError = (code: string) =>
+  Object.assign(new Error("native failure"), { code });
+
+/**
+ * Builds an error shaped like a DOMException
+ */
+const domException = (name: string) =>
+  Object.assign(new Error("browser failure"), { name });
+
+describe("getWebAuthnErrorCode", () => {
+  it.each([
+    ["ERR_USER_CANCELLED", ERROR_CODES.WEBAUTHN.CANCELED],
+    ["ERR_NO_CREDENTIAL", ERROR_CODES.WEBAUTHN.NO_CREDENTIAL],
+    ["ERR_NOT_CONFIGURED", ERROR_CODES.WEBAUTHN.INVALID_RP_ID],
+    ["ERR_SECURITY", ERROR_CODES.WEBAUTHN.INVALID_RP_ID],
+    ["ERR_TIMEOUT", ERROR_CODES.WEBAUTHN.TIMEOUT],
+    ["ERR_CREDENTIAL_EXCLUDED", ERROR_CODES.WEBAUTHN.CREDENTIAL_EXCLUDED],
+    ["ERR_PENDING_PASSKEY_REQUEST", ERROR_CODES.WEBAUTHN.INVALID_STATE],
+  ])("should map the native code %s", (code, expected) => {
+    expect(getWebAuthnErrorCode(nativeError(code))).toBe(expected);
+  });
+
+  it.each([
+    ["NotAllowedError", ERROR_CODES.WEBAUTHN.CANCELED],
+    ["InvalidStateError", ERROR_CODES.WEBAUTHN.INVALID_STATE],
+    ["SecurityError", ERROR_CODES.WEBAUTHN.INVALID_RP_ID],
+    ["TimeoutError", ERROR_CODES.WEBAUTHN.TIMEOUT],
+  ])("should map the DOMException %s", (name, expected) => {
+    expect(getWebAuthnErrorCode(domException(name))).toBe(expected);
+  });
+
+  it("should prefer the @simplewebauthn/browser code over the DOMException name", () => {
+    const error = Object.assign(domException("InvalidStateError"), {
+      code: "ERROR_AUTHENTICATOR_PREVIOUSLY_REGISTERED",
+    });
+
+    expect(getWebAuthnErrorCode(error)).toBe(
+      ERROR_CODES.WEBAUTHN.CREDENTIAL_EXCLUDED,
+    );
+  });
+
+  it("should fall back to the DOMException name for passthrough errors", () => {
+    const error = Object.assign(domException("NotAllowedError"), {
+      code: "ERROR_PASSTHROUGH_SEE_CAUSE_PROPERTY",
+    });
+
+    expect(getWebAuthnErrorCode(error)).toBe(ERROR_CODES.WEBAUTHN.CANCELED);
+  });
+
+  it("should return null for unrecognized failures", () => {
+    expect(getWebAuthnErrorCode(new Error("boom"))).toBeNull();
+    expect(getWebAuthnErrorCode(nativeError("ERR_SOMETHING_ELSE"))).toBeNull();
+    expect(getWebAuthnErrorCode(null)).toBeNull();
+  });
+});
+
+describe("toWebAuthnError", () => {
+  it("should use the message of recognized codes", () => {
+    const error = toWebAuthnError(domException("SecurityError"));
+
+    expect(error).toBeInstanceOf(PasskeyError);
+    expect(error.code).toBe(ERROR_CODES.WEBAUTHN.INVALID_RP_ID);
+    expect(error.message).toBe(
+      "The relying party ID is not valid for this app or website",
+    );
+  });
+
+  it("should keep the message of unrecognized failures", () => {
+    const error = toWebAuthnError(new Error("boom"));
+
+    expect(error.code).toBe(ERROR_CODES.WEBAUTHN.OPERATION_FAILED);
+    expect(error.message).toBe("boom");
+  });
+
+  it("should return passkey errors unchanged", () => {
+    const original = new PasskeyError(ERROR_CODES.WEBAUTHN.CANCELED);
+
+    expect(toWebAuthnError(original)).toBe(original);
+  });
+});
+
+describe("isExpiredChallengeError", () => {
+  it("should match the server code regardless of case", () => {
+    expect(isExpiredChallengeError({ code: "EXPIRED_CHALLENGE" })).toBe(true);
+    expect(isExpiredChallengeError({ code: "INVALID_CHALLENGE" })).toBe(false);
+    expect(isExpiredChallengeError(null)).toBe(false);
+  });
+});
+
+describe("toServerError", () => {
+  it("should keep the server code, message and status", () => {
+    const error = toServerError(
+      {
+        code: ERROR_CODES.SERVER.USER_MISMATCH,
+        message: "Wrong user",
+        status: 403,
+      },
+      ERROR_CODES.SERVER.AUTHENTICATION_FAILED,
+      "Authentication failed",
+    );
+
+    expect(error).toBeInstanceOf(PasskeyError);
+    expect(error.code).toBe(ERROR_CODES.SERVER.USER_MISMATCH);
+    expect(error.message).toBe("Wrong user");
+    expect(error.status).toBe(403);
+    expect(error.retryable).toBe(false);
+  });
+
+  it("should pass codes raised by Better Auth through unchanged", () => {
+    const error = toServerError(
+      { code: "FAILED_TO_CREATE_SESSION", status: 500 },
+      ERROR_CODES.SERVER.AUTHENTICATION_FAILED,
+      "Authentication failed",
+    );
+
+    expect(error.code).toBe("FAILED_TO_CREATE_SESSION");
+  });
+
+  it("should fall back to the given code and message", () => {
+    const error = toServerError(
+      { status: 503, statusText: "Service Unavailable" },
+      ERROR_CODES.SERVER.REGISTRATION_FAILED,
+      "Failed to register passkey",
+    );
+
+    expect(error.code).toBe(ERROR_CODES.SERVER.REGISTRATION_FAILED);
+    expect(error.message).toBe(
+      "Failed to register passkey: Service Unavailable",
+    );
+    expect(error.retryable).toBe(true);
+  });
+
+  it("should report expired challenges as CHALLENGE_EXPIRED", () => {
+    const error = toServerError(
+      { code: ERROR_CODES.SERVER.EXPIRED_CHALLENGE, status: 400 },
+      ERROR_CODES.SERVER.AUTHENTICATION_FAILED,
+      "Authentication failed",
+    );
+
+    expect(error.code).toBe(ERROR_CODES.WEBAUTHN.CHALLENGE_EXPIRED);
+    expect(error.status).toBe(400);
+    expect(error.retryable).toBe(true);
+  });
+});
+
+describe("PasskeyError", () => {
+  it("should derive retryable from the code and status", () => {
+    expect(new PasskeyError(ERROR_CODES.NETWORK.REQUEST_FAILED).retryable).toBe(
+      true,
+    );
+    expect(
+      new PasskeyError(ERROR_CODES.SERVER.USER_NOT_FOUND, undefined, {
+        status: 429,
+      }).retryable,
+    ).toBe(true);
+    expect(
+      new PasskeyError(ERROR_CODES.SERVER.USER_NOT_FOUND, undefined, {
+        status: 404,
+      }).retryable,
+    ).toBe(false);
+    expect(
+      new PasskeyError(ERROR_CODES.SERVER.USER_NOT_FOUND, undefined, {
+        retryable: true,
+      }).retryable,
+    ).toBe(true);
+  });
+});
+
+describe("localizeError", () => {
+  beforeAll(() => {
+    registerErrorMessages("fr", {
+      [ERROR_CODES.WEBAUTHN.CANCELED]: "Opération annulée",
+    });
+  });
+
+  it("should translate the default message of the code", () => {
+    const error = localizeError(
+      new PasskeyError(ERROR_CODES.WEBAUTHN.CANCELED, undefined, {
+        status: 400,
+      }),
+      "fr-CA",
+    );
+
+    expect(error).toBeInstanceOf(PasskeyError);
+    expect(error).toMatchObject({
+      code: ERROR_CODES.WEBAUTHN.CANCELED,
+      message: "Opération annulée",
+      status: 400,
+    });
+  });
+
+  it("should keep custom messages and other errors", () => {
+    const custom = new PasskeyError(
+      ERROR_CODES.WEBAUTHN.CANCELED,
+      "Closed by the app",
+    );
+    const plain = new Error("boom");
+
+    expect(localizeError(custom, "fr")).toBe(custom);
+    expect(localizeError(plain, "fr")).toBe(plain);
+  });
+});
@@ -4,7 +4,6 @@
  */
 
 import type {
-  PublicKeyCredentialCreationOptionsJSON,
   PublicKeyCredentialRequestOptionsJSON,
   Base64URLString,
 } from "@simplewebauthn/types";
@@ -21,10 +20,10 @@ jest.mock("@simplewebauthn/browser", () => mockWebAuthnBrowser);
 // Import after mocking
 import {
   getWebAuthnBrowser,
-  createWebRegistrationOptions,
   createWebAuthenticationOptions,
   isWebAuthnSupportedInBrowser,
   isPlatformAuthenticatorAvailable,
+  isConditionalMediationAvailable,
   WEB_ERROR_MESSAGES,
 } from "../utils/web";
 
@@ -101,115 +100,11 @@ describe("web utilities", () => {
     // Since isBase64URLEncoded is not exported, we'll test it through other functions
     // that use it internally like toBase64URLString
     it("should be tested indirectly through toBase64URLString function", () => {
-      // This is tested indirectly through the createWebRegistrationOptions tests
+      // This is tested indirectly through the createWebAuthenticationOptions tests
       expect(true).toBe(true);
     });
   });
 
-  describe("createWebRegistrationOptions", () => {
-    const defaultParams = {
-      challenge: "test-challenge",
-      userId: "user123",
-      userName: "testuser",
-      displayName: "Test User",
-      rpId: "example.com",
-      rpName: "Test App",
-    };
-
-    it("should create valid registration options with default values", () => {
-      const result = createWebRegistrationOptions(
-        defaultParams.challenge,
-        defaultParams.userId,
-        defaultParams.userName,
-        defaultParams.displayName,
-        defaultParams.rpId,
-        defaultParams.rpName,
-      );
-
-      expect(result).toMatchObject({
-        rp: {
-          id: "example.com",
-          name: "Test App",
-        },
-        user: {
-          name: "testuser",
-          displayName: "Test User",
-        },
-        pubKeyCredParams: [
-          { type: "public-key", alg: -7 },
-          { type: "public-key", alg: -257 },
-        ],
-        timeout: 60000,
-        authenticatorSelection: {
-          authenticatorAttachment: "platform",
-          userVerification: "preferred",
-          residentKey: "preferred",
-        },
-        attestation: "none",
-        excludeCredentials: [],
-      });
-
-      // Check that user.id and challenge are base64url encoded
-      expect(typeof result.user.id).toBe("string");
-      expect(typeof result.challenge).toBe("string");
-    });
-
-    it("should create registration options with custom values", () => {
-      const options = {
-        timeout: 30000,
-        attestation: "direct" as const,
-        authenticatorSelection: {
-          authenticatorAttachment: "cross-platform" as const,
-          userVerification: "required" as const,
-          residentKey: "required" as const,
-        },
-        excludeCredentials: [
-          { id: "excluded-cred-1", type: "public-key" as const },
-        ],
-      };
-
-      const result = createWebRegistrationOptions(
-        defaultParams.challenge,
-        defaultParams.userId,
-        defaultParams.userName,
-        defaultParams.displayName,
-        defaultParams.rpId,
-        defaultParams.rpName,
-        options,
-      );
-
-      expect(result.timeout).toBe(30000);
-      expect(result.attestation).toBe("direct");
-      expect(result.authenticatorSelection).toEqual({
-        authenticatorAttachment: "cross-platform",
-        userVerification: "required",
-        residentKey: "required",
-      });
-      expect(result.excludeCredentials).toBeDefined();
-      expect(result.excludeCredentials).toHaveLength(1);
-      expect(result.excludeCredentials?.[0]).toMatchObject({
-        type: "public-key",
-        transports: ["internal"],
-      });
-    });
-
-    it("should handle special characters in user data", () => {
-      const result = createWebRegistrationOptions(
-        "challenge-with-special-chars!@#",
-        "user-with-special-chars!@#",
-        "username@example.com",
-        "User With Spaces",
-        defaultParams.rpId,
-        defaultParams.rpName,
-      );
-
-      expect(result.user.name).toBe("username@example.com");
-      expect(result.user.displayName).toBe("User With Spaces");
-      expect(typeof result.user.id).toBe("string");
-      expect(typeof result.challenge).toBe("string");
-    });
-  });
-
   describe("createWebAuthenticationOptions", () => {
     const defaultParams = {
       challenge: "auth-challenge",
@@ -237,7 +132,11 @@ describe("web utilities", () => {
         timeout: 45000,
         userVerification: "required" as const,
         allowCredentials: [
-          { id: "cred-1", type: "public-key" as const },
+          {
+            id: "cred-1",
+            type: "public-key" as const,
+            transports: ["internal", "hybrid"],
+          },
           { id: "cred-2", type: "public-key" as const },
         ],
       };
@@ -256,6 +155,8 @@ describe("web utilities", () => {
         type: "public-key",
         transports: ["internal", "hybrid"],
       });
+      // Unknown transports are omitted so the browser offers every transport
+      expect(result.allowCredentials?.[1]).not.toHaveProperty("transports");
     });
 
     it("should handle empty allowCredentials", () => {
@@ -383,6 +284,50 @@ describe("web utilities", () => {
     });
   });
 
+  describe("isConditionalMediationAvailable", () => {
+    beforeEach(() => {
+      Object.defineProperty(global.window, "PublicKeyCredential", {
+        value: jest.fn(),
+        writable: true,
+      });
+    });
+
+    it("should return the browser's answer", async () => {
+      Object.defineProperty(global, "PublicKeyCredential", {
+        value: { isConditionalMediationAvailable: jest.fn().mockResolvedValue(true) },
+        writable: true,
+      });
+
+      await expect(isConditionalMediationAvailable()).resolves.toBe(true);
+    });
+
+    it("should return false when the browser cannot report it", async () => {
+      await expect(isConditionalMediationAvailable()).resolves.toBe(false);
+    });
+
+    it("should return false when the check throws", async () => {
+      Object.defineProperty(global, "PublicKeyCredential", {
+        value: {
+          isConditionalMediationAvailable: jest
+            .fn()
+            .mockRejectedValue(new Error("Not available")),
+        },
+        writable: true,
+      });
+
+      await expect(isConditionalMediationAvailable()).resolves.toBe(false);
+    });
+
+    it("should return false when WebAuthn is not supported", async () => {
+      Object.defineProperty(global.window, "PublicKeyCredential", {
+        value: undefined,
+        writable: true,
+      });
+
+      await expect(isConditionalMediationAvailable()).resolves.toBe(false);
+    });
+  });
+
   describe("WEB_ERROR_MESSAGES", () => {
     it("should contain expected error messages", () => {
       expect(WEB_ERROR_MESSAGES).toEqual({
@@ -403,7 +348,7 @@ describe("web utilities", () => {
 
   describe("base64url encoding/decoding", () => {
     it("should handle various string inputs correctly", () => {
-      // Test through createWebRegistrationOptions since toBase64URLString is not exported
+      // Test through createWebAuthenticationOptions since toBase64URLString is not exported
       const testCases = [
         "simple",
         "with spaces",
@@ -413,18 +358,17 @@ describe("web utilities", () => {
       ];
 
       testCases.forEach((testString) => {
-        const result = createWebRegistrationOptions(
+        const result = createWebAuthenticationOptions(
           testString,
-          testString,
-          "testuser",
-          "Test User",
           "example.com",
-          "Test App",
+          {
+            allowCredentials: [{ id: testString, type: "public-key" }],
+          },
         );
 
-        // Verify that the challenge and user.id are valid base64url strings
+        // Verify that the challenge and credential id are valid base64url strings
         expect(result.challenge).toMatch(/^[A-Za-z0-9_-]+$/);
-        expect(result.user.id).toMatch(/^[A-Za-z0-9_-]+$/);
+        expect(result.allowCredentials?.[0].id).toMatch(/^[A-Za-z0-9_-]+$/);
       });
     });
   });
@@ -439,39 +383,17 @@ describe("web utilities", () => {
     });
 
     it("should work in Node.js environment using Buffer", () => {
-      const result = createWebRegistrationOptions(
+      const result = createWebAuthenticationOptions(
         "test-challenge",
-        "user123",
-        "testuser",
-        "Test User",
         "example.com",
-        "Test App",
       );
 
       expect(result.challenge).toBeTruthy();
-      expect(result.user.id).toBeTruthy();
       expect(typeof result.challenge).toBe("string");
-      expect(typeof result.user.id).toBe("string");
     });
   });
 
   describe("edge cases", () => {
-    it("should handle empty strings", () => {
-      const result = createWebRegistrationOptions(
-        "",
-        "",
-        "",
-        "",
-        "example.com",
-        "Test App",
-      );
-
-      expect(result.rp.id).toBe("example.com");
-      expect(result.rp.name).toBe("Test App");
-      expect(result.user.name).toBe("");
-      expect(result.user.displayName).toBe("");
-    });
-
     it("should handle undefined options gracefully", () => {
       const result = createWebAuthenticationOptions(
         "challenge",
@@ -485,46 +407,19 @@ describe("web utilities", () => {
     });
 
     it("should handle partial options objects", () => {
-      const result = createWebRegistrationOptions(
+      const result = createWebAuthenticationOptions(
         "challenge",
-        "user",
-        "username",
-        "display",
         "example.com",
-        "app",
         { timeout: 30000 }, // Only timeout specified
       );
 
       expect(result.timeout).toBe(30000);
-      expect(result.attestation).toBe("none"); // default
-      expect(result.authenticatorSelection).toEqual({
-        authenticatorAttachment: "platform",
-        userVerification: "preferred",
-        residentKey: "preferred",
-      });
+      expect(result.userVerification).toBe("preferred"); // default
+      expect(result.allowCredentials).toEqual([]);
     });
   });
 
   describe("type safety", () => {
-    it("should return properly typed registration options", () => {
-      const result: PublicKeyCredentialCreationOptionsJSON =
-        createWebRegistrationOptions(
-          "challenge",
-          "user",
-          "username",
-          "display",
-          "example.com",
-          "app",
-        );
-
-      // TypeScript compilation itself verifies type safety
-      expect(result.rp.id).toBe("example.com");
-
-      // Additional type checks for optional properties
-      expect(result.excludeCredentials).toBeDefined();
-      expect(Array.isArray(result.excludeCredentials)).toBe(true);
-    });
-
     it("should return properly typed authentication options", () => {
       const result: PublicKeyCredentialRequestOptionsJSON =
         createWebAuthenticationOptions("challenge", "example.com");
@@ -538,21 +433,15 @@ describe("web utilities", () => {
     });
 
     it("should handle type assertions for base64url strings", () => {
-      const result = createWebRegistrationOptions(
+      const result = createWebAuthenticationOptions(
         "test-challenge",
-        "user123",
-        "testuser",
-        "Test User",
         "example.com",
-        "Test App",
       );
 
-      // Verify that the challenge and user.id are valid base64url-like strings
+      // Verify that the challenge is a valid base64url-like string
       const challenge: Base64URLString = result.challenge;
-      const userId: Base64URLString = result.user.id;
 
       expect(typeof challenge).toBe("string");
-      expect(typeof userId).toBe("string");
     });
   });
 });
@@ -52,7 +52,11 @@ describe("createAuthenticationOptions", () => {
 
     it("should include allowCredentials when it has items", () => {
       const credentials = [
-        { id: "credential-id-1", type: "public-key" as const },
+        {
+          id: "credential-id-1",
+          type: "public-key" as const,
+          transports: ["internal"],
+        },
         { id: "credential-id-2", type: "public-key" as const },
       ];
 
@@ -74,7 +78,6 @@ describe("createAuthenticationOptions", () => {
           {
             type: "public-key",
             id: "credential-id-2",
-            transports: ["internal"],
           },
         ],
       });
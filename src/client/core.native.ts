@@ -15,20 +15,34 @@ import type {
   AuthenticatePasskeyResult,
   ChallengeResponse,
   ChallengeResult,
+  DeletePasskeyResult,
+  DeletePasskeySuccessResponse,
   ExpoPasskeyClientOptions,
   ExpoPasskeyServerPlugin,
+  ListPasskeyEventsResult,
+  ListPasskeyEventsSuccessResponse,
   ListPasskeysResult,
   ListPasskeysSuccessResponse,
+  PasskeyEventType,
   PasskeyMetadata,
   PasskeyRegistrationCheckResult,
   RegisterPasskeyResult,
   RegisterPasskeySuccessResponse,
+  RegistrationOptionsResponse,
+  RegistrationOptionsResult,
   RevokePasskeyResult,
+  RevokePasskeysResult,
+  RevokePasskeysSuccessResponse,
+  UpdatePasskeyResult,
+  UpdatePasskeySuccessResponse,
 } from "../types";
 
 import { ERROR_CODES, PasskeyError } from "../types/errors";
+import { runCancelable, throwIfAborted, toActionError } from "./utils/abort";
+import { toServerError } from "./utils/errors";
 import {
   authenticateWithNativePasskey,
+  cancelNativePasskeyRequest,
   createNativePasskey,
   isNativePasskeySupported,
 } from "./native-module";
@@ -44,12 +58,12 @@ import {
   updateCredentialLastUsed,
   getUserCredentialIds,
   removeCredentialId,
+  updateCredentialMetadata,
   type CredentialMetadata,
 } from "./utils/storage";
 import {
   checkWebAuthnSupport,
   createAuthenticationOptions,
-  createRegistrationOptions,
   setDeviceInfo,
 } from "./utils/webauthn";
 
@@ -107,6 +121,7 @@ class ExpoPasskeyClient {
 export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
   // Create client
   const client = new ExpoPasskeyClient(options);
+  const { locale } = options;
 
   return {
     id: "expo-passkey",
@@ -114,10 +129,15 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
 
     pathMethods: {
       "/expo-passkey/challenge": "POST",
+      "/expo-passkey/registration-options": "POST",
       "/expo-passkey/register": "POST",
       "/expo-passkey/authenticate": "POST",
       "/expo-passkey/list/:userId": "GET",
       "/expo-passkey/revoke": "POST",
+      "/expo-passkey/revoke-many": "POST",
+      "/expo-passkey/delete": "POST",
+      "/expo-passkey/update": "POST",
+      "/expo-passkey/events": "GET",
     },
 
     getActions: ($fetch) => {
@@ -136,6 +156,7 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
             };
             timeout?: number;
           };
+          timeout?: number;
         },
         fetchOptions?: BetterFetchOption
       ): Promise<ChallengeResult> => {
@@ -148,6 +169,7 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
                 ...(data.userId && { userId: data.userId }), // Only include if provided
                 type: data.type,
                 registrationOptions: data.registrationOptions,
+                ...(data.timeout && { timeout: data.timeout }),
               },
               ...fetchOptions,
             });
@@ -156,16 +178,57 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
             return { data: challengeData, error: null };
           }
 
-          throw challengeError
-            ? new Error(
-                challengeError.message ||
-                  `Failed to get challenge: ${challengeError.statusText}`
-              )
-            : new Error("Failed to get challenge");
+          throw toServerError(
+            challengeError,
+            ERROR_CODES.SERVER.CHALLENGE_GENERATION_FAILED,
+            "Failed to get challenge"
+          );
         } catch (error) {
           return {
             data: null,
-            error: error instanceof Error ? error : new Error(String(error)),
+            error: toActionError(error, { locale }),
+          };
+        }
+      };
+
+      // Server-generated creation options used by registerPasskey
+      const getRegistrationOptions = async (
+        data: {
+          attestation?: "none" | "indirect" | "direct" | "enterprise";
+          authenticatorSelection?: {
+            authenticatorAttachment?: "platform" | "cross-platform";
+            residentKey?: "required" | "preferred" | "discouraged";
+            requireResidentKey?: boolean;
+            userVerification?: "required" | "preferred" | "discouraged";
+          };
+          timeout?: number;
+        } = {},
+        fetchOptions?: BetterFetchOption
+      ): Promise<RegistrationOptionsResult> => {
+        try {
+          const { data: optionsData, error: optionsError } =
+            await $fetch<RegistrationOptionsResponse>(
+              "/expo-passkey/registration-options",
+              {
+                method: "POST",
+                body: data,
+                ...fetchOptions,
+              }
+            );
+
+          if (optionsData) {
+            return { data: optionsData, error: null };
+          }
+
+          throw toServerError(
+            optionsError,
+            ERROR_CODES.SERVER.CHALLENGE_GENERATION_FAILED,
+            "Failed to get registration options"
+          );
+        } catch (error) {
+          return {
+            data: null,
+            error: toActionError(error, { locale }),
           };
         }
       };
@@ -176,15 +239,22 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
          */
         getChallenge,
 
+        /**
+         * Gets server-generated WebAuthn creation options for registration
+         */
+        getRegistrationOptions,
+
         /**
          * Registers a new passkey for a user using WebAuthn
          */
         registerPasskey: async (
           data: {
             userId: string;
-            userName: string;
+            userName?: string;
             displayName?: string;
+            /** @deprecated Ignored - the server supplies the relying party name */
             rpName?: string;
+            /** @deprecated Ignored - the server supplies the relying party ID */
             rpId?: string;
             attestation?: "none" | "indirect" | "direct" | "enterprise";
             authenticatorSelection?: {
@@ -195,10 +265,13 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
             };
             timeout?: number;
             metadata?: Partial<PasskeyMetadata>;
+            signal?: AbortSignal;
           },
           fetchOptions?: BetterFetchOption
         ): Promise<RegisterPasskeyResult> => {
           try {
+            throwIfAborted(data.signal);
+
             // Check if WebAuthn is supported
             const isSupported = await client.isWebAuthnSupported();
             if (!isSupported) {
@@ -220,71 +293,36 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
               );
             }
 
-            // Prepare registration options to send to server
-            const registrationOptions = {
-              attestation: data.attestation,
-              authenticatorSelection: data.authenticatorSelection,
-              timeout: data.timeout || client.getOptions().timeout,
-            };
-
-            // Get challenge from server
-            // Note: userId is no longer sent to server for security - server gets it from session
-            const challengeResult = await getChallenge({
-              type: "registration",
-              registrationOptions,
-            });
+            // Get creation options from server
+            // Note: rp, user and excludeCredentials are decided by the server from the session
+            const optionsResult = await getRegistrationOptions(
+              {
+                attestation: data.attestation,
+                authenticatorSelection: data.authenticatorSelection,
+                timeout: data.timeout || client.getOptions().timeout,
+              },
+              { signal: data.signal, ...fetchOptions }
+            );
 
-            if (!challengeResult.data) {
+            if (!optionsResult.data) {
               throw (
-                challengeResult.error || new Error("Failed to get challenge")
-              );
-            }
-
-            // Get rpId from data or client options
-            const rpId = data.rpId || client.getOptions().rpId;
-            if (!rpId) {
-              console.error(
-                "[ExpoPasskey] Missing rpId parameter - this is required for passkey registration"
-              );
-              throw new PasskeyError(
-                ERROR_CODES.WEBAUTHN.INVALID_STATE,
-                "Missing required parameter: rpId must be provided either in registerPasskey() call or in client options"
-              );
-            }
-
-            if (!data.rpName) {
-              console.error(
-                "[ExpoPasskey] Missing rpName parameter - this is required for passkey registration"
-              );
-              throw new PasskeyError(
-                ERROR_CODES.WEBAUTHN.INVALID_STATE,
-                "Missing required parameter: rpName must be provided for passkey registration"
+                optionsResult.error ||
+                new Error("Failed to get registration options")
               );
             }
 
-            // Prepare registration options
-            const webAuthnOptions = createRegistrationOptions(
-              challengeResult.data.challenge,
-              data.userId,
-              data.userName,
-              data.displayName || data.userName,
-              rpId,
-              data.rpName,
-              {
-                timeout: data.timeout || client.getOptions().timeout,
-                attestation: data.attestation || "none",
-                authenticatorSelection: data.authenticatorSelection || {
-                  authenticatorAttachment: "platform",
-                  userVerification: "required",
-                  residentKey: "required",
-                },
-              }
-            );
+            // The challenge ID is echoed back to the server, not handed to the platform
+            const { challengeId, ...creationOptions } = optionsResult.data;
 
             // Invoke native module to create passkey
-            const credential = await createNativePasskey({
-              requestJson: JSON.stringify(webAuthnOptions),
-            });
+            const credential = await runCancelable(
+              () =>
+                createNativePasskey({
+                  requestJson: JSON.stringify(creationOptions),
+                }),
+              cancelNativePasskeyRequest,
+              data.signal
+            );
 
             // Make API request to register passkey
             // Note: userId is no longer sent to server for security - server gets it from session
@@ -295,6 +333,7 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
                   method: "POST",
                   body: {
                     credential,
+                    challengeId,
                     platform: deviceInfo.platform,
                     metadata: {
                       deviceName: deviceInfo.model || undefined,
@@ -305,6 +344,7 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
                       ...data.metadata,
                     },
                   },
+                  signal: data.signal,
                   ...fetchOptions,
                 }
               );
@@ -320,8 +360,12 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
                 const credentialMetadata: Partial<CredentialMetadata> = {
                   rpId: registrationData.rpId,
                   deviceName: deviceInfo.model || undefined,
-                  displayName: data.displayName || data.userName,
+                  displayName:
+                    data.displayName ||
+                    data.userName ||
+                    creationOptions.user.displayName,
                   createdOnThisDevice: true, // This credential was created on this device
+                  transports: credential.response.transports,
                 };
 
                 // Store in secure storage
@@ -348,16 +392,15 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
             }
 
             // If there was an error in the response
-            throw registrationError
-              ? new Error(
-                  registrationError.message ||
-                    `Registration failed: ${registrationError.statusText}`
-                )
-              : new Error("Failed to register passkey");
+            throw toServerError(
+              registrationError,
+              ERROR_CODES.SERVER.REGISTRATION_FAILED,
+              "Failed to register passkey"
+            );
           } catch (error) {
             return {
               data: null,
-              error: error instanceof Error ? error : new Error(String(error)),
+              error: toActionError(error, { signal: data.signal, locale }),
             };
           }
         },
@@ -372,10 +415,15 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
             timeout?: number;
             userVerification?: "required" | "preferred" | "discouraged";
             metadata?: Partial<PasskeyMetadata>;
+            signal?: AbortSignal;
           },
           fetchOptions?: BetterFetchOption
         ): Promise<AuthenticatePasskeyResult> => {
+          const signal = data?.signal;
+
           try {
+            throwIfAborted(signal);
+
             // Check if WebAuthn is supported
             const isSupported = await client.isWebAuthnSupported();
             if (!isSupported) {
@@ -390,8 +438,11 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
 
             // Get locally stored credential IDs to help with authentication
             let storedCredentials: Record<string, CredentialMetadata> = {};
-            let allowCredentials: Array<{ id: string; type: "public-key" }> =
-              [];
+            let allowCredentials: Array<{
+              id: string;
+              type: "public-key";
+              transports?: string[];
+            }> = [];
 
             try {
               storedCredentials = await getCredentialMetadata(
@@ -408,6 +459,7 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
                 allowCredentials = userCredentialIds.map((id) => ({
                   id,
                   type: "public-key",
+                  transports: storedCredentials[id]?.transports,
                 }));
               }
 
@@ -428,10 +480,14 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
             const challengeUserId = data?.userId || "auto-discovery";
 
             // Get a challenge from the server
-            const challengeResult = await getChallenge({
-              userId: challengeUserId,
-              type: "authentication",
-            });
+            const challengeResult = await getChallenge(
+              {
+                userId: challengeUserId,
+                type: "authentication",
+                timeout: data?.timeout || client.getOptions().timeout,
+              },
+              { ...fetchOptions, signal }
+            );
 
             if (!challengeResult.data) {
               throw (
@@ -446,7 +502,10 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
               challenge,
               data?.rpId || client.getOptions().rpId || "",
               {
-                timeout: data?.timeout || client.getOptions().timeout,
+                // The server caps the timeout at the challenge lifetime
+                timeout:
+                  challengeResult.data.timeout ??
+                  (data?.timeout || client.getOptions().timeout),
                 userVerification: data?.userVerification || "required",
                 allowCredentials:
                   allowCredentials.length > 0 ? allowCredentials : undefined,
@@ -454,9 +513,14 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
             );
 
             // Invoke native module to authenticate with passkey
-            const credential = await authenticateWithNativePasskey({
-              requestJson: JSON.stringify(authenticationOptions),
-            });
+            const credential = await runCancelable(
+              () =>
+                authenticateWithNativePasskey({
+                  requestJson: JSON.stringify(authenticationOptions),
+                }),
+              cancelNativePasskeyRequest,
+              signal
+            );
 
             // Make authentication request
             const { data: authData, error: authError } =
@@ -466,6 +530,7 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
                   method: "POST",
                   body: {
                     credential,
+                    challengeId: challengeResult.data.challengeId,
                     metadata: {
                       lastLocation: "mobile-app",
                       appVersion: deviceInfo.appVersion,
@@ -475,6 +540,7 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
                     },
                   },
                   credentials: "include",
+                  signal,
                   ...fetchOptions,
                 }
               );
@@ -520,21 +586,19 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
             }
 
             // If there was an error in the response
-            return {
-              data: null,
-              error: authError
-                ? new Error(
-                    authError.message ||
-                      `Authentication failed: ${authError.statusText}`
-                  )
-                : new Error(
-                    "Authentication failed: Invalid or unexpected response format"
-                  ),
-            };
+            throw authError
+              ? toServerError(
+                  authError,
+                  ERROR_CODES.SERVER.AUTHENTICATION_FAILED,
+                  "Authentication failed"
+                )
+              : new Error(
+                  "Authentication failed: Invalid or unexpected response format"
+                );
           } catch (error) {
             return {
               data: null,
-              error: error instanceof Error ? error : new Error(String(error)),
+              error: toActionError(error, { signal, locale }),
             };
           }
         },
@@ -620,6 +684,7 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
                           metadata.deviceModel ||
                           undefined,
                         displayName: metadata.displayName || data.userId,
+                        name: passkey.name || undefined,
                         lastUsedAt: passkey.lastUsed,
                         registeredAt: passkey.createdAt,
                         createdOnThisDevice: false, // Synced from server, not created here
@@ -644,18 +709,71 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
             }
 
             // If there was an error in the response
-            throw listError
-              ? listError instanceof Error
-                ? listError
-                : new Error(`Failed to retrieve passkeys`)
-              : new Error("Failed to retrieve passkeys");
+            throw toServerError(
+              listError,
+              ERROR_CODES.SERVER.PASSKEYS_RETRIEVAL_FAILED,
+              "Failed to retrieve passkeys"
+            );
           } catch (error) {
             return {
               data: {
                 passkeys: [],
                 nextOffset: undefined,
               } as ListPasskeysSuccessResponse,
-              error: error instanceof Error ? error : new Error(String(error)),
+              error: toActionError(error, { locale }),
+            };
+          }
+        },
+
+        /**
+         * Pages through the current user's passkey audit events, newest first
+         */
+        listPasskeyEvents: async (
+          data: {
+            limit?: number;
+            offset?: number;
+            credentialId?: string;
+            type?: PasskeyEventType;
+          } = {},
+          fetchOptions?: BetterFetchOption
+        ): Promise<ListPasskeyEventsResult> => {
+          try {
+            const { data: eventsData, error: eventsError } =
+              await $fetch<ListPasskeyEventsSuccessResponse>(
+                "/expo-passkey/events",
+                {
+                  method: "GET",
+                  credentials: "include",
+                  headers: {
+                    accept: "application/json",
+                    ...(fetchOptions?.headers as Record<string, string>),
+                  },
+                  query: {
+                    limit: data.limit?.toString(),
+                    offset: data.offset?.toString(),
+                    credentialId: data.credentialId,
+                    type: data.type,
+                  },
+                  ...fetchOptions,
+                }
+              );
+
+            if (eventsData) {
+              return { data: eventsData, error: null };
+            }
+
+            throw toServerError(
+              eventsError,
+              ERROR_CODES.SERVER.EVENTS_RETRIEVAL_FAILED,
+              "Failed to retrieve passkey events"
+            );
+          } catch (error) {
+            return {
+              data: {
+                events: [],
+                nextOffset: undefined,
+              } as ListPasskeyEventsSuccessResponse,
+              error: toActionError(error, { locale }),
             };
           }
         },
@@ -708,16 +826,188 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
             }
 
             // If there was an error in the response
-            throw revokeError
-              ? new Error(
-                  revokeError.message ||
-                    `Failed to revoke passkey: ${revokeError.statusText}`
-                )
-              : new Error("Failed to revoke passkey");
+            throw toServerError(
+              revokeError,
+              ERROR_CODES.SERVER.REVOCATION_FAILED,
+              "Failed to revoke passkey"
+            );
           } catch (error) {
             return {
               data: null,
-              error: error instanceof Error ? error : new Error(String(error)),
+              error: toActionError(error, { locale }),
+            };
+          }
+        },
+
+        /**
+         * Revokes every passkey matching the given filters
+         */
+        revokePasskeys: async (
+          data: {
+            credentialIds?: string[];
+            platform?: string;
+            exceptCredentialId?: string;
+            reason?: string;
+            revokeSessions?: boolean;
+          },
+          fetchOptions?: BetterFetchOption
+        ): Promise<RevokePasskeysResult> => {
+          try {
+            const { data: revokeData, error: revokeError } =
+              await $fetch<RevokePasskeysSuccessResponse>(
+                "/expo-passkey/revoke-many",
+                {
+                  method: "POST",
+                  body: {
+                    credentialIds: data.credentialIds,
+                    platform: data.platform,
+                    exceptCredentialId: data.exceptCredentialId,
+                    reason: data.reason,
+                    revokeSessions: data.revokeSessions,
+                  },
+                  ...fetchOptions,
+                }
+              );
+
+            if (revokeData && revokeData.success) {
+              // Also remove the revoked credentials from local storage
+              for (const credentialId of revokeData.credentialIds) {
+                try {
+                  await removeCredentialId(credentialId, client.getOptions());
+                } catch (storageError) {
+                  console.warn(
+                    "[ExpoPasskey] Failed to remove credential from local storage:",
+                    storageError
+                  );
+                  // Continue anyway since server revocation succeeded
+                }
+              }
+
+              return { data: revokeData, error: null };
+            }
+
+            throw toServerError(
+              revokeError,
+              ERROR_CODES.SERVER.REVOCATION_FAILED,
+              "Failed to revoke passkeys"
+            );
+          } catch (error) {
+            return {
+              data: null,
+              error: toActionError(error, { locale }),
+            };
+          }
+        },
+
+        /**
+         * Permanently deletes a passkey and/or all of the user's revoked passkeys
+         */
+        deletePasskey: async (
+          data: {
+            credentialId?: string;
+            purgeRevoked?: boolean;
+          },
+          fetchOptions?: BetterFetchOption
+        ): Promise<DeletePasskeyResult> => {
+          try {
+            const { data: deleteData, error: deleteError } =
+              await $fetch<DeletePasskeySuccessResponse>(
+                "/expo-passkey/delete",
+                {
+                  method: "POST",
+                  body: {
+                    credentialId: data.credentialId,
+                    purgeRevoked: data.purgeRevoked,
+                  },
+                  ...fetchOptions,
+                }
+              );
+
+            if (deleteData && deleteData.success) {
+              // Also remove from local storage
+              if (data.credentialId) {
+                try {
+                  await removeCredentialId(
+                    data.credentialId,
+                    client.getOptions()
+                  );
+                } catch (storageError) {
+                  console.warn(
+                    "[ExpoPasskey] Failed to remove credential from local storage:",
+                    storageError
+                  );
+                  // Continue anyway since server deletion succeeded
+                }
+              }
+
+              return { data: deleteData, error: null };
+            }
+
+            throw toServerError(
+              deleteError,
+              ERROR_CODES.SERVER.DELETION_FAILED,
+              "Failed to delete passkey"
+            );
+          } catch (error) {
+            return {
+              data: null,
+              error: toActionError(error, { locale }),
+            };
+          }
+        },
+
+        /**
+         * Sets a user-chosen display name on a passkey
+         */
+        renamePasskey: async (
+          data: {
+            credentialId: string;
+            name: string;
+          },
+          fetchOptions?: BetterFetchOption
+        ): Promise<UpdatePasskeyResult> => {
+          try {
+            const { data: updateData, error: updateError } =
+              await $fetch<UpdatePasskeySuccessResponse>(
+                "/expo-passkey/update",
+                {
+                  method: "POST",
+                  body: {
+                    credentialId: data.credentialId,
+                    name: data.name,
+                  },
+                  ...fetchOptions,
+                }
+              );
+
+            if (updateData && updateData.success) {
+              // Keep the locally stored metadata in sync
+              try {
+                await updateCredentialMetadata(
+                  data.credentialId,
+                  { name: updateData.name },
+                  client.getOptions()
+                );
+              } catch (storageError) {
+                console.warn(
+                  "[ExpoPasskey] Failed to update credential name in local storage:",
+                  storageError
+                );
+                // Continue anyway since the server update succeeded
+              }
+
+              return { data: updateData, error: null };
+            }
+
+            throw toServerError(
+              updateError,
+              ERROR_CODES.SERVER.UPDATE_FAILED,
+              "Failed to rename passkey"
+            );
+          } catch (error) {
+            return {
+              data: null,
+              error: toActionError(error, { locale }),
             };
           }
         },
@@ -755,8 +1045,10 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
               );
 
             if (!passkeysData?.passkeys) {
-              throw (
-                passkeysError || new Error("Failed to retrieve passkey list")
+              throw toServerError(
+                passkeysError,
+                ERROR_CODES.SERVER.PASSKEYS_RETRIEVAL_FAILED,
+                "Failed to retrieve passkey list"
               );
             }
 
@@ -791,6 +1083,7 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
                     deviceName:
                       metadata.deviceName || metadata.deviceModel || undefined,
                     displayName: metadata.displayName || userId,
+                    name: passkey.name || undefined,
                     lastUsedAt: passkey.lastUsed,
                     registeredAt: passkey.createdAt,
                     // Mark as cross-platform if not created on this platform
@@ -819,7 +1112,7 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
               isRegistered: false,
               credentialIds: [],
               biometricSupport: null,
-              error: error instanceof Error ? error : new Error(String(error)),
+              error: toActionError(error, { locale }),
             };
           }
         },
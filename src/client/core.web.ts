@@ -8,6 +8,10 @@ import type {
   BetterFetchPlugin,
   ErrorContext,
 } from "@better-fetch/fetch";
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+} from "@simplewebauthn/types";
 import type { BetterAuthClientPlugin } from "better-auth/client";
 
 import type {
@@ -15,26 +19,39 @@ import type {
   AuthenticatePasskeyResult,
   ChallengeResponse,
   ChallengeResult,
+  DeletePasskeyResult,
+  DeletePasskeySuccessResponse,
   ExpoPasskeyClientOptions,
   ExpoPasskeyServerPlugin,
+  ListPasskeyEventsResult,
+  ListPasskeyEventsSuccessResponse,
   ListPasskeysResult,
   ListPasskeysSuccessResponse,
+  PasskeyEventType,
   PasskeyMetadata,
   PasskeyRegistrationCheckResult,
   RegisterPasskeyResult,
   RegisterPasskeySuccessResponse,
+  RegistrationOptionsResponse,
+  RegistrationOptionsResult,
   RevokePasskeyResult,
+  RevokePasskeysResult,
+  RevokePasskeysSuccessResponse,
+  UpdatePasskeyResult,
+  UpdatePasskeySuccessResponse,
 } from "../types";
 
 import { ERROR_CODES, PasskeyError } from "../types/errors";
+import { runCancelable, throwIfAborted, toActionError } from "./utils/abort";
+import { toServerError, toWebAuthnError } from "./utils/errors";
 
 // Web-specific imports - safe to import here since this file is web-only
 import {
   getWebAuthnBrowser,
-  createWebRegistrationOptions,
   createWebAuthenticationOptions,
   isWebAuthnSupportedInBrowser,
   isPlatformAuthenticatorAvailable,
+  isConditionalMediationAvailable,
 } from "./utils/web";
 
 /**
@@ -94,6 +111,7 @@ class ExpoPasskeyClient {
  */
 export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
   const client = new ExpoPasskeyClient(options);
+  const { locale } = options;
 
   return {
     id: "expo-passkey",
@@ -101,10 +119,15 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
 
     pathMethods: {
       "/expo-passkey/challenge": "POST",
+      "/expo-passkey/registration-options": "POST",
       "/expo-passkey/register": "POST",
       "/expo-passkey/authenticate": "POST",
       "/expo-passkey/list/:userId": "GET",
       "/expo-passkey/revoke": "POST",
+      "/expo-passkey/revoke-many": "POST",
+      "/expo-passkey/delete": "POST",
+      "/expo-passkey/update": "POST",
+      "/expo-passkey/events": "GET",
     },
 
     getActions: ($fetch) => {
@@ -122,6 +145,7 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
             };
             timeout?: number;
           };
+          timeout?: number;
         },
         fetchOptions?: BetterFetchOption
       ): Promise<ChallengeResult> => {
@@ -133,6 +157,7 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
                 ...(data.userId && { userId: data.userId }), // Only include if provided
                 type: data.type,
                 registrationOptions: data.registrationOptions,
+                ...(data.timeout && { timeout: data.timeout }),
               },
               ...fetchOptions,
             });
@@ -141,32 +166,115 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
             return { data: challengeData, error: null };
           }
 
-          throw challengeError
-            ? new Error(
-                challengeError.message ||
-                  `Failed to get challenge: ${challengeError.statusText}`
-              )
-            : new Error("Failed to get challenge");
+          throw toServerError(
+            challengeError,
+            ERROR_CODES.SERVER.CHALLENGE_GENERATION_FAILED,
+            "Failed to get challenge"
+          );
         } catch (error) {
           return {
             data: null,
-            error: error instanceof Error ? error : new Error(String(error)),
+            error: toActionError(error, { locale }),
           };
         }
       };
 
+      const getRegistrationOptions = async (
+        data: {
+          attestation?: "none" | "indirect" | "direct" | "enterprise";
+          authenticatorSelection?: {
+            authenticatorAttachment?: "platform" | "cross-platform";
+            residentKey?: "required" | "preferred" | "discouraged";
+            requireResidentKey?: boolean;
+            userVerification?: "required" | "preferred" | "discouraged";
+          };
+          timeout?: number;
+        } = {},
+        fetchOptions?: BetterFetchOption
+      ): Promise<RegistrationOptionsResult> => {
+        try {
+          const { data: optionsData, error: optionsError } =
+            await $fetch<RegistrationOptionsResponse>(
+              "/expo-passkey/registration-options",
+              {
+                method: "POST",
+                body: data,
+                ...fetchOptions,
+              }
+            );
+
+          if (optionsData) {
+            return { data: optionsData, error: null };
+          }
+
+          throw toServerError(
+            optionsError,
+            ERROR_CODES.SERVER.CHALLENGE_GENERATION_FAILED,
+            "Failed to get registration options"
+          );
+        } catch (error) {
+          return {
+            data: null,
+            error: toActionError(error, { locale }),
+          };
+        }
+      };
+
+      /**
+       * Sends an assertion to the server and returns the new session
+       */
+      const completeAuthentication = async (
+        credential: AuthenticationResponseJSON,
+        challengeId: string,
+        metadata: Partial<PasskeyMetadata> | undefined,
+        fetchOptions?: BetterFetchOption
+      ): Promise<AuthenticatePasskeyResult> => {
+        const { data: authData, error: authError } =
+          await $fetch<AuthPasskeySuccessResponse>(
+            "/expo-passkey/authenticate",
+            {
+              method: "POST",
+              body: {
+                credential,
+                challengeId,
+                metadata: {
+                  lastLocation: "web-app",
+                  appVersion: "1.0.0",
+                  ...metadata,
+                },
+              },
+              credentials: "include",
+              ...fetchOptions,
+            }
+          );
+
+        if (authData) {
+          return { data: authData, error: null };
+        }
+
+        throw toServerError(
+          authError,
+          ERROR_CODES.SERVER.AUTHENTICATION_FAILED,
+          "Authentication failed"
+        );
+      };
+
       return {
         getChallenge,
 
+        getRegistrationOptions,
+
         /**
          * Web-only passkey registration
          */
         registerPasskey: async (
           data: {
             userId: string;
-            userName: string;
+            userName?: string;
             displayName?: string;
+            /** @deprecated Ignored - the server supplies the relying party name */
             rpName?: string;
+            /** @deprecated Ignored - the server supplies the relying party ID */
             rpId?: string;
             attestation?: "none" | "indirect" | "direct" | "enterprise";
             authenticatorSelection?: {
@@ -177,10 +285,13 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
             };
             timeout?: number;
             metadata?: Partial<PasskeyMetadata>;
+            signal?: AbortSignal;
           },
           fetchOptions?: BetterFetchOption
         ): Promise<RegisterPasskeyResult> => {
           try {
+            throwIfAborted(data.signal);
+
             const isSupported = await client.isWebAuthnSupported();
             if (!isSupported) {
               throw new PasskeyError(
@@ -193,53 +304,43 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
             const webAuthn = getWebAuthnBrowser();
             // const deviceInfo = await client.getDeviceInformation();
 
-            // Prepare registration options to send to server
-            const registrationOptions = {
-              attestation: data.attestation,
-              authenticatorSelection: data.authenticatorSelection,
-              timeout: data.timeout || client.getOptions().timeout,
-            };
-
-            // Get challenge from server
-            // Note: userId is no longer sent to server for security - server gets it from session
-            const challengeResult = await getChallenge({
-              type: "registration",
-              registrationOptions,
-            });
+            // Get creation options from server
+            // Note: rp, user and excludeCredentials are decided by the server from the session
+            const optionsResult = await getRegistrationOptions(
+              {
+                attestation: data.attestation,
+                authenticatorSelection: data.authenticatorSelection,
+                timeout: data.timeout || client.getOptions().timeout,
+              },
+              { signal: data.signal, ...fetchOptions }
+            );
 
-            if (!challengeResult.data) {
+            if (!optionsResult.data) {
               throw (
-                challengeResult.error || new Error("Failed to get challenge")
+                optionsResult.error ||
+                new Error("Failed to get registration options")
               );
             }
 
-            // Create registration options for web
-            const webAuthnOptions = createWebRegistrationOptions(
-              challengeResult.data.challenge,
-              data.userId,
-              data.userName,
-              data.displayName || data.userName,
-              data.rpId ||
-                client.getOptions().rpId ||
-                (typeof window !== "undefined"
-                  ? window.location.hostname
-                  : "localhost"),
-              data.rpName || "App",
-              {
-                timeout: data.timeout || client.getOptions().timeout,
-                attestation: data.attestation || "none",
-                authenticatorSelection: data.authenticatorSelection || {
-                  authenticatorAttachment: "platform",
-                  userVerification: "preferred",
-                  residentKey: "preferred",
-                },
-              }
-            );
+            // The challenge ID is echoed back to the server, not handed to the browser
+            const { challengeId, ...creationOptions } = optionsResult.data;
 
             // Start registration with WebAuthn browser
-            const credential = await webAuthn.startRegistration({
-              optionsJSON: webAuthnOptions,
-            });
+            let credential;
+            try {
+              credential = await runCancelable(
+                () =>
+                  webAuthn.startRegistration({
+                    optionsJSON:
+                      creationOptions as unknown as PublicKeyCredentialCreationOptionsJSON,
+                  }),
+                () => webAuthn.WebAuthnAbortService.cancelCeremony(),
+                data.signal
+              );
+            } catch (registrationError) {
+              // e.g. a dismissed prompt, an excluded authenticator or a wrong rpId
+              throw toWebAuthnError(registrationError);
+            }
 
             // Register with server
             // Note: userId is no longer sent to server for security - server gets it from session
@@ -250,6 +351,7 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
                   method: "POST",
                   body: {
                     credential,
+                    challengeId,
                     platform: "web",
                     metadata: {
                       deviceName:
@@ -260,6 +362,7 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
                       ...data.metadata,
                     },
                   },
+                  signal: data.signal,
                   ...fetchOptions,
                 }
               );
@@ -268,11 +371,15 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
               return { data: registrationData, error: null };
             }
 
-            throw registrationError || new Error("Failed to register passkey");
+            throw toServerError(
+              registrationError,
+              ERROR_CODES.SERVER.REGISTRATION_FAILED,
+              "Failed to register passkey"
+            );
           } catch (error) {
             return {
               data: null,
-              error: error instanceof Error ? error : new Error(String(error)),
+              error: toActionError(error, { signal: data.signal, locale }),
             };
           }
         },
@@ -287,10 +394,15 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
             timeout?: number;
             userVerification?: "required" | "preferred" | "discouraged";
             metadata?: Partial<PasskeyMetadata>;
+            signal?: AbortSignal;
           },
           fetchOptions?: BetterFetchOption
         ): Promise<AuthenticatePasskeyResult> => {
+          const signal = data?.signal;
+
           try {
+            throwIfAborted(signal);
+
             const isSupported = await client.isWebAuthnSupported();
             if (!isSupported) {
               throw new PasskeyError(
@@ -305,10 +417,14 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
 
             // Get challenge
             const challengeUserId = data?.userId || "auto-discovery";
-            const challengeResult = await getChallenge({
-              userId: challengeUserId,
-              type: "authentication",
-            });
+            const challengeResult = await getChallenge(
+              {
+                userId: challengeUserId,
+                type: "authentication",
+                timeout: data?.timeout || client.getOptions().timeout,
+              },
+              { ...fetchOptions, signal }
+            );
 
             if (!challengeResult.data) {
               throw (
@@ -325,50 +441,128 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
                   ? window.location.hostname
                   : "localhost"),
               {
-                timeout: data?.timeout || client.getOptions().timeout,
+                // The server caps the timeout at the challenge lifetime
+                timeout:
+                  challengeResult.data.timeout ??
+                  (data?.timeout || client.getOptions().timeout),
                 userVerification: data?.userVerification || "preferred",
               }
             );
 
             // Start authentication with WebAuthn browser
-            const credential = await webAuthn.startAuthentication({
-              optionsJSON: authenticationOptions,
-            });
+            let credential: AuthenticationResponseJSON;
+            try {
+              credential = await runCancelable(
+                () =>
+                  webAuthn.startAuthentication({
+                    optionsJSON: authenticationOptions,
+                  }),
+                () => webAuthn.WebAuthnAbortService.cancelCeremony(),
+                signal
+              );
+            } catch (authenticationError) {
+              throw toWebAuthnError(authenticationError);
+            }
 
-            // Authenticate with server
-            const { data: authData, error: authError } =
-              await $fetch<AuthPasskeySuccessResponse>(
-                "/expo-passkey/authenticate",
-                {
-                  method: "POST",
-                  body: {
-                    credential,
-                    metadata: {
-                      lastLocation: "web-app",
-                      appVersion: "1.0.0",
-                      ...data?.metadata,
-                    },
-                  },
-                  credentials: "include",
-                  ...fetchOptions,
-                }
+            return await completeAuthentication(
+              credential,
+              challengeResult.data.challengeId,
+              data?.metadata,
+              { signal, ...fetchOptions }
+            );
+          } catch (error) {
+            return {
+              data: null,
+              error: toActionError(error, { signal, locale }),
+            };
+          }
+        },
+
+        /**
+         * Web-only passkey autofill (conditional UI). Resolves once the user
+         * picks a passkey from the browser's autofill suggestions on an input
+         * with `autocomplete="username webauthn"`. Abort `signal` when the user
+         * chooses another sign-in method.
+         */
+        authenticateWithPasskeyAutofill: async (
+          data?: {
+            rpId?: string;
+            timeout?: number;
+            metadata?: Partial<PasskeyMetadata>;
+            signal?: AbortSignal;
+          },
+          fetchOptions?: BetterFetchOption
+        ): Promise<AuthenticatePasskeyResult> => {
+          const signal = data?.signal;
+
+          try {
+            if (!(await isConditionalMediationAvailable())) {
+              throw new PasskeyError(
+                ERROR_CODES.WEBAUTHN.NOT_SUPPORTED,
+                "Passkey autofill is not supported in this browser"
               );
+            }
+            throwIfAborted(signal);
+
+            const webAuthn = getWebAuthnBrowser();
+
+            // Autofill offers every discoverable credential for the RP
+            const challengeResult = await getChallenge(
+              {
+                userId: "auto-discovery",
+                type: "authentication",
+                timeout: data?.timeout || client.getOptions().timeout,
+              },
+              { ...fetchOptions, signal }
+            );
 
-            if (authData) {
-              return { data: authData, error: null };
+            if (!challengeResult.data) {
+              throw (
+                challengeResult.error || new Error("Failed to get challenge")
+              );
             }
 
-            // Fix error handling to properly extract message
-            throw authError
-              ? new Error(
-                  authError.message ||
-                    `Authentication failed: ${authError.statusText}`
-                )
-              : new Error("Authentication failed");
+            const authenticationOptions = createWebAuthenticationOptions(
+              challengeResult.data.challenge,
+              data?.rpId ||
+                client.getOptions().rpId ||
+                (typeof window !== "undefined"
+                  ? window.location.hostname
+                  : "localhost"),
+              {
+                timeout:
+                  challengeResult.data.timeout ??
+                  (data?.timeout || client.getOptions().timeout),
+                userVerification: "preferred",
+              }
+            );
+
+            // The request stays pending until a passkey is picked or it is aborted
+            let credential: AuthenticationResponseJSON;
+            try {
+              credential = await runCancelable(
+                () =>
+                  webAuthn.startAuthentication({
+                    optionsJSON: authenticationOptions,
+                    useBrowserAutofill: true,
+                  }),
+                () => webAuthn.WebAuthnAbortService.cancelCeremony(),
+                signal
+              );
+            } catch (authenticationError) {
+              throw toWebAuthnError(authenticationError);
+            }
+
+            return await completeAuthentication(
+              credential,
+              challengeResult.data.challengeId,
+              data?.metadata,
+              { signal, ...fetchOptions }
+            );
           } catch (error) {
             return {
               data: null,
-              error: error instanceof Error ? error : new Error(String(error)),
+              error: toActionError(error, { signal, locale }),
             };
           }
         },
@@ -414,19 +608,71 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
               return { data: listData, error: null };
             }
 
-            throw listError
-              ? new Error(
-                  listError.message ||
-                    `Failed to retrieve passkeys: ${listError.statusText}`
-                )
-              : new Error("Failed to retrieve passkeys");
+            throw toServerError(
+              listError,
+              ERROR_CODES.SERVER.PASSKEYS_RETRIEVAL_FAILED,
+              "Failed to retrieve passkeys"
+            );
           } catch (error) {
             return {
               data: {
                 passkeys: [],
                 nextOffset: undefined,
               } as ListPasskeysSuccessResponse,
-              error: error instanceof Error ? error : new Error(String(error)),
+              error: toActionError(error, { locale }),
+            };
+          }
+        },
+
+        /**
+         * Page through the current user's passkey audit events, newest first
+         */
+        listPasskeyEvents: async (
+          data: {
+            limit?: number;
+            offset?: number;
+            credentialId?: string;
+            type?: PasskeyEventType;
+          } = {},
+          fetchOptions?: BetterFetchOption
+        ): Promise<ListPasskeyEventsResult> => {
+          try {
+            const { data: eventsData, error: eventsError } =
+              await $fetch<ListPasskeyEventsSuccessResponse>(
+                "/expo-passkey/events",
+                {
+                  method: "GET",
+                  credentials: "include",
+                  headers: {
+                    Accept: "application/json",
+                    ...(fetchOptions?.headers as Record<string, string>),
+                  },
+                  query: {
+                    limit: data.limit?.toString(),
+                    offset: data.offset?.toString(),
+                    credentialId: data.credentialId,
+                    type: data.type,
+                  },
+                  ...fetchOptions,
+                }
+              );
+
+            if (eventsData) {
+              return { data: eventsData, error: null };
+            }
+
+            throw toServerError(
+              eventsError,
+              ERROR_CODES.SERVER.EVENTS_RETRIEVAL_FAILED,
+              "Failed to retrieve passkey events"
+            );
+          } catch (error) {
+            return {
+              data: {
+                events: [],
+                nextOffset: undefined,
+              } as ListPasskeyEventsSuccessResponse,
+              error: toActionError(error, { locale }),
             };
           }
         },
@@ -458,16 +704,144 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
               return { data: revokeData, error: null };
             }
 
-            throw revokeError
-              ? new Error(
-                  revokeError.message ||
-                    `Failed to revoke passkey: ${revokeError.statusText}`
-                )
-              : new Error("Failed to revoke passkey");
+            throw toServerError(
+              revokeError,
+              ERROR_CODES.SERVER.REVOCATION_FAILED,
+              "Failed to revoke passkey"
+            );
+          } catch (error) {
+            return {
+              data: null,
+              error: toActionError(error, { locale }),
+            };
+          }
+        },
+
+        /**
+         * Revoke every passkey matching the given filters
+         */
+        revokePasskeys: async (
+          data: {
+            credentialIds?: string[];
+            platform?: string;
+            exceptCredentialId?: string;
+            reason?: string;
+            revokeSessions?: boolean;
+          },
+          fetchOptions?: BetterFetchOption
+        ): Promise<RevokePasskeysResult> => {
+          try {
+            const { data: revokeData, error: revokeError } =
+              await $fetch<RevokePasskeysSuccessResponse>(
+                "/expo-passkey/revoke-many",
+                {
+                  method: "POST",
+                  body: {
+                    credentialIds: data.credentialIds,
+                    platform: data.platform,
+                    exceptCredentialId: data.exceptCredentialId,
+                    reason: data.reason,
+                    revokeSessions: data.revokeSessions,
+                  },
+                  ...fetchOptions,
+                }
+              );
+
+            if (revokeData && revokeData.success) {
+              return { data: revokeData, error: null };
+            }
+
+            throw toServerError(
+              revokeError,
+              ERROR_CODES.SERVER.REVOCATION_FAILED,
+              "Failed to revoke passkeys"
+            );
+          } catch (error) {
+            return {
+              data: null,
+              error: toActionError(error, { locale }),
+            };
+          }
+        },
+
+        /**
+         * Permanently delete a passkey and/or all of the user's revoked passkeys
+         */
+        deletePasskey: async (
+          data: {
+            credentialId?: string;
+            purgeRevoked?: boolean;
+          },
+          fetchOptions?: BetterFetchOption
+        ): Promise<DeletePasskeyResult> => {
+          try {
+            const { data: deleteData, error: deleteError } =
+              await $fetch<DeletePasskeySuccessResponse>(
+                "/expo-passkey/delete",
+                {
+                  method: "POST",
+                  body: {
+                    credentialId: data.credentialId,
+                    purgeRevoked: data.purgeRevoked,
+                  },
+                  ...fetchOptions,
+                }
+              );
+
+            if (deleteData && deleteData.success) {
+              return { data: deleteData, error: null };
+            }
+
+            throw toServerError(
+              deleteError,
+              ERROR_CODES.SERVER.DELETION_FAILED,
+              "Failed to delete passkey"
+            );
+          } catch (error) {
+            return {
+              data: null,
+              error: toActionError(error, { locale }),
+            };
+          }
+        },
+
+        /**
+         * Set a user-chosen display name on a passkey
+         */
+        renamePasskey: async (
+          data: {
+            credentialId: string;
+            name: string;
+          },
+          fetchOptions?: BetterFetchOption
+        ): Promise<UpdatePasskeyResult> => {
+          try {
+            const { data: updateData, error: updateError } =
+              await $fetch<UpdatePasskeySuccessResponse>(
+                "/expo-passkey/update",
+                {
+                  method: "POST",
+                  body: {
+                    credentialId: data.credentialId,
+                    name: data.name,
+                  },
+                  ...fetchOptions,
+                }
+              );
+
+            if (updateData && updateData.success) {
+              return { data: updateData, error: null };
+            }
+
+            throw toServerError(
+              updateError,
+              ERROR_CODES.SERVER.UPDATE_FAILED,
+              "Failed to rename passkey"
+            );
           } catch (error) {
             return {
               data: null,
-              error: error instanceof Error ? error : new Error(String(error)),
+              error: toActionError(error, { locale }),
             };
           }
         },
@@ -506,12 +880,11 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
               );
 
             if (!passkeysData?.passkeys) {
-              throw passkeysError
-                ? new Error(
-                    passkeysError.message ||
-                      `Failed to retrieve passkey list: ${passkeysError.statusText}`
-                  )
-                : new Error("Failed to retrieve passkey list");
+              throw toServerError(
+                passkeysError,
+                ERROR_CODES.SERVER.PASSKEYS_RETRIEVAL_FAILED,
+                "Failed to retrieve passkey list"
+              );
             }
 
             const passkeys = passkeysData.passkeys;
@@ -530,7 +903,7 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
               isRegistered: false,
               credentialIds: [],
               biometricSupport: null,
-              error: error instanceof Error ? error : new Error(String(error)),
+              error: toActionError(error, { locale }),
             };
           }
         },
@@ -573,6 +946,10 @@ export const expoPasskeyClient = (options: ExpoPasskeyClientOptions = {}) => {
         isPlatformAuthenticatorAvailable: async () => {
           return isPlatformAuthenticatorAvailable();
         },
+
+        isConditionalMediationAvailable: async () => {
+          return isConditionalMediationAvailable();
+        },
       };
     },
 
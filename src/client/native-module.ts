@@ -12,6 +12,7 @@ import type {
   RegistrationPublicKeyCredential,
 } from "../types";
 import ExpoPasskeyModule from "../ExpoPasskeyModule";
+import { getWebAuthnErrorCode } from "./utils/errors";
 
 /**
  * Module-level cache for native passkey support check.
@@ -60,6 +61,12 @@ export async function createNativePasskey(
     const credentialJSON = await ExpoPasskeyModule.createPasskey(options);
     return JSON.parse(credentialJSON);
   } catch (error) {
+    // Failures the platform reported in a way we recognize, e.g. a cancelled sheet
+    const code = getWebAuthnErrorCode(error);
+    if (code) {
+      throw new PasskeyError(code);
+    }
+
     // Error message based on platform
     const platformHint =
       Platform.OS === "ios"
@@ -88,6 +95,11 @@ export async function authenticateWithNativePasskey(
       await ExpoPasskeyModule.authenticateWithPasskey(options);
     return JSON.parse(credentialJSON);
   } catch (error) {
+    const code = getWebAuthnErrorCode(error);
+    if (code) {
+      throw new PasskeyError(code);
+    }
+
     // Error message based on platform
     const platformHint =
       Platform.OS === "ios"
@@ -102,3 +114,15 @@ export async function authenticateWithNativePasskey(
     );
   }
 }
+
+/**
+ * Cancel the pending native passkey request, dismissing the system sheet.
+ * Does nothing when no request is pending.
+ */
+export async function cancelNativePasskeyRequest(): Promise<void> {
+  try {
+    await ExpoPasskeyModule.cancel();
+  } catch (error) {
+    console.warn("[ExpoPasskey] Failed to cancel passkey request:", error);
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * @file Abort utilities
+ * @module expo-passkey/client/utils/abort
+ */
+
+import { ERROR_CODES, PasskeyError } from "../../types/errors";
+import { localizeError } from "./errors";
+
+/**
+ * Throws a WEBAUTHN.CANCELED error when the signal has been aborted
+ */
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new PasskeyError(ERROR_CODES.WEBAUTHN.CANCELED);
+  }
+};
+
+/**
+ * Runs a WebAuthn ceremony that the signal can cancel.
+ * @param ceremony Starts the browser or native request
+ * @param cancel Dismisses the pending request when the signal aborts
+ * @param signal Signal passed by the caller
+ */
+export async function runCancelable<T>(
+  ceremony: () => Promise<T>,
+  cancel: () => void,
+  signal?: AbortSignal,
+): Promise<T> {
+  throwIfAborted(signal);
+
+  signal?.addEventListener("abort", cancel, { once: true });
+  try {
+    return await ceremony();
+  } catch (error) {
+    // Whatever the platform rejected with, the caller asked for the cancellation
+    throwIfAborted(signal);
+    throw error;
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+  }
+}
+
+/**
+ * Converts an error caught by a client action into the error it resolves with.
+ * Requests that fail after the signal was aborted resolve with WEBAUTHN.CANCELED.
+ * @param options.signal Signal passed by the caller
+ * @param options.locale Locale of the client the action belongs to
+ */
+export const toActionError = (
+  error: unknown,
+  options: { signal?: AbortSignal; locale?: string } = {},
+): Error => {
+  const { signal, locale } = options;
+  if (signal?.aborted) {
+    return new PasskeyError(ERROR_CODES.WEBAUTHN.CANCELED, undefined, {
+      locale,
+    });
+  }
+  return localizeError(
+    error instanceof Error ? error : new Error(String(error)),
+    locale,
+  );
+};
@@ -0,0 +1,187 @@
+/**
+ * @file Error utilities
+ * @module expo-passkey/client/utils/errors
+ */
+
+import {
+  ERROR_CODES,
+  getErrorMessage,
+  PasskeyError,
+} from "../../types/errors";
+
+/**
+ * Codes the iOS and Android modules reject with. iOS derives them from the
+ * exception class names in PasskeyExceptions.swift, Android sets them in
+ * PasskeyExceptions.kt from the Credential Manager exception types.
+ */
+const NATIVE_ERROR_CODES: Record<string, string> = {
+  ERR_USER_CANCELLED: ERROR_CODES.WEBAUTHN.CANCELED,
+  ERR_CANCELED: ERROR_CODES.WEBAUTHN.CANCELED,
+  ERR_NOT_ALLOWED: ERROR_CODES.WEBAUTHN.CANCELED,
+  ERR_TIMEOUT: ERROR_CODES.WEBAUTHN.TIMEOUT,
+  ERR_NO_CREDENTIAL: ERROR_CODES.WEBAUTHN.NO_CREDENTIAL,
+  ERR_CREDENTIAL_EXCLUDED: ERROR_CODES.WEBAUTHN.CREDENTIAL_EXCLUDED,
+  ERR_NOT_CONFIGURED: ERROR_CODES.WEBAUTHN.INVALID_RP_ID,
+  ERR_SECURITY: ERROR_CODES.WEBAUTHN.INVALID_RP_ID,
+  ERR_NOT_SUPPORTED: ERROR_CODES.WEBAUTHN.NOT_SUPPORTED,
+  ERR_BIOMETRIC: ERROR_CODES.BIOMETRIC.NOT_ENROLLED,
+  ERR_PENDING_PASSKEY_REQUEST: ERROR_CODES.WEBAUTHN.INVALID_STATE,
+  ERR_INVALID_STATE: ERROR_CODES.WEBAUTHN.INVALID_STATE,
+  ERR_INTERRUPTED: ERROR_CODES.WEBAUTHN.OPERATION_FAILED,
+  ERR_PASSKEY_REQUEST_FAILED: ERROR_CODES.WEBAUTHN.OPERATION_FAILED,
+  ERR_PASSKEY_AUTHORIZATION_FAILED: ERROR_CODES.WEBAUTHN.INVALID_RESPONSE,
+};
+
+/**
+ * Codes @simplewebauthn/browser sets on the WebAuthnError it rejects with.
+ * ERROR_PASSTHROUGH_SEE_CAUSE_PROPERTY is left out so the DOMException name decides.
+ */
+const BROWSER_ERROR_CODES: Record<string, string> = {
+  ERROR_CEREMONY_ABORTED: ERROR_CODES.WEBAUTHN.CANCELED,
+  ERROR_INVALID_DOMAIN: ERROR_CODES.WEBAUTHN.INVALID_RP_ID,
+  ERROR_INVALID_RP_ID: ERROR_CODES.WEBAUTHN.INVALID_RP_ID,
+  ERROR_AUTHENTICATOR_PREVIOUSLY_REGISTERED:
+    ERROR_CODES.WEBAUTHN.CREDENTIAL_EXCLUDED,
+  ERROR_AUTHENTICATOR_MISSING_DISCOVERABLE_CREDENTIAL_SUPPORT:
+    ERROR_CODES.WEBAUTHN.NOT_SUPPORTED,
+  ERROR_AUTHENTICATOR_MISSING_USER_VERIFICATION_SUPPORT:
+    ERROR_CODES.WEBAUTHN.NOT_SUPPORTED,
+  ERROR_AUTHENTICATOR_NO_SUPPORTED_PUBKEYCREDPARAMS_ALG:
+    ERROR_CODES.WEBAUTHN.NOT_SUPPORTED,
+  ERROR_AUTHENTICATOR_GENERAL_ERROR: ERROR_CODES.WEBAUTHN.OPERATION_FAILED,
+};
+
+/**
+ * DOMException names browsers reject navigator.credentials calls with.
+ * Browsers report a dismissed prompt, an elapsed timeout and a missing
+ * passkey alike as NotAllowedError, so it maps to CANCELED.
+ */
+const DOM_EXCEPTION_CODES: Record<string, string> = {
+  NotAllowedError: ERROR_CODES.WEBAUTHN.CANCELED,
+  AbortError: ERROR_CODES.WEBAUTHN.CANCELED,
+  TimeoutError: ERROR_CODES.WEBAUTHN.TIMEOUT,
+  InvalidStateError: ERROR_CODES.WEBAUTHN.INVALID_STATE,
+  SecurityError: ERROR_CODES.WEBAUTHN.INVALID_RP_ID,
+  NotSupportedError: ERROR_CODES.WEBAUTHN.NOT_SUPPORTED,
+  ConstraintError: ERROR_CODES.WEBAUTHN.NOT_SUPPORTED,
+  UnknownError: ERROR_CODES.WEBAUTHN.OPERATION_FAILED,
+};
+
+/**
+ * Classifies a native module or browser WebAuthn failure
+ * @returns The matching client error code, or null when the failure is not recognized
+ */
+export const getWebAuthnErrorCode = (error: unknown): string | null => {
+  if (error instanceof PasskeyError) {
+    return error.code;
+  }
+
+  const { code, name } = (error ?? {}) as { code?: unknown; name?: unknown };
+  if (typeof code === "string") {
+    const mapped = NATIVE_ERROR_CODES[code] ?? BROWSER_ERROR_CODES[code];
+    if (mapped) {
+      return mapped;
+    }
+  }
+  if (typeof name === "string" && DOM_EXCEPTION_CODES[name]) {
+    return DOM_EXCEPTION_CODES[name];
+  }
+  return null;
+};
+
+/**
+ * Converts a browser WebAuthn failure into a PasskeyError. Recognized
+ * failures get the message of their code, others keep their own message.
+ * @param fallbackCode Code used for failures that are not recognized
+ */
+export const toWebAuthnError = (
+  error: unknown,
+  fallbackCode: string = ERROR_CODES.WEBAUTHN.OPERATION_FAILED,
+): PasskeyError => {
+  if (error instanceof PasskeyError) {
+    return error;
+  }
+
+  const code = getWebAuthnErrorCode(error);
+  if (code) {
+    return new PasskeyError(code);
+  }
+  return new PasskeyError(
+    fallbackCode,
+    error instanceof Error ? error.message : undefined,
+  );
+};
+
+/**
+ * Error better-fetch returns when the server rejects a request
+ */
+interface ServerErrorResponse {
+  code?: string;
+  message?: string;
+  status?: number;
+  statusText?: string;
+}
+
+/**
+ * Converts the error of a failed server request into a PasskeyError carrying
+ * the server's code and HTTP status
+ * @param fallbackCode Code used when the response has none
+ * @param failureMessage Message used when the response has none
+ */
+export const toServerError = (
+  error: unknown,
+  fallbackCode: string,
+  failureMessage: string,
+): PasskeyError => {
+  if (error instanceof PasskeyError) {
+    return error;
+  }
+
+  const { code, message, status, statusText } = (error ??
+    {}) as ServerErrorResponse;
+
+  if (isExpiredChallengeError(error)) {
+    return new PasskeyError(ERROR_CODES.WEBAUTHN.CHALLENGE_EXPIRED, undefined, {
+      status,
+    });
+  }
+
+  return new PasskeyError(
+    typeof code === "string" ? code : fallbackCode,
+    message ||
+      (statusText ? `${failureMessage}: ${statusText}` : failureMessage),
+    { status },
+  );
+};
+
+/**
+ * Checks whether a server error reports an expired challenge.
+ * The comparison ignores case, as some releases sent the code in lower case.
+ */
+export const isExpiredChallengeError = (error: unknown): boolean => {
+  const code = (error as { code?: unknown } | null)?.code;
+  return (
+    typeof code === "string" &&
+    code.toUpperCase() === ERROR_CODES.SERVER.EXPIRED_CHALLENGE
+  );
+};
+
+/**
+ * Translates the message of a PasskeyError into the given locale. Errors
+ * whose message is not the default one of their code, such as a message
+ * sent by the server, are returned unchanged.
+ */
+export const localizeError = (error: Error, locale?: string): Error => {
+  if (
+    !locale ||
+    !(error instanceof PasskeyError) ||
+    error.message !== getErrorMessage(error.code)
+  ) {
+    return error;
+  }
+  return new PasskeyError(error.code, undefined, {
+    status: error.status,
+    retryable: error.retryable,
+    locale,
+  });
+};
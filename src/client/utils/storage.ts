@@ -17,9 +17,12 @@ export interface CredentialMetadata {
   lastUsedAt: string;
   deviceName?: string;
   displayName?: string;
+  name?: string; // User-chosen passkey name, kept in sync with the server
+
   crossPlatform?: boolean; // Whether this credential was created on a different platform
   originalPlatform?: string; // Platform where credential was originally created
   createdOnThisDevice?: boolean; // Whether this credential was created on THIS specific device
+  transports?: string[]; // Transports the authenticator reported at registration
 }
 
 // Helper function to get modules only when needed
@@ -205,6 +208,53 @@ export async function updateCredentialLastUsed(
   }
 }
 
+/**
+ * Merges updated metadata into a stored credential
+ * @param credentialId The credential ID to update
+ * @param updates Metadata fields to overwrite
+ * @param options Client options with optional storage prefix
+ * @returns Promise resolving when credential is updated
+ */
+export async function updateCredentialMetadata(
+  credentialId: string,
+  updates: Partial<Omit<CredentialMetadata, "credentialId" | "userId">>,
+  options: ExpoPasskeyClientOptions = {},
+): Promise<void> {
+  try {
+    const { SecureStore } = getModules();
+    const KEYS = getStorageKeys(options);
+
+    // Get existing credential IDs
+    const existingIdsStr = await SecureStore.getItemAsync(KEYS.CREDENTIAL_IDS);
+    if (!existingIdsStr) {
+      return;
+    }
+
+    let credentials: Record<string, CredentialMetadata> = {};
+    try {
+      credentials = JSON.parse(existingIdsStr);
+    } catch (e) {
+      console.warn("[ExpoPasskey] Failed to parse stored credential IDs:", e);
+      return;
+    }
+
+    // Credentials created on other devices are not tracked locally
+    if (!credentials[credentialId]) {
+      return;
+    }
+
+    credentials[credentialId] = { ...credentials[credentialId], ...updates };
+
+    await SecureStore.setItemAsync(
+      KEYS.CREDENTIAL_IDS,
+      JSON.stringify(credentials),
+    );
+  } catch (error) {
+    console.error("[ExpoPasskey] Error updating credential metadata:", error);
+    throw error;
+  }
+}
+
 /**
  * Removes a credential ID from storage
  * @param credentialId The credential ID to remove
@@ -5,15 +5,11 @@
 
 // Type imports
 import type {
-  AuthenticatorSelectionCriteria,
   PublicKeyCredentialType,
-  AttestationConveyancePreference,
   UserVerificationRequirement,
-  COSEAlgorithmIdentifier,
 } from "../../types";
 
 import type {
-  PublicKeyCredentialCreationOptionsJSON,
   PublicKeyCredentialRequestOptionsJSON,
   AuthenticatorTransportFuture,
   Base64URLString,
@@ -112,57 +108,15 @@ function toBase64URLString(str: string): Base64URLString {
 }
 
 /**
- * Create registration options for web (SimpleWebAuthn JSON format)
+ * Transports hint for a credential descriptor. When the credential's
+ * transports are unknown the hint is omitted so the browser offers all of them.
  */
-export function createWebRegistrationOptions(
-  challenge: string,
-  userId: string,
-  userName: string,
-  displayName: string,
-  rpId: string,
-  rpName: string,
-  options?: {
-    timeout?: number;
-    attestation?: AttestationConveyancePreference;
-    authenticatorSelection?: AuthenticatorSelectionCriteria;
-    excludeCredentials?: Array<{ id: string; type: "public-key" }>;
-  },
-): PublicKeyCredentialCreationOptionsJSON {
-  return {
-    rp: {
-      id: rpId,
-      name: rpName,
-    },
-    user: {
-      id: toBase64URLString(userId),
-      name: userName,
-      displayName: displayName,
-    },
-    challenge: toBase64URLString(challenge),
-    pubKeyCredParams: [
-      {
-        type: "public-key" as PublicKeyCredentialType,
-        alg: -7 as COSEAlgorithmIdentifier, // ES256
-      },
-      {
-        type: "public-key" as PublicKeyCredentialType,
-        alg: -257 as COSEAlgorithmIdentifier, // RS256
-      },
-    ],
-    timeout: options?.timeout ?? 60000,
-    authenticatorSelection: options?.authenticatorSelection ?? {
-      authenticatorAttachment: "platform",
-      userVerification: "preferred",
-      residentKey: "preferred",
-    },
-    attestation: options?.attestation ?? "none",
-    excludeCredentials:
-      options?.excludeCredentials?.map((cred) => ({
-        id: toBase64URLString(cred.id),
-        type: cred.type as PublicKeyCredentialType,
-        transports: ["internal"] as AuthenticatorTransportFuture[],
-      })) ?? [],
-  };
+function toTransportsHint(
+  transports?: string[],
+): { transports?: AuthenticatorTransportFuture[] } {
+  return transports && transports.length > 0
+    ? { transports: transports as AuthenticatorTransportFuture[] }
+    : {};
 }
 
 /**
@@ -174,7 +128,11 @@ export function createWebAuthenticationOptions(
   options?: {
     timeout?: number;
     userVerification?: UserVerificationRequirement;
-    allowCredentials?: Array<{ id: string; type: "public-key" }>;
+    allowCredentials?: Array<{
+      id: string;
+      type: "public-key";
+      transports?: string[];
+    }>;
   },
 ): PublicKeyCredentialRequestOptionsJSON {
   return {
@@ -186,7 +144,7 @@ export function createWebAuthenticationOptions(
       options?.allowCredentials?.map((cred) => ({
         id: toBase64URLString(cred.id),
         type: cred.type as PublicKeyCredentialType,
-        transports: ["internal", "hybrid"] as AuthenticatorTransportFuture[],
+        ...toTransportsHint(cred.transports),
       })) ?? [],
   };
 }
@@ -217,6 +175,24 @@ export async function isPlatformAuthenticatorAvailable(): Promise<boolean> {
   }
 }
 
+/**
+ * Check if the browser can offer passkeys in autofill suggestions (conditional mediation)
+ */
+export async function isConditionalMediationAvailable(): Promise<boolean> {
+  if (!isWebAuthnSupportedInBrowser()) {
+    return false;
+  }
+
+  try {
+    // Older browsers do not implement the method at all
+    return (
+      (await PublicKeyCredential.isConditionalMediationAvailable?.()) ?? false
+    );
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Browser-specific error messages
  */
@@ -5,8 +5,6 @@
 
 import { Platform } from "react-native";
 import type {
-  AuthenticatorSelectionCriteria,
-  PublicKeyCredentialCreationOptions,
   PublicKeyCredentialRequestOptions,
   WebAuthnSupportInfo,
 } from "../../types";
@@ -83,62 +81,11 @@ export function checkWebAuthnSupport(): WebAuthnSupportInfo {
 }
 
 /**
- * Create registration options for WebAuthn
+ * Transports hint for a credential descriptor. When the credential's
+ * transports are unknown the hint is omitted so the platform tries all of them.
  */
-export function createRegistrationOptions(
-  challenge: string,
-  userId: string,
-  userName: string,
-  displayName: string,
-  rpId: string,
-  rpName: string,
-  options?: {
-    timeout?: number;
-    attestation?: "none" | "indirect" | "direct" | "enterprise";
-    authenticatorSelection?: AuthenticatorSelectionCriteria;
-    excludeCredentials?: Array<{ id: string; type: "public-key" }>;
-  }
-): PublicKeyCredentialCreationOptions {
-  // Convert userId to a byte array, then to base64url
-  const userIdBuffer = new TextEncoder().encode(userId);
-  const userIdBase64 = bufferToBase64url(userIdBuffer.buffer);
-
-  // Default authenticator selection to require platform authenticator (biometric)
-  const defaultAuthenticatorSelection: AuthenticatorSelectionCriteria = {
-    authenticatorAttachment: "platform",
-    userVerification: "required",
-    residentKey: "required",
-  };
-
-  // Create options
-  return {
-    rp: {
-      id: rpId,
-      name: rpName,
-    },
-    user: {
-      id: userIdBase64,
-      name: userName,
-      displayName: displayName,
-    },
-    challenge,
-    pubKeyCredParams: [
-      // ES256 (Elliptic Curve P-256 with SHA-256)
-      { type: "public-key", alg: -7 },
-      // RS256 (RSASSA-PKCS1-v1_5 using SHA-256)
-      { type: "public-key", alg: -257 },
-    ],
-    timeout: options?.timeout ?? 60000, // 1 minute
-    authenticatorSelection:
-      options?.authenticatorSelection ?? defaultAuthenticatorSelection,
-    attestation: options?.attestation ?? "none",
-    excludeCredentials:
-      options?.excludeCredentials?.map((cred) => ({
-        type: "public-key",
-        id: cred.id,
-        transports: ["internal"],
-      })) ?? [],
-  };
+function toTransportsHint(transports?: string[]): { transports?: string[] } {
+  return transports && transports.length > 0 ? { transports } : {};
 }
 
 /**
@@ -150,7 +97,11 @@ export function createAuthenticationOptions(
   options?: {
     timeout?: number;
     userVerification?: "required" | "preferred" | "discouraged";
-    allowCredentials?: Array<{ id: string; type: "public-key" }>;
+    allowCredentials?: Array<{
+      id: string;
+      type: "public-key";
+      transports?: string[];
+    }>;
   }
 ): PublicKeyCredentialRequestOptions {
   return {
@@ -163,7 +114,7 @@ export function createAuthenticationOptions(
           allowCredentials: options.allowCredentials.map((cred) => ({
             type: "public-key",
             id: cred.id,
-            transports: ["internal"],
+            ...toTransportsHint(cred.transports),
           })),
         }
       : {}),
@@ -12,7 +12,13 @@ export default ExpoPasskeyModule;
 export * from "./ExpoPasskeyModule.types";
 
 // Client exports only
-export { ERROR_CODES, PasskeyError } from "./types/errors";
+export {
+  ERROR_CODES,
+  PasskeyError,
+  getErrorMessage,
+  registerErrorMessages,
+} from "./types/errors";
+export type { ErrorMessageBundle } from "./types/errors";
 export { expoPasskeyClient } from "./client/index.native";
 
 // Re-export client-side types
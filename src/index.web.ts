@@ -17,18 +17,34 @@ export type {
 export type {
   ExpoPasskeyClientOptions,
   ChallengeResponse,
+  RegistrationOptionsResponse,
   RegisterPasskeySuccessResponse,
   AuthPasskeySuccessResponse,
   ListPasskeysSuccessResponse,
   ChallengeResult,
+  RegistrationOptionsResult,
   RegisterPasskeyResult,
   AuthenticatePasskeyResult,
   ListPasskeysResult,
+  ListPasskeyEventsSuccessResponse,
+  ListPasskeyEventsResult,
   RevokePasskeyResult,
+  RevokePasskeysSuccessResponse,
+  RevokePasskeysResult,
+  DeletePasskeySuccessResponse,
+  DeletePasskeyResult,
+  UpdatePasskeySuccessResponse,
+  UpdatePasskeyResult,
   PasskeyRegistrationCheckResult,
 } from "./types/client";
 
-export { ERROR_CODES, PasskeyError } from "./types/errors";
+export {
+  ERROR_CODES,
+  PasskeyError,
+  getErrorMessage,
+  registerErrorMessages,
+} from "./types/errors";
+export type { ErrorMessageBundle } from "./types/errors";
 
 // Web-specific re-exports
 export type {
@@ -42,5 +58,6 @@ export type {
 export {
   isWebAuthnSupportedInBrowser,
   isPlatformAuthenticatorAvailable,
+  isConditionalMediationAvailable,
   WEB_ERROR_MESSAGES,
 } from "./client/utils/web";
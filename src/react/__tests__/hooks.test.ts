@@ -0,0 +1,355 @@
+/**
+ * @file Tests for the React hooks
+ * @module expo-passkey/react/hooks.test
+ */
+
+import { createElement } from "react";
+import { act, create, type ReactTestRenderer } from "react-test-renderer";
+
+import type { ListPasskeysSuccessResponse } from "../../types/client";
+import { ERROR_CODES, PasskeyError } from "../../types/errors";
+import {
+  type PasskeyState,
+  usePasskeyMutation,
+  usePasskeys,
+  usePasskeySupport,
+  useRegisterPasskey,
+} from "../index";
+
+// Lets act() flush effects and state updates outside a browser test runner
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT =
+  true;
+
+/**
+ * Renders a hook in a component and records the value of every render
+ */
+function renderHook<T>(hook: () => T) {
+  const renders: T[] = [];
+  const Probe = () => {
+    renders.push(hook());
+    return null;
+  };
+
+  let renderer!: ReactTestRenderer;
+  act(() => {
+    renderer = create(createElement(Probe));
+  });
+
+  return {
+    renders,
+    current: () => renders[renders.length - 1],
+    unmount: () => act(() => renderer.unmount()),
+  };
+}
+
+/**
+ * Promise resolved from the test
+ */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+/**
+ * Lets pending promise callbacks run inside act()
+ */
+const flush = () => act(async () => {});
+
+const passkey = (
+  id: string
+): ListPasskeysSuccessResponse["passkeys"][number] => ({
+  id,
+  userId: "user-123",
+  credentialId: `credential-${id}`,
+  platform: "ios",
+  lastUsed: "2026-01-01T00:00:00.000Z",
+  status: "active",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  metadata: {},
+});
+
+describe("usePasskeys", () => {
+  const createClient = () => ({
+    listPasskeys: jest.fn(),
+    isPasskeySupported: jest.fn().mockResolvedValue(true),
+  });
+
+  it("should load the first page", async () => {
+    const client = createClient();
+    client.listPasskeys.mockResolvedValue({
+      data: { passkeys: [passkey("a"), passkey("b")], nextOffset: 2 },
+      error: null,
+    });
+
+    const hook = renderHook(() =>
+      usePasskeys(client, { userId: "user-123", limit: 2 })
+    );
+    expect(hook.current().loading).toBe(true);
+
+    await flush();
+
+    expect(client.listPasskeys).toHaveBeenCalledWith({
+      userId: "user-123",
+      limit: 2,
+      offset: 0,
+    });
+    expect(hook.current()).toMatchObject({
+      loading: false,
+      error: null,
+      isSupported: true,
+      hasMore: true,
+    });
+    expect(hook.current().passkeys.map(({ id }) => id)).toEqual(["a", "b"]);
+  });
+
+  it("should append the next page with loadMore", async () => {
+    const client = createClient();
+    client.listPasskeys
+      .mockResolvedValueOnce({
+        data: { passkeys: [passkey("a"), passkey("b")], nextOffset: 2 },
+        error: null,
+      })
+      .mockResolvedValueOnce({
+        data: { passkeys: [passkey("c")], nextOffset: null },
+        error: null,
+      });
+
+    const hook = renderHook(() =>
+      usePasskeys(client, { userId: "user-123", limit: 2 })
+    );
+    await flush();
+
+    await act(() => hook.current().loadMore());
+
+    expect(client.listPasskeys).toHaveBeenLastCalledWith({
+      userId: "user-123",
+      limit: 2,
+      offset: 2,
+    });
+    expect(hook.current().passkeys.map(({ id }) => id)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+    expect(hook.current().hasMore).toBe(false);
+  });
+
+  it("should expose the error of a failed request", async () => {
+    const client = createClient();
+    const error = new PasskeyError(ERROR_CODES.SERVER.SESSION_REQUIRED);
+    client.listPasskeys.mockResolvedValue({
+      data: { passkeys: [], nextOffset: undefined },
+      error,
+    });
+
+    const hook = renderHook(() => usePasskeys(client, { userId: "user-123" }));
+    await flush();
+
+    // The list state is the shared PasskeyState, with Error instances
+    const state: PasskeyState<
+      ListPasskeysSuccessResponse["passkeys"][number],
+      Error
+    > = hook.current();
+    expect(state).toMatchObject({ loading: false, error });
+    expect(state.passkeys).toEqual([]);
+  });
+
+  it("should not load anything without a user", async () => {
+    const client = createClient();
+
+    const hook = renderHook(() => usePasskeys(client, { userId: null }));
+    await flush();
+
+    expect(client.listPasskeys).not.toHaveBeenCalled();
+    expect(hook.current()).toMatchObject({ loading: false, passkeys: [] });
+  });
+
+  it("should show a registered passkey after refresh", async () => {
+    const client = {
+      ...createClient(),
+      registerPasskey: jest.fn().mockResolvedValue({
+        data: { success: true, rpName: "Example", rpId: "example.com" },
+        error: null,
+      }),
+    };
+    client.listPasskeys
+      .mockResolvedValueOnce({
+        data: { passkeys: [passkey("a")] },
+        error: null,
+      })
+      .mockResolvedValueOnce({
+        data: { passkeys: [passkey("a"), passkey("b")] },
+        error: null,
+      });
+
+    const hook = renderHook(() => ({
+      list: usePasskeys(client, { userId: "user-123" }),
+      register: useRegisterPasskey(client),
+    }));
+    await flush();
+
+    await act(async () => {
+      const { error } = await hook
+        .current()
+        .register.mutate({ userId: "user-123" });
+      if (!error) {
+        await hook.current().list.refresh();
+      }
+    });
+
+    expect(client.listPasskeys).toHaveBeenCalledTimes(2);
+    expect(hook.current().list.passkeys.map(({ id }) => id)).toEqual([
+      "a",
+      "b",
+    ]);
+  });
+
+  it("should drop a response that arrives after unmount", async () => {
+    const client = createClient();
+    const response = deferred<unknown>();
+    client.listPasskeys.mockReturnValue(response.promise);
+
+    const hook = renderHook(() => usePasskeys(client, { userId: "user-123" }));
+    await flush();
+    const renderCount = hook.renders.length;
+
+    hook.unmount();
+    await act(async () => {
+      response.resolve({ data: { passkeys: [passkey("a")] }, error: null });
+    });
+
+    expect(hook.renders).toHaveLength(renderCount);
+    expect(hook.current().passkeys).toEqual([]);
+  });
+});
+
+describe("usePasskeyMutation", () => {
+  it("should track loading and data of a call", async () => {
+    const response = deferred<{ data: string | null; error: Error | null }>();
+    const action = jest.fn().mockReturnValue(response.promise);
+
+    const hook = renderHook(() => usePasskeyMutation(action));
+    expect(hook.current()).toMatchObject({
+      loading: false,
+      data: null,
+      error: null,
+    });
+
+    let pending!: Promise<unknown>;
+    act(() => {
+      pending = hook.current().mutate("variables");
+    });
+    expect(hook.current().loading).toBe(true);
+
+    await act(async () => {
+      response.resolve({ data: "done", error: null });
+      await pending;
+    });
+
+    expect(action).toHaveBeenCalledWith("variables");
+    expect(hook.current()).toMatchObject({
+      loading: false,
+      data: "done",
+      error: null,
+    });
+  });
+
+  it("should resolve with thrown errors instead of rejecting", async () => {
+    const hook = renderHook(() =>
+      usePasskeyMutation(jest.fn().mockRejectedValue(new Error("boom")))
+    );
+
+    let result: unknown;
+    await act(async () => {
+      result = await hook.current().mutate(undefined);
+    });
+
+    expect(result).toEqual({ data: null, error: new Error("boom") });
+    expect(hook.current().error).toEqual(new Error("boom"));
+    expect(hook.current().loading).toBe(false);
+  });
+
+  it("should ignore a pending call after reset", async () => {
+    const response = deferred<{ data: string | null; error: Error | null }>();
+    const hook = renderHook(() =>
+      usePasskeyMutation(jest.fn().mockReturnValue(response.promise))
+    );
+
+    let pending!: Promise<unknown>;
+    act(() => {
+      pending = hook.current().mutate("variables");
+    });
+    act(() => {
+      hook.current().reset();
+    });
+    await act(async () => {
+      response.resolve({ data: "late", error: null });
+      await pending;
+    });
+
+    expect(hook.current()).toMatchObject({ loading: false, data: null });
+  });
+
+  it("should not update state after unmount", async () => {
+    const response = deferred<{ data: string | null; error: Error | null }>();
+    const hook = renderHook(() =>
+      usePasskeyMutation(jest.fn().mockReturnValue(response.promise))
+    );
+
+    let pending!: Promise<unknown>;
+    act(() => {
+      pending = hook.current().mutate("variables");
+    });
+    const renderCount = hook.renders.length;
+
+    hook.unmount();
+    await act(async () => {
+      response.resolve({ data: "late", error: null });
+      await pending;
+    });
+
+    expect(hook.renders).toHaveLength(renderCount);
+  });
+});
+
+describe("usePasskeySupport", () => {
+  it("should combine passkey and biometric support", async () => {
+    const biometricInfo = { isSupported: true, isEnrolled: true };
+    const client = {
+      isPasskeySupported: jest.fn().mockResolvedValue(true),
+      getBiometricInfo: jest.fn().mockResolvedValue(biometricInfo),
+    };
+
+    const hook = renderHook(() => usePasskeySupport(client));
+    expect(hook.current().loading).toBe(true);
+
+    await flush();
+
+    expect(hook.current()).toMatchObject({
+      isSupported: true,
+      biometricInfo,
+      loading: false,
+      error: null,
+    });
+  });
+
+  it("should report a failed check as unsupported", async () => {
+    const client = {
+      isPasskeySupported: jest.fn().mockRejectedValue(new Error("boom")),
+      getBiometricInfo: jest.fn().mockResolvedValue(null),
+    };
+
+    const hook = renderHook(() => usePasskeySupport(client));
+    await flush();
+
+    expect(hook.current()).toMatchObject({
+      isSupported: false,
+      loading: false,
+      error: new Error("boom"),
+    });
+  });
+});
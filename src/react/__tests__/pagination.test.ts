@@ -0,0 +1,66 @@
+/**
+ * @file Tests for pagination utilities
+ * @module expo-passkey/react/utils/pagination.test
+ */
+
+import type { ListPasskeysSuccessResponse } from "../../types/client";
+import { getNextOffset, mergePasskeyPage } from "../utils/pagination";
+
+/**
+ * Builds a passkey as returned by listPasskeys
+ */
+const passkey = (
+  id: string
+): ListPasskeysSuccessResponse["passkeys"][number] => ({
+  id,
+  userId: "user-123",
+  credentialId: `credential-${id}`,
+  platform: "ios",
+  lastUsed: "2026-01-01T00:00:00.000Z",
+  status: "active",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  metadata: {},
+});
+
+describe("mergePasskeyPage", () => {
+  it("should replace the list with the first page", () => {
+    const page = [passkey("c")];
+
+    expect(mergePasskeyPage([passkey("a"), passkey("b")], page, 0)).toBe(page);
+  });
+
+  it("should append later pages", () => {
+    const merged = mergePasskeyPage(
+      [passkey("a"), passkey("b")],
+      [passkey("c"), passkey("d")],
+      2
+    );
+
+    expect(merged.map(({ id }) => id)).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("should skip passkeys that are already loaded", () => {
+    // A passkey registered meanwhile shifted "b" onto the next page
+    const merged = mergePasskeyPage(
+      [passkey("a"), passkey("b")],
+      [passkey("b"), passkey("c")],
+      2
+    );
+
+    expect(merged.map(({ id }) => id)).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("getNextOffset", () => {
+  it("should read the offset of the next page", () => {
+    expect(getNextOffset({ nextOffset: 20 })).toBe(20);
+  });
+
+  it("should report the last page as undefined", () => {
+    expect(getNextOffset({})).toBeUndefined();
+    expect(
+      getNextOffset({ nextOffset: null } as unknown as { nextOffset?: number })
+    ).toBeUndefined();
+  });
+});
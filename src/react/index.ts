@@ -0,0 +1,26 @@
+/**
+ * @file React entry point for Expo Passkey
+ * @description Hooks built on the client actions, usable with the native and web clients
+ * @module expo-passkey/react
+ */
+
+export { usePasskeys } from "./use-passkeys";
+export {
+  useAuthenticateWithPasskey,
+  usePasskeyMutation,
+  useRegisterPasskey,
+  useRevokePasskey,
+} from "./use-passkey-mutation";
+export { usePasskeySupport } from "./use-passkey-support";
+
+export type {
+  PasskeyActionResult,
+  PasskeyListClient,
+  PasskeyMutation,
+  PasskeyMutationState,
+  PasskeySupportClient,
+  UsePasskeySupportResult,
+  UsePasskeysOptions,
+  UsePasskeysResult,
+} from "../types/react";
+export type { PasskeyState } from "../types/passkey";
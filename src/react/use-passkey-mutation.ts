@@ -0,0 +1,101 @@
+/**
+ * @file Mutation hooks
+ * @module expo-passkey/react/use-passkey-mutation
+ */
+
+import { useCallback, useRef, useState } from "react";
+
+import { toActionError } from "../client/utils/abort";
+import type {
+  AuthenticatePasskeyResult,
+  AuthPasskeySuccessResponse,
+  RegisterPasskeyResult,
+  RegisterPasskeySuccessResponse,
+  RevokePasskeyResult,
+} from "../types/client";
+import type {
+  PasskeyActionResult,
+  PasskeyMutation,
+  PasskeyMutationState,
+} from "../types/react";
+import { useMountedRef } from "./utils/mounted";
+
+const IDLE = { data: null, error: null, loading: false };
+
+/**
+ * Tracks the loading, data and error state of a client action.
+ * Only the latest call updates the state.
+ * @param action Client action to call, e.g. `authClient.registerPasskey`
+ */
+export function usePasskeyMutation<TVariables, TData>(
+  action: (variables: TVariables) => Promise<PasskeyActionResult<TData>>
+): PasskeyMutation<TVariables, TData> {
+  const [state, setState] = useState<PasskeyMutationState<TData>>(IDLE);
+  const mounted = useMountedRef();
+  const latestCall = useRef(0);
+
+  // The latest action is called, so callers may pass an inline function
+  const actionRef = useRef(action);
+  actionRef.current = action;
+
+  const mutate = useCallback(
+    async (variables?: TVariables): Promise<PasskeyActionResult<TData>> => {
+      const call = ++latestCall.current;
+      setState((current) => ({ ...current, loading: true, error: null }));
+
+      let result: PasskeyActionResult<TData>;
+      try {
+        result = await actionRef.current(variables as TVariables);
+      } catch (error) {
+        result = { data: null, error: toActionError(error) };
+      }
+
+      if (mounted.current && call === latestCall.current) {
+        setState({ data: result.data, error: result.error, loading: false });
+      }
+      return result;
+    },
+    [mounted]
+  );
+
+  const reset = useCallback(() => {
+    latestCall.current++;
+    setState(IDLE);
+  }, []);
+
+  return { ...state, mutate, reset };
+}
+
+/**
+ * Registers a passkey for the signed-in user
+ * @param client Auth client created with expoPasskeyClient
+ */
+export function useRegisterPasskey<TVariables>(client: {
+  registerPasskey: (data: TVariables) => Promise<RegisterPasskeyResult>;
+}): PasskeyMutation<TVariables, RegisterPasskeySuccessResponse> {
+  return usePasskeyMutation((data: TVariables) => client.registerPasskey(data));
+}
+
+/**
+ * Signs in with a passkey
+ * @param client Auth client created with expoPasskeyClient
+ */
+export function useAuthenticateWithPasskey<TVariables>(client: {
+  authenticateWithPasskey: (
+    data: TVariables
+  ) => Promise<AuthenticatePasskeyResult>;
+}): PasskeyMutation<TVariables, AuthPasskeySuccessResponse> {
+  return usePasskeyMutation((data: TVariables) =>
+    client.authenticateWithPasskey(data)
+  );
+}
+
+/**
+ * Revokes one of the signed-in user's passkeys
+ * @param client Auth client created with expoPasskeyClient
+ */
+export function useRevokePasskey<TVariables>(client: {
+  revokePasskey: (data: TVariables) => Promise<RevokePasskeyResult>;
+}): PasskeyMutation<TVariables, { success: boolean }> {
+  return usePasskeyMutation((data: TVariables) => client.revokePasskey(data));
+}
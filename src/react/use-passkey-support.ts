@@ -0,0 +1,59 @@
+/**
+ * @file Passkey support hook
+ * @module expo-passkey/react/use-passkey-support
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { toActionError } from "../client/utils/abort";
+import type {
+  PasskeySupportClient,
+  UsePasskeySupportResult,
+} from "../types/react";
+import { useMountedRef } from "./utils/mounted";
+
+/**
+ * Checks whether the device or browser supports passkeys and, on iOS and
+ * Android, which biometrics it offers
+ * @param client Auth client created with expoPasskeyClient
+ */
+export function usePasskeySupport(
+  client: PasskeySupportClient
+): UsePasskeySupportResult {
+  const [state, setState] = useState<Omit<UsePasskeySupportResult, "refresh">>(
+    { isSupported: false, biometricInfo: null, loading: true, error: null }
+  );
+  const mounted = useMountedRef();
+
+  const clientRef = useRef(client);
+  clientRef.current = client;
+
+  const refresh = useCallback(async () => {
+    setState((current) => ({ ...current, loading: true, error: null }));
+
+    try {
+      const [isSupported, biometricInfo] = await Promise.all([
+        clientRef.current.isPasskeySupported(),
+        clientRef.current.getBiometricInfo(),
+      ]);
+      if (mounted.current) {
+        setState({ isSupported, biometricInfo, loading: false, error: null });
+      }
+    } catch (error) {
+      if (mounted.current) {
+        setState({
+          isSupported: false,
+          biometricInfo: null,
+          loading: false,
+          error: toActionError(error),
+        });
+      }
+    }
+  }, [mounted]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { ...state, refresh };
+}
@@ -0,0 +1,145 @@
+/**
+ * @file Passkey list hook
+ * @module expo-passkey/react/use-passkeys
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { toActionError } from "../client/utils/abort";
+import type { ListPasskeysSuccessResponse } from "../types/client";
+import type { PasskeyState } from "../types/passkey";
+import type {
+  PasskeyListClient,
+  UsePasskeysOptions,
+  UsePasskeysResult,
+} from "../types/react";
+import { useMountedRef } from "./utils/mounted";
+import { getNextOffset, mergePasskeyPage } from "./utils/pagination";
+
+interface PaginatedListState
+  extends PasskeyState<ListPasskeysSuccessResponse["passkeys"][number], Error> {
+  nextOffset?: number;
+}
+
+/**
+ * Lists a user's passkeys page by page
+ * @param client Auth client created with expoPasskeyClient
+ * @param options User to list and page size
+ */
+export function usePasskeys(
+  client: PasskeyListClient,
+  options: UsePasskeysOptions = {}
+): UsePasskeysResult {
+  const { userId, limit = 10 } = options;
+
+  const [state, setState] = useState<PaginatedListState>({
+    passkeys: [],
+    loading: !!userId,
+    error: null,
+    isSupported: false,
+  });
+  const mounted = useMountedRef();
+  const latestRequest = useRef(0);
+
+  const clientRef = useRef(client);
+  clientRef.current = client;
+
+  const loadPage = useCallback(
+    async (offset: number) => {
+      // Responses of earlier requests, e.g. for a previous user, are dropped
+      const request = ++latestRequest.current;
+      if (!userId) {
+        setState((current) => ({
+          ...current,
+          passkeys: [],
+          nextOffset: undefined,
+          loading: false,
+          error: null,
+        }));
+        return;
+      }
+
+      setState((current) => ({ ...current, loading: true, error: null }));
+
+      let result;
+      try {
+        result = await clientRef.current.listPasskeys({
+          userId,
+          limit,
+          offset,
+        });
+      } catch (error) {
+        result = { data: null, error: toActionError(error) };
+      }
+      if (!mounted.current || request !== latestRequest.current) {
+        return;
+      }
+
+      const { data, error } = result;
+      setState((current) =>
+        error || !data
+          ? {
+              ...current,
+              loading: false,
+              error: error ?? new Error("Failed to retrieve passkeys"),
+            }
+          : {
+              ...current,
+              passkeys: mergePasskeyPage(
+                current.passkeys,
+                data.passkeys,
+                offset
+              ),
+              nextOffset: getNextOffset(data),
+              loading: false,
+              error: null,
+            }
+      );
+    },
+    [userId, limit, mounted]
+  );
+
+  useEffect(() => {
+    // Passkeys of a previous user must not show while the new ones load
+    setState((current) => ({
+      ...current,
+      passkeys: [],
+      nextOffset: undefined,
+    }));
+    void loadPage(0);
+  }, [loadPage]);
+
+  useEffect(() => {
+    clientRef.current.isPasskeySupported().then(
+      (isSupported) => {
+        if (mounted.current) {
+          setState((current) => ({ ...current, isSupported }));
+        }
+      },
+      () => {
+        // Unsupported environments keep isSupported false
+      }
+    );
+  }, [mounted]);
+
+  const { nextOffset, loading } = state;
+
+  const loadMore = useCallback(async () => {
+    if (nextOffset === undefined || loading) {
+      return;
+    }
+    await loadPage(nextOffset);
+  }, [loadPage, nextOffset, loading]);
+
+  const refresh = useCallback(() => loadPage(0), [loadPage]);
+
+  return {
+    passkeys: state.passkeys,
+    loading,
+    error: state.error,
+    isSupported: state.isSupported,
+    hasMore: nextOffset !== undefined,
+    loadMore,
+    refresh,
+  };
+}
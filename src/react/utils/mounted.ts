@@ -0,0 +1,23 @@
+/**
+ * @file Mount tracking
+ * @module expo-passkey/react/utils/mounted
+ */
+
+import { useEffect, useRef } from "react";
+
+/**
+ * Tracks whether the component is mounted, so results arriving after
+ * unmount are dropped instead of updating state
+ */
+export function useMountedRef() {
+  const mounted = useRef(false);
+
+  useEffect(() => {
+    mounted.current = true;
+    return () => {
+      mounted.current = false;
+    };
+  }, []);
+
+  return mounted;
+}
@@ -0,0 +1,35 @@
+/**
+ * @file Pagination utilities
+ * @module expo-passkey/react/utils/pagination
+ */
+
+import type { ListPasskeysSuccessResponse } from "../../types/client";
+
+type PasskeyList = ListPasskeysSuccessResponse["passkeys"];
+
+/**
+ * Combines the loaded passkeys with a page returned by listPasskeys.
+ * The first page replaces the list; later pages are appended, skipping
+ * passkeys already loaded when registrations shifted the offsets.
+ * @param offset Offset the page was requested with
+ */
+export const mergePasskeyPage = (
+  passkeys: PasskeyList,
+  page: PasskeyList,
+  offset: number
+): PasskeyList => {
+  if (offset === 0) {
+    return page;
+  }
+
+  const loaded = new Set(passkeys.map((passkey) => passkey.id));
+  return [...passkeys, ...page.filter((passkey) => !loaded.has(passkey.id))];
+};
+
+/**
+ * Reads the offset of the next page, treating null like undefined
+ * as the native client forwards it unchanged from the response
+ */
+export const getNextOffset = (
+  response: Pick<ListPasskeysSuccessResponse, "nextOffset">
+): number | undefined => response.nextOffset ?? undefined;
@@ -1,7 +1,23 @@
 import type { AuthContext, BetterAuthPlugin } from "better-auth/types";
 import { ERROR_CODES, type AuthPasskey } from "../../types";
-import { expoPasskey } from "../core";
-import { createLogger, createRateLimits, setupCleanupJob } from "../utils";
+import { deletePasskeyUserData, expoPasskey } from "../core";
+import {
+  createAuthenticateEndpoint,
+  createChallengeEndpoint,
+  createEventsEndpoint,
+  createRegisterEndpoint,
+  createRegistrationOptionsEndpoint,
+  createRevokeEndpoint,
+  createRevokeManyEndpoint,
+} from "../endpoints";
+import {
+  createAttestationPolicy,
+  createAuditLog,
+  createChallengeStore,
+  createLogger,
+  createRateLimits,
+  setupCleanupJob,
+} from "../utils";
 
 // Mock dependencies
 jest.mock("../endpoints", () => ({
@@ -10,6 +26,11 @@ jest.mock("../endpoints", () => ({
     options: {},
     handler: jest.fn(),
   }),
+  createRegistrationOptionsEndpoint: jest.fn().mockReturnValue({
+    path: "/expo-passkey/registration-options",
+    options: {},
+    handler: jest.fn(),
+  }),
   createRegisterEndpoint: jest.fn().mockReturnValue({
     path: "/expo-passkey/register",
     options: {},
@@ -30,6 +51,26 @@ jest.mock("../endpoints", () => ({
     options: {},
     handler: jest.fn(),
   }),
+  createRevokeManyEndpoint: jest.fn().mockReturnValue({
+    path: "/expo-passkey/revoke-many",
+    options: {},
+    handler: jest.fn(),
+  }),
+  createDeleteEndpoint: jest.fn().mockReturnValue({
+    path: "/expo-passkey/delete",
+    options: {},
+    handler: jest.fn(),
+  }),
+  createUpdateEndpoint: jest.fn().mockReturnValue({
+    path: "/expo-passkey/update",
+    options: {},
+    handler: jest.fn(),
+  }),
+  createEventsEndpoint: jest.fn().mockReturnValue({
+    path: "/expo-passkey/events",
+    options: {},
+    handler: jest.fn(),
+  }),
 }));
 
 // Mock utils
@@ -48,6 +89,25 @@ jest.mock("../utils", () => ({
     },
   ]),
   setupCleanupJob: jest.fn(),
+  PASSKEY_SESSION_FIELD: "passkeyCredentialId",
+  createAaguidResolver: jest.fn().mockReturnValue(jest.fn()),
+  createAttestationPolicy: jest.fn().mockReturnValue({
+    conveyance: "direct",
+    load: jest.fn(),
+    evaluate: jest.fn(),
+  }),
+  createAuditLog: jest.fn((options: { model: string }) => ({
+    model: options.model,
+    record: jest.fn(),
+    prune: jest.fn().mockResolvedValue(0),
+  })),
+  createChallengeStore: jest.fn(() => ({
+    save: jest.fn(),
+    findById: jest.fn(),
+    findByChallenge: jest.fn(),
+    delete: jest.fn(),
+    deleteExpired: jest.fn().mockResolvedValue(0),
+  })),
 }));
 
 describe("expoPasskey server plugin", () => {
@@ -135,10 +195,14 @@ describe("expoPasskey server plugin", () => {
     expect(plugin.schema.authPasskey).toBeDefined();
     expect(plugin.endpoints).toBeDefined();
     expect(plugin.endpoints.passkeyChallenges).toBeDefined();
+    expect(plugin.endpoints.passkeyRegistrationOptions).toBeDefined();
     expect(plugin.endpoints.registerPasskey).toBeDefined();
     expect(plugin.endpoints.authenticatePasskey).toBeDefined();
     expect(plugin.endpoints.listPasskeys).toBeDefined();
     expect(plugin.endpoints.revokePasskey).toBeDefined();
+    expect(plugin.endpoints.revokePasskeys).toBeDefined();
+    expect(plugin.endpoints.deletePasskey).toBeDefined();
+    expect(plugin.endpoints.updatePasskey).toBeDefined();
     expect(plugin.$ERROR_CODES).toBe(ERROR_CODES.SERVER);
   });
 
@@ -194,6 +258,291 @@ describe("expoPasskey server plugin", () => {
     expect(createRateLimits).toHaveBeenCalledWith(validOptions.rateLimit);
   });
 
+  it("should only create an attestation policy when configured", () => {
+    expoPasskey(validOptions);
+    expect(createAttestationPolicy).not.toHaveBeenCalled();
+
+    const attestation = { conveyance: "direct" as const, blockedAAGUIDs: [] };
+    expoPasskey({ ...validOptions, attestation });
+
+    expect(createAttestationPolicy).toHaveBeenCalledWith(
+      attestation,
+      expect.anything(), // logger
+    );
+    expect(createRegisterEndpoint).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        attestationPolicy: expect.objectContaining({ conveyance: "direct" }),
+      }),
+    );
+  });
+
+  it("should add a passkey credential field to sessions", () => {
+    const plugin = expoPasskey(validOptions) as BetterAuthPlugin & {
+      schema: NonNullable<BetterAuthPlugin["schema"]>;
+    };
+
+    expect(plugin.schema.session.fields.passkeyCredentialId).toEqual({
+      type: "string",
+      required: false,
+    });
+  });
+
+  it("should pass the session revocation option to revoke paths", () => {
+    const plugin = expoPasskey({
+      ...validOptions,
+      revokeSessionsOnRevoke: true,
+    });
+    plugin.init?.(mockCtx);
+
+    expect(createRevokeEndpoint).toHaveBeenCalledWith(
+      expect.objectContaining({ revokeSessions: true }),
+    );
+    expect(createRevokeManyEndpoint).toHaveBeenCalledWith(
+      expect.objectContaining({ revokeSessions: true }),
+    );
+    expect(setupCleanupJob).toHaveBeenCalledWith(
+      mockCtx,
+      validOptions.cleanup,
+      expect.anything(), // logger
+      expect.any(Object), // schemaConfig
+      expect.objectContaining({ revokeSessions: true }),
+    );
+  });
+
+  it("should pass the authenticator selection policy to every ceremony", () => {
+    const authenticatorSelection = {
+      userVerification: { registration: "required" as const },
+    };
+    expoPasskey({ ...validOptions, authenticatorSelection });
+
+    for (const createEndpoint of [
+      createChallengeEndpoint,
+      createRegistrationOptionsEndpoint,
+      createRegisterEndpoint,
+      createAuthenticateEndpoint,
+    ]) {
+      expect(createEndpoint).toHaveBeenCalledWith(
+        expect.objectContaining({ authenticatorSelection }),
+      );
+    }
+  });
+
+  it("should pass the supported algorithms to the registration endpoints", () => {
+    expoPasskey({ ...validOptions, supportedAlgorithms: ["EdDSA", "ES256"] });
+
+    expect(createRegistrationOptionsEndpoint).toHaveBeenCalledWith(
+      expect.objectContaining({ supportedAlgorithms: ["EdDSA", "ES256"] }),
+    );
+    expect(createRegisterEndpoint).toHaveBeenCalledWith(
+      expect.objectContaining({ supportedAlgorithms: ["EdDSA", "ES256"] }),
+    );
+  });
+
+  it("should pass the challenge options to the challenge endpoints", () => {
+    const challenge = { ttl: { authentication: 120 }, byteLength: 48 };
+    expoPasskey({ ...validOptions, challenge });
+
+    expect(createChallengeEndpoint).toHaveBeenCalledWith(
+      expect.objectContaining({ challengeOptions: challenge }),
+    );
+    expect(createRegistrationOptionsEndpoint).toHaveBeenCalledWith(
+      expect.objectContaining({ challengeOptions: challenge }),
+    );
+  });
+
+  it("should reject challenges shorter than 16 bytes", () => {
+    expect(() =>
+      expoPasskey({ ...validOptions, challenge: { byteLength: 8 } }),
+    ).toThrow("challenge.byteLength must be at least 16");
+  });
+
+  it("should pass the counter policy to the authenticate endpoint", () => {
+    expoPasskey({
+      ...validOptions,
+      counterPolicy: "revoke",
+      revokeSessionsOnRevoke: true,
+    });
+
+    expect(createAuthenticateEndpoint).toHaveBeenCalledWith(
+      expect.objectContaining({ counterPolicy: "revoke", revokeSessions: true }),
+    );
+  });
+
+  it("should pass lifecycle hooks to the endpoints and cleanup job", () => {
+    const hooks = {
+      beforeRegister: jest.fn(),
+      onAuthenticate: jest.fn(),
+      onRevoke: jest.fn(),
+    };
+    const plugin = expoPasskey({ ...validOptions, hooks });
+    plugin.init?.(mockCtx);
+
+    expect(createRegisterEndpoint).toHaveBeenCalledWith(
+      expect.objectContaining({ hooks }),
+    );
+    expect(createAuthenticateEndpoint).toHaveBeenCalledWith(
+      expect.objectContaining({ hooks }),
+    );
+    expect(createRevokeEndpoint).toHaveBeenCalledWith(
+      expect.objectContaining({ hooks }),
+    );
+    expect(createRevokeManyEndpoint).toHaveBeenCalledWith(
+      expect.objectContaining({ hooks }),
+    );
+    expect(setupCleanupJob).toHaveBeenCalledWith(
+      mockCtx,
+      validOptions.cleanup,
+      expect.anything(), // logger
+      expect.any(Object), // schemaConfig
+      { revokeSessions: undefined, onRevoke: hooks.onRevoke, auditLog: undefined },
+    );
+  });
+
+  describe("audit log", () => {
+    it("should not register the event model or endpoint by default", () => {
+      const plugin = expoPasskey(validOptions) as BetterAuthPlugin & {
+        schema: NonNullable<BetterAuthPlugin["schema"]>;
+        endpoints: Record<string, unknown>;
+      };
+
+      expect(createAuditLog).not.toHaveBeenCalled();
+      expect(plugin.schema).not.toHaveProperty("passkeyEvent");
+      expect(plugin.endpoints).not.toHaveProperty("listPasskeyEvents");
+    });
+
+    it("should register the event model and endpoint when enabled", () => {
+      const plugin = expoPasskey({
+        ...validOptions,
+        auditLog: { retentionDays: 30 },
+        schema: { passkeyEvent: { modelName: "audit_events" } },
+      }) as BetterAuthPlugin & {
+        schema: NonNullable<BetterAuthPlugin["schema"]>;
+        endpoints: Record<string, unknown>;
+      };
+
+      expect(createAuditLog).toHaveBeenCalledWith(
+        { retentionDays: 30, model: "audit_events" },
+        expect.anything(),
+      );
+      const auditLog = (createAuditLog as jest.Mock).mock.results[0].value;
+
+      expect(plugin.schema.audit_events.modelName).toBe("audit_events");
+      expect(Object.keys(plugin.schema.audit_events.fields)).toEqual(
+        expect.arrayContaining([
+          "userId",
+          "credentialId",
+          "type",
+          "ipAddress",
+          "userAgent",
+          "platform",
+          "createdAt",
+        ]),
+      );
+      expect(createEventsEndpoint).toHaveBeenCalledWith(
+        expect.objectContaining({ auditLog }),
+      );
+      expect(plugin.endpoints).toHaveProperty("listPasskeyEvents");
+      expect(createAuthenticateEndpoint).toHaveBeenCalledWith(
+        expect.objectContaining({ auditLog }),
+      );
+    });
+
+    it("should prune expired events on the hourly cleanup", async () => {
+      const plugin = expoPasskey({ ...validOptions, auditLog: {} });
+      plugin.init?.(mockCtx);
+
+      const auditLog = (createAuditLog as jest.Mock).mock.results[0].value;
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(auditLog.prune).toHaveBeenCalledWith(mockCtx.adapter);
+    });
+  });
+
+  describe("challenge store", () => {
+    it("should share one challenge store across the challenge endpoints", () => {
+      expoPasskey({ ...validOptions, challenge: { store: "memory" } });
+
+      expect(createChallengeStore).toHaveBeenCalledWith(
+        "memory",
+        "passkeyChallenge",
+      );
+      const challengeStore = (createChallengeStore as jest.Mock).mock
+        .results[0].value;
+      for (const createEndpoint of [
+        createChallengeEndpoint,
+        createRegistrationOptionsEndpoint,
+        createRegisterEndpoint,
+        createAuthenticateEndpoint,
+      ]) {
+        expect(createEndpoint).toHaveBeenCalledWith(
+          expect.objectContaining({ challengeStore }),
+        );
+      }
+    });
+
+    it("should sweep expired challenges on the hourly cleanup", async () => {
+      const plugin = expoPasskey(validOptions);
+      plugin.init?.(mockCtx);
+
+      const challengeStore = (createChallengeStore as jest.Mock).mock
+        .results[0].value;
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(challengeStore.deleteExpired).toHaveBeenCalledWith(mockCtx);
+    });
+
+    it("should not schedule a sweep for stores that expire challenges themselves", () => {
+      (createChallengeStore as jest.Mock).mockReturnValueOnce({
+        save: jest.fn(),
+        findById: jest.fn(),
+        findByChallenge: jest.fn(),
+        delete: jest.fn(),
+      });
+      const setIntervalSpy = jest.spyOn(global, "setInterval");
+
+      const plugin = expoPasskey({
+        ...validOptions,
+        cleanup: undefined,
+        challenge: { store: "memory" },
+      });
+      plugin.init?.(mockCtx);
+
+      expect(setIntervalSpy).not.toHaveBeenCalled();
+      setIntervalSpy.mockRestore();
+    });
+
+    it("should require Better Auth secondary storage for the secondary storage store", () => {
+      const plugin = expoPasskey({
+        ...validOptions,
+        challenge: { store: "secondary-storage" },
+      });
+
+      expect(() => plugin.init?.(mockCtx)).toThrow(
+        'challenge.store is "secondary-storage" but Better Auth has no secondaryStorage configured',
+      );
+    });
+
+    it("should require secondary storage that can take keys atomically", () => {
+      const plugin = expoPasskey({
+        ...validOptions,
+        challenge: { store: "secondary-storage" },
+      });
+      const secondaryStorage = {
+        get: jest.fn(),
+        set: jest.fn(),
+        delete: jest.fn(),
+      };
+
+      expect(() => plugin.init?.({ ...mockCtx, secondaryStorage })).toThrow(
+        "secondaryStorage has no getAndDelete method",
+      );
+      const atomicStorage = { ...secondaryStorage, getAndDelete: jest.fn() };
+      expect(() =>
+        plugin.init?.({ ...mockCtx, secondaryStorage: atomicStorage }),
+      ).not.toThrow();
+    });
+  });
+
   it("should initialize cleanup job during init", () => {
     const plugin = expoPasskey(validOptions);
 
@@ -210,6 +559,7 @@ describe("expoPasskey server plugin", () => {
         authPasskeyModel: "authPasskey",
         passkeyChallengeModel: "passkeyChallenge",
       }, // default schemaConfig
+      { revokeSessions: undefined, onRevoke: undefined, auditLog: undefined },
     );
   });
 
@@ -242,6 +592,7 @@ describe("expoPasskey server plugin", () => {
         authPasskeyModel: "customPasskeyTable",
         passkeyChallengeModel: "customChallengeTable",
       }, // custom schemaConfig
+      { revokeSessions: undefined, onRevoke: undefined, auditLog: undefined },
     );
   });
 
@@ -269,6 +620,7 @@ describe("expoPasskey server plugin", () => {
       "revokedAt",
       "revokedReason",
       "metadata",
+      "name",
       "aaguid",
     ];
 
@@ -304,3 +656,71 @@ describe("expoPasskey server plugin", () => {
     expect(plugin.middlewares?.[1].middleware).toBeDefined();
   });
 });
+
+describe("deletePasskeyUserData", () => {
+  it("should delete all passkeys and challenges of the user", async () => {
+    const adapter = {
+      deleteMany: jest.fn().mockResolvedValueOnce(2).mockResolvedValueOnce(1),
+    };
+
+    const result = await deletePasskeyUserData(
+      { adapter } as unknown as AuthContext,
+      "user-123",
+    );
+
+    const where = [{ field: "userId", operator: "eq", value: "user-123" }];
+    expect(adapter.deleteMany).toHaveBeenCalledWith({
+      model: "authPasskey",
+      where,
+    });
+    expect(adapter.deleteMany).toHaveBeenCalledWith({
+      model: "passkeyChallenge",
+      where,
+    });
+    expect(result).toEqual({ passkeys: 2, challenges: 1, events: 0 });
+  });
+
+  it("should delete audit events when the audit log is enabled", async () => {
+    const adapter = {
+      deleteMany: jest
+        .fn()
+        .mockResolvedValueOnce(1)
+        .mockResolvedValueOnce(0)
+        .mockResolvedValueOnce(7),
+    };
+
+    const result = await deletePasskeyUserData(
+      { adapter } as unknown as AuthContext,
+      "user-123",
+      { auditLog: {}, schema: { passkeyEvent: { modelName: "audit_events" } } },
+    );
+
+    expect(adapter.deleteMany).toHaveBeenCalledWith({
+      model: "audit_events",
+      where: [{ field: "userId", operator: "eq", value: "user-123" }],
+    });
+    expect(result).toEqual({ passkeys: 1, challenges: 0, events: 7 });
+  });
+
+  it("should respect custom schema model names", async () => {
+    const adapter = { deleteMany: jest.fn().mockResolvedValue(0) };
+
+    await deletePasskeyUserData(
+      { adapter } as unknown as AuthContext,
+      "user-123",
+      {
+        schema: {
+          authPasskey: { modelName: "user_passkeys" },
+          passkeyChallenge: { modelName: "auth_challenges" },
+        },
+      },
+    );
+
+    expect(adapter.deleteMany).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "user_passkeys" }),
+    );
+    expect(adapter.deleteMany).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "auth_challenges" }),
+    );
+  });
+});
@@ -2,6 +2,7 @@ import { verifyAuthenticationResponse } from "@simplewebauthn/server";
 import { APIError } from "better-call";
 
 import { createAuthenticateEndpoint } from "../../../server/endpoints/authenticate";
+import { createMemoryChallengeStore } from "../../../server/utils/challenge-store";
 import type { ResolvedSchemaConfig } from "../../../types/server";
 
 // Mock session fetcher for testing session-scoped passkey validation
@@ -39,6 +40,26 @@ const defaultSchemaConfig: ResolvedSchemaConfig = {
 
 type EndpointHandler = (ctx: any) => Promise<any>;
 
+// Encode client data the way an authenticator would
+const encodeClientData = (challenge: string) =>
+  Buffer.from(
+    JSON.stringify({
+      type: "webauthn.get",
+      challenge,
+      origin: "https://example.com",
+    }),
+  ).toString("base64url");
+
+// Discoverable login challenge matching the signed client data
+const discoverableChallenge = {
+  id: "challenge-id",
+  userId: "auto-discovery",
+  challenge: "test-challenge",
+  type: "authentication" as const,
+  createdAt: new Date().toISOString(),
+  expiresAt: new Date(Date.now() + 300000).toISOString(),
+};
+
 describe("authenticatePasskey endpoint", () => {
   // Setup options for the endpoint
   const options = {
@@ -58,7 +79,7 @@ describe("authenticatePasskey endpoint", () => {
         rawId: "test-raw-id",
         type: "public-key",
         response: {
-          clientDataJSON: "test-client-data",
+          clientDataJSON: encodeClientData("test-challenge"),
           authenticatorData: "test-auth-data",
           signature: "test-signature",
           userHandle: "test-user-handle",
@@ -81,18 +102,9 @@ describe("authenticatePasskey endpoint", () => {
     context: {
       adapter: {
         findOne: jest.fn(),
-        findMany: jest.fn().mockResolvedValue([
-          {
-            id: "challenge-id",
-            userId: "user-123",
-            challenge: "test-challenge",
-            type: "authentication",
-            createdAt: new Date().toISOString(),
-            expiresAt: new Date(Date.now() + 300000).toISOString(),
-          },
-        ]),
         update: jest.fn(),
-        delete: jest.fn(),
+        // Consuming a challenge deletes exactly one row
+        deleteMany: jest.fn().mockResolvedValue(1),
       },
       internalAdapter: {
         createSession: jest.fn().mockResolvedValue({
@@ -162,25 +174,19 @@ describe("authenticatePasskey endpoint", () => {
     };
 
     function setupFullFlowMocks(passkey: typeof mockPasskey) {
-      // findOne: first call returns passkey, second call returns user
+      // findOne: the matching challenge, then the passkey, then the user
       mockCtx.context.adapter.findOne
+        .mockResolvedValueOnce(mockChallenge)
         .mockResolvedValueOnce(passkey)
         .mockResolvedValueOnce(mockUser);
 
-      // findMany: user challenges, then auto-discovery challenges
-      mockCtx.context.adapter.findMany
-        .mockResolvedValueOnce([mockChallenge])
-        .mockResolvedValueOnce([]);
-
       // verifyAuthenticationResponse
       (verifyAuthenticationResponse as jest.Mock).mockResolvedValueOnce({
         verified: true,
         authenticationInfo: { newCounter: 1 },
       });
 
-      // update and delete
       mockCtx.context.adapter.update.mockResolvedValueOnce({});
-      mockCtx.context.adapter.delete.mockResolvedValueOnce({});
     }
 
     it("should handle corrupted metadata without crashing authentication", async () => {
@@ -312,20 +318,16 @@ describe("authenticatePasskey endpoint", () => {
 
     function setupFullFlowMocks() {
       mockCtx.context.adapter.findOne
+        .mockResolvedValueOnce(mockChallenge)
         .mockResolvedValueOnce(mockPasskey)
         .mockResolvedValueOnce(mockUser);
 
-      mockCtx.context.adapter.findMany
-        .mockResolvedValueOnce([mockChallenge])
-        .mockResolvedValueOnce([]);
-
       (verifyAuthenticationResponse as jest.Mock).mockResolvedValueOnce({
         verified: true,
         authenticationInfo: { newCounter: 1 },
       });
 
       mockCtx.context.adapter.update.mockResolvedValueOnce({});
-      mockCtx.context.adapter.delete.mockResolvedValueOnce({});
     }
 
     it("should reject authentication when passkey belongs to a different user than current session", async () => {
@@ -334,8 +336,10 @@ describe("authenticatePasskey endpoint", () => {
         user: { id: "different-user-456" },
       });
 
-      // Only need findOne to return the passkey (rejection happens before verification)
-      mockCtx.context.adapter.findOne.mockResolvedValueOnce(mockPasskey);
+      // Only need the challenge and the passkey (rejection happens before verification)
+      mockCtx.context.adapter.findOne
+        .mockResolvedValueOnce(mockChallenge)
+        .mockResolvedValueOnce(mockPasskey);
 
       const endpoint = createAuthenticateEndpoint(options);
       const handler = (endpoint as any).handler as EndpointHandler;
@@ -401,6 +405,704 @@ describe("authenticatePasskey endpoint", () => {
           user: expect.objectContaining({ id: "user-123" }),
         }),
       );
+
+      // The session records the credential it was created with
+      expect(mockCtx.context.internalAdapter.createSession).toHaveBeenCalledWith(
+        "user-123",
+        mockCtx,
+        false,
+        { passkeyCredentialId: "test-credential-id" },
+      );
+    });
+  });
+
+  describe("lifecycle hooks", () => {
+    const mockPasskey = {
+      id: "passkey-id",
+      userId: "user-123",
+      credentialId: "test-credential-id",
+      publicKey: "base64-encoded-key",
+      counter: 0,
+      status: "active",
+    };
+
+    const mockUser = { id: "user-123", email: "test@example.com" };
+
+    const mockChallenge = {
+      id: "challenge-id",
+      userId: "user-123",
+      challenge: "test-challenge",
+      type: "authentication",
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 300000).toISOString(),
+    };
+
+    beforeEach(() => {
+      mockSessionFetcher.mockResolvedValueOnce(null);
+      mockCtx.context.adapter.findOne
+        .mockResolvedValueOnce(mockChallenge)
+        .mockResolvedValueOnce(mockPasskey)
+        .mockResolvedValueOnce(mockUser);
+      (verifyAuthenticationResponse as jest.Mock).mockResolvedValueOnce({
+        verified: true,
+        authenticationInfo: { newCounter: 5 },
+      });
+    });
+
+    it("should call beforeAuthenticate and onAuthenticate", async () => {
+      const hooks = {
+        beforeAuthenticate: jest.fn(),
+        onAuthenticate: jest.fn(),
+      };
+
+      const endpoint = createAuthenticateEndpoint({ ...options, hooks });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx as any);
+
+      expect(hooks.beforeAuthenticate).toHaveBeenCalledWith({
+        user: mockUser,
+        passkey: mockPasskey,
+        request: { ipAddress: "127.0.0.1", userAgent: "test-user-agent" },
+      });
+      expect(hooks.onAuthenticate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user: mockUser,
+          passkey: expect.objectContaining({ id: "passkey-id", counter: 5 }),
+          session: { token: "test-session-token" },
+        }),
+      );
+    });
+
+    it("should not create a session when beforeAuthenticate vetoes it", async () => {
+      const veto = new APIError("FORBIDDEN", {
+        code: "ACCOUNT_LOCKED",
+        message: "Account is locked",
+      });
+      const hooks = {
+        beforeAuthenticate: jest.fn().mockRejectedValue(veto),
+        onAuthenticate: jest.fn(),
+        onVerificationFailure: jest.fn(),
+      };
+
+      const endpoint = createAuthenticateEndpoint({ ...options, hooks });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await expect(handler(mockCtx as any)).rejects.toBe(veto);
+      expect(mockCtx.context.adapter.update).not.toHaveBeenCalled();
+      expect(
+        mockCtx.context.internalAdapter.createSession,
+      ).not.toHaveBeenCalled();
+      expect(hooks.onAuthenticate).not.toHaveBeenCalled();
+      expect(hooks.onVerificationFailure).toHaveBeenCalledWith({
+        ceremony: "authentication",
+        credentialId: "test-credential-id",
+        userId: "user-123",
+        error: { code: "ACCOUNT_LOCKED", message: "Account is locked" },
+        request: { ipAddress: "127.0.0.1", userAgent: "test-user-agent" },
+      });
+    });
+  });
+
+  describe("audit log", () => {
+    const auditLog = {
+      model: "passkeyEvent",
+      record: jest.fn(),
+      prune: jest.fn(),
+    };
+
+    const mockPasskey = {
+      id: "passkey-id",
+      userId: "user-123",
+      credentialId: "test-credential-id",
+      publicKey: "base64-encoded-key",
+      counter: 10,
+      platform: "android",
+      status: "active",
+    };
+
+    const mockChallenge = {
+      id: "challenge-id",
+      userId: "user-123",
+      challenge: "test-challenge",
+      type: "authentication",
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 300000).toISOString(),
+    };
+
+    // RP ID hash, flags and a big-endian counter
+    const encodeAuthenticatorData = (counter: number) => {
+      const bytes = Buffer.alloc(37);
+      bytes.writeUInt32BE(counter, 33);
+      return bytes.toString("base64url");
+    };
+
+    const originalAuthenticatorData =
+      mockCtx.body.credential.response.authenticatorData;
+
+    beforeEach(() => {
+      mockSessionFetcher.mockResolvedValueOnce(null);
+      mockCtx.context.adapter.findOne
+        .mockResolvedValueOnce(mockChallenge)
+        .mockResolvedValueOnce(mockPasskey);
+    });
+
+    afterEach(() => {
+      mockCtx.body.credential.response.authenticatorData =
+        originalAuthenticatorData;
+    });
+
+    it("should record successful authentications", async () => {
+      mockCtx.context.adapter.findOne.mockResolvedValueOnce({ id: "user-123" });
+      (verifyAuthenticationResponse as jest.Mock).mockResolvedValueOnce({
+        verified: true,
+        authenticationInfo: { newCounter: 11 },
+      });
+
+      const endpoint = createAuthenticateEndpoint({ ...options, auditLog });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx as any);
+
+      expect(auditLog.record).toHaveBeenCalledWith(mockCtx.context, {
+        type: "authenticated",
+        userId: "user-123",
+        credentialId: "test-credential-id",
+        platform: "android",
+        request: { ipAddress: "127.0.0.1", userAgent: "test-user-agent" },
+      });
+    });
+
+    it("should record failed authentications", async () => {
+      mockCtx.body.credential.response.authenticatorData =
+        encodeAuthenticatorData(11);
+      (verifyAuthenticationResponse as jest.Mock).mockRejectedValueOnce(
+        new Error("Signature invalid"),
+      );
+
+      const endpoint = createAuthenticateEndpoint({ ...options, auditLog });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await expect(handler(mockCtx as any)).rejects.toThrow(APIError);
+      expect(auditLog.record).toHaveBeenCalledWith(
+        mockCtx.context,
+        expect.objectContaining({
+          type: "authentication_failed",
+          userId: "user-123",
+          details: { code: "VERIFICATION_FAILED" },
+        }),
+      );
+    });
+
+    it("should record a counter anomaly when the counter went backwards", async () => {
+      mockCtx.body.credential.response.authenticatorData =
+        encodeAuthenticatorData(3);
+      (verifyAuthenticationResponse as jest.Mock).mockResolvedValueOnce({
+        verified: true,
+        authenticationInfo: { newCounter: 3 },
+      });
+
+      const endpoint = createAuthenticateEndpoint({ ...options, auditLog });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await expect(handler(mockCtx as any)).rejects.toThrow(APIError);
+      expect(auditLog.record).toHaveBeenCalledWith(
+        mockCtx.context,
+        expect.objectContaining({
+          type: "counter_anomaly",
+          details: {
+            code: "counter_regression",
+            storedCounter: 10,
+            receivedCounter: 3,
+          },
+        }),
+      );
+    });
+
+    it("should record accepted counter regressions when the policy warns", async () => {
+      mockCtx.context.adapter.findOne.mockResolvedValueOnce({ id: "user-123" });
+      mockCtx.body.credential.response.authenticatorData =
+        encodeAuthenticatorData(3);
+      (verifyAuthenticationResponse as jest.Mock).mockResolvedValueOnce({
+        verified: true,
+        authenticationInfo: { newCounter: 3 },
+      });
+
+      const endpoint = createAuthenticateEndpoint({
+        ...options,
+        auditLog,
+        counterPolicy: "warn",
+      });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx as any);
+
+      expect(auditLog.record).toHaveBeenCalledWith(
+        mockCtx.context,
+        expect.objectContaining({ type: "authenticated" }),
+      );
+      expect(auditLog.record).toHaveBeenCalledWith(
+        mockCtx.context,
+        expect.objectContaining({
+          type: "counter_anomaly",
+          details: {
+            code: "counter_regression",
+            storedCounter: 10,
+            receivedCounter: 3,
+          },
+        }),
+      );
+    });
+  });
+
+  describe("user verification", () => {
+    const mockPasskey = {
+      id: "passkey-id",
+      userId: "user-123",
+      credentialId: "test-credential-id",
+      publicKey: "base64-encoded-key",
+      counter: 0,
+      status: "active",
+      metadata: null,
+    };
+
+    const mockChallenge = {
+      id: "challenge-id",
+      userId: "user-123",
+      challenge: "test-challenge",
+      type: "authentication",
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 300000).toISOString(),
+    };
+
+    beforeEach(() => {
+      mockSessionFetcher.mockResolvedValueOnce(null);
+      mockCtx.context.adapter.findOne
+        .mockResolvedValueOnce(mockChallenge)
+        .mockResolvedValueOnce(mockPasskey)
+        .mockResolvedValueOnce({ id: "user-123" });
+      (verifyAuthenticationResponse as jest.Mock).mockResolvedValueOnce({
+        verified: true,
+        authenticationInfo: { newCounter: 0 },
+      });
+    });
+
+    it("should require user verification by default", async () => {
+      const endpoint = createAuthenticateEndpoint(options);
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx as any);
+
+      expect(verifyAuthenticationResponse).toHaveBeenCalledWith(
+        expect.objectContaining({ requireUserVerification: true }),
+      );
+    });
+
+    it("should follow the server policy for authentication", async () => {
+      const endpoint = createAuthenticateEndpoint({
+        ...options,
+        authenticatorSelection: {
+          userVerification: { authentication: "preferred" },
+        },
+      });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx as any);
+
+      expect(verifyAuthenticationResponse).toHaveBeenCalledWith(
+        expect.objectContaining({ requireUserVerification: false }),
+      );
+    });
+  });
+
+  describe("backup state", () => {
+    const mockPasskey = {
+      id: "passkey-id",
+      userId: "user-123",
+      credentialId: "test-credential-id",
+      publicKey: "base64-encoded-key",
+      counter: 0,
+      status: "active",
+      metadata: null,
+      deviceType: "multiDevice",
+      backedUp: false,
+    };
+
+    const mockChallenge = {
+      id: "challenge-id",
+      userId: "user-123",
+      challenge: "test-challenge",
+      type: "authentication",
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 300000).toISOString(),
+    };
+
+    it("should update the backup state reported by the authenticator", async () => {
+      mockSessionFetcher.mockResolvedValueOnce(null);
+      mockCtx.context.adapter.findOne
+        .mockResolvedValueOnce(mockChallenge)
+        .mockResolvedValueOnce(mockPasskey)
+        .mockResolvedValueOnce({ id: "user-123" });
+      (verifyAuthenticationResponse as jest.Mock).mockResolvedValueOnce({
+        verified: true,
+        authenticationInfo: {
+          newCounter: 0,
+          credentialDeviceType: "multiDevice",
+          credentialBackedUp: true,
+        },
+      });
+
+      const endpoint = createAuthenticateEndpoint(options);
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx as any);
+
+      expect(mockCtx.context.adapter.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: expect.objectContaining({
+            deviceType: "multiDevice",
+            backedUp: true,
+          }),
+        }),
+      );
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        "Passkey backup state changed",
+        { credentialId: "test-credential-id", backedUp: true },
+      );
+    });
+  });
+
+  describe("counter policy", () => {
+    const mockPasskey = {
+      id: "passkey-id",
+      userId: "user-123",
+      credentialId: "test-credential-id",
+      publicKey: "base64-encoded-key",
+      counter: 10,
+      platform: "ios",
+      status: "active",
+      metadata: null,
+    };
+
+    const mockChallenge = {
+      id: "challenge-id",
+      userId: "user-123",
+      challenge: "test-challenge",
+      type: "authentication",
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 300000).toISOString(),
+    };
+
+    const encodeAuthenticatorData = (counter: number) => {
+      const bytes = Buffer.alloc(37);
+      bytes.writeUInt32BE(counter, 33);
+      return bytes.toString("base64url");
+    };
+
+    const originalAuthenticatorData =
+      mockCtx.body.credential.response.authenticatorData;
+
+    beforeEach(() => {
+      mockSessionFetcher.mockResolvedValueOnce(null);
+      mockCtx.context.adapter.findOne
+        .mockResolvedValueOnce(mockChallenge)
+        .mockResolvedValueOnce(mockPasskey)
+        .mockResolvedValueOnce({ id: "user-123" });
+      mockCtx.body.credential.response.authenticatorData =
+        encodeAuthenticatorData(4);
+      (verifyAuthenticationResponse as jest.Mock).mockResolvedValueOnce({
+        verified: true,
+        authenticationInfo: { newCounter: 4 },
+      });
+    });
+
+    afterEach(() => {
+      mockCtx.body.credential.response.authenticatorData =
+        originalAuthenticatorData;
+      // Rejected attempts leave the user lookup and verification queued
+      mockCtx.context.adapter.findOne.mockReset();
+      (verifyAuthenticationResponse as jest.Mock).mockReset();
+    });
+
+    it("should verify the signature without the library's counter check", async () => {
+      const endpoint = createAuthenticateEndpoint({
+        ...options,
+        counterPolicy: "ignore",
+      });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx as any);
+
+      expect(verifyAuthenticationResponse).toHaveBeenCalledWith(
+        expect.objectContaining({
+          credential: expect.objectContaining({ counter: 0 }),
+        }),
+      );
+    });
+
+    it("should accept regressions silently and keep the stored counter when ignored", async () => {
+      const endpoint = createAuthenticateEndpoint({
+        ...options,
+        counterPolicy: "ignore",
+      });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx as any);
+
+      expect(mockCtx.context.adapter.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: expect.objectContaining({ counter: 10 }),
+        }),
+      );
+      expect(mockLogger.warn).not.toHaveBeenCalledWith(
+        "Signature counter regression detected",
+        expect.anything(),
+      );
+      expect(mockCtx.context.internalAdapter.createSession).toHaveBeenCalled();
+    });
+
+    it("should log regressions with a dedicated code when warning", async () => {
+      const endpoint = createAuthenticateEndpoint({
+        ...options,
+        counterPolicy: "warn",
+      });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx as any);
+
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        "Signature counter regression detected",
+        expect.objectContaining({
+          code: "counter_regression",
+          storedCounter: 10,
+          receivedCounter: 4,
+        }),
+      );
+      expect(mockCtx.context.internalAdapter.createSession).toHaveBeenCalled();
+    });
+
+    it("should reject regressions by default without revoking", async () => {
+      const endpoint = createAuthenticateEndpoint(options);
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await expect(handler(mockCtx as any)).rejects.toMatchObject({
+        status: "UNAUTHORIZED",
+        data: expect.objectContaining({ code: "counter_regression" }),
+      });
+      expect(mockCtx.context.adapter.update).not.toHaveBeenCalled();
+      expect(
+        mockCtx.context.internalAdapter.createSession,
+      ).not.toHaveBeenCalled();
+    });
+
+    it("should revoke the credential and its sessions when revoking", async () => {
+      const internalAdapter = mockCtx.context.internalAdapter as any;
+      internalAdapter.listSessions = jest.fn().mockResolvedValue([
+        { token: "cloned-session", passkeyCredentialId: "test-credential-id" },
+        { token: "other-session", passkeyCredentialId: null },
+      ]);
+      internalAdapter.deleteSessions = jest.fn();
+      const hooks = { onRevoke: jest.fn() };
+
+      const endpoint = createAuthenticateEndpoint({
+        ...options,
+        hooks,
+        counterPolicy: "revoke",
+        revokeSessions: true,
+      });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await expect(handler(mockCtx as any)).rejects.toMatchObject({
+        data: expect.objectContaining({ code: "counter_regression" }),
+      });
+      expect(mockCtx.context.adapter.update).toHaveBeenCalledWith({
+        model: "authPasskey",
+        where: [{ field: "id", operator: "eq", value: "passkey-id" }],
+        update: expect.objectContaining({
+          status: "revoked",
+          revokedReason: "counter_regression",
+        }),
+      });
+      expect(internalAdapter.deleteSessions).toHaveBeenCalledWith([
+        "cloned-session",
+      ]);
+      expect(hooks.onRevoke).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: "user-123",
+          reason: "counter_regression",
+          trigger: "counter_regression",
+        }),
+      );
+      expect(
+        mockCtx.context.internalAdapter.createSession,
+      ).not.toHaveBeenCalled();
+
+      delete internalAdapter.listSessions;
+      delete internalAdapter.deleteSessions;
+    });
+
+    it("should not act on regressions of responses that fail verification", async () => {
+      (verifyAuthenticationResponse as jest.Mock).mockReset();
+      (verifyAuthenticationResponse as jest.Mock).mockRejectedValueOnce(
+        new Error("Signature invalid"),
+      );
+
+      const endpoint = createAuthenticateEndpoint({
+        ...options,
+        counterPolicy: "revoke",
+      });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await expect(handler(mockCtx as any)).rejects.toMatchObject({
+        data: expect.objectContaining({ code: "VERIFICATION_FAILED" }),
+      });
+      expect(mockCtx.context.adapter.update).not.toHaveBeenCalled();
+    });
+  });
+
+  it("should report unknown credentials to onVerificationFailure", async () => {
+    mockCtx.context.adapter.findOne
+      .mockResolvedValueOnce(discoverableChallenge)
+      .mockResolvedValueOnce(null);
+    const hooks = { onVerificationFailure: jest.fn() };
+
+    const endpoint = createAuthenticateEndpoint({ ...options, hooks });
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await expect(handler(mockCtx as any)).rejects.toThrow(APIError);
+    expect(hooks.onVerificationFailure).toHaveBeenCalledWith(
+      expect.objectContaining({
+        ceremony: "authentication",
+        userId: null,
+        error: expect.objectContaining({ code: "invalid_credential" }),
+      }),
+    );
+  });
+
+  describe("challenge binding", () => {
+    const mockPasskey = {
+      id: "passkey-id",
+      userId: "user-123",
+      credentialId: "test-credential-id",
+      publicKey: "base64-encoded-key",
+      counter: 0,
+      status: "active",
+      metadata: null,
+    };
+
+    const mockChallenge = {
+      id: "challenge-id",
+      userId: "auto-discovery",
+      challenge: "test-challenge",
+      type: "authentication",
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 300000).toISOString(),
+    };
+
+    it("should resolve the challenge signed into clientDataJSON", async () => {
+      mockCtx.context.adapter.findOne
+        .mockResolvedValueOnce(mockChallenge)
+        .mockResolvedValueOnce(mockPasskey);
+      (verifyAuthenticationResponse as jest.Mock).mockRejectedValueOnce(
+        new Error("Stop after lookup"),
+      );
+
+      const endpoint = createAuthenticateEndpoint(options);
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await expect(handler(mockCtx as any)).rejects.toThrow(APIError);
+
+      expect(mockCtx.context.adapter.findOne).toHaveBeenNthCalledWith(1, {
+        model: "passkeyChallenge",
+        where: [
+          { field: "challenge", operator: "eq", value: "test-challenge" },
+          { field: "type", operator: "eq", value: "authentication" },
+        ],
+      });
+      expect(verifyAuthenticationResponse).toHaveBeenCalledWith(
+        expect.objectContaining({ expectedChallenge: "test-challenge" }),
+      );
+    });
+
+    it("should look up the challenge by the echoed challenge ID", async () => {
+      mockCtx.context.adapter.findOne
+        .mockResolvedValueOnce(mockChallenge)
+        .mockResolvedValueOnce(mockPasskey);
+      (verifyAuthenticationResponse as jest.Mock).mockRejectedValueOnce(
+        new Error("Stop after lookup"),
+      );
+
+      const endpoint = createAuthenticateEndpoint(options);
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await expect(
+        handler({
+          ...mockCtx,
+          body: { ...mockCtx.body, challengeId: "challenge-id" },
+        } as any),
+      ).rejects.toThrow(APIError);
+
+      expect(mockCtx.context.adapter.findOne).toHaveBeenNthCalledWith(1, {
+        model: "passkeyChallenge",
+        where: [
+          { field: "id", operator: "eq", value: "challenge-id" },
+          { field: "type", operator: "eq", value: "authentication" },
+        ],
+      });
+    });
+
+    it("should reject a challenge issued to another user", async () => {
+      mockCtx.context.adapter.findOne
+        .mockResolvedValueOnce({ ...mockChallenge, userId: "user-456" })
+        .mockResolvedValueOnce(mockPasskey);
+
+      const endpoint = createAuthenticateEndpoint(options);
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await expect(handler(mockCtx as any)).rejects.toMatchObject({
+        data: expect.objectContaining({ code: "INVALID_CHALLENGE" }),
+      });
+      expect(verifyAuthenticationResponse).not.toHaveBeenCalled();
+    });
+
+    it("should consume the challenge before looking up the credential", async () => {
+      const challengeStore = createMemoryChallengeStore();
+      await challengeStore.save(mockCtx.context as any, discoverableChallenge);
+      mockCtx.context.adapter.findOne.mockResolvedValueOnce(null);
+
+      const endpoint = createAuthenticateEndpoint({
+        ...options,
+        challengeStore,
+      });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await expect(handler(mockCtx as any)).rejects.toMatchObject({
+        data: expect.objectContaining({ code: "invalid_credential" }),
+      });
+      expect(
+        await challengeStore.findByChallenge(
+          mockCtx.context as any,
+          "test-challenge",
+          "authentication",
+        ),
+      ).toBeNull();
+
+      // A retry with the same response finds no challenge to use
+      await expect(handler(mockCtx as any)).rejects.toMatchObject({
+        data: expect.objectContaining({ code: "INVALID_CHALLENGE" }),
+      });
+    });
+
+    it("should reject when no stored challenge matches", async () => {
+      mockCtx.context.adapter.findOne.mockResolvedValueOnce(null);
+
+      const endpoint = createAuthenticateEndpoint(options);
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await expect(handler(mockCtx as any)).rejects.toMatchObject({
+        data: expect.objectContaining({ code: "INVALID_CHALLENGE" }),
+      });
+      expect(verifyAuthenticationResponse).not.toHaveBeenCalled();
     });
   });
 
@@ -416,9 +1118,9 @@ describe("authenticatePasskey endpoint", () => {
     };
 
     // Mock database error to see which model name is used
-    mockCtx.context.adapter.findOne.mockRejectedValueOnce(
-      new Error("Database connection error"),
-    );
+    mockCtx.context.adapter.findOne
+      .mockResolvedValueOnce(discoverableChallenge)
+      .mockRejectedValueOnce(new Error("Database connection error"));
 
     // Create endpoint with custom schema config
     const endpoint = createAuthenticateEndpoint(customOptions);
@@ -427,7 +1129,10 @@ describe("authenticatePasskey endpoint", () => {
     // Call handler and expect it to throw
     await expect(handler(mockCtx as any)).rejects.toThrow(APIError);
 
-    // Verify findOne was called with custom model name
+    // Verify findOne was called with custom model names
+    expect(mockCtx.context.adapter.findOne).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "customChallengeTable" }),
+    );
     expect(mockCtx.context.adapter.findOne).toHaveBeenCalledWith({
       model: "customPasskeyTable",
       where: [
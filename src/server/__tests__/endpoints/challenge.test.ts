@@ -116,6 +116,8 @@ describe("challenge endpoint", () => {
       // Verify response contains challenge
       expect(result).toEqual({
         challenge: expect.any(String),
+        challengeId: "generated-challenge-id",
+        timeout: 60000,
       });
     });
 
@@ -143,6 +145,179 @@ describe("challenge endpoint", () => {
     });
   });
 
+  describe("authenticator selection policy", () => {
+    const authenticatorSelection = {
+      userVerification: { registration: "required" as const },
+    };
+
+    beforeEach(() => {
+      mockCtx.context.adapter.findOne.mockResolvedValueOnce({ id: "user-123" });
+    });
+
+    it("should store options raised to the server policy", async () => {
+      mockCtx.body = {
+        type: "registration",
+        registrationOptions: {
+          authenticatorSelection: { userVerification: "discouraged" },
+        },
+      };
+
+      const endpoint = createChallengeEndpoint({
+        ...options,
+        authenticatorSelection,
+      });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx);
+
+      const stored = JSON.parse(
+        mockCtx.context.adapter.create.mock.calls[0][0].data.registrationOptions,
+      );
+      expect(stored.authenticatorSelection.userVerification).toBe("required");
+    });
+
+    it("should apply the policy when the client sends no options", async () => {
+      mockCtx.body = { type: "registration" };
+
+      const endpoint = createChallengeEndpoint({
+        ...options,
+        authenticatorSelection,
+      });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx);
+
+      const stored = JSON.parse(
+        mockCtx.context.adapter.create.mock.calls[0][0].data.registrationOptions,
+      );
+      expect(stored).toEqual({
+        attestation: "none",
+        authenticatorSelection: {
+          authenticatorAttachment: "platform",
+          residentKey: "required",
+          requireResidentKey: true,
+          userVerification: "required",
+        },
+      });
+    });
+
+    it("should keep the server defaults without a configured policy", async () => {
+      mockCtx.body = {
+        type: "registration",
+        registrationOptions: {
+          attestation: "direct",
+          authenticatorSelection: {
+            residentKey: "discouraged",
+            userVerification: "discouraged",
+          },
+        },
+      };
+
+      const endpoint = createChallengeEndpoint(options);
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx);
+
+      const stored = JSON.parse(
+        mockCtx.context.adapter.create.mock.calls[0][0].data.registrationOptions,
+      );
+      expect(stored).toEqual({
+        attestation: "none",
+        authenticatorSelection: {
+          authenticatorAttachment: "platform",
+          residentKey: "required",
+          requireResidentKey: true,
+          userVerification: "required",
+        },
+      });
+    });
+
+    it("should reject downgraded options when configured", async () => {
+      mockCtx.body = {
+        type: "registration",
+        registrationOptions: {
+          authenticatorSelection: { userVerification: "discouraged" },
+        },
+      };
+
+      const endpoint = createChallengeEndpoint({
+        ...options,
+        authenticatorSelection: {
+          ...authenticatorSelection,
+          onViolation: "reject",
+        },
+      });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await expect(handler(mockCtx)).rejects.toMatchObject({
+        status: "BAD_REQUEST",
+        data: expect.objectContaining({
+          code: "authenticator_selection_not_allowed",
+        }),
+      });
+      expect(mockCtx.context.adapter.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("challenge options", () => {
+    beforeEach(() => {
+      mockCtx.body = { type: "authentication" };
+    });
+
+    it("should store challenges with the configured lifetime", async () => {
+      const endpoint = createChallengeEndpoint({
+        ...options,
+        challengeOptions: { ttl: { authentication: 120 } },
+      });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx);
+
+      const { createdAt, expiresAt } =
+        mockCtx.context.adapter.create.mock.calls[0][0].data;
+      expect(
+        new Date(expiresAt).getTime() - new Date(createdAt).getTime(),
+      ).toBe(120 * 1000);
+    });
+
+    it("should generate challenges of the configured size", async () => {
+      const endpoint = createChallengeEndpoint({
+        ...options,
+        challengeOptions: { byteLength: 64 },
+      });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      const result = await handler(mockCtx);
+
+      expect(Buffer.from(result.challenge, "base64url")).toHaveLength(64);
+    });
+
+    it("should cap the returned timeout at the challenge lifetime", async () => {
+      mockCtx.body.timeout = 180000;
+
+      const endpoint = createChallengeEndpoint({
+        ...options,
+        challengeOptions: { ttl: { authentication: 90 } },
+      });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      const result = await handler(mockCtx);
+
+      expect(result.timeout).toBe(90000);
+    });
+
+    it("should return the requested timeout when it fits the lifetime", async () => {
+      mockCtx.body.timeout = 30000;
+
+      const endpoint = createChallengeEndpoint(options);
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      const result = await handler(mockCtx);
+
+      expect(result.timeout).toBe(30000);
+    });
+  });
+
   describe("authentication challenges", () => {
     it("should generate authentication challenge without session (unauthenticated user)", async () => {
       // Remove session to simulate unauthenticated user trying to log in
@@ -178,6 +353,8 @@ describe("challenge endpoint", () => {
 
       expect(result).toEqual({
         challenge: expect.any(String),
+        challengeId: "generated-challenge-id",
+        timeout: 60000,
       });
     });
 
@@ -211,6 +388,8 @@ describe("challenge endpoint", () => {
 
       expect(result).toEqual({
         challenge: expect.any(String),
+        challengeId: "generated-challenge-id",
+        timeout: 60000,
       });
     });
 
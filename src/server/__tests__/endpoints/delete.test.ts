@@ -0,0 +1,283 @@
+import { APIError } from "better-call";
+
+import { createDeleteEndpoint } from "../../../server/endpoints/delete";
+import { ERROR_CODES, registerErrorMessages } from "../../../types/errors";
+import type { ResolvedSchemaConfig } from "../../../types/server";
+
+// Mock logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+// Default schema config
+const defaultSchemaConfig: ResolvedSchemaConfig = {
+  authPasskeyModel: "authPasskey",
+  passkeyChallengeModel: "passkeyChallenge",
+};
+
+type EndpointHandler = (ctx: any) => Promise<any>;
+
+describe("deletePasskey endpoint", () => {
+  // Setup options for the endpoint
+  const options = {
+    logger: mockLogger,
+    schemaConfig: defaultSchemaConfig,
+  };
+
+  const revokedPasskey = {
+    id: "passkey-123",
+    userId: "user-123",
+    credentialId: "credential-123",
+    platform: "ios",
+    status: "revoked",
+  };
+
+  // Mock request context
+  let mockCtx: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockCtx = {
+      body: {
+        credentialId: "credential-123",
+      },
+      context: {
+        adapter: {
+          findOne: jest.fn(),
+          delete: jest.fn(),
+          deleteMany: jest.fn().mockResolvedValue(0),
+        },
+        session: {
+          user: {
+            id: "user-123",
+          },
+        },
+      },
+      json: jest.fn(),
+    };
+  });
+
+  it("should permanently delete the user's passkey, even when revoked", async () => {
+    mockCtx.context.adapter.findOne.mockResolvedValueOnce(revokedPasskey);
+
+    const endpoint = createDeleteEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler(mockCtx);
+
+    expect(mockCtx.context.adapter.findOne).toHaveBeenCalledWith({
+      model: "authPasskey",
+      where: [
+        { field: "credentialId", operator: "eq", value: "credential-123" },
+        { field: "userId", operator: "eq", value: "user-123" },
+      ],
+    });
+    expect(mockCtx.context.adapter.delete).toHaveBeenCalledWith({
+      model: "authPasskey",
+      where: [{ field: "id", operator: "eq", value: "passkey-123" }],
+    });
+    expect(mockCtx.context.adapter.deleteMany).not.toHaveBeenCalled();
+    expect(mockCtx.json).toHaveBeenCalledWith({ success: true, deleted: 1 });
+  });
+
+  it("should purge all revoked passkeys of the user", async () => {
+    mockCtx.body = { purgeRevoked: true };
+    mockCtx.context.adapter.deleteMany.mockResolvedValueOnce(3);
+
+    const endpoint = createDeleteEndpoint({
+      ...options,
+      schemaConfig: {
+        authPasskeyModel: "customPasskeyTable",
+        passkeyChallengeModel: "customChallengeTable",
+      },
+    });
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler(mockCtx);
+
+    expect(mockCtx.context.adapter.findOne).not.toHaveBeenCalled();
+    expect(mockCtx.context.adapter.deleteMany).toHaveBeenCalledWith({
+      model: "customPasskeyTable",
+      where: [
+        { field: "userId", operator: "eq", value: "user-123" },
+        { field: "status", operator: "eq", value: "revoked" },
+      ],
+    });
+    expect(mockCtx.json).toHaveBeenCalledWith({ success: true, deleted: 3 });
+  });
+
+  it("should reject when there is no session", async () => {
+    mockCtx.context.session = undefined;
+
+    const endpoint = createDeleteEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await expect(handler(mockCtx)).rejects.toMatchObject({
+      data: expect.objectContaining({ code: "SESSION_REQUIRED" }),
+    });
+    expect(mockCtx.context.adapter.delete).not.toHaveBeenCalled();
+  });
+
+  it("should send the error message in the configured locale", async () => {
+    registerErrorMessages("de", {
+      [ERROR_CODES.SERVER.SESSION_REQUIRED]: "Bitte melde dich an",
+    });
+    mockCtx.context.session = undefined;
+
+    const endpoint = createDeleteEndpoint({ ...options, locale: "de-AT" });
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await expect(handler(mockCtx)).rejects.toMatchObject({
+      data: expect.objectContaining({
+        code: ERROR_CODES.SERVER.SESSION_REQUIRED,
+        message: "Bitte melde dich an",
+      }),
+    });
+  });
+
+  it("should reject if the passkey does not belong to the user", async () => {
+    mockCtx.context.adapter.findOne.mockResolvedValueOnce(null);
+
+    const endpoint = createDeleteEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await expect(handler(mockCtx)).rejects.toMatchObject({
+      data: expect.objectContaining({ code: "credential_not_found" }),
+    });
+    expect(mockCtx.context.adapter.delete).not.toHaveBeenCalled();
+  });
+
+  it("should handle database errors gracefully", async () => {
+    mockCtx.context.adapter.findOne.mockResolvedValueOnce(revokedPasskey);
+    mockCtx.context.adapter.delete.mockRejectedValueOnce(
+      new Error("Database delete failed"),
+    );
+
+    const endpoint = createDeleteEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    const error = await handler(mockCtx).catch((e) => e);
+
+    expect(error).toBeInstanceOf(APIError);
+    expect(error).toMatchObject({
+      data: expect.objectContaining({ code: "deletion_failed" }),
+    });
+  });
+
+  describe("active passkeys", () => {
+    const activePasskey = { ...revokedPasskey, status: "active" };
+
+    it("should revoke the passkey before deleting it", async () => {
+      mockCtx.context.adapter.findOne.mockResolvedValueOnce(activePasskey);
+      const hooks = { beforeRevoke: jest.fn(), onRevoke: jest.fn() };
+      const auditLog = {
+        model: "passkeyEvent",
+        record: jest.fn(),
+        prune: jest.fn(),
+      };
+
+      const endpoint = createDeleteEndpoint({ ...options, hooks, auditLog });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx);
+
+      expect(hooks.beforeRevoke).toHaveBeenCalledWith({
+        user: { id: "user-123" },
+        passkey: activePasskey,
+        reason: "deleted",
+        request: { ipAddress: null, userAgent: null },
+      });
+      expect(mockCtx.context.adapter.delete).toHaveBeenCalled();
+      expect(auditLog.record).toHaveBeenCalledWith(mockCtx.context, {
+        type: "revoked",
+        userId: "user-123",
+        credentialId: "credential-123",
+        platform: "ios",
+        request: { ipAddress: null, userAgent: null },
+        details: { reason: "deleted", sessionsRevoked: 0 },
+      });
+      expect(hooks.onRevoke).toHaveBeenCalledWith({
+        userId: "user-123",
+        passkey: expect.objectContaining({
+          id: "passkey-123",
+          status: "revoked",
+          revokedReason: "deleted",
+        }),
+        reason: "deleted",
+        trigger: "user",
+        request: { ipAddress: null, userAgent: null },
+      });
+    });
+
+    it("should keep the passkey when beforeRevoke vetoes it", async () => {
+      mockCtx.context.adapter.findOne.mockResolvedValueOnce(activePasskey);
+      const veto = new APIError("FORBIDDEN", {
+        code: "LAST_PASSKEY",
+        message: "Add another sign-in method first",
+      });
+      const hooks = {
+        beforeRevoke: jest.fn().mockRejectedValue(veto),
+        onRevoke: jest.fn(),
+      };
+
+      const endpoint = createDeleteEndpoint({ ...options, hooks });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await expect(handler(mockCtx)).rejects.toBe(veto);
+      expect(mockCtx.context.adapter.delete).not.toHaveBeenCalled();
+      expect(hooks.onRevoke).not.toHaveBeenCalled();
+    });
+
+    it("should end sessions created with the passkey when configured", async () => {
+      mockCtx.context.adapter.findOne.mockResolvedValueOnce(activePasskey);
+      const internalAdapter = {
+        listSessions: jest.fn().mockResolvedValue([
+          { token: "passkey-token", passkeyCredentialId: "credential-123" },
+          { token: "other-token", passkeyCredentialId: "credential-456" },
+        ]),
+        deleteSessions: jest.fn(),
+      };
+      mockCtx.context.internalAdapter = internalAdapter;
+
+      const endpoint = createDeleteEndpoint({
+        ...options,
+        revokeSessions: true,
+      });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx);
+
+      expect(internalAdapter.deleteSessions).toHaveBeenCalledWith([
+        "passkey-token",
+      ]);
+    });
+
+    it("should not revoke an already revoked passkey again", async () => {
+      mockCtx.context.adapter.findOne.mockResolvedValueOnce(revokedPasskey);
+      const internalAdapter = {
+        listSessions: jest.fn(),
+        deleteSessions: jest.fn(),
+      };
+      mockCtx.context.internalAdapter = internalAdapter;
+      const hooks = { beforeRevoke: jest.fn(), onRevoke: jest.fn() };
+
+      const endpoint = createDeleteEndpoint({
+        ...options,
+        revokeSessions: true,
+        hooks,
+      });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx);
+
+      expect(mockCtx.context.adapter.delete).toHaveBeenCalled();
+      expect(hooks.beforeRevoke).not.toHaveBeenCalled();
+      expect(hooks.onRevoke).not.toHaveBeenCalled();
+      expect(internalAdapter.listSessions).not.toHaveBeenCalled();
+    });
+  });
+});
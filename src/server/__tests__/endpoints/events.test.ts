@@ -0,0 +1,165 @@
+import { APIError } from "better-call";
+
+import { createEventsEndpoint } from "../../../server/endpoints/events";
+
+// Mock logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+type EndpointHandler = (ctx: any) => Promise<any>;
+
+describe("listPasskeyEvents endpoint", () => {
+  const options = {
+    logger: mockLogger,
+    auditLog: {
+      model: "passkeyEvent",
+      record: jest.fn(),
+      prune: jest.fn(),
+    },
+  };
+
+  const storedEvents = [
+    {
+      id: "event-2",
+      userId: "user-123",
+      credentialId: "cred-1",
+      type: "authenticated",
+      ipAddress: "203.0.113.7",
+      userAgent: "Mozilla/5.0",
+      platform: "ios",
+      createdAt: "2026-03-02T00:00:00.000Z",
+    },
+    {
+      id: "event-1",
+      userId: "user-123",
+      credentialId: "cred-1",
+      type: "registered",
+      metadata: '{"outcome":"created"}',
+      createdAt: "2026-03-01T00:00:00.000Z",
+    },
+  ];
+
+  let mockCtx: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockCtx = {
+      query: {},
+      context: {
+        adapter: {
+          findMany: jest.fn().mockResolvedValue(storedEvents),
+        },
+        session: {
+          user: { id: "user-123" },
+        },
+      },
+      json: jest.fn((data) => data),
+    };
+  });
+
+  it("should return the user's events newest first", async () => {
+    const endpoint = createEventsEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    const result = await handler(mockCtx);
+
+    expect(mockCtx.context.adapter.findMany).toHaveBeenCalledWith({
+      model: "passkeyEvent",
+      where: [{ field: "userId", operator: "eq", value: "user-123" }],
+      sortBy: { field: "createdAt", direction: "desc" },
+      limit: 21,
+      offset: 0,
+    });
+    expect(result.events).toEqual([
+      {
+        id: "event-2",
+        type: "authenticated",
+        credentialId: "cred-1",
+        ipAddress: "203.0.113.7",
+        userAgent: "Mozilla/5.0",
+        platform: "ios",
+        metadata: {},
+        createdAt: "2026-03-02T00:00:00.000Z",
+      },
+      expect.objectContaining({
+        id: "event-1",
+        ipAddress: null,
+        metadata: { outcome: "created" },
+      }),
+    ]);
+    expect(result.nextOffset).toBeUndefined();
+  });
+
+  it("should filter by credential and type and page with nextOffset", async () => {
+    mockCtx.query = {
+      limit: "1",
+      offset: "4",
+      credentialId: "cred-1",
+      type: "authenticated",
+    };
+
+    const endpoint = createEventsEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    const result = await handler(mockCtx);
+
+    expect(mockCtx.context.adapter.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: [
+          { field: "userId", operator: "eq", value: "user-123" },
+          { field: "credentialId", operator: "eq", value: "cred-1" },
+          { field: "type", operator: "eq", value: "authenticated" },
+        ],
+        limit: 2,
+        offset: 4,
+      }),
+    );
+    expect(result.events).toHaveLength(1);
+    expect(result.nextOffset).toBe(5);
+  });
+
+  it("should cap the page size at 100", async () => {
+    mockCtx.query = { limit: "5000" };
+
+    const endpoint = createEventsEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler(mockCtx);
+
+    expect(mockCtx.context.adapter.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ limit: 101 }),
+    );
+  });
+
+  it("should require an authenticated session", async () => {
+    mockCtx.context.session = null;
+
+    const endpoint = createEventsEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await expect(handler(mockCtx)).rejects.toMatchObject({
+      status: "UNAUTHORIZED",
+      data: expect.objectContaining({ code: "SESSION_REQUIRED" }),
+    });
+    expect(mockCtx.context.adapter.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should handle database errors", async () => {
+    mockCtx.context.adapter.findMany.mockRejectedValueOnce(
+      new Error("Database error"),
+    );
+
+    const endpoint = createEventsEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    const error = await handler(mockCtx).catch((e) => e);
+
+    expect(error).toBeInstanceOf(APIError);
+    expect(error.data.code).toBe("events_retrieval_failed");
+  });
+});
@@ -1,8 +1,13 @@
 import * as endpointExports from "../../endpoints";
 import { createAuthenticateEndpoint as authenticate } from "../../endpoints/authenticate";
+import { createDeleteEndpoint as deleteEndpoint } from "../../endpoints/delete";
+import { createEventsEndpoint as events } from "../../endpoints/events";
 import { createListEndpoint as list } from "../../endpoints/list";
 import { createRegisterEndpoint as register } from "../../endpoints/register";
+import { createRegistrationOptionsEndpoint as registrationOptions } from "../../endpoints/registration-options";
 import { createRevokeEndpoint as revoke } from "../../endpoints/revoke";
+import { createRevokeManyEndpoint as revokeMany } from "../../endpoints/revoke-many";
+import { createUpdateEndpoint as update } from "../../endpoints/update";
 
 describe("server/endpoints module exports", () => {
   it("should export createRegisterEndpoint from register", () => {
@@ -21,14 +26,41 @@ describe("server/endpoints module exports", () => {
     expect(endpointExports.createRevokeEndpoint).toBe(revoke);
   });
 
-  it("should export the five endpoint creators", () => {
+  it("should export createRevokeManyEndpoint from revoke-many", () => {
+    expect(endpointExports.createRevokeManyEndpoint).toBe(revokeMany);
+  });
+
+  it("should export createDeleteEndpoint from delete", () => {
+    expect(endpointExports.createDeleteEndpoint).toBe(deleteEndpoint);
+  });
+
+  it("should export createUpdateEndpoint from update", () => {
+    expect(endpointExports.createUpdateEndpoint).toBe(update);
+  });
+
+  it("should export createEventsEndpoint from events", () => {
+    expect(endpointExports.createEventsEndpoint).toBe(events);
+  });
+
+  it("should export createRegistrationOptionsEndpoint from registration-options", () => {
+    expect(endpointExports.createRegistrationOptionsEndpoint).toBe(
+      registrationOptions,
+    );
+  });
+
+  it("should export the ten endpoint creators", () => {
     expect(Object.keys(endpointExports).sort()).toEqual(
       [
         "createRegisterEndpoint",
         "createAuthenticateEndpoint",
         "createListEndpoint",
         "createRevokeEndpoint",
+        "createRevokeManyEndpoint",
+        "createDeleteEndpoint",
+        "createUpdateEndpoint",
+        "createEventsEndpoint",
         "createChallengeEndpoint",
+        "createRegistrationOptionsEndpoint",
       ].sort(),
     );
   });
@@ -1,6 +1,7 @@
 import { APIError } from "better-call";
 
 import { createListEndpoint } from "../../../server/endpoints/list";
+import { createAaguidResolver } from "../../../server/utils/aaguid";
 import type { ResolvedSchemaConfig } from "../../../types/server";
 
 // Mock logger
@@ -24,6 +25,7 @@ describe("listPasskeys endpoint", () => {
   const options = {
     logger: mockLogger,
     schemaConfig: defaultSchemaConfig,
+    resolveProvider: createAaguidResolver(),
   };
 
   // Mock passkeys for database responses
@@ -38,6 +40,10 @@ describe("listPasskeys endpoint", () => {
       createdAt: "2023-01-01T00:00:00Z",
       updatedAt: "2023-02-01T00:00:00Z",
       metadata: '{"deviceName":"iPhone 14"}',
+      transports: "internal,hybrid",
+      deviceType: "multiDevice",
+      backedUp: true,
+      algorithm: "ES256",
     },
     {
       id: "passkey-2",
@@ -107,10 +113,18 @@ describe("listPasskeys endpoint", () => {
         expect.objectContaining({
           id: "passkey-1",
           metadata: { deviceName: "iPhone 14" },
+          transports: ["internal", "hybrid"],
+          deviceType: "multiDevice",
+          backedUp: true,
+          algorithm: "ES256",
         }),
         expect.objectContaining({
           id: "passkey-2",
           metadata: { deviceName: "Pixel 7" },
+          transports: [],
+          deviceType: null,
+          backedUp: null,
+          algorithm: null,
         }),
       ]),
       nextOffset: undefined, // No pagination for just 2 results with limit 10
@@ -127,6 +141,55 @@ describe("listPasskeys endpoint", () => {
     );
   });
 
+  it("should normalize AAGUIDs and resolve their providers", async () => {
+    mockCtx.context.adapter.findMany.mockResolvedValueOnce([
+      // Stored as standard base64 by earlier versions
+      { ...mockPasskeys[0], aaguid: "+/wwBxVOTsyMC24CBVfXvQ==" },
+      {
+        ...mockPasskeys[1],
+        aaguid: "EA9B8D66-4D01-1D21-3CE4-B6B48CB575D4",
+      },
+      {
+        ...mockPasskeys[1],
+        id: "passkey-3",
+        aaguid: "00000000-0000-0000-0000-000000000000",
+      },
+    ]);
+
+    const endpoint = createListEndpoint({
+      ...options,
+      resolveProvider: createAaguidResolver({
+        "ea9b8d66-4d01-1d21-3ce4-b6b48cb575d4": {
+          name: "Android",
+          icon: "https://example.com/android.svg",
+        },
+      }),
+    });
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler(mockCtx as any);
+
+    const { passkeys } = mockCtx.json.mock.calls[0][0];
+    expect(passkeys[0]).toEqual(
+      expect.objectContaining({
+        aaguid: "fbfc3007-154e-4ecc-8c0b-6e020557d7bd",
+        provider: { name: "iCloud Keychain" },
+      }),
+    );
+    expect(passkeys[1]).toEqual(
+      expect.objectContaining({
+        aaguid: "ea9b8d66-4d01-1d21-3ce4-b6b48cb575d4",
+        provider: { name: "Android", icon: "https://example.com/android.svg" },
+      }),
+    );
+    expect(passkeys[2]).toEqual(
+      expect.objectContaining({
+        aaguid: "00000000-0000-0000-0000-000000000000",
+        provider: null,
+      }),
+    );
+  });
+
   it("should use custom schema config model names", async () => {
     const customSchemaConfig: ResolvedSchemaConfig = {
       authPasskeyModel: "customPasskeyTable",
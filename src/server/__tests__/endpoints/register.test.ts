@@ -8,6 +8,8 @@ jest.mock("@simplewebauthn/server", () => ({
   },
 }));
 
+import { isoCBOR } from "@simplewebauthn/server/helpers";
+
 import { createRegisterEndpoint } from "../../../server/endpoints/register";
 import type { ResolvedSchemaConfig } from "../../../types/server";
 import { verifyRegistrationResponse } from "@simplewebauthn/server";
@@ -28,6 +30,25 @@ const defaultSchemaConfig: ResolvedSchemaConfig = {
 
 type EndpointHandler = (ctx: any) => Promise<any>;
 
+// Encode client data the way an authenticator would
+const encodeClientData = (challenge: string) =>
+  Buffer.from(
+    JSON.stringify({
+      type: "webauthn.create",
+      challenge,
+      origin: "https://example.com",
+    })
+  ).toString("base64url");
+
+const storedChallenge = {
+  id: "challenge-id",
+  userId: "user-123",
+  challenge: "test-challenge",
+  type: "registration",
+  createdAt: new Date().toISOString(),
+  expiresAt: new Date(Date.now() + 300000).toISOString(),
+};
+
 describe("registerPasskey endpoint", () => {
   // Setup options for the endpoint
   const options = {
@@ -52,7 +73,7 @@ describe("registerPasskey endpoint", () => {
           rawId: "test-raw-id",
           type: "public-key",
           response: {
-            clientDataJSON: "test-client-data",
+            clientDataJSON: encodeClientData("test-challenge"),
             attestationObject: "test-attestation",
             transports: ["internal"],
           },
@@ -69,7 +90,8 @@ describe("registerPasskey endpoint", () => {
           findMany: jest.fn(),
           create: jest.fn(),
           update: jest.fn(),
-          delete: jest.fn(),
+          // Consuming a challenge deletes exactly one row
+          deleteMany: jest.fn().mockResolvedValue(1),
         },
         generateId: jest.fn(() => "generated-id"),
         session: {
@@ -86,19 +108,7 @@ describe("registerPasskey endpoint", () => {
     // Mock user exists but database error occurs
     mockCtx.context.adapter.findOne
       .mockResolvedValueOnce({ id: "user-123" }) // User exists
-      .mockResolvedValueOnce(null); // No existing credential
-
-    // Mock findMany to return a valid challenge
-    mockCtx.context.adapter.findMany.mockResolvedValueOnce([
-      {
-        id: "challenge-id",
-        userId: "user-123",
-        challenge: "test-challenge",
-        type: "registration",
-        createdAt: new Date().toISOString(),
-        expiresAt: new Date(Date.now() + 300000).toISOString(),
-      },
-    ]);
+      .mockResolvedValueOnce(storedChallenge); // Valid challenge
 
     // Mock create to throw error
     mockCtx.context.adapter.create.mockRejectedValueOnce(
@@ -130,22 +140,13 @@ describe("registerPasskey endpoint", () => {
       schemaConfig: customSchemaConfig,
     };
 
-    // Mock user exists
-    mockCtx.context.adapter.findOne.mockResolvedValueOnce({ id: "user-123" });
+    // Mock user exists, then challenge lookup returns a valid challenge
+    mockCtx.context.adapter.findOne
+      .mockResolvedValueOnce({ id: "user-123" })
+      .mockResolvedValueOnce(storedChallenge);
 
-    // Mock challenge query to return a valid challenge
-    mockCtx.context.adapter.findMany
-      .mockResolvedValueOnce([
-        {
-          id: "challenge-id",
-          userId: "user-123",
-          challenge: "test-challenge",
-          type: "registration",
-          createdAt: new Date().toISOString(),
-          expiresAt: new Date(Date.now() + 300000).toISOString(),
-        },
-      ]) // First call for challenges
-      .mockResolvedValueOnce([]); // Second call for existing credentials (empty array)
+    // No existing credentials
+    mockCtx.context.adapter.findMany.mockResolvedValueOnce([]);
 
     // Mock WebAuthn verification to succeed so we can test both model names
     (verifyRegistrationResponse as jest.Mock).mockResolvedValueOnce({
@@ -159,7 +160,7 @@ describe("registerPasskey endpoint", () => {
       },
     });
 
-    // Mock database operations to fail at the create step so we can see both findMany calls
+    // Mock database operations to fail at the create step so we can see both lookups
     mockCtx.context.adapter.create.mockRejectedValueOnce(
       new Error("Database error")
     );
@@ -171,19 +172,17 @@ describe("registerPasskey endpoint", () => {
     // Call handler and expect it to throw due to database error
     await expect(handler(mockCtx)).rejects.toThrow(APIError);
 
-    // Verify findMany was called with custom challenge model name (first call)
-    expect(mockCtx.context.adapter.findMany).toHaveBeenNthCalledWith(1, {
+    // Verify the challenge was looked up in the custom challenge model
+    expect(mockCtx.context.adapter.findOne).toHaveBeenNthCalledWith(2, {
       model: "customChallengeTable",
       where: [
-        { field: "userId", operator: "eq", value: "user-123" },
+        { field: "challenge", operator: "eq", value: "test-challenge" },
         { field: "type", operator: "eq", value: "registration" },
       ],
-      sortBy: { field: "createdAt", direction: "desc" },
-      limit: 1,
     });
 
-    // Verify findMany was also called with custom passkey model name for existing credential check (second call)
-    expect(mockCtx.context.adapter.findMany).toHaveBeenNthCalledWith(2, {
+    // Verify findMany was called with custom passkey model name for existing credential check
+    expect(mockCtx.context.adapter.findMany).toHaveBeenCalledWith({
       model: "customPasskeyTable",
       where: [
         {
@@ -195,7 +194,407 @@ describe("registerPasskey endpoint", () => {
       limit: 1,
     });
 
-    // Verify both calls were made
-    expect(mockCtx.context.adapter.findMany).toHaveBeenCalledTimes(2);
+    expect(mockCtx.context.adapter.findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it("should store the transports reported by the authenticator", async () => {
+    mockCtx.body.credential.response.transports = ["usb", "nfc"];
+    mockCtx.context.adapter.findOne
+      .mockResolvedValueOnce({ id: "user-123" })
+      .mockResolvedValueOnce(storedChallenge);
+    mockCtx.context.adapter.findMany.mockResolvedValueOnce([]);
+    (verifyRegistrationResponse as jest.Mock).mockResolvedValueOnce({
+      verified: true,
+      registrationInfo: {
+        credential: {
+          id: "test-credential-id",
+          publicKey: "test-public-key",
+        },
+        aaguid: "test-aaguid",
+      },
+    });
+
+    const endpoint = createRegisterEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler(mockCtx);
+
+    expect(mockCtx.context.adapter.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "authPasskey",
+        data: expect.objectContaining({ transports: "usb,nfc" }),
+      })
+    );
+  });
+
+  it("should store the backup eligibility and state of the credential", async () => {
+    mockCtx.context.adapter.findOne
+      .mockResolvedValueOnce({ id: "user-123" })
+      .mockResolvedValueOnce(storedChallenge);
+    mockCtx.context.adapter.findMany.mockResolvedValueOnce([]);
+    (verifyRegistrationResponse as jest.Mock).mockResolvedValueOnce({
+      verified: true,
+      registrationInfo: {
+        credential: {
+          id: "test-credential-id",
+          publicKey: "test-public-key",
+        },
+        aaguid: "test-aaguid",
+        credentialDeviceType: "singleDevice",
+        credentialBackedUp: false,
+      },
+    });
+
+    const endpoint = createRegisterEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler(mockCtx);
+
+    expect(mockCtx.context.adapter.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          deviceType: "singleDevice",
+          backedUp: false,
+        }),
+      })
+    );
+  });
+
+  it("should verify against the configured algorithms and record the credential's", async () => {
+    mockCtx.context.adapter.findOne
+      .mockResolvedValueOnce({ id: "user-123" })
+      .mockResolvedValueOnce(storedChallenge);
+    mockCtx.context.adapter.findMany.mockResolvedValueOnce([]);
+    (verifyRegistrationResponse as jest.Mock).mockResolvedValueOnce({
+      verified: true,
+      registrationInfo: {
+        credential: {
+          id: "test-credential-id",
+          // COSE key with kty OKP and alg EdDSA
+          publicKey: isoCBOR.encode(
+            new Map<number, number>([
+              [1, 1],
+              [3, -8],
+            ])
+          ),
+        },
+        aaguid: "test-aaguid",
+      },
+    });
+
+    const endpoint = createRegisterEndpoint({
+      ...options,
+      supportedAlgorithms: ["EdDSA", "ES256"],
+    });
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler(mockCtx);
+
+    expect(verifyRegistrationResponse).toHaveBeenCalledWith(
+      expect.objectContaining({ supportedAlgorithmIDs: [-8, -7] })
+    );
+    expect(mockCtx.context.adapter.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ algorithm: "EdDSA" }),
+      })
+    );
+  });
+
+  it("should require user verification when the server policy does", async () => {
+    mockCtx.context.adapter.findOne
+      .mockResolvedValueOnce({ id: "user-123" })
+      .mockResolvedValueOnce(storedChallenge);
+    mockCtx.context.adapter.findMany.mockResolvedValueOnce([]);
+    (verifyRegistrationResponse as jest.Mock).mockResolvedValueOnce({
+      verified: true,
+      registrationInfo: {
+        credential: {
+          id: "test-credential-id",
+          publicKey: "test-public-key",
+        },
+        aaguid: "test-aaguid",
+      },
+    });
+
+    const endpoint = createRegisterEndpoint({
+      ...options,
+      authenticatorSelection: {
+        userVerification: { registration: "required" },
+      },
+    });
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler(mockCtx);
+
+    expect(verifyRegistrationResponse).toHaveBeenCalledWith(
+      expect.objectContaining({ requireUserVerification: true })
+    );
+  });
+
+  it("should reject attachments the server policy does not allow", async () => {
+    mockCtx.body.credential.authenticatorAttachment = "cross-platform";
+    mockCtx.context.adapter.findOne
+      .mockResolvedValueOnce({ id: "user-123" })
+      .mockResolvedValueOnce(storedChallenge);
+
+    const endpoint = createRegisterEndpoint({
+      ...options,
+      authenticatorSelection: { allowedAttachments: ["platform"] },
+    });
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await expect(handler(mockCtx)).rejects.toMatchObject({
+      status: "FORBIDDEN",
+      data: expect.objectContaining({
+        code: "authenticator_selection_not_allowed",
+      }),
+    });
+    expect(verifyRegistrationResponse).not.toHaveBeenCalled();
+  });
+
+  it("should store the AAGUID in canonical UUID form", async () => {
+    mockCtx.context.adapter.findOne
+      .mockResolvedValueOnce({ id: "user-123" })
+      .mockResolvedValueOnce(storedChallenge);
+    mockCtx.context.adapter.findMany.mockResolvedValueOnce([]);
+    (verifyRegistrationResponse as jest.Mock).mockResolvedValueOnce({
+      verified: true,
+      registrationInfo: {
+        credential: {
+          id: "test-credential-id",
+          publicKey: "test-public-key",
+        },
+        aaguid: "FBFC3007-154E-4ECC-8C0B-6E020557D7BD",
+      },
+    });
+
+    const endpoint = createRegisterEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler(mockCtx);
+
+    expect(mockCtx.context.adapter.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          aaguid: "fbfc3007-154e-4ecc-8c0b-6e020557d7bd",
+        }),
+      })
+    );
+  });
+
+  it("should reject an authenticator the attestation policy does not allow", async () => {
+    mockCtx.context.adapter.findOne
+      .mockResolvedValueOnce({ id: "user-123" })
+      .mockResolvedValueOnce(storedChallenge);
+    (verifyRegistrationResponse as jest.Mock).mockResolvedValueOnce({
+      verified: true,
+      registrationInfo: {
+        fmt: "packed",
+        credential: {
+          id: "test-credential-id",
+          publicKey: "test-public-key",
+        },
+        aaguid: "blocked-aaguid",
+      },
+    });
+    const attestationPolicy = {
+      load: jest.fn().mockResolvedValue(undefined),
+      evaluate: jest
+        .fn()
+        .mockResolvedValue({ allowed: false, reason: "AAGUID is blocked" }),
+    };
+
+    const endpoint = createRegisterEndpoint({ ...options, attestationPolicy });
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await expect(handler(mockCtx)).rejects.toMatchObject({
+      status: "FORBIDDEN",
+      data: expect.objectContaining({ code: "authenticator_not_allowed" }),
+    });
+    expect(attestationPolicy.load).toHaveBeenCalled();
+    expect(attestationPolicy.evaluate).toHaveBeenCalledWith(
+      "blocked-aaguid",
+      "packed"
+    );
+    expect(mockCtx.context.adapter.create).not.toHaveBeenCalled();
+  });
+
+  describe("challenge binding", () => {
+    it("should look up the challenge by the echoed challenge ID", async () => {
+      mockCtx.body.challengeId = "challenge-id";
+      mockCtx.context.adapter.findOne
+        .mockResolvedValueOnce({ id: "user-123" })
+        .mockResolvedValueOnce(storedChallenge);
+      (verifyRegistrationResponse as jest.Mock).mockRejectedValueOnce(
+        new Error("Stop after lookup")
+      );
+
+      const endpoint = createRegisterEndpoint(options);
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await expect(handler(mockCtx)).rejects.toThrow(APIError);
+
+      expect(mockCtx.context.adapter.findOne).toHaveBeenNthCalledWith(2, {
+        model: "passkeyChallenge",
+        where: [
+          { field: "id", operator: "eq", value: "challenge-id" },
+          { field: "type", operator: "eq", value: "registration" },
+        ],
+      });
+      expect(verifyRegistrationResponse).toHaveBeenCalledWith(
+        expect.objectContaining({ expectedChallenge: "test-challenge" })
+      );
+    });
+
+    it("should reject a challenge ID paired with a different signed challenge", async () => {
+      mockCtx.body.challengeId = "challenge-id";
+      mockCtx.body.credential.response.clientDataJSON =
+        encodeClientData("other-challenge");
+      mockCtx.context.adapter.findOne
+        .mockResolvedValueOnce({ id: "user-123" })
+        .mockResolvedValueOnce(storedChallenge);
+
+      const endpoint = createRegisterEndpoint(options);
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await expect(handler(mockCtx)).rejects.toMatchObject({
+        data: expect.objectContaining({ code: "INVALID_CHALLENGE" }),
+      });
+      expect(verifyRegistrationResponse).not.toHaveBeenCalled();
+    });
+
+    it("should reject a challenge issued to another user", async () => {
+      mockCtx.context.adapter.findOne
+        .mockResolvedValueOnce({ id: "user-123" })
+        .mockResolvedValueOnce({ ...storedChallenge, userId: "user-456" });
+
+      const endpoint = createRegisterEndpoint(options);
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await expect(handler(mockCtx)).rejects.toMatchObject({
+        data: expect.objectContaining({ code: "INVALID_CHALLENGE" }),
+      });
+      expect(verifyRegistrationResponse).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("lifecycle hooks", () => {
+    const verifiedRegistration = {
+      verified: true,
+      registrationInfo: {
+        credential: {
+          id: "test-credential-id",
+          publicKey: "test-public-key",
+        },
+        aaguid: "FBFC3007-154E-4ECC-8C0B-6E020557D7BD",
+      },
+    };
+
+    beforeEach(() => {
+      mockCtx.context.adapter.findOne
+        .mockResolvedValueOnce({ id: "user-123", email: "a@example.com" })
+        .mockResolvedValueOnce(storedChallenge);
+      mockCtx.context.adapter.findMany.mockResolvedValueOnce([]);
+      (verifyRegistrationResponse as jest.Mock).mockResolvedValueOnce(
+        verifiedRegistration
+      );
+    });
+
+    it("should call beforeRegister and onRegister with the stored passkey", async () => {
+      const hooks = {
+        beforeRegister: jest.fn(),
+        onRegister: jest.fn(),
+      };
+
+      const endpoint = createRegisterEndpoint({ ...options, hooks });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx);
+
+      expect(hooks.beforeRegister).toHaveBeenCalledWith({
+        user: { id: "user-123", email: "a@example.com" },
+        credentialId: "test-credential-id",
+        platform: "ios",
+        aaguid: "fbfc3007-154e-4ecc-8c0b-6e020557d7bd",
+        existingPasskey: null,
+        request: { ipAddress: null, userAgent: null },
+      });
+      expect(hooks.onRegister).toHaveBeenCalledWith(
+        expect.objectContaining({
+          outcome: "created",
+          passkey: expect.objectContaining({
+            id: "generated-id",
+            userId: "user-123",
+            status: "active",
+          }),
+        })
+      );
+    });
+
+    it("should not store the passkey when beforeRegister vetoes it", async () => {
+      const veto = new APIError("FORBIDDEN", {
+        code: "PASSKEY_LIMIT",
+        message: "Too many passkeys",
+      });
+      const hooks = {
+        beforeRegister: jest.fn().mockRejectedValue(veto),
+        onRegister: jest.fn(),
+        onVerificationFailure: jest.fn(),
+      };
+
+      const endpoint = createRegisterEndpoint({ ...options, hooks });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await expect(handler(mockCtx)).rejects.toBe(veto);
+      expect(mockCtx.context.adapter.create).not.toHaveBeenCalled();
+      expect(hooks.onRegister).not.toHaveBeenCalled();
+      expect(hooks.onVerificationFailure).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ceremony: "registration",
+          userId: "user-123",
+          error: { code: "PASSKEY_LIMIT", message: "Too many passkeys" },
+        })
+      );
+    });
+
+    it("should record a registered event in the audit log", async () => {
+      const auditLog = { model: "passkeyEvent", record: jest.fn(), prune: jest.fn() };
+
+      const endpoint = createRegisterEndpoint({ ...options, auditLog });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx);
+
+      expect(auditLog.record).toHaveBeenCalledWith(mockCtx.context, {
+        type: "registered",
+        userId: "user-123",
+        credentialId: "test-credential-id",
+        platform: "ios",
+        request: { ipAddress: null, userAgent: null },
+        details: {
+          outcome: "created",
+          aaguid: "fbfc3007-154e-4ecc-8c0b-6e020557d7bd",
+        },
+      });
+    });
+
+    it("should still succeed when onRegister throws", async () => {
+      const hooks = {
+        onRegister: jest.fn().mockRejectedValue(new Error("Mailer down")),
+      };
+
+      const endpoint = createRegisterEndpoint({ ...options, hooks });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx);
+
+      expect(mockCtx.json).toHaveBeenCalledWith(
+        expect.objectContaining({ success: true })
+      );
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        "Passkey onRegister hook failed:",
+        expect.any(Error)
+      );
+    });
   });
 });
@@ -0,0 +1,385 @@
+import { APIError } from "better-call";
+
+jest.mock("@simplewebauthn/server", () => ({
+  generateRegistrationOptions: jest.fn(async (opts) => ({
+    rp: { id: opts.rpID, name: opts.rpName },
+    user: {
+      id: "encoded-user-id",
+      name: opts.userName,
+      displayName: opts.userDisplayName,
+    },
+    challenge: "generated-challenge",
+    pubKeyCredParams: opts.supportedAlgorithmIDs.map((alg: number) => ({
+      type: "public-key",
+      alg,
+    })),
+    timeout: opts.timeout,
+    excludeCredentials: opts.excludeCredentials.map(
+      (cred: { id: string }) => ({ ...cred, type: "public-key" }),
+    ),
+    authenticatorSelection: opts.authenticatorSelection,
+    attestation: opts.attestationType,
+  })),
+}));
+
+jest.mock("@simplewebauthn/server/helpers", () => ({
+  isoUint8Array: {
+    fromUTF8String: jest.fn((value: string) => Buffer.from(value, "utf8")),
+  },
+}));
+
+import { generateRegistrationOptions } from "@simplewebauthn/server";
+import { createRegistrationOptionsEndpoint } from "../../../server/endpoints/registration-options";
+import type { ResolvedSchemaConfig } from "../../../types/server";
+
+// Mock the logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+// Default schema config
+const defaultSchemaConfig: ResolvedSchemaConfig = {
+  authPasskeyModel: "authPasskey",
+  passkeyChallengeModel: "passkeyChallenge",
+};
+
+type EndpointHandler = (ctx: any) => Promise<any>;
+
+describe("registration options endpoint", () => {
+  const options = {
+    rpName: "Test App",
+    rpId: "example.com",
+    logger: mockLogger,
+    schemaConfig: defaultSchemaConfig,
+  };
+
+  let mockCtx: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockCtx = {
+      body: {},
+      context: {
+        adapter: {
+          findMany: jest.fn().mockResolvedValue([]),
+          create: jest.fn(),
+        },
+        generateId: jest.fn(() => "generated-challenge-id"),
+        session: {
+          user: {
+            id: "user-123",
+            email: "test@example.com",
+            name: "Test User",
+          },
+        },
+      },
+      json: jest.fn((data) => data),
+    };
+  });
+
+  it("should build options from server config and session user", async () => {
+    const endpoint = createRegistrationOptionsEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    const result = await handler(mockCtx);
+
+    expect(result.rp).toEqual({ id: "example.com", name: "Test App" });
+    expect(result.user).toEqual(
+      expect.objectContaining({
+        name: "test@example.com",
+        displayName: "Test User",
+      }),
+    );
+    expect(result.pubKeyCredParams).toEqual([
+      { type: "public-key", alg: -7 },
+      { type: "public-key", alg: -257 },
+    ]);
+    expect(result.challengeId).toBe("generated-challenge-id");
+  });
+
+  it("should exclude the user's active credentials", async () => {
+    mockCtx.context.adapter.findMany.mockResolvedValueOnce([
+      {
+        id: "passkey-1",
+        credentialId: "cred-1",
+        status: "active",
+        transports: "usb,nfc",
+      },
+      { id: "passkey-2", credentialId: "cred-2", status: "active" },
+    ]);
+
+    const endpoint = createRegistrationOptionsEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    const result = await handler(mockCtx);
+
+    expect(mockCtx.context.adapter.findMany).toHaveBeenCalledWith({
+      model: "authPasskey",
+      where: [
+        { field: "userId", operator: "eq", value: "user-123" },
+        { field: "status", operator: "eq", value: "active" },
+      ],
+    });
+    expect(result.excludeCredentials).toEqual([
+      { id: "cred-1", type: "public-key", transports: ["usb", "nfc"] },
+      { id: "cred-2", type: "public-key", transports: undefined },
+    ]);
+  });
+
+  it("should store the generated challenge with the effective preferences", async () => {
+    mockCtx.body = {
+      authenticatorSelection: { userVerification: "required" },
+      timeout: 30000,
+    };
+
+    const endpoint = createRegistrationOptionsEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler(mockCtx);
+
+    expect(mockCtx.context.adapter.create).toHaveBeenCalledWith({
+      model: "passkeyChallenge",
+      data: expect.objectContaining({
+        userId: "user-123",
+        challenge: "generated-challenge",
+        type: "registration",
+      }),
+      forceAllowId: true,
+    });
+
+    const stored = JSON.parse(
+      mockCtx.context.adapter.create.mock.calls[0][0].data.registrationOptions,
+    );
+    expect(stored).toEqual({
+      attestation: "none",
+      authenticatorSelection: {
+        authenticatorAttachment: "platform",
+        residentKey: "required",
+        requireResidentKey: true,
+        userVerification: "required",
+      },
+      timeout: 30000,
+    });
+  });
+
+  it("should keep the server defaults when the client asks for weaker options", async () => {
+    mockCtx.body = {
+      attestation: "direct",
+      authenticatorSelection: {
+        authenticatorAttachment: "cross-platform",
+        residentKey: "discouraged",
+        userVerification: "discouraged",
+      },
+    };
+
+    const endpoint = createRegistrationOptionsEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler(mockCtx);
+
+    expect(generateRegistrationOptions).toHaveBeenCalledWith(
+      expect.objectContaining({
+        attestationType: "none",
+        authenticatorSelection: {
+          authenticatorAttachment: "platform",
+          residentKey: "required",
+          requireResidentKey: true,
+          userVerification: "required",
+        },
+      }),
+    );
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      "Registration options violate the server policy",
+      {
+        userId: "user-123",
+        violations: [
+          "userVerification",
+          "authenticatorAttachment",
+          "residentKey",
+        ],
+      },
+    );
+  });
+
+  it("should accept weaker options the server policy allows", async () => {
+    mockCtx.body = {
+      authenticatorSelection: {
+        authenticatorAttachment: "cross-platform",
+        residentKey: "discouraged",
+        userVerification: "preferred",
+      },
+    };
+
+    const endpoint = createRegistrationOptionsEndpoint({
+      ...options,
+      authenticatorSelection: {
+        userVerification: { registration: "preferred" },
+        allowedAttachments: ["platform", "cross-platform"],
+        residentKey: "discouraged",
+      },
+    });
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler(mockCtx);
+
+    expect(generateRegistrationOptions).toHaveBeenCalledWith(
+      expect.objectContaining({
+        authenticatorSelection: {
+          authenticatorAttachment: "cross-platform",
+          residentKey: "discouraged",
+          userVerification: "preferred",
+        },
+      }),
+    );
+    expect(mockLogger.warn).not.toHaveBeenCalled();
+  });
+
+  it("should cap the timeout and challenge lifetime at the configured TTL", async () => {
+    mockCtx.body = { timeout: 600000 };
+
+    const endpoint = createRegistrationOptionsEndpoint({
+      ...options,
+      challengeOptions: { ttl: { registration: 120 } },
+    });
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    const result = await handler(mockCtx);
+
+    expect(result.timeout).toBe(120000);
+    const { createdAt, expiresAt } =
+      mockCtx.context.adapter.create.mock.calls[0][0].data;
+    expect(new Date(expiresAt).getTime() - new Date(createdAt).getTime()).toBe(
+      120 * 1000,
+    );
+  });
+
+  it("should downgrade indirect attestation to none", async () => {
+    mockCtx.body = { attestation: "indirect" };
+
+    const endpoint = createRegistrationOptionsEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler(mockCtx);
+
+    expect(generateRegistrationOptions).toHaveBeenCalledWith(
+      expect.objectContaining({ attestationType: "none" }),
+    );
+  });
+
+  it("should request the server's attestation conveyance", async () => {
+    mockCtx.body = { attestation: "none" };
+
+    const endpoint = createRegistrationOptionsEndpoint({
+      ...options,
+      attestationConveyance: "direct",
+    });
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler(mockCtx);
+
+    expect(generateRegistrationOptions).toHaveBeenCalledWith(
+      expect.objectContaining({ attestationType: "direct" }),
+    );
+  });
+
+  it("should offer the configured signature algorithms", async () => {
+    const endpoint = createRegistrationOptionsEndpoint({
+      ...options,
+      supportedAlgorithms: ["EdDSA", "ES256", "PS256"],
+    });
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    const result = await handler(mockCtx);
+
+    expect(result.pubKeyCredParams).toEqual([
+      { type: "public-key", alg: -8 },
+      { type: "public-key", alg: -7 },
+      { type: "public-key", alg: -37 },
+    ]);
+  });
+
+  it("should raise preferences weaker than the server policy", async () => {
+    mockCtx.body = {
+      authenticatorSelection: { userVerification: "discouraged" },
+    };
+
+    const endpoint = createRegistrationOptionsEndpoint({
+      ...options,
+      authenticatorSelection: {
+        userVerification: { registration: "required" },
+      },
+    });
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler(mockCtx);
+
+    expect(generateRegistrationOptions).toHaveBeenCalledWith(
+      expect.objectContaining({
+        authenticatorSelection: expect.objectContaining({
+          userVerification: "required",
+        }),
+      }),
+    );
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      "Registration options violate the server policy",
+      { userId: "user-123", violations: ["userVerification"] },
+    );
+  });
+
+  it("should reject preferences weaker than the server policy when configured", async () => {
+    mockCtx.body = {
+      authenticatorSelection: { authenticatorAttachment: "cross-platform" },
+    };
+
+    const endpoint = createRegistrationOptionsEndpoint({
+      ...options,
+      authenticatorSelection: {
+        allowedAttachments: ["platform"],
+        onViolation: "reject",
+      },
+    });
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await expect(handler(mockCtx)).rejects.toMatchObject({
+      status: "BAD_REQUEST",
+      data: expect.objectContaining({
+        code: "authenticator_selection_not_allowed",
+      }),
+    });
+    expect(mockCtx.context.adapter.create).not.toHaveBeenCalled();
+  });
+
+  it("should reject when there is no session", async () => {
+    mockCtx.context.session = undefined;
+
+    const endpoint = createRegistrationOptionsEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await expect(handler(mockCtx)).rejects.toThrow(APIError);
+    expect(mockCtx.context.adapter.create).not.toHaveBeenCalled();
+  });
+
+  it("should use custom schema config model names", async () => {
+    const endpoint = createRegistrationOptionsEndpoint({
+      ...options,
+      schemaConfig: {
+        authPasskeyModel: "customPasskeyTable",
+        passkeyChallengeModel: "customChallengeTable",
+      },
+    });
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler(mockCtx);
+
+    expect(mockCtx.context.adapter.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "customPasskeyTable" }),
+    );
+    expect(mockCtx.context.adapter.create).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "customChallengeTable" }),
+    );
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * @file Replay and race tests for ceremony challenges
+ * @description Runs the register and authenticate endpoints against a real
+ * challenge store to show that every challenge is accepted at most once
+ */
+
+import {
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from "@simplewebauthn/server";
+
+import { createAuthenticateEndpoint } from "../../../server/endpoints/authenticate";
+import { createRegisterEndpoint } from "../../../server/endpoints/register";
+import { createMemoryChallengeStore } from "../../../server/utils/challenge-store";
+import type {
+  PasskeyChallenge,
+  ResolvedSchemaConfig,
+} from "../../../types/server";
+
+jest.mock("better-auth/cookies", () => ({
+  setSessionCookie: jest.fn(),
+  setCookieCache: jest.fn(),
+}));
+
+jest.mock("@simplewebauthn/server", () => ({
+  verifyAuthenticationResponse: jest.fn(),
+  verifyRegistrationResponse: jest.fn(),
+}));
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+const schemaConfig: ResolvedSchemaConfig = {
+  authPasskeyModel: "authPasskey",
+  passkeyChallengeModel: "passkeyChallenge",
+};
+
+type EndpointHandler = (ctx: any) => Promise<any>;
+
+const encodeClientData = (type: string, challenge: string) =>
+  Buffer.from(
+    JSON.stringify({ type, challenge, origin: "https://example.com" }),
+  ).toString("base64url");
+
+const createChallenge = (
+  type: PasskeyChallenge["type"],
+): PasskeyChallenge => ({
+  id: `${type}-challenge-id`,
+  userId: "user-123",
+  challenge: `${type}-challenge`,
+  type,
+  createdAt: new Date().toISOString(),
+  expiresAt: new Date(Date.now() + 300000).toISOString(),
+});
+
+const user = { id: "user-123", email: "test@example.com" };
+
+const passkey = {
+  id: "passkey-id",
+  userId: "user-123",
+  credentialId: "test-credential-id",
+  publicKey: "dGVzdC1wdWJsaWMta2V5",
+  counter: 0,
+  status: "active",
+  metadata: "{}",
+};
+
+/**
+ * Adapter that resolves rows by model, so repeated requests see the same data
+ */
+const createAdapter = () => ({
+  findOne: jest.fn(async ({ model }: { model: string }) =>
+    model === "user" ? user : model === "authPasskey" ? passkey : null,
+  ),
+  findMany: jest.fn().mockResolvedValue([]),
+  create: jest.fn(),
+  update: jest.fn(),
+  deleteMany: jest.fn(),
+});
+
+/**
+ * Settles the given submissions and returns how many succeeded and the error
+ * codes of the rejected ones
+ */
+const settle = async (submissions: Promise<unknown>[]) => {
+  const results = await Promise.allSettled(submissions);
+  return {
+    succeeded: results.filter((result) => result.status === "fulfilled")
+      .length,
+    codes: results
+      .filter((result) => result.status === "rejected")
+      .map((result) => (result as PromiseRejectedResult).reason.body?.code),
+  };
+};
+
+describe("challenge replay protection", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("authentication", () => {
+    const challenge = createChallenge("authentication");
+
+    const setup = async () => {
+      const challengeStore = createMemoryChallengeStore();
+      const adapter = createAdapter();
+      const context = {
+        adapter,
+        internalAdapter: {
+          createSession: jest.fn().mockResolvedValue({ token: "token" }),
+        },
+        options: { session: { expiresIn: 604800 } },
+      };
+      await challengeStore.save(context as any, challenge);
+
+      const endpoint = createAuthenticateEndpoint({
+        logger: mockLogger,
+        rpId: "example.com",
+        origin: "https://example.com",
+        schemaConfig,
+        challengeStore,
+        _sessionFetcher: jest.fn().mockResolvedValue(null),
+      });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      // Every submission carries the same signed assertion
+      const submit = () =>
+        handler({
+          body: {
+            credential: {
+              id: "test-credential-id",
+              rawId: "test-credential-id",
+              type: "public-key",
+              response: {
+                clientDataJSON: encodeClientData(
+                  "webauthn.get",
+                  challenge.challenge,
+                ),
+                authenticatorData: "test-auth-data",
+                signature: "test-signature",
+              },
+            },
+            challengeId: challenge.id,
+          },
+          request: { headers: { get: jest.fn().mockReturnValue(null) } },
+          context,
+          json: jest.fn((data) => data),
+        });
+
+      return { submit, context };
+    };
+
+    beforeEach(() => {
+      (verifyAuthenticationResponse as jest.Mock).mockResolvedValue({
+        verified: true,
+        authenticationInfo: { newCounter: 0 },
+      });
+    });
+
+    it("should reject a replayed assertion", async () => {
+      const { submit, context } = await setup();
+
+      await expect(submit()).resolves.toEqual(
+        expect.objectContaining({ token: "token" }),
+      );
+      await expect(submit()).rejects.toMatchObject({
+        body: { code: "INVALID_CHALLENGE" },
+      });
+
+      expect(context.internalAdapter.createSession).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not accept a challenge again after a failed verification", async () => {
+      const { submit } = await setup();
+      (verifyAuthenticationResponse as jest.Mock).mockResolvedValueOnce({
+        verified: false,
+      });
+
+      await expect(submit()).rejects.toMatchObject({
+        body: { code: "VERIFICATION_FAILED" },
+      });
+      await expect(submit()).rejects.toMatchObject({
+        body: { code: "INVALID_CHALLENGE" },
+      });
+
+      expect(verifyAuthenticationResponse).toHaveBeenCalledTimes(1);
+    });
+
+    it("should let exactly one of two racing submissions succeed", async () => {
+      const { submit, context } = await setup();
+
+      const { succeeded, codes } = await settle([submit(), submit()]);
+
+      expect(succeeded).toBe(1);
+      expect(codes).toEqual(["INVALID_CHALLENGE"]);
+      expect(context.internalAdapter.createSession).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("registration", () => {
+    const challenge = createChallenge("registration");
+
+    const setup = async () => {
+      const challengeStore = createMemoryChallengeStore();
+      const adapter = createAdapter();
+      const context = {
+        adapter,
+        generateId: jest.fn(() => "generated-id"),
+        session: { user: { id: "user-123" } },
+      };
+      await challengeStore.save(context as any, challenge);
+
+      const endpoint = createRegisterEndpoint({
+        rpName: "Test App",
+        rpId: "example.com",
+        origin: "https://example.com",
+        logger: mockLogger,
+        schemaConfig,
+        challengeStore,
+      });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      const submit = () =>
+        handler({
+          body: {
+            credential: {
+              id: "test-credential-id",
+              rawId: "test-credential-id",
+              type: "public-key",
+              response: {
+                clientDataJSON: encodeClientData(
+                  "webauthn.create",
+                  challenge.challenge,
+                ),
+                attestationObject: "test-attestation",
+              },
+            },
+            challengeId: challenge.id,
+            platform: "web",
+          },
+          context,
+          json: jest.fn((data) => data),
+        });
+
+      return { submit, adapter };
+    };
+
+    beforeEach(() => {
+      (verifyRegistrationResponse as jest.Mock).mockResolvedValue({
+        verified: true,
+        registrationInfo: {
+          credential: {
+            id: "test-credential-id",
+            publicKey: "test-public-key",
+          },
+          aaguid: "test-aaguid",
+        },
+      });
+    });
+
+    it("should reject a replayed attestation", async () => {
+      const { submit, adapter } = await setup();
+
+      await expect(submit()).resolves.toEqual(
+        expect.objectContaining({ success: true }),
+      );
+      await expect(submit()).rejects.toMatchObject({
+        body: { code: "INVALID_CHALLENGE" },
+      });
+
+      expect(adapter.create).toHaveBeenCalledTimes(1);
+    });
+
+    it("should let exactly one of two racing submissions succeed", async () => {
+      const { submit, adapter } = await setup();
+
+      const { succeeded, codes } = await settle([submit(), submit()]);
+
+      expect(succeeded).toBe(1);
+      expect(codes).toEqual(["INVALID_CHALLENGE"]);
+      expect(adapter.create).toHaveBeenCalledTimes(1);
+    });
+  });
+});
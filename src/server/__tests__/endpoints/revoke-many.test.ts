@@ -0,0 +1,282 @@
+import { APIError } from "better-call";
+
+import { createRevokeManyEndpoint } from "../../../server/endpoints/revoke-many";
+import type { ResolvedSchemaConfig } from "../../../types/server";
+
+// Mock logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+// Default schema config
+const defaultSchemaConfig: ResolvedSchemaConfig = {
+  authPasskeyModel: "authPasskey",
+  passkeyChallengeModel: "passkeyChallenge",
+};
+
+type EndpointHandler = (ctx: any) => Promise<any>;
+
+describe("revokePasskeys endpoint", () => {
+  // Setup options for the endpoint
+  const options = {
+    logger: mockLogger,
+    schemaConfig: defaultSchemaConfig,
+  };
+
+  const matchingPasskeys = [
+    { id: "passkey-1", userId: "user-123", credentialId: "cred-1" },
+    { id: "passkey-2", userId: "user-123", credentialId: "cred-2" },
+  ];
+
+  // Mock request context
+  let mockCtx: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockCtx = {
+      body: {
+        exceptCredentialId: "cred-current",
+      },
+      context: {
+        adapter: {
+          findMany: jest.fn().mockResolvedValue(matchingPasskeys),
+          updateMany: jest.fn().mockResolvedValue(2),
+        },
+        internalAdapter: {
+          listSessions: jest.fn().mockResolvedValue([
+            {
+              id: "session-1",
+              token: "current-token",
+              passkeyCredentialId: "cred-current",
+            },
+            {
+              id: "session-2",
+              token: "stolen-phone-token",
+              passkeyCredentialId: "cred-2",
+            },
+            { id: "session-3", token: "password-token" },
+          ]),
+          deleteSessions: jest.fn(),
+        },
+        session: {
+          user: { id: "user-123" },
+          session: { token: "current-token" },
+        },
+      },
+      json: jest.fn((data) => data),
+    };
+  });
+
+  it("should revoke every active passkey except the current one", async () => {
+    const endpoint = createRevokeManyEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    const result = await handler(mockCtx);
+
+    expect(mockCtx.context.adapter.findMany).toHaveBeenCalledWith({
+      model: "authPasskey",
+      where: [
+        { field: "userId", operator: "eq", value: "user-123" },
+        { field: "status", operator: "eq", value: "active" },
+        { field: "credentialId", operator: "ne", value: "cred-current" },
+      ],
+    });
+    expect(mockCtx.context.adapter.updateMany).toHaveBeenCalledWith({
+      model: "authPasskey",
+      where: [
+        { field: "id", operator: "in", value: ["passkey-1", "passkey-2"] },
+      ],
+      update: expect.objectContaining({
+        status: "revoked",
+        revokedReason: "user_initiated",
+      }),
+    });
+    expect(result).toEqual({
+      success: true,
+      revoked: 2,
+      credentialIds: ["cred-1", "cred-2"],
+      sessionsRevoked: 0,
+    });
+    expect(mockCtx.context.internalAdapter.deleteSessions).not.toHaveBeenCalled();
+  });
+
+  it("should combine credential ID and platform filters", async () => {
+    mockCtx.body = {
+      credentialIds: ["cred-1", "cred-2"],
+      platform: "android",
+      reason: "device_stolen",
+    };
+
+    const endpoint = createRevokeManyEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler(mockCtx);
+
+    expect(mockCtx.context.adapter.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.arrayContaining([
+          {
+            field: "credentialId",
+            operator: "in",
+            value: ["cred-1", "cred-2"],
+          },
+          { field: "platform", operator: "eq", value: "android" },
+        ]),
+      }),
+    );
+    expect(mockCtx.context.adapter.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({ revokedReason: "device_stolen" }),
+      }),
+    );
+  });
+
+  it("should end the sessions created with the revoked passkeys when requested", async () => {
+    mockCtx.body.revokeSessions = true;
+
+    const endpoint = createRevokeManyEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    const result = await handler(mockCtx);
+
+    expect(mockCtx.context.internalAdapter.listSessions).toHaveBeenCalledWith(
+      "user-123",
+    );
+    expect(mockCtx.context.internalAdapter.deleteSessions).toHaveBeenCalledWith(
+      ["stolen-phone-token"],
+    );
+    expect(result.sessionsRevoked).toBe(1);
+  });
+
+  it("should always end sessions when the plugin option is on", async () => {
+    const endpoint = createRevokeManyEndpoint({
+      ...options,
+      revokeSessions: true,
+    });
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    const result = await handler(mockCtx);
+    expect(result.sessionsRevoked).toBe(1);
+
+    // A request cannot turn the plugin option off
+    mockCtx.body.revokeSessions = false;
+    const overridden = await handler(mockCtx);
+    expect(overridden.sessionsRevoked).toBe(1);
+  });
+
+  it("should record the ended sessions in the audit log", async () => {
+    const auditLog = {
+      model: "passkeyEvent",
+      record: jest.fn(),
+      prune: jest.fn(),
+    };
+    mockCtx.body.revokeSessions = true;
+
+    const endpoint = createRevokeManyEndpoint({ ...options, auditLog });
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler(mockCtx);
+
+    expect(auditLog.record).toHaveBeenCalledTimes(2);
+    expect(auditLog.record).toHaveBeenCalledWith(
+      mockCtx.context,
+      expect.objectContaining({
+        type: "revoked",
+        credentialId: "cred-1",
+        details: { reason: "user_initiated", sessionsRevoked: 1 },
+      }),
+    );
+  });
+
+  it("should not touch the database when nothing matches", async () => {
+    mockCtx.body.revokeSessions = true;
+    mockCtx.context.adapter.findMany.mockResolvedValueOnce([]);
+
+    const endpoint = createRevokeManyEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    const result = await handler(mockCtx);
+
+    expect(mockCtx.context.adapter.updateMany).not.toHaveBeenCalled();
+    expect(mockCtx.context.internalAdapter.listSessions).not.toHaveBeenCalled();
+    expect(result.revoked).toBe(0);
+  });
+
+  it("should reject when there is no session", async () => {
+    mockCtx.context.session = undefined;
+
+    const endpoint = createRevokeManyEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await expect(handler(mockCtx)).rejects.toMatchObject({
+      data: expect.objectContaining({ code: "SESSION_REQUIRED" }),
+    });
+    expect(mockCtx.context.adapter.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should handle database errors gracefully", async () => {
+    mockCtx.context.adapter.updateMany.mockRejectedValueOnce(
+      new Error("Database update failed"),
+    );
+
+    const endpoint = createRevokeManyEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    const error = await handler(mockCtx).catch((e) => e);
+
+    expect(error).toBeInstanceOf(APIError);
+    expect(error).toMatchObject({
+      data: expect.objectContaining({ code: "revocation_failed" }),
+    });
+  });
+
+  describe("lifecycle hooks", () => {
+    it("should call onRevoke for every revoked passkey", async () => {
+      const hooks = { beforeRevoke: jest.fn(), onRevoke: jest.fn() };
+
+      const endpoint = createRevokeManyEndpoint({ ...options, hooks });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx);
+
+      expect(hooks.beforeRevoke).toHaveBeenCalledTimes(2);
+      expect(hooks.onRevoke).toHaveBeenCalledTimes(2);
+      expect(hooks.onRevoke).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: "user-123",
+          passkey: expect.objectContaining({
+            credentialId: "cred-2",
+            status: "revoked",
+          }),
+          reason: "user_initiated",
+          trigger: "user",
+        }),
+      );
+    });
+
+    it("should revoke nothing when beforeRevoke vetoes any passkey", async () => {
+      const veto = new APIError("FORBIDDEN", {
+        code: "PROTECTED_PASSKEY",
+        message: "This passkey cannot be revoked",
+      });
+      const hooks = {
+        beforeRevoke: jest
+          .fn()
+          .mockResolvedValueOnce(undefined)
+          .mockRejectedValueOnce(veto),
+        onRevoke: jest.fn(),
+      };
+
+      const endpoint = createRevokeManyEndpoint({ ...options, hooks });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await expect(handler(mockCtx)).rejects.toBe(veto);
+      expect(mockCtx.context.adapter.updateMany).not.toHaveBeenCalled();
+      expect(hooks.onRevoke).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -241,4 +241,114 @@ describe("revokePasskey endpoint", () => {
       expect.any(Error),
     );
   });
+
+  it("should end sessions created with the passkey when configured", async () => {
+    mockCtx.context.adapter.findOne.mockResolvedValueOnce({
+      id: "passkey-123",
+      userId: "user-123",
+      credentialId: "credential-123",
+      platform: "ios",
+      status: "active",
+    });
+    const internalAdapter = {
+      listSessions: jest.fn().mockResolvedValue([
+        { token: "passkey-token", passkeyCredentialId: "credential-123" },
+        { token: "other-token", passkeyCredentialId: "credential-456" },
+      ]),
+      deleteSessions: jest.fn(),
+    };
+
+    const endpoint = createRevokeEndpoint({ ...options, revokeSessions: true });
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler({
+      ...mockCtx,
+      context: { ...mockCtx.context, internalAdapter },
+    } as any);
+
+    expect(internalAdapter.listSessions).toHaveBeenCalledWith("user-123");
+    expect(internalAdapter.deleteSessions).toHaveBeenCalledWith([
+      "passkey-token",
+    ]);
+  });
+
+  describe("lifecycle hooks", () => {
+    const activePasskey = {
+      id: "passkey-123",
+      userId: "user-123",
+      credentialId: "credential-123",
+      platform: "ios",
+      status: "active",
+    };
+
+    it("should call beforeRevoke and onRevoke", async () => {
+      mockCtx.context.adapter.findOne.mockResolvedValueOnce(activePasskey);
+      const hooks = { beforeRevoke: jest.fn(), onRevoke: jest.fn() };
+
+      const endpoint = createRevokeEndpoint({ ...options, hooks });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx as any);
+
+      expect(hooks.beforeRevoke).toHaveBeenCalledWith({
+        user: { id: "user-123" },
+        passkey: activePasskey,
+        reason: "lost_device",
+        request: { ipAddress: null, userAgent: null },
+      });
+      expect(hooks.onRevoke).toHaveBeenCalledWith({
+        userId: "user-123",
+        passkey: expect.objectContaining({
+          id: "passkey-123",
+          status: "revoked",
+          revokedReason: "lost_device",
+        }),
+        reason: "lost_device",
+        trigger: "user",
+        request: { ipAddress: null, userAgent: null },
+      });
+    });
+
+    it("should record a revoked event in the audit log", async () => {
+      mockCtx.context.adapter.findOne.mockResolvedValueOnce(activePasskey);
+      const auditLog = {
+        model: "passkeyEvent",
+        record: jest.fn(),
+        prune: jest.fn(),
+      };
+
+      const endpoint = createRevokeEndpoint({ ...options, auditLog });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await handler(mockCtx as any);
+
+      expect(auditLog.record).toHaveBeenCalledWith(mockCtx.context, {
+        type: "revoked",
+        userId: "user-123",
+        credentialId: "credential-123",
+        platform: "ios",
+        request: { ipAddress: null, userAgent: null },
+        details: { reason: "lost_device", sessionsRevoked: 0 },
+      });
+    });
+
+    it("should keep the passkey when beforeRevoke vetoes it", async () => {
+      mockCtx.context.adapter.findOne.mockResolvedValueOnce(activePasskey);
+      const veto = new APIError("FORBIDDEN", {
+        code: "LAST_PASSKEY",
+        message: "Add another sign-in method first",
+      });
+      const hooks = {
+        beforeRevoke: jest.fn().mockRejectedValue(veto),
+        onRevoke: jest.fn(),
+      };
+
+      const endpoint = createRevokeEndpoint({ ...options, hooks });
+      const handler = (endpoint as any).handler as EndpointHandler;
+
+      await expect(handler(mockCtx as any)).rejects.toBe(veto);
+      expect(mockCtx.context.adapter.update).not.toHaveBeenCalled();
+      expect(hooks.onRevoke).not.toHaveBeenCalled();
+    });
+  });
 });
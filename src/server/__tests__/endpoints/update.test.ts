@@ -0,0 +1,157 @@
+import { APIError } from "better-call";
+
+import { createUpdateEndpoint } from "../../../server/endpoints/update";
+import type { ResolvedSchemaConfig } from "../../../types/server";
+
+// Mock logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+// Default schema config
+const defaultSchemaConfig: ResolvedSchemaConfig = {
+  authPasskeyModel: "authPasskey",
+  passkeyChallengeModel: "passkeyChallenge",
+};
+
+type EndpointHandler = (ctx: any) => Promise<any>;
+
+describe("updatePasskey endpoint", () => {
+  // Setup options for the endpoint
+  const options = {
+    logger: mockLogger,
+    schemaConfig: defaultSchemaConfig,
+  };
+
+  const activePasskey = {
+    id: "passkey-123",
+    userId: "user-123",
+    credentialId: "credential-123",
+    platform: "ios",
+    status: "active",
+  };
+
+  // Mock request context
+  let mockCtx: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockCtx = {
+      body: {
+        credentialId: "credential-123",
+        name: "Work iPhone",
+      },
+      context: {
+        adapter: {
+          findOne: jest.fn(),
+          update: jest.fn(),
+        },
+        session: {
+          user: {
+            id: "user-123",
+          },
+        },
+      },
+      json: jest.fn(),
+    };
+  });
+
+  it("should rename the user's passkey", async () => {
+    mockCtx.context.adapter.findOne.mockResolvedValueOnce(activePasskey);
+
+    const endpoint = createUpdateEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler(mockCtx);
+
+    // Lookup is scoped to the session user's active credentials
+    expect(mockCtx.context.adapter.findOne).toHaveBeenCalledWith({
+      model: "authPasskey",
+      where: [
+        { field: "credentialId", operator: "eq", value: "credential-123" },
+        { field: "userId", operator: "eq", value: "user-123" },
+        { field: "status", operator: "eq", value: "active" },
+      ],
+    });
+    expect(mockCtx.context.adapter.update).toHaveBeenCalledWith({
+      model: "authPasskey",
+      where: [{ field: "id", operator: "eq", value: "passkey-123" }],
+      update: {
+        name: "Work iPhone",
+        updatedAt: expect.any(String),
+      },
+    });
+    expect(mockCtx.json).toHaveBeenCalledWith({
+      success: true,
+      credentialId: "credential-123",
+      name: "Work iPhone",
+    });
+  });
+
+  it("should use custom schema config model names", async () => {
+    mockCtx.context.adapter.findOne.mockResolvedValueOnce(activePasskey);
+
+    const endpoint = createUpdateEndpoint({
+      ...options,
+      schemaConfig: {
+        authPasskeyModel: "customPasskeyTable",
+        passkeyChallengeModel: "customChallengeTable",
+      },
+    });
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await handler(mockCtx);
+
+    expect(mockCtx.context.adapter.findOne).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "customPasskeyTable" }),
+    );
+    expect(mockCtx.context.adapter.update).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "customPasskeyTable" }),
+    );
+  });
+
+  it("should reject when there is no session", async () => {
+    mockCtx.context.session = undefined;
+
+    const endpoint = createUpdateEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await expect(handler(mockCtx)).rejects.toMatchObject({
+      data: expect.objectContaining({ code: "SESSION_REQUIRED" }),
+    });
+    expect(mockCtx.context.adapter.findOne).not.toHaveBeenCalled();
+  });
+
+  it("should reject if the passkey is not found", async () => {
+    mockCtx.context.adapter.findOne.mockResolvedValueOnce(null);
+
+    const endpoint = createUpdateEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    await expect(handler(mockCtx)).rejects.toMatchObject({
+      data: expect.objectContaining({ code: "credential_not_found" }),
+    });
+    expect(mockCtx.context.adapter.update).not.toHaveBeenCalled();
+  });
+
+  it("should handle database update errors gracefully", async () => {
+    mockCtx.context.adapter.findOne.mockResolvedValueOnce(activePasskey);
+    mockCtx.context.adapter.update.mockRejectedValueOnce(
+      new Error("Database update failed"),
+    );
+
+    const endpoint = createUpdateEndpoint(options);
+    const handler = (endpoint as any).handler as EndpointHandler;
+
+    const error = await handler(mockCtx).catch((e) => e);
+
+    expect(error).toBeInstanceOf(APIError);
+    expect(error).toMatchObject({
+      data: expect.objectContaining({ code: "update_failed" }),
+    });
+  });
+});
@@ -1,5 +1,12 @@
-import { ERROR_CODES as ErrorsFromTypes } from "../../types";
-import { expoPasskey as ExpoPasskeyFromCore } from "../core";
+import {
+  ERROR_CODES as ErrorsFromTypes,
+  getErrorMessage as GetErrorMessageFromTypes,
+  registerErrorMessages as RegisterErrorMessagesFromTypes,
+} from "../../types";
+import {
+  deletePasskeyUserData as DeletePasskeyUserDataFromCore,
+  expoPasskey as ExpoPasskeyFromCore,
+} from "../core";
 import * as serverExports from "../index";
 
 describe("expo-passkey/server module exports", () => {
@@ -11,10 +18,29 @@ describe("expo-passkey/server module exports", () => {
     expect(serverExports.expoPasskey).toBe(ExpoPasskeyFromCore);
   });
 
-  it("should export exactly ERROR_CODES and expoPasskey", () => {
+  it("should export deletePasskeyUserData from server/core", () => {
+    expect(serverExports.deletePasskeyUserData).toBe(
+      DeletePasskeyUserDataFromCore,
+    );
+  });
+
+  it("should export the error message catalog from types/errors", () => {
+    expect(serverExports.getErrorMessage).toBe(GetErrorMessageFromTypes);
+    expect(serverExports.registerErrorMessages).toBe(
+      RegisterErrorMessagesFromTypes,
+    );
+  });
+
+  it("should export exactly the public server API", () => {
     // Ensure no additional exports have been accidentally added
     expect(Object.keys(serverExports).sort()).toEqual(
-      ["ERROR_CODES", "expoPasskey"].sort(),
+      [
+        "ERROR_CODES",
+        "deletePasskeyUserData",
+        "expoPasskey",
+        "getErrorMessage",
+        "registerErrorMessages",
+      ].sort(),
     );
   });
 });
@@ -66,6 +66,7 @@ jest.mock("better-call", () => ({
       super(data.message || "API Error");
       this.status = status;
       this.data = data;
+      this.body = data;
     }
   },
 }));
@@ -0,0 +1,65 @@
+/**
+ * @file Unit tests for the AAGUID utility
+ */
+
+import {
+  createAaguidResolver,
+  DEFAULT_AAGUID_PROVIDERS,
+  normalizeAaguid,
+} from "../../utils/aaguid";
+
+const ICLOUD_AAGUID = "fbfc3007-154e-4ecc-8c0b-6e020557d7bd";
+
+describe("AAGUID utilities", () => {
+  describe("normalizeAaguid", () => {
+    it("should accept every encoding an AAGUID has been stored in", () => {
+      const bytes = Buffer.from(ICLOUD_AAGUID.replace(/-/g, ""), "hex");
+
+      expect(normalizeAaguid(ICLOUD_AAGUID.toUpperCase())).toBe(ICLOUD_AAGUID);
+      expect(normalizeAaguid(ICLOUD_AAGUID.replace(/-/g, ""))).toBe(
+        ICLOUD_AAGUID,
+      );
+      expect(normalizeAaguid(bytes.toString("base64"))).toBe(ICLOUD_AAGUID);
+      expect(normalizeAaguid(bytes.toString("base64url"))).toBe(ICLOUD_AAGUID);
+      expect(normalizeAaguid(new Uint8Array(bytes))).toBe(ICLOUD_AAGUID);
+    });
+
+    it("should return null for missing or malformed values", () => {
+      expect(normalizeAaguid(undefined)).toBeNull();
+      expect(normalizeAaguid("")).toBeNull();
+      expect(normalizeAaguid("not-an-aaguid")).toBeNull();
+      expect(normalizeAaguid(new Uint8Array(8))).toBeNull();
+    });
+  });
+
+  describe("createAaguidResolver", () => {
+    it("should resolve bundled providers", () => {
+      const resolve = createAaguidResolver();
+
+      expect(resolve(ICLOUD_AAGUID)).toEqual({ name: "iCloud Keychain" });
+      expect(resolve("ea9b8d66-4d01-1d21-3ce4-b6b48cb575d4")).toEqual({
+        name: "Google Password Manager",
+      });
+      expect(resolve("00000000-0000-0000-0000-000000000000")).toBeNull();
+      expect(resolve(null)).toBeNull();
+    });
+
+    it("should merge overrides over the bundled table", () => {
+      const resolve = createAaguidResolver({
+        [ICLOUD_AAGUID.toUpperCase()]: null,
+        "12345678-1234-1234-1234-123456789abc": {
+          name: "Corporate Key",
+          icon: "https://example.com/key.svg",
+        },
+      });
+
+      expect(resolve(ICLOUD_AAGUID)).toBeNull();
+      expect(resolve("12345678-1234-1234-1234-123456789ABC")).toEqual({
+        name: "Corporate Key",
+        icon: "https://example.com/key.svg",
+      });
+      // The bundled table itself is left untouched
+      expect(DEFAULT_AAGUID_PROVIDERS[ICLOUD_AAGUID]).toBeDefined();
+    });
+  });
+});
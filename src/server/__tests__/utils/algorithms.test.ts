@@ -0,0 +1,47 @@
+/**
+ * @file Unit tests for the signature algorithm utility
+ */
+
+import { isoCBOR } from "@simplewebauthn/server/helpers";
+
+import {
+  getPublicKeyAlgorithm,
+  resolveAlgorithmIds,
+} from "../../utils/algorithms";
+
+// Minimal COSE key carrying only the key type and algorithm
+const encodeCoseKey = (alg: number) =>
+  isoCBOR.encode(
+    new Map<number, number>([
+      [1, 2],
+      [3, alg],
+    ]),
+  );
+
+describe("resolveAlgorithmIds", () => {
+  it("should default to ES256 and RS256", () => {
+    expect(resolveAlgorithmIds()).toEqual([-7, -257]);
+  });
+
+  it("should keep the configured order of preference", () => {
+    expect(resolveAlgorithmIds(["EdDSA", "ES256", "PS256"])).toEqual([
+      -8, -7, -37,
+    ]);
+  });
+});
+
+describe("getPublicKeyAlgorithm", () => {
+  it("should name known algorithms", () => {
+    expect(getPublicKeyAlgorithm(encodeCoseKey(-7))).toBe("ES256");
+    expect(getPublicKeyAlgorithm(encodeCoseKey(-8))).toBe("EdDSA");
+    expect(getPublicKeyAlgorithm(encodeCoseKey(-257))).toBe("RS256");
+  });
+
+  it("should fall back to the COSE identifier for other algorithms", () => {
+    expect(getPublicKeyAlgorithm(encodeCoseKey(-35))).toBe("-35");
+  });
+
+  it("should return null for keys that cannot be decoded", () => {
+    expect(getPublicKeyAlgorithm(new Uint8Array([0xff]))).toBeNull();
+  });
+});
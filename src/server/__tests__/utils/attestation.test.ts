@@ -0,0 +1,257 @@
+/**
+ * @file Unit tests for the attestation policy utility
+ */
+
+import crypto from "crypto";
+
+jest.mock("@simplewebauthn/server", () => ({
+  MetadataService: { initialize: jest.fn().mockResolvedValue(undefined) },
+  SettingsService: {
+    setRootCertificates: jest.fn(),
+    getRootCertificates: jest.fn(() => ["mds-root-pem"]),
+  },
+}));
+
+// The signing "certificate" is stood in for by a bare public key so the
+// signature check can run without building a real X.509 chain
+jest.mock("@simplewebauthn/server/helpers", () => ({
+  ...jest.requireActual("@simplewebauthn/server/helpers"),
+  convertCertBufferToPEM: jest.fn(),
+  validateCertificatePath: jest.fn().mockResolvedValue(true),
+}));
+
+import { MetadataService, SettingsService } from "@simplewebauthn/server";
+import {
+  convertCertBufferToPEM,
+  validateCertificatePath,
+} from "@simplewebauthn/server/helpers";
+import {
+  createAttestationPolicy,
+  getCertificationLevel,
+  parseMetadataBlob,
+} from "../../utils/attestation";
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+const YUBIKEY_AAGUID = "cb69481e-8ff7-4039-93ec-0a2729a154a8";
+const COMPROMISED_AAGUID = "11111111-2222-3333-4444-555555555555";
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync("ec", {
+  namedCurve: "P-256",
+});
+
+const encode = (value: unknown) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+// Build an ES256-signed MDS3 BLOB around the given entries
+const createBlob = (entries: unknown[]) => {
+  const header = encode({ alg: "ES256", typ: "JWT", x5c: ["leaf-cert"] });
+  const payload = encode({
+    legalHeader: "test",
+    no: 42,
+    nextUpdate: "2999-01-01",
+    entries,
+  });
+  const signature = crypto
+    .sign("sha256", Buffer.from(`${header}.${payload}`), {
+      key: privateKey,
+      dsaEncoding: "ieee-p1363",
+    })
+    .toString("base64url");
+  return `${header}.${payload}.${signature}`;
+};
+
+const metadataEntries = [
+  {
+    aaguid: YUBIKEY_AAGUID,
+    metadataStatement: { description: "Security Key" },
+    statusReports: [
+      { status: "FIDO_CERTIFIED_L1" },
+      { status: "FIDO_CERTIFIED_L2" },
+    ],
+  },
+  {
+    aaguid: COMPROMISED_AAGUID,
+    statusReports: [
+      { status: "FIDO_CERTIFIED_L2" },
+      { status: "ATTESTATION_KEY_COMPROMISE" },
+    ],
+  },
+];
+
+describe("attestation utilities", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (convertCertBufferToPEM as jest.Mock).mockReturnValue(
+      publicKey.export({ type: "spki", format: "pem" }),
+    );
+  });
+
+  describe("parseMetadataBlob", () => {
+    it("should return the payload of a correctly signed BLOB", async () => {
+      const payload = await parseMetadataBlob(createBlob(metadataEntries), [
+        "mds-root-pem",
+      ]);
+
+      expect(payload.no).toBe(42);
+      expect(payload.entries).toHaveLength(2);
+      expect(validateCertificatePath).toHaveBeenCalledWith(
+        [expect.any(String)],
+        ["mds-root-pem"],
+      );
+    });
+
+    it("should reject a BLOB whose payload was altered", async () => {
+      const [header, , signature] = createBlob(metadataEntries).split(".");
+      const tampered = `${header}.${encode({ entries: [] })}.${signature}`;
+
+      await expect(parseMetadataBlob(tampered, [])).rejects.toThrow(
+        "Metadata BLOB signature is invalid",
+      );
+    });
+
+    it("should reject input that is not a JWT", async () => {
+      await expect(parseMetadataBlob("not-a-jwt", [])).rejects.toThrow(
+        "Metadata BLOB is not a valid JWT",
+      );
+    });
+  });
+
+  describe("getCertificationLevel", () => {
+    it("should return the highest certification level", () => {
+      expect(getCertificationLevel(metadataEntries[0] as any)).toBe(
+        "FIDO_CERTIFIED_L2",
+      );
+    });
+
+    it("should return null for uncertified authenticators", () => {
+      expect(
+        getCertificationLevel({
+          statusReports: [{ status: "NOT_FIDO_CERTIFIED" }],
+        } as any),
+      ).toBeNull();
+    });
+  });
+
+  describe("createAttestationPolicy", () => {
+    it("should register trust anchors and load the metadata BLOB once", async () => {
+      const policy = createAttestationPolicy(
+        {
+          rootCertificates: { mds: ["mds-root-pem"], apple: ["apple-root"] },
+          mdsBlob: createBlob(metadataEntries),
+        },
+        mockLogger,
+      );
+
+      await policy.load();
+      await policy.load();
+
+      expect(SettingsService.setRootCertificates).toHaveBeenCalledWith({
+        identifier: "apple",
+        certificates: ["apple-root"],
+      });
+      expect(MetadataService.initialize).toHaveBeenCalledTimes(1);
+      expect(MetadataService.initialize).toHaveBeenCalledWith(
+        expect.objectContaining({
+          statements: [{ description: "Security Key" }],
+        }),
+      );
+    });
+
+    it("should retry loading after a failure", async () => {
+      const policy = createAttestationPolicy(
+        { mdsBlob: "not-a-jwt" },
+        mockLogger,
+      );
+
+      await expect(policy.load()).rejects.toThrow();
+      await expect(policy.load()).rejects.toThrow();
+      expect(MetadataService.initialize).not.toHaveBeenCalled();
+    });
+
+    it("should require an attestation statement when configured", async () => {
+      const policy = createAttestationPolicy(
+        { requireAttestation: true },
+        mockLogger,
+      );
+
+      await expect(policy.evaluate(YUBIKEY_AAGUID, "none")).resolves.toEqual({
+        allowed: false,
+        reason: "attestation statement required",
+      });
+      await expect(policy.evaluate(YUBIKEY_AAGUID, "packed")).resolves.toEqual(
+        { allowed: true },
+      );
+    });
+
+    it("should apply AAGUID allow and block lists case-insensitively", async () => {
+      const allowPolicy = createAttestationPolicy(
+        { allowedAAGUIDs: [YUBIKEY_AAGUID.toUpperCase()] },
+        mockLogger,
+      );
+      const blockPolicy = createAttestationPolicy(
+        { blockedAAGUIDs: [YUBIKEY_AAGUID] },
+        mockLogger,
+      );
+
+      await expect(
+        allowPolicy.evaluate(YUBIKEY_AAGUID, "packed"),
+      ).resolves.toEqual({ allowed: true });
+      await expect(
+        allowPolicy.evaluate(COMPROMISED_AAGUID, "packed"),
+      ).resolves.toMatchObject({ allowed: false });
+      await expect(
+        blockPolicy.evaluate(YUBIKEY_AAGUID, "packed"),
+      ).resolves.toEqual({ allowed: false, reason: "AAGUID is blocked" });
+    });
+
+    it("should reject authenticators with a compromised status", async () => {
+      const policy = createAttestationPolicy(
+        { mdsBlob: createBlob(metadataEntries) },
+        mockLogger,
+      );
+
+      await expect(
+        policy.evaluate(COMPROMISED_AAGUID, "packed"),
+      ).resolves.toEqual({
+        allowed: false,
+        reason: "authenticator status is ATTESTATION_KEY_COMPROMISE",
+      });
+    });
+
+    it("should enforce the minimum certification level", async () => {
+      const policy = createAttestationPolicy(
+        {
+          mdsBlob: createBlob(metadataEntries),
+          minimumCertificationLevel: "FIDO_CERTIFIED_L2",
+        },
+        mockLogger,
+      );
+      const strictPolicy = createAttestationPolicy(
+        {
+          mdsBlob: createBlob(metadataEntries),
+          minimumCertificationLevel: "FIDO_CERTIFIED_L3",
+        },
+        mockLogger,
+      );
+
+      await expect(policy.evaluate(YUBIKEY_AAGUID, "packed")).resolves.toEqual(
+        { allowed: true },
+      );
+      await expect(
+        policy.evaluate("00000000-0000-0000-0000-000000000000", "none"),
+      ).resolves.toEqual({
+        allowed: false,
+        reason: "certification level unknown is below FIDO_CERTIFIED_L2",
+      });
+      await expect(
+        strictPolicy.evaluate(YUBIKEY_AAGUID, "packed"),
+      ).resolves.toMatchObject({ allowed: false });
+    });
+  });
+});
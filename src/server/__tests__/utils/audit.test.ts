@@ -0,0 +1,164 @@
+/**
+ * @file Unit tests for the audit log utility
+ */
+
+import { createAuditLog } from "../../utils/audit";
+
+describe("createAuditLog", () => {
+  const mockLogger = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const createContext = () => ({
+    adapter: {
+      create: jest.fn(),
+      deleteMany: jest.fn().mockResolvedValue(4),
+    },
+    generateId: jest.fn(() => "event-id"),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date("2026-03-31T12:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("record", () => {
+    it("should store the event with request details", async () => {
+      const ctx = createContext();
+      const auditLog = createAuditLog({ model: "passkeyEvent" }, mockLogger);
+
+      await auditLog.record(ctx as any, {
+        type: "revoked",
+        userId: "user-123",
+        credentialId: "cred-1",
+        platform: "ios",
+        request: { ipAddress: "203.0.113.7", userAgent: "Mozilla/5.0" },
+        details: { reason: "lost_device" },
+      });
+
+      expect(ctx.adapter.create).toHaveBeenCalledWith({
+        model: "passkeyEvent",
+        data: {
+          id: "event-id",
+          userId: "user-123",
+          credentialId: "cred-1",
+          type: "revoked",
+          ipAddress: "203.0.113.7",
+          userAgent: "Mozilla/5.0",
+          platform: "ios",
+          metadata: JSON.stringify({ reason: "lost_device" }),
+          createdAt: "2026-03-31T12:00:00.000Z",
+        },
+        forceAllowId: true,
+      });
+    });
+
+    it("should generate an ID when the database assigns IDs", async () => {
+      const ctx = createContext();
+      ctx.generateId.mockReturnValueOnce(false as any);
+      const auditLog = createAuditLog({ model: "passkeyEvent" }, mockLogger);
+
+      await auditLog.record(ctx as any, {
+        type: "cleanup_revoked",
+        userId: "user-123",
+      });
+
+      const { id } = ctx.adapter.create.mock.calls[0][0].data;
+      expect(id).toEqual(expect.any(String));
+      expect(id).not.toBe("");
+    });
+
+    it("should store nulls for missing details", async () => {
+      const ctx = createContext();
+      const auditLog = createAuditLog({ model: "passkeyEvent" }, mockLogger);
+
+      await auditLog.record(ctx as any, {
+        type: "cleanup_revoked",
+        userId: "user-123",
+      });
+
+      expect(ctx.adapter.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            credentialId: null,
+            ipAddress: null,
+            userAgent: null,
+            platform: null,
+            metadata: null,
+          }),
+        }),
+      );
+    });
+
+    it("should log instead of throwing when the event cannot be stored", async () => {
+      const ctx = createContext();
+      ctx.adapter.create.mockRejectedValueOnce(new Error("Table missing"));
+      const auditLog = createAuditLog({ model: "passkeyEvent" }, mockLogger);
+
+      await expect(
+        auditLog.record(ctx as any, { type: "authenticated", userId: "u" }),
+      ).resolves.toBeUndefined();
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        "Failed to record passkey event:",
+        expect.objectContaining({ type: "authenticated" }),
+      );
+    });
+  });
+
+  describe("prune", () => {
+    it("should delete events older than 90 days by default", async () => {
+      const ctx = createContext();
+      const auditLog = createAuditLog({ model: "passkeyEvent" }, mockLogger);
+
+      const pruned = await auditLog.prune(ctx.adapter as any);
+
+      expect(ctx.adapter.deleteMany).toHaveBeenCalledWith({
+        model: "passkeyEvent",
+        where: [
+          {
+            field: "createdAt",
+            operator: "lt",
+            value: "2025-12-31T12:00:00.000Z",
+          },
+        ],
+      });
+      expect(pruned).toBe(4);
+    });
+
+    it("should use the configured retention period", async () => {
+      const ctx = createContext();
+      const auditLog = createAuditLog(
+        { model: "passkeyEvent", retentionDays: 1 },
+        mockLogger,
+      );
+
+      await auditLog.prune(ctx.adapter as any);
+
+      expect(ctx.adapter.deleteMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: [
+            expect.objectContaining({ value: "2026-03-30T12:00:00.000Z" }),
+          ],
+        }),
+      );
+    });
+
+    it("should keep events forever with a retention of 0", async () => {
+      const ctx = createContext();
+      const auditLog = createAuditLog(
+        { model: "passkeyEvent", retentionDays: 0 },
+        mockLogger,
+      );
+
+      expect(await auditLog.prune(ctx.adapter as any)).toBe(0);
+      expect(ctx.adapter.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+});
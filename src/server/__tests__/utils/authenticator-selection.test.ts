@@ -0,0 +1,187 @@
+/**
+ * @file Unit tests for the authenticator selection policy utility
+ */
+
+import {
+  applyRegistrationPolicy,
+  enforceAuthenticatorSelection,
+  isUserVerificationRequired,
+} from "../../utils/authenticator-selection";
+
+describe("enforceAuthenticatorSelection", () => {
+  it("should leave options untouched without a policy", () => {
+    const registrationOptions = {
+      attestation: "none" as const,
+      authenticatorSelection: { userVerification: "discouraged" as const },
+    };
+
+    expect(enforceAuthenticatorSelection(registrationOptions)).toEqual({
+      registrationOptions,
+      violations: [],
+    });
+  });
+
+  it("should raise a downgraded user verification requirement", () => {
+    const result = enforceAuthenticatorSelection(
+      { authenticatorSelection: { userVerification: "discouraged" } },
+      { userVerification: { registration: "required" } },
+    );
+
+    expect(result.registrationOptions.authenticatorSelection).toEqual({
+      userVerification: "required",
+    });
+    expect(result.violations).toEqual(["userVerification"]);
+  });
+
+  it("should fill in missing values without reporting violations", () => {
+    const result = enforceAuthenticatorSelection(
+      {},
+      {
+        userVerification: { registration: "required" },
+        allowedAttachments: ["platform"],
+        residentKey: "required",
+      },
+    );
+
+    expect(result.registrationOptions.authenticatorSelection).toEqual({
+      userVerification: "required",
+      authenticatorAttachment: "platform",
+      residentKey: "required",
+      requireResidentKey: true,
+    });
+    expect(result.violations).toEqual([]);
+  });
+
+  it("should replace an attachment that is not allowed", () => {
+    const result = enforceAuthenticatorSelection(
+      { authenticatorSelection: { authenticatorAttachment: "cross-platform" } },
+      { allowedAttachments: ["platform"] },
+    );
+
+    expect(
+      result.registrationOptions.authenticatorSelection?.authenticatorAttachment,
+    ).toBe("platform");
+    expect(result.violations).toEqual(["authenticatorAttachment"]);
+  });
+
+  it("should treat requireResidentKey: false as a resident key request", () => {
+    const result = enforceAuthenticatorSelection(
+      { authenticatorSelection: { requireResidentKey: false } },
+      { residentKey: "preferred" },
+    );
+
+    expect(result.registrationOptions.authenticatorSelection).toEqual({
+      residentKey: "preferred",
+      requireResidentKey: false,
+    });
+    expect(result.violations).toEqual(["residentKey"]);
+  });
+
+  it("should keep options stronger than the policy", () => {
+    const result = enforceAuthenticatorSelection(
+      {
+        authenticatorSelection: {
+          userVerification: "required",
+          residentKey: "required",
+        },
+      },
+      {
+        userVerification: { registration: "preferred" },
+        residentKey: "preferred",
+      },
+    );
+
+    expect(result.registrationOptions.authenticatorSelection).toEqual({
+      userVerification: "required",
+      residentKey: "required",
+    });
+    expect(result.violations).toEqual([]);
+  });
+});
+
+describe("applyRegistrationPolicy", () => {
+  it("should fill in the server defaults", () => {
+    const result = applyRegistrationPolicy({ timeout: 60000 });
+
+    expect(result.registrationOptions).toEqual({
+      attestation: "none",
+      authenticatorSelection: {
+        authenticatorAttachment: "platform",
+        residentKey: "required",
+        requireResidentKey: true,
+        userVerification: "required",
+      },
+      timeout: 60000,
+    });
+    expect(result.violations).toEqual([]);
+  });
+
+  it("should not let the client weaken the server defaults", () => {
+    const result = applyRegistrationPolicy({
+      attestation: "direct",
+      authenticatorSelection: {
+        authenticatorAttachment: "cross-platform",
+        residentKey: "preferred",
+        userVerification: "preferred",
+      },
+    });
+
+    expect(result.registrationOptions.attestation).toBe("none");
+    expect(result.registrationOptions.authenticatorSelection).toEqual({
+      authenticatorAttachment: "platform",
+      residentKey: "required",
+      requireResidentKey: true,
+      userVerification: "required",
+    });
+    expect(result.violations).toEqual([
+      "userVerification",
+      "authenticatorAttachment",
+      "residentKey",
+    ]);
+  });
+
+  it("should let the configured policy relax the defaults", () => {
+    const result = applyRegistrationPolicy(
+      {
+        authenticatorSelection: {
+          authenticatorAttachment: "cross-platform",
+          userVerification: "preferred",
+        },
+      },
+      {
+        userVerification: { registration: "preferred" },
+        allowedAttachments: ["platform", "cross-platform"],
+        residentKey: "discouraged",
+      },
+      "direct",
+    );
+
+    expect(result.registrationOptions).toEqual({
+      attestation: "direct",
+      authenticatorSelection: {
+        authenticatorAttachment: "cross-platform",
+        userVerification: "preferred",
+      },
+    });
+    expect(result.violations).toEqual([]);
+  });
+});
+
+describe("isUserVerificationRequired", () => {
+  it("should require user verification for authentication by default", () => {
+    expect(isUserVerificationRequired(undefined, "authentication")).toBe(true);
+    expect(isUserVerificationRequired(undefined, "registration")).toBe(false);
+  });
+
+  it("should follow the configured requirement", () => {
+    const policy = {
+      userVerification: {
+        registration: "required" as const,
+        authentication: "preferred" as const,
+      },
+    };
+
+    expect(isUserVerificationRequired(policy, "registration")).toBe(true);
+    expect(isUserVerificationRequired(policy, "authentication")).toBe(false);
+  });
+});
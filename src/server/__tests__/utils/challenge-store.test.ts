@@ -0,0 +1,314 @@
+/**
+ * @file Unit tests for the challenge store utility
+ */
+
+import type {
+  ChallengeStoreContext,
+  PasskeyChallenge,
+} from "../../../types/server";
+import {
+  createChallengeStore,
+  createDatabaseChallengeStore,
+  createMemoryChallengeStore,
+  createSecondaryStorageChallengeStore,
+} from "../../utils/challenge-store";
+
+const NOW = new Date("2026-03-31T12:00:00.000Z");
+
+const challenge: PasskeyChallenge = {
+  id: "challenge-id",
+  userId: "user-123",
+  challenge: "signed-challenge",
+  type: "authentication",
+  createdAt: NOW.toISOString(),
+  expiresAt: new Date(NOW.getTime() + 5 * 60 * 1000).toISOString(),
+};
+
+describe("createDatabaseChallengeStore", () => {
+  const adapter = {
+    create: jest.fn(),
+    findOne: jest.fn(),
+    deleteMany: jest.fn(),
+  };
+  const ctx = { adapter } as unknown as ChallengeStoreContext;
+  const store = createDatabaseChallengeStore("passkeyChallenge");
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should create a row per challenge", async () => {
+    await store.save(ctx, challenge);
+
+    expect(adapter.create).toHaveBeenCalledWith({
+      model: "passkeyChallenge",
+      data: { ...challenge, registrationOptions: null },
+      forceAllowId: true,
+    });
+  });
+
+  it("should look challenges up by ID or value and ceremony", async () => {
+    adapter.findOne.mockResolvedValue(challenge);
+
+    await expect(
+      store.findById(ctx, "challenge-id", "authentication"),
+    ).resolves.toEqual(challenge);
+    await store.findByChallenge(ctx, "signed-challenge", "authentication");
+
+    expect(adapter.findOne).toHaveBeenNthCalledWith(1, {
+      model: "passkeyChallenge",
+      where: [
+        { field: "id", operator: "eq", value: "challenge-id" },
+        { field: "type", operator: "eq", value: "authentication" },
+      ],
+    });
+    expect(adapter.findOne).toHaveBeenNthCalledWith(2, {
+      model: "passkeyChallenge",
+      where: [
+        { field: "challenge", operator: "eq", value: "signed-challenge" },
+        { field: "type", operator: "eq", value: "authentication" },
+      ],
+    });
+  });
+
+  it("should consume a challenge only when its row was deleted", async () => {
+    adapter.deleteMany.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+    await expect(store.consume(ctx, "challenge-id")).resolves.toBe(true);
+    await expect(store.consume(ctx, "challenge-id")).resolves.toBe(false);
+
+    expect(adapter.deleteMany).toHaveBeenCalledWith({
+      model: "passkeyChallenge",
+      where: [{ field: "id", operator: "eq", value: "challenge-id" }],
+    });
+  });
+
+  it("should delete expired challenges", async () => {
+    adapter.deleteMany.mockResolvedValueOnce(3);
+
+    await expect(store.deleteExpired?.(ctx)).resolves.toBe(3);
+
+    expect(adapter.deleteMany).toHaveBeenCalledWith({
+      model: "passkeyChallenge",
+      where: [{ field: "expiresAt", operator: "lt", value: NOW.toISOString() }],
+    });
+  });
+});
+
+describe("createMemoryChallengeStore", () => {
+  const ctx = {} as ChallengeStoreContext;
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should find saved challenges by ID and value", async () => {
+    const store = createMemoryChallengeStore();
+    await store.save(ctx, challenge);
+
+    await expect(
+      store.findById(ctx, "challenge-id", "authentication"),
+    ).resolves.toEqual(challenge);
+    await expect(
+      store.findByChallenge(ctx, "signed-challenge", "authentication"),
+    ).resolves.toEqual(challenge);
+    await expect(
+      store.findById(ctx, "challenge-id", "registration"),
+    ).resolves.toBeNull();
+  });
+
+  it("should forget consumed challenges", async () => {
+    const store = createMemoryChallengeStore();
+    await store.save(ctx, challenge);
+
+    await expect(store.consume(ctx, "challenge-id")).resolves.toBe(true);
+
+    await expect(
+      store.findById(ctx, "challenge-id", "authentication"),
+    ).resolves.toBeNull();
+    await expect(
+      store.findByChallenge(ctx, "signed-challenge", "authentication"),
+    ).resolves.toBeNull();
+  });
+
+  it("should keep expired challenges for a grace period before evicting them", async () => {
+    const store = createMemoryChallengeStore();
+    await store.save(ctx, challenge);
+
+    // Still returned just after expiry so the endpoint can report it as expired
+    jest.advanceTimersByTime(5 * 60 * 1000 + 1000);
+    await expect(
+      store.findById(ctx, "challenge-id", "authentication"),
+    ).resolves.toEqual(challenge);
+
+    jest.advanceTimersByTime(60 * 1000);
+    await expect(
+      store.findById(ctx, "challenge-id", "authentication"),
+    ).resolves.toBeNull();
+  });
+
+  it("should let only one of several concurrent requests consume a challenge", async () => {
+    const store = createMemoryChallengeStore();
+    await store.save(ctx, challenge);
+
+    const results = await Promise.all([
+      store.consume(ctx, "challenge-id"),
+      store.consume(ctx, "challenge-id"),
+      store.consume(ctx, "challenge-id"),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it("should not need a sweep", () => {
+    expect(createMemoryChallengeStore().deleteExpired).toBeUndefined();
+  });
+});
+
+describe("createSecondaryStorageChallengeStore", () => {
+  const createContext = () => {
+    const values = new Map<string, string>();
+    const secondaryStorage = {
+      get: jest.fn((key: string) => values.get(key) ?? null),
+      set: jest.fn((key: string, value: string) => {
+        values.set(key, value);
+      }),
+      delete: jest.fn((key: string) => {
+        values.delete(key);
+      }),
+      getAndDelete: jest.fn(async (key: string) => {
+        const value = values.get(key) ?? null;
+        values.delete(key);
+        return value;
+      }),
+    };
+    return {
+      values,
+      secondaryStorage,
+      ctx: { secondaryStorage } as unknown as ChallengeStoreContext,
+    };
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should store challenges with a TTL past their expiry", async () => {
+    const { ctx, secondaryStorage } = createContext();
+    const store = createSecondaryStorageChallengeStore();
+
+    await store.save(ctx, challenge);
+
+    expect(secondaryStorage.set).toHaveBeenCalledWith(
+      "expo-passkey:challenge:id:challenge-id",
+      JSON.stringify(challenge),
+      360,
+    );
+    expect(secondaryStorage.set).toHaveBeenCalledWith(
+      "expo-passkey:challenge:value:signed-challenge",
+      "challenge-id",
+      360,
+    );
+  });
+
+  it("should find saved challenges by ID and value", async () => {
+    const { ctx } = createContext();
+    const store = createSecondaryStorageChallengeStore();
+    await store.save(ctx, challenge);
+
+    await expect(
+      store.findById(ctx, "challenge-id", "authentication"),
+    ).resolves.toEqual(challenge);
+    await expect(
+      store.findByChallenge(ctx, "signed-challenge", "authentication"),
+    ).resolves.toEqual(challenge);
+    await expect(
+      store.findByChallenge(ctx, "signed-challenge", "registration"),
+    ).resolves.toBeNull();
+  });
+
+  it("should delete both keys of a consumed challenge", async () => {
+    const { ctx, values } = createContext();
+    const store = createSecondaryStorageChallengeStore();
+    await store.save(ctx, challenge);
+
+    await expect(store.consume(ctx, "challenge-id")).resolves.toBe(true);
+    await expect(store.consume(ctx, "challenge-id")).resolves.toBe(false);
+
+    expect(values.size).toBe(0);
+  });
+
+  it("should take the challenge atomically when consuming it", async () => {
+    const { ctx, secondaryStorage } = createContext();
+    const store = createSecondaryStorageChallengeStore();
+    await store.save(ctx, challenge);
+
+    const results = await Promise.all([
+      store.consume(ctx, "challenge-id"),
+      store.consume(ctx, "challenge-id"),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(secondaryStorage.getAndDelete).toHaveBeenCalledWith(
+      "expo-passkey:challenge:id:challenge-id",
+    );
+    expect(secondaryStorage.get).not.toHaveBeenCalled();
+  });
+
+  it("should fail without secondary storage", async () => {
+    const store = createSecondaryStorageChallengeStore();
+
+    await expect(
+      store.save({} as ChallengeStoreContext, challenge),
+    ).rejects.toThrow("no secondaryStorage configured");
+  });
+
+  it("should fail when the secondary storage cannot take keys atomically", async () => {
+    const { secondaryStorage } = createContext();
+    const { getAndDelete: _getAndDelete, ...storage } = secondaryStorage;
+    const store = createSecondaryStorageChallengeStore();
+
+    await expect(
+      store.consume(
+        { secondaryStorage: storage } as unknown as ChallengeStoreContext,
+        "challenge-id",
+      ),
+    ).rejects.toThrow("secondaryStorage has no getAndDelete method");
+  });
+});
+
+describe("createChallengeStore", () => {
+  it("should default to the database", async () => {
+    const adapter = { findOne: jest.fn().mockResolvedValue(null) };
+    const store = createChallengeStore(undefined, "custom_challenges");
+
+    await store.findById(
+      { adapter } as unknown as ChallengeStoreContext,
+      "challenge-id",
+      "registration",
+    );
+
+    expect(adapter.findOne).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "custom_challenges" }),
+    );
+  });
+
+  it("should return custom stores unchanged", () => {
+    const custom = createMemoryChallengeStore();
+
+    expect(createChallengeStore(custom, "passkeyChallenge")).toBe(custom);
+  });
+});
@@ -199,6 +199,198 @@ describe("Cleanup utility", () => {
     );
   });
 
+  test("should end the sessions of revoked passkeys when configured", async () => {
+    jest.useRealTimers();
+
+    const mockAdapter = {
+      findMany: jest.fn().mockResolvedValue([
+        { id: "passkey-1", userId: "user-1", credentialId: "cred-1" },
+        { id: "passkey-2", userId: "user-1", credentialId: "cred-2" },
+        { id: "passkey-3", userId: "user-2", credentialId: "cred-3" },
+      ]),
+      updateMany: jest.fn().mockResolvedValue(3),
+    };
+    const mockInternalAdapter = {
+      listSessions: jest.fn(async (userId: string) =>
+        userId === "user-1"
+          ? [
+              { token: "token-1", passkeyCredentialId: "cred-1" },
+              { token: "token-2", passkeyCredentialId: "cred-active" },
+            ]
+          : [{ token: "token-3", passkeyCredentialId: "cred-3" }],
+      ),
+      deleteSessions: jest.fn(),
+    };
+    const mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    const schemaConfig: ResolvedSchemaConfig = {
+      authPasskeyModel: "authPasskey",
+      passkeyChallengeModel: "passkeyChallenge",
+    };
+
+    const interval = setupCleanupJob(
+      { adapter: mockAdapter, internalAdapter: mockInternalAdapter } as any,
+      { inactiveDays: 30 },
+      mockLogger as Logger,
+      schemaConfig,
+      { revokeSessions: true },
+    );
+    clearInterval(interval as NodeJS.Timeout);
+
+    await new Promise((resolve) => setImmediate(resolve));
+
+    // Only the credentials looked up first are revoked
+    expect(mockAdapter.updateMany).toHaveBeenCalledWith({
+      model: "authPasskey",
+      where: [
+        {
+          field: "id",
+          operator: "in",
+          value: ["passkey-1", "passkey-2", "passkey-3"],
+        },
+        { field: "status", operator: "eq", value: "active" },
+      ],
+      update: expect.objectContaining({ status: "revoked" }),
+    });
+    expect(mockInternalAdapter.deleteSessions).toHaveBeenCalledWith([
+      "token-1",
+    ]);
+    expect(mockInternalAdapter.deleteSessions).toHaveBeenCalledWith([
+      "token-3",
+    ]);
+  });
+
+  test("should call onRevoke and record an event for each passkey revoked by the job", async () => {
+    jest.useRealTimers();
+
+    const mockAdapter = {
+      findMany: jest
+        .fn()
+        .mockResolvedValue([
+          { id: "passkey-1", userId: "user-1", credentialId: "cred-1" },
+        ]),
+      updateMany: jest.fn().mockResolvedValue(1),
+    };
+    const mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    const onRevoke = jest.fn();
+    const auditLog = {
+      model: "passkeyEvent",
+      record: jest.fn(),
+      prune: jest.fn(),
+    };
+    const mockContext = { adapter: mockAdapter };
+
+    const interval = setupCleanupJob(
+      mockContext as any,
+      { inactiveDays: 30 },
+      mockLogger as Logger,
+      {
+        authPasskeyModel: "authPasskey",
+        passkeyChallengeModel: "passkeyChallenge",
+      },
+      { onRevoke, auditLog },
+    );
+    clearInterval(interval as NodeJS.Timeout);
+
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(onRevoke).toHaveBeenCalledWith({
+      userId: "user-1",
+      passkey: expect.objectContaining({
+        id: "passkey-1",
+        status: "revoked",
+        revokedReason: "automatic_inactive",
+      }),
+      reason: "automatic_inactive",
+      trigger: "cleanup",
+      request: null,
+    });
+    expect(auditLog.record).toHaveBeenCalledWith(mockContext, {
+      type: "cleanup_revoked",
+      userId: "user-1",
+      credentialId: "cred-1",
+      platform: undefined,
+      details: { reason: "automatic_inactive", inactiveDays: 30 },
+    });
+  });
+
+  test("should skip passkeys that changed before they were revoked", async () => {
+    jest.useRealTimers();
+
+    const mockAdapter = {
+      findMany: jest
+        .fn()
+        .mockResolvedValueOnce([
+          { id: "passkey-1", userId: "user-1", credentialId: "cred-1" },
+          { id: "passkey-2", userId: "user-1", credentialId: "cred-2" },
+        ])
+        // Re-read after the update: passkey-2 was revoked by its user
+        .mockImplementationOnce(async () => {
+          const { update } = mockAdapter.updateMany.mock.calls[0][0];
+          return [
+            {
+              id: "passkey-1",
+              userId: "user-1",
+              credentialId: "cred-1",
+              ...update,
+            },
+            {
+              id: "passkey-2",
+              userId: "user-1",
+              credentialId: "cred-2",
+              status: "revoked",
+              revokedAt: "2026-01-01T00:00:00.000Z",
+              revokedReason: "user_initiated",
+            },
+          ];
+        }),
+      updateMany: jest.fn().mockResolvedValue(1),
+    };
+    const mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    const onRevoke = jest.fn();
+
+    const interval = setupCleanupJob(
+      { adapter: mockAdapter } as any,
+      { inactiveDays: 30 },
+      mockLogger as Logger,
+      {
+        authPasskeyModel: "authPasskey",
+        passkeyChallengeModel: "passkeyChallenge",
+      },
+      { onRevoke },
+    );
+    clearInterval(interval as NodeJS.Timeout);
+
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(mockAdapter.findMany).toHaveBeenLastCalledWith({
+      model: "authPasskey",
+      where: [
+        { field: "id", operator: "in", value: ["passkey-1", "passkey-2"] },
+      ],
+    });
+    expect(onRevoke).toHaveBeenCalledTimes(1);
+    expect(onRevoke).toHaveBeenCalledWith(
+      expect.objectContaining({
+        passkey: expect.objectContaining({ id: "passkey-1" }),
+      }),
+    );
+  });
+
   test("should log errors if the cleanup job fails", async () => {
     // Setup a test with a failing updateMany
     const mockUpdateMany = jest
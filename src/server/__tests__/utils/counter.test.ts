@@ -0,0 +1,43 @@
+/**
+ * @file Unit tests for the signature counter utility
+ */
+
+import {
+  getAuthenticatorCounter,
+  isCounterRegression,
+} from "../../utils/counter";
+
+// RP ID hash, flags and a big-endian counter
+const encodeAuthenticatorData = (counter: number) => {
+  const bytes = Buffer.alloc(37);
+  bytes.writeUInt8(0x05, 32);
+  bytes.writeUInt32BE(counter, 33);
+  return bytes.toString("base64url");
+};
+
+describe("getAuthenticatorCounter", () => {
+  it("should read the counter from authenticator data", () => {
+    expect(getAuthenticatorCounter(encodeAuthenticatorData(0))).toBe(0);
+    expect(getAuthenticatorCounter(encodeAuthenticatorData(258))).toBe(258);
+  });
+
+  it("should return null for truncated authenticator data", () => {
+    expect(getAuthenticatorCounter("dG9vLXNob3J0")).toBeNull();
+  });
+});
+
+describe("isCounterRegression", () => {
+  it("should accept an increasing counter", () => {
+    expect(isCounterRegression(5, 6)).toBe(false);
+  });
+
+  it("should flag a counter that did not increase", () => {
+    expect(isCounterRegression(5, 5)).toBe(true);
+    expect(isCounterRegression(5, 2)).toBe(true);
+    expect(isCounterRegression(5, 0)).toBe(true);
+  });
+
+  it("should ignore authenticators without a counter", () => {
+    expect(isCounterRegression(0, 0)).toBe(false);
+  });
+});
@@ -1,7 +1,10 @@
 import {
   ERROR_CODES,
   ERROR_MESSAGES,
+  getErrorMessage,
+  getLocaleFallbacks,
   PasskeyError,
+  registerErrorMessages,
 } from "../../../types/errors";
 
 describe("Error types", () => {
@@ -77,6 +80,20 @@ describe("Error types", () => {
       expect(error.message).toBe(customMessage);
     });
 
+    it("should look the message up in the given locale", () => {
+      registerErrorMessages("nl", {
+        [ERROR_CODES.SERVER.CREDENTIAL_NOT_FOUND]: "Passkey niet gevonden",
+      });
+
+      const error = new PasskeyError(
+        ERROR_CODES.SERVER.CREDENTIAL_NOT_FOUND,
+        undefined,
+        { locale: "nl-BE" },
+      );
+
+      expect(error.message).toBe("Passkey niet gevonden");
+    });
+
     it("should handle unknown error codes gracefully", () => {
       const unknownCode = "unknown_code";
       const error = new PasskeyError(unknownCode as any);
@@ -85,4 +102,64 @@ describe("Error types", () => {
       expect(error.message).toBe("Unknown error");
     });
   });
+
+  describe("error message catalog", () => {
+    it("should resolve a locale to its language, then English", () => {
+      expect(getLocaleFallbacks("pt_BR")).toEqual(["pt-br", "pt", "en"]);
+      expect(getLocaleFallbacks("zh-Hant-TW")).toEqual([
+        "zh-hant-tw",
+        "zh-hant",
+        "zh",
+        "en",
+      ]);
+      expect(getLocaleFallbacks("en-GB")).toEqual(["en-gb", "en"]);
+      expect(getLocaleFallbacks()).toEqual(["en"]);
+    });
+
+    it("should default to the built-in English messages", () => {
+      expect(getErrorMessage(ERROR_CODES.SERVER.USER_NOT_FOUND)).toBe(
+        ERROR_MESSAGES[ERROR_CODES.SERVER.USER_NOT_FOUND],
+      );
+      expect(getErrorMessage("unknown_code", "fr")).toBe("Unknown error");
+    });
+
+    it("should fall back through the chain for missing messages", () => {
+      registerErrorMessages("pt", {
+        [ERROR_CODES.SERVER.USER_NOT_FOUND]: "Usuário não encontrado",
+        [ERROR_CODES.SERVER.SESSION_REQUIRED]: "Inicie sessão para continuar",
+      });
+      registerErrorMessages("pt-BR", {
+        [ERROR_CODES.SERVER.SESSION_REQUIRED]: "Faça login para continuar",
+      });
+
+      expect(getErrorMessage(ERROR_CODES.SERVER.SESSION_REQUIRED, "pt-BR")).toBe(
+        "Faça login para continuar",
+      );
+      expect(getErrorMessage(ERROR_CODES.SERVER.USER_NOT_FOUND, "pt-BR")).toBe(
+        "Usuário não encontrado",
+      );
+      expect(getErrorMessage(ERROR_CODES.SERVER.SESSION_REQUIRED, "pt")).toBe(
+        "Inicie sessão para continuar",
+      );
+      expect(getErrorMessage(ERROR_CODES.SERVER.UPDATE_FAILED, "pt-BR")).toBe(
+        ERROR_MESSAGES[ERROR_CODES.SERVER.UPDATE_FAILED],
+      );
+    });
+
+    it("should merge bundles registered for the same locale", () => {
+      registerErrorMessages("it", {
+        [ERROR_CODES.SERVER.USER_NOT_FOUND]: "Utente non trovato",
+      });
+      registerErrorMessages("IT", {
+        [ERROR_CODES.SERVER.UPDATE_FAILED]: "Aggiornamento non riuscito",
+      });
+
+      expect(getErrorMessage(ERROR_CODES.SERVER.USER_NOT_FOUND, "it")).toBe(
+        "Utente non trovato",
+      );
+      expect(getErrorMessage(ERROR_CODES.SERVER.UPDATE_FAILED, "it")).toBe(
+        "Aggiornamento non riuscito",
+      );
+    });
+  });
 });
@@ -0,0 +1,75 @@
+/**
+ * @file Unit tests for the lifecycle hook utilities
+ */
+
+import { getRequestMetadata, runAfterHook } from "../../utils/hooks";
+
+describe("getRequestMetadata", () => {
+  it("should read the client IP and user agent from the request", () => {
+    const headers = new Headers({
+      "x-forwarded-for": "203.0.113.7",
+      "user-agent": "Mozilla/5.0",
+    });
+
+    expect(getRequestMetadata({ request: new Request("https://a.test", { headers }) })).toEqual({
+      ipAddress: "203.0.113.7",
+      userAgent: "Mozilla/5.0",
+    });
+  });
+
+  it("should fall back to the context headers and x-real-ip", () => {
+    const headers = new Headers({ "x-real-ip": "198.51.100.2" });
+
+    expect(getRequestMetadata({ headers })).toEqual({
+      ipAddress: "198.51.100.2",
+      userAgent: null,
+    });
+  });
+
+  it("should return nulls without headers", () => {
+    expect(getRequestMetadata({})).toEqual({
+      ipAddress: null,
+      userAgent: null,
+    });
+  });
+});
+
+describe("runAfterHook", () => {
+  const mockLogger = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should call the hook with the event", async () => {
+    const hook = jest.fn();
+
+    await runAfterHook(mockLogger, "onRegister", hook, { id: 1 });
+
+    expect(hook).toHaveBeenCalledWith({ id: 1 });
+  });
+
+  it("should log instead of throwing hook errors", async () => {
+    const error = new Error("Webhook unreachable");
+    const hook = jest.fn().mockRejectedValue(error);
+
+    await expect(
+      runAfterHook(mockLogger, "onRevoke", hook, {}),
+    ).resolves.toBeUndefined();
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      "Passkey onRevoke hook failed:",
+      error,
+    );
+  });
+
+  it("should do nothing without a hook", async () => {
+    await expect(
+      runAfterHook(mockLogger, "onRevoke", undefined, {}),
+    ).resolves.toBeUndefined();
+  });
+});
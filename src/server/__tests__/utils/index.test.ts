@@ -1,10 +1,78 @@
+import * as aaguidExports from "../../utils/aaguid";
+import * as algorithmsExports from "../../utils/algorithms";
+import * as attestationExports from "../../utils/attestation";
+import * as auditExports from "../../utils/audit";
+import * as authenticatorSelectionExports from "../../utils/authenticator-selection";
+import * as challengeExports from "../../utils/challenge";
+import * as challengeStoreExports from "../../utils/challenge-store";
 import * as cleanupExports from "../../utils/cleanup";
+import * as counterExports from "../../utils/counter";
+import * as hooksExports from "../../utils/hooks";
 import * as utilsExports from "../../utils/index";
 import * as loggerExports from "../../utils/logger";
 import * as rateLimitExports from "../../utils/rate-limit";
 import * as schemaExports from "../../utils/schema";
+import * as sessionsExports from "../../utils/sessions";
 
 describe("server/utils module exports", () => {
+  it("should export everything from aaguid", () => {
+    Object.keys(aaguidExports).forEach((key) => {
+      expect(utilsExports[key as keyof typeof utilsExports]).toBe(
+        aaguidExports[key as keyof typeof aaguidExports],
+      );
+    });
+  });
+
+  it("should export everything from algorithms", () => {
+    Object.keys(algorithmsExports).forEach((key) => {
+      expect(utilsExports[key as keyof typeof utilsExports]).toBe(
+        algorithmsExports[key as keyof typeof algorithmsExports],
+      );
+    });
+  });
+
+  it("should export everything from attestation", () => {
+    Object.keys(attestationExports).forEach((key) => {
+      expect(utilsExports[key as keyof typeof utilsExports]).toBe(
+        attestationExports[key as keyof typeof attestationExports],
+      );
+    });
+  });
+
+  it("should export everything from audit", () => {
+    Object.keys(auditExports).forEach((key) => {
+      expect(utilsExports[key as keyof typeof utilsExports]).toBe(
+        auditExports[key as keyof typeof auditExports],
+      );
+    });
+  });
+
+  it("should export everything from authenticator-selection", () => {
+    Object.keys(authenticatorSelectionExports).forEach((key) => {
+      expect(utilsExports[key as keyof typeof utilsExports]).toBe(
+        authenticatorSelectionExports[
+          key as keyof typeof authenticatorSelectionExports
+        ],
+      );
+    });
+  });
+
+  it("should export everything from challenge", () => {
+    Object.keys(challengeExports).forEach((key) => {
+      expect(utilsExports[key as keyof typeof utilsExports]).toBe(
+        challengeExports[key as keyof typeof challengeExports],
+      );
+    });
+  });
+
+  it("should export everything from challenge-store", () => {
+    Object.keys(challengeStoreExports).forEach((key) => {
+      expect(utilsExports[key as keyof typeof utilsExports]).toBe(
+        challengeStoreExports[key as keyof typeof challengeStoreExports],
+      );
+    });
+  });
+
   it("should export everything from cleanup", () => {
     Object.keys(cleanupExports).forEach((key) => {
       expect(utilsExports[key as keyof typeof utilsExports]).toBe(
@@ -13,6 +81,22 @@ describe("server/utils module exports", () => {
     });
   });
 
+  it("should export everything from counter", () => {
+    Object.keys(counterExports).forEach((key) => {
+      expect(utilsExports[key as keyof typeof utilsExports]).toBe(
+        counterExports[key as keyof typeof counterExports],
+      );
+    });
+  });
+
+  it("should export everything from hooks", () => {
+    Object.keys(hooksExports).forEach((key) => {
+      expect(utilsExports[key as keyof typeof utilsExports]).toBe(
+        hooksExports[key as keyof typeof hooksExports],
+      );
+    });
+  });
+
   it("should export everything from logger", () => {
     Object.keys(loggerExports).forEach((key) => {
       expect(utilsExports[key as keyof typeof utilsExports]).toBe(
@@ -37,12 +121,30 @@ describe("server/utils module exports", () => {
     });
   });
 
-  it("should only export members from cleanup, logger, rate-limit, and schema", () => {
+  it("should export everything from sessions", () => {
+    Object.keys(sessionsExports).forEach((key) => {
+      expect(utilsExports[key as keyof typeof utilsExports]).toBe(
+        sessionsExports[key as keyof typeof sessionsExports],
+      );
+    });
+  });
+
+  it("should only export members from aaguid, algorithms, attestation, audit, authenticator-selection, challenge, challenge-store, cleanup, counter, hooks, logger, rate-limit, schema, and sessions", () => {
     const expectedExports = [
+      ...Object.keys(aaguidExports),
+      ...Object.keys(algorithmsExports),
+      ...Object.keys(attestationExports),
+      ...Object.keys(auditExports),
+      ...Object.keys(authenticatorSelectionExports),
+      ...Object.keys(challengeExports),
+      ...Object.keys(challengeStoreExports),
       ...Object.keys(cleanupExports),
+      ...Object.keys(counterExports),
+      ...Object.keys(hooksExports),
       ...Object.keys(loggerExports),
       ...Object.keys(rateLimitExports),
       ...Object.keys(schemaExports),
+      ...Object.keys(sessionsExports),
     ];
 
     const actualExports = Object.keys(utilsExports);
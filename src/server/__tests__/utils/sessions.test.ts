@@ -0,0 +1,54 @@
+/**
+ * @file Unit tests for the passkey session utility
+ */
+
+import { revokePasskeySessions } from "../../utils/sessions";
+
+describe("revokePasskeySessions", () => {
+  const createInternalAdapter = (sessions: Record<string, unknown>[]) => ({
+    listSessions: jest.fn().mockResolvedValue(sessions),
+    deleteSessions: jest.fn(),
+  });
+
+  it("should delete only sessions created with the given credentials", async () => {
+    const internalAdapter = createInternalAdapter([
+      { token: "token-1", passkeyCredentialId: "cred-1" },
+      { token: "token-2", passkeyCredentialId: "cred-2" },
+      { token: "token-3", passkeyCredentialId: null },
+      { token: "token-4" },
+    ]);
+
+    const count = await revokePasskeySessions(
+      internalAdapter as any,
+      "user-123",
+      ["cred-1", "cred-3"],
+    );
+
+    expect(internalAdapter.listSessions).toHaveBeenCalledWith("user-123");
+    expect(internalAdapter.deleteSessions).toHaveBeenCalledWith(["token-1"]);
+    expect(count).toBe(1);
+  });
+
+  it("should not delete anything when no session matches", async () => {
+    const internalAdapter = createInternalAdapter([
+      { token: "token-1", passkeyCredentialId: "cred-2" },
+    ]);
+
+    const count = await revokePasskeySessions(
+      internalAdapter as any,
+      "user-123",
+      ["cred-1"],
+    );
+
+    expect(internalAdapter.deleteSessions).not.toHaveBeenCalled();
+    expect(count).toBe(0);
+  });
+
+  it("should skip the session lookup without credentials", async () => {
+    const internalAdapter = createInternalAdapter([]);
+
+    await revokePasskeySessions(internalAdapter as any, "user-123", []);
+
+    expect(internalAdapter.listSessions).not.toHaveBeenCalled();
+  });
+});
@@ -7,17 +7,31 @@ import { createAuthEndpoint, getSessionFromCtx } from "better-auth/api";
 import type { AuthContext, BetterAuthPlugin } from "better-auth/types";
 import { APIError } from "better-call";
 
-import { ERROR_CODES, ERROR_MESSAGES } from "../types/errors";
+import { ERROR_CODES, getErrorMessage } from "../types/errors";
 import type { ExpoPasskeyOptions, ResolvedSchemaConfig } from "../types/server";
 
 import {
   createAuthenticateEndpoint,
   createChallengeEndpoint,
+  createDeleteEndpoint,
+  createEventsEndpoint,
   createListEndpoint,
   createRegisterEndpoint,
+  createRegistrationOptionsEndpoint,
   createRevokeEndpoint,
+  createRevokeManyEndpoint,
+  createUpdateEndpoint,
 } from "./endpoints";
-import { createLogger, createRateLimits, setupCleanupJob } from "./utils";
+import {
+  createAaguidResolver,
+  createAttestationPolicy,
+  createAuditLog,
+  createChallengeStore,
+  createLogger,
+  createRateLimits,
+  PASSKEY_SESSION_FIELD,
+  setupCleanupJob,
+} from "./utils";
 
 // Store cleanup intervals globally so they can be cleared in tests
 const cleanupIntervals: NodeJS.Timeout[] = [];
@@ -34,7 +48,7 @@ export function clearCleanupIntervals(): void {
  * Resolves schema configuration with defaults
  */
 function resolveSchemaConfig(
-  options: ExpoPasskeyOptions,
+  options: Pick<ExpoPasskeyOptions, "schema">,
 ): ResolvedSchemaConfig {
   return {
     authPasskeyModel: options.schema?.authPasskey?.modelName || "authPasskey",
@@ -43,6 +57,50 @@ function resolveSchemaConfig(
   };
 }
 
+/**
+ * Resolves the model name of the passkeyEvent audit model
+ */
+function resolveEventModel(options: Pick<ExpoPasskeyOptions, "schema">): string {
+  return options.schema?.passkeyEvent?.modelName || "passkeyEvent";
+}
+
+/**
+ * Permanently deletes every passkey, pending challenge and audit event belonging to a user.
+ * Intended for account deletion and erasure requests, e.g.
+ * `await deletePasskeyUserData(await auth.$context, userId)`.
+ * @param ctx Better Auth context (or any object exposing its adapter)
+ * @param userId ID of the user whose passkey data is erased
+ * @param options The `schema` and `auditLog` options passed to the plugin, if set
+ * @returns Number of passkey, challenge and event rows deleted
+ */
+export async function deletePasskeyUserData(
+  ctx: Pick<AuthContext, "adapter">,
+  userId: string,
+  options: Pick<ExpoPasskeyOptions, "schema" | "auditLog"> = {},
+): Promise<{ passkeys: number; challenges: number; events: number }> {
+  const schemaConfig = resolveSchemaConfig(options);
+  const where = [{ field: "userId", operator: "eq" as const, value: userId }];
+
+  const passkeys = await ctx.adapter.deleteMany({
+    model: schemaConfig.authPasskeyModel,
+    where,
+  });
+  const challenges = await ctx.adapter.deleteMany({
+    model: schemaConfig.passkeyChallengeModel,
+    where,
+  });
+
+  // The event model only exists when the audit log is enabled
+  const events = options.auditLog
+    ? await ctx.adapter.deleteMany({
+        model: resolveEventModel(options),
+        where,
+      })
+    : 0;
+
+  return { passkeys, challenges, events };
+}
+
 /**
  * Creates an instance of the Expo Passkey server plugin with WebAuthn support
  * @param options Configuration options for the plugin
@@ -56,14 +114,56 @@ export const expoPasskey = (options: ExpoPasskeyOptions): BetterAuthPlugin => {
   if (!options.rpName || !options.rpId) {
     throw new Error("rpName and rpId are required options");
   }
+  if (
+    options.challenge?.byteLength !== undefined &&
+    options.challenge.byteLength < 16
+  ) {
+    throw new Error("challenge.byteLength must be at least 16");
+  }
 
   // Resolve schema configuration
   const schemaConfig = resolveSchemaConfig(options);
 
+  // Attestation policy is only enforced when configured
+  const attestationPolicy = options.attestation
+    ? createAttestationPolicy(options.attestation, logger)
+    : undefined;
+
+  // Audit events are only recorded when configured
+  const auditLog = options.auditLog
+    ? createAuditLog(
+        { ...options.auditLog, model: resolveEventModel(options) },
+        logger,
+      )
+    : undefined;
+
+  // Shared by every endpoint so in-memory challenges are visible to all of them
+  const challengeStore = createChallengeStore(
+    options.challenge?.store,
+    schemaConfig.passkeyChallengeModel,
+  );
+
   // Configure endpoints with options and schema config
   const challengeEndpoint = createChallengeEndpoint({
     logger,
+    locale: options.locale,
+    schemaConfig,
+    authenticatorSelection: options.authenticatorSelection,
+    challengeOptions: options.challenge,
+    challengeStore,
+  });
+
+  const registrationOptionsEndpoint = createRegistrationOptionsEndpoint({
+    rpName: options.rpName,
+    rpId: options.rpId,
+    logger,
+    locale: options.locale,
     schemaConfig,
+    attestationConveyance: attestationPolicy?.conveyance,
+    authenticatorSelection: options.authenticatorSelection,
+    supportedAlgorithms: options.supportedAlgorithms,
+    challengeOptions: options.challenge,
+    challengeStore,
   });
 
   const registerEndpoint = createRegisterEndpoint({
@@ -71,26 +171,74 @@ export const expoPasskey = (options: ExpoPasskeyOptions): BetterAuthPlugin => {
     rpId: options.rpId,
     origin: options.origin,
     logger,
+    locale: options.locale,
     schemaConfig,
+    attestationPolicy,
+    hooks: options.hooks,
+    auditLog,
+    authenticatorSelection: options.authenticatorSelection,
+    supportedAlgorithms: options.supportedAlgorithms,
+    challengeStore,
   });
 
   const authenticateEndpoint = createAuthenticateEndpoint({
     rpId: options.rpId,
     origin: options.origin,
     logger,
+    locale: options.locale,
     schemaConfig,
+    hooks: options.hooks,
+    auditLog,
+    counterPolicy: options.counterPolicy,
+    revokeSessions: options.revokeSessionsOnRevoke,
+    authenticatorSelection: options.authenticatorSelection,
+    challengeStore,
   });
 
   const listEndpoint = createListEndpoint({
     logger,
+    locale: options.locale,
     schemaConfig,
+    resolveProvider: createAaguidResolver(options.aaguidProviders),
   });
 
   const revokeEndpoint = createRevokeEndpoint({
     logger,
+    locale: options.locale,
+    schemaConfig,
+    revokeSessions: options.revokeSessionsOnRevoke,
+    hooks: options.hooks,
+    auditLog,
+  });
+
+  const revokeManyEndpoint = createRevokeManyEndpoint({
+    logger,
+    locale: options.locale,
     schemaConfig,
+    revokeSessions: options.revokeSessionsOnRevoke,
+    hooks: options.hooks,
+    auditLog,
   });
 
+  const deleteEndpoint = createDeleteEndpoint({
+    logger,
+    locale: options.locale,
+    schemaConfig,
+    revokeSessions: options.revokeSessionsOnRevoke,
+    hooks: options.hooks,
+    auditLog,
+  });
+
+  const updateEndpoint = createUpdateEndpoint({
+    logger,
+    locale: options.locale,
+    schemaConfig,
+  });
+
+  const eventsEndpoint = auditLog
+    ? createEventsEndpoint({ logger, locale: options.locale, auditLog })
+    : undefined;
+
   // Configure rate limits
   const rateLimits = createRateLimits(options.rateLimit);
 
@@ -99,6 +247,15 @@ export const expoPasskey = (options: ExpoPasskeyOptions): BetterAuthPlugin => {
 
     // Database schema for plugin
     schema: {
+      // Records which passkey created a session so it can be ended on revocation
+      session: {
+        fields: {
+          [PASSKEY_SESSION_FIELD]: {
+            type: "string",
+            required: false,
+          },
+        },
+      },
       [schemaConfig.authPasskeyModel]: {
         modelName: schemaConfig.authPasskeyModel,
         fields: {
@@ -158,10 +315,30 @@ export const expoPasskey = (options: ExpoPasskeyOptions): BetterAuthPlugin => {
             type: "string",
             required: false,
           },
+          name: {
+            type: "string", // User-chosen display name
+            required: false,
+          },
           aaguid: {
             type: "string", // For identifying the provider (e.g., Google, Apple)
             required: false,
           },
+          transports: {
+            type: "string", // Comma-separated authenticator transports (e.g. "internal,hybrid")
+            required: false,
+          },
+          deviceType: {
+            type: "string", // "singleDevice" or "multiDevice" (backup eligibility)
+            required: false,
+          },
+          backedUp: {
+            type: "boolean", // Whether the credential is backed up (backup state)
+            required: false,
+          },
+          algorithm: {
+            type: "string", // Signature algorithm (e.g. "ES256")
+            required: false,
+          },
         },
       },
       [schemaConfig.passkeyChallengeModel]: {
@@ -193,6 +370,50 @@ export const expoPasskey = (options: ExpoPasskeyOptions): BetterAuthPlugin => {
           },
         },
       },
+      ...(auditLog && {
+        [auditLog.model]: {
+          modelName: auditLog.model,
+          fields: {
+            userId: {
+              type: "string",
+              required: true,
+              references: {
+                model: "user",
+                field: "id",
+                onDelete: "cascade",
+              },
+            },
+            credentialId: {
+              type: "string",
+              required: false,
+            },
+            type: {
+              type: "string", // e.g. 'registered', 'authentication_failed'
+              required: true,
+            },
+            ipAddress: {
+              type: "string",
+              required: false,
+            },
+            userAgent: {
+              type: "string",
+              required: false,
+            },
+            platform: {
+              type: "string",
+              required: false,
+            },
+            metadata: {
+              type: "string", // JSON string with event specific details
+              required: false,
+            },
+            createdAt: {
+              type: "string",
+              required: true,
+            },
+          },
+        },
+      }),
     },
 
     // Plugin initialization
@@ -212,36 +433,71 @@ export const expoPasskey = (options: ExpoPasskeyOptions): BetterAuthPlugin => {
           options.cleanup,
           logger,
           schemaConfig,
+          {
+            revokeSessions: options.revokeSessionsOnRevoke,
+            onRevoke: options.hooks?.onRevoke,
+            auditLog,
+          },
         );
         if (cleanupInterval) {
           cleanupIntervals.push(cleanupInterval);
         }
       }
 
-      // 2. Cleanup for expired challenges
+      // The secondary storage store needs secondary storage that can
+      // consume a challenge atomically
+      if (options.challenge?.store === "secondary-storage") {
+        if (!ctx.secondaryStorage) {
+          throw new Error(
+            'challenge.store is "secondary-storage" but Better Auth has no secondaryStorage configured',
+          );
+        }
+        if (!("getAndDelete" in ctx.secondaryStorage)) {
+          throw new Error(
+            'challenge.store is "secondary-storage" but Better Auth\'s secondaryStorage has no getAndDelete method',
+          );
+        }
+      }
+
+      // 2. Cleanup for expired challenges, unless the store expires them itself
       const cleanupExpiredChallenges = async () => {
-        const now = new Date().toISOString();
+        if (challengeStore.deleteExpired) {
+          try {
+            const result = await challengeStore.deleteExpired(ctx);
 
-        try {
-          const result = await ctx.adapter.deleteMany({
-            model: schemaConfig.passkeyChallengeModel,
-            where: [{ field: "expiresAt", operator: "lt", value: now }],
-          });
+            if (process.env.NODE_ENV !== "production") {
+              logger.info(`Cleaned up ${result} expired passkey challenges`);
+            }
+          } catch (error) {
+            logger.error("Passkey challenge cleanup job failed:", error);
+          }
+        }
 
-          if (process.env.NODE_ENV !== "production") {
-            logger.info(`Cleaned up ${result} expired passkey challenges`);
+        // Enforce the audit log retention on the same schedule
+        if (auditLog) {
+          try {
+            const pruned = await auditLog.prune(ctx.adapter);
+
+            if (process.env.NODE_ENV !== "production") {
+              logger.info(`Pruned ${pruned} expired passkey events`);
+            }
+          } catch (error) {
+            logger.error("Passkey event retention job failed:", error);
           }
-        } catch (error) {
-          logger.error("Passkey challenge cleanup job failed:", error);
         }
       };
 
       // Run challenge cleanup immediately and then every hour
-      cleanupExpiredChallenges();
+      if (challengeStore.deleteExpired || auditLog) {
+        cleanupExpiredChallenges();
 
-      // Store the interval so it can be cleared in tests
-      const intervalId = setInterval(cleanupExpiredChallenges, 60 * 60 * 1000);
-      cleanupIntervals.push(intervalId);
+        // Store the interval so it can be cleared in tests
+        const intervalId = setInterval(
+          cleanupExpiredChallenges,
+          60 * 60 * 1000,
+        );
+        cleanupIntervals.push(intervalId);
+      }
     },
 
     // Middleware for all expo-passkey endpoints
@@ -275,8 +531,11 @@ export const expoPasskey = (options: ExpoPasskeyOptions): BetterAuthPlugin => {
               if (!session?.user?.id) {
                 logger.warn("Registration challenge requires authentication");
                 throw new APIError("UNAUTHORIZED", {
-                  code: "SESSION_REQUIRED",
-                  message: "You must be logged in to register a passkey",
+                  code: ERROR_CODES.SERVER.SESSION_REQUIRED,
+                  message: getErrorMessage(
+                    ERROR_CODES.SERVER.SESSION_REQUIRED,
+                    options.locale,
+                  ),
                 });
               }
             }
@@ -299,7 +558,10 @@ export const expoPasskey = (options: ExpoPasskeyOptions): BetterAuthPlugin => {
               logger.warn("Missing headers in request");
               throw new APIError("UNAUTHORIZED", {
                 code: ERROR_CODES.SERVER.INVALID_CLIENT,
-                message: ERROR_MESSAGES[ERROR_CODES.SERVER.INVALID_CLIENT],
+                message: getErrorMessage(
+                  ERROR_CODES.SERVER.INVALID_CLIENT,
+                  options.locale,
+                ),
               });
             }
 
@@ -308,7 +570,10 @@ export const expoPasskey = (options: ExpoPasskeyOptions): BetterAuthPlugin => {
               logger.warn("Invalid origin in request", { origin });
               throw new APIError("UNAUTHORIZED", {
                 code: ERROR_CODES.SERVER.INVALID_ORIGIN,
-                message: ERROR_MESSAGES[ERROR_CODES.SERVER.INVALID_ORIGIN],
+                message: getErrorMessage(
+                  ERROR_CODES.SERVER.INVALID_ORIGIN,
+                  options.locale,
+                ),
               });
             }
           },
@@ -319,10 +584,15 @@ export const expoPasskey = (options: ExpoPasskeyOptions): BetterAuthPlugin => {
     // Endpoint implementations
     endpoints: {
       passkeyChallenges: challengeEndpoint,
+      passkeyRegistrationOptions: registrationOptionsEndpoint,
       registerPasskey: registerEndpoint,
       authenticatePasskey: authenticateEndpoint,
       listPasskeys: listEndpoint,
       revokePasskey: revokeEndpoint,
+      revokePasskeys: revokeManyEndpoint,
+      deletePasskey: deleteEndpoint,
+      updatePasskey: updateEndpoint,
+      ...(eventsEndpoint && { listPasskeyEvents: eventsEndpoint }),
     },
 
     // Rate limiting configuration
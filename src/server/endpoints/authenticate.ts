@@ -14,13 +14,29 @@ import { setCookieCache, setSessionCookie } from "better-auth/cookies";
 import type { User } from "better-auth/types";
 import { APIError } from "better-call";
 
-import { ERROR_CODES, ERROR_MESSAGES } from "../../types/errors";
+import { ERROR_CODES, getErrorMessage } from "../../types/errors";
+import type { AuditLog } from "../utils/audit";
+import { isUserVerificationRequired } from "../utils/authenticator-selection";
+import { consumeCeremonyChallenge } from "../utils/challenge";
+import { createDatabaseChallengeStore } from "../utils/challenge-store";
+import {
+  getAuthenticatorCounter,
+  isCounterRegression,
+} from "../utils/counter";
+import { getRequestMetadata, runAfterHook } from "../utils/hooks";
 import type { Logger } from "../utils/logger";
 import { authenticatePasskeySchema } from "../utils/schema";
+import {
+  PASSKEY_SESSION_FIELD,
+  revokePasskeySessions,
+} from "../utils/sessions";
 
 import type {
+  AuthenticatorSelectionPolicy,
   AuthPasskey,
-  PasskeyChallenge,
+  ChallengeStore,
+  CounterPolicy,
+  ExpoPasskeyHooks,
   ResolvedSchemaConfig,
 } from "../../types";
 
@@ -29,20 +45,44 @@ import type {
  */
 export const createAuthenticateEndpoint = (options: {
   logger: Logger;
+  locale?: string;
   rpId: string;
   origin?: string | string[];
   schemaConfig: ResolvedSchemaConfig;
+  hooks?: ExpoPasskeyHooks;
+  auditLog?: AuditLog;
+  /** Reaction to a signature counter that did not increase, defaults to "reject" */
+  counterPolicy?: CounterPolicy;
+  /** End the sessions of a passkey revoked by the counter policy */
+  revokeSessions?: boolean;
+  authenticatorSelection?: AuthenticatorSelectionPolicy;
+  /** Where pending challenges are kept, defaults to the database */
+  challengeStore?: ChallengeStore;
   /** @internal For testing only */
   _sessionFetcher?: typeof getSessionFromCtx;
 }) => {
   const {
     logger,
+    locale,
     rpId,
     origin,
     schemaConfig,
+    hooks,
+    auditLog,
+    counterPolicy = "reject",
+    revokeSessions,
+    authenticatorSelection,
+    challengeStore = createDatabaseChallengeStore(
+      schemaConfig.passkeyChallengeModel
+    ),
     _sessionFetcher = getSessionFromCtx,
   } = options;
 
+  const requireUserVerification = isUserVerificationRequired(
+    authenticatorSelection,
+    "authentication"
+  );
+
   // Convert to array of origins for consistency, or use empty array if undefined
   const expectedOrigins = origin
     ? Array.isArray(origin)
@@ -105,12 +145,45 @@ export const createAuthenticateEndpoint = (options: {
       },
     },
     async (ctx) => {
-      const { credential, metadata } = ctx.body;
+      const { credential, metadata, challengeId } = ctx.body;
       const credentialId = credential?.id;
+      const request = getRequestMetadata(ctx);
+      // Stored credential, once it is known
+      let storedPasskey = null as AuthPasskey | null;
+      // Set when a verified response reported a counter that did not increase
+      let counterAnomaly = null as Record<string, number> | null;
 
       try {
         logger.debug("WebAuthn authentication attempt:", { credentialId });
 
+        // Resolve and consume the challenge this response was issued for before
+        // anything else, so it cannot be used again whatever check fails.
+        // Discoverable login challenges are not bound to a user until the
+        // credential is known, so the owner is checked after the lookup.
+        const storedChallenge = await consumeCeremonyChallenge(
+          challengeStore,
+          ctx.context,
+          {
+            type: "authentication",
+            clientDataJSON: credential.response.clientDataJSON,
+            challengeId,
+          }
+        );
+
+        if (!storedChallenge) {
+          logger.warn("Authentication failed: No matching challenge found", {
+            credentialId,
+            challengeId,
+          });
+          throw new APIError("BAD_REQUEST", {
+            code: ERROR_CODES.SERVER.INVALID_CHALLENGE,
+            message: getErrorMessage(
+              ERROR_CODES.SERVER.INVALID_CHALLENGE,
+              locale,
+            ),
+          });
+        }
+
         // Find the credential by its ID
         const passkey = await ctx.context.adapter.findOne<AuthPasskey>({
           model: schemaConfig.authPasskeyModel,
@@ -126,10 +199,15 @@ export const createAuthenticateEndpoint = (options: {
           });
           throw new APIError("UNAUTHORIZED", {
             code: ERROR_CODES.SERVER.INVALID_CREDENTIAL,
-            message: ERROR_MESSAGES[ERROR_CODES.SERVER.INVALID_CREDENTIAL],
+            message: getErrorMessage(
+              ERROR_CODES.SERVER.INVALID_CREDENTIAL,
+              locale,
+            ),
           });
         }
 
+        storedPasskey = passkey;
+
         // Defense-in-depth: If the caller already has an active session,
         // verify the passkey belongs to the same user. This prevents
         // session-switching when a device has passkeys for multiple accounts.
@@ -150,51 +228,24 @@ export const createAuthenticateEndpoint = (options: {
           );
           throw new APIError("FORBIDDEN", {
             code: ERROR_CODES.SERVER.USER_MISMATCH,
-            message: ERROR_MESSAGES[ERROR_CODES.SERVER.USER_MISMATCH],
+            message: getErrorMessage(ERROR_CODES.SERVER.USER_MISMATCH, locale),
           });
         }
 
-        // Get the latest challenge for this user
-        const userChallenges =
-          await ctx.context.adapter.findMany<PasskeyChallenge>({
-            model: schemaConfig.passkeyChallengeModel,
-            where: [
-              { field: "userId", operator: "eq", value: passkey.userId },
-              { field: "type", operator: "eq", value: "authentication" },
-            ],
-            sortBy: { field: "createdAt", direction: "desc" },
-            limit: 1,
-          });
-
-        const autoDiscoveryChallenges =
-          await ctx.context.adapter.findMany<PasskeyChallenge>({
-            model: schemaConfig.passkeyChallengeModel,
-            where: [
-              { field: "userId", operator: "eq", value: "auto-discovery" },
-              { field: "type", operator: "eq", value: "authentication" },
-            ],
-            sortBy: { field: "createdAt", direction: "desc" },
-            limit: 1,
-          });
-
-        // Combine and sort to get the most recent challenge
-        const allChallenges = [
-          ...userChallenges,
-          ...autoDiscoveryChallenges,
-        ].sort(
-          (a, b) =>
-            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-        );
-
-        const storedChallenge = allChallenges[0];
-
-        if (!storedChallenge) {
-          logger.warn("Authentication failed: No challenge found", {
-            userId: passkey.userId,
-          });
+        if (
+          storedChallenge.userId !== passkey.userId &&
+          storedChallenge.userId !== "auto-discovery"
+        ) {
+          logger.warn(
+            "Authentication failed: Challenge issued to another user",
+            { userId: passkey.userId, challengeId },
+          );
           throw new APIError("BAD_REQUEST", {
-            code: "INVALID_CHALLENGE",
-            message: "No challenge found for authentication",
+            code: ERROR_CODES.SERVER.INVALID_CHALLENGE,
+            message: getErrorMessage(
+              ERROR_CODES.SERVER.INVALID_CHALLENGE,
+              locale,
+            ),
           });
         }
 
@@ -204,8 +255,11 @@ export const createAuthenticateEndpoint = (options: {
             userId: passkey.userId,
           });
           throw new APIError("BAD_REQUEST", {
-            code: "EXPIRED_CHALLENGE",
-            message: "Challenge has expired. Please request a new one.",
+            code: ERROR_CODES.SERVER.EXPIRED_CHALLENGE,
+            message: getErrorMessage(
+              ERROR_CODES.SERVER.EXPIRED_CHALLENGE,
+              locale,
+            ),
           });
         }
 
@@ -213,6 +267,16 @@ export const createAuthenticateEndpoint = (options: {
         const verifiableCredential =
           credential as unknown as AuthenticationResponseJSON;
 
+        // The library rejects a counter that did not increase before checking
+        // the signature, so regressions are detected here and handled by the
+        // counter policy once the response is known to be genuine
+        const receivedCounter = getAuthenticatorCounter(
+          credential.response.authenticatorData
+        );
+        const counterRegressed =
+          receivedCounter !== null &&
+          isCounterRegression(passkey.counter, receivedCounter);
+
         try {
           // Create verification options
           const verificationOptions: VerifyAuthenticationResponseOpts = {
@@ -220,11 +284,11 @@ export const createAuthenticateEndpoint = (options: {
             expectedChallenge: storedChallenge.challenge,
             expectedOrigin: expectedOrigins,
             expectedRPID: rpId,
-            requireUserVerification: true,
+            requireUserVerification,
             credential: {
               id: passkey.credentialId,
               publicKey: isoBase64URL.toBuffer(passkey.publicKey),
-              counter: passkey.counter,
+              counter: counterRegressed ? 0 : passkey.counter,
             },
           };
 
@@ -237,6 +301,77 @@ export const createAuthenticateEndpoint = (options: {
             throw new Error("Verification failed");
           }
 
+          if (counterRegressed && counterPolicy !== "ignore") {
+            counterAnomaly = {
+              storedCounter: passkey.counter,
+              receivedCounter,
+            };
+            logger.warn("Signature counter regression detected", {
+              code: ERROR_CODES.SERVER.COUNTER_REGRESSION,
+              credentialId,
+              userId: passkey.userId,
+              counterPolicy,
+              ...counterAnomaly,
+            });
+
+            if (counterPolicy === "revoke") {
+              const revokedAt = new Date().toISOString();
+              const revocation = {
+                status: "revoked" as const,
+                revokedAt,
+                revokedReason: "counter_regression",
+                updatedAt: revokedAt,
+              };
+
+              await ctx.context.adapter.update({
+                model: schemaConfig.authPasskeyModel,
+                where: [{ field: "id", operator: "eq", value: passkey.id }],
+                update: revocation,
+              });
+
+              const sessionsRevoked = revokeSessions
+                ? await revokePasskeySessions(
+                    ctx.context.internalAdapter,
+                    passkey.userId,
+                    [passkey.credentialId]
+                  )
+                : 0;
+
+              logger.warn("Passkey revoked after counter regression", {
+                credentialId,
+                userId: passkey.userId,
+                sessionsRevoked,
+              });
+
+              await auditLog?.record(ctx.context, {
+                type: "revoked",
+                userId: passkey.userId,
+                credentialId,
+                platform: passkey.platform,
+                request,
+                details: { reason: revocation.revokedReason, sessionsRevoked },
+              });
+
+              await runAfterHook(logger, "onRevoke", hooks?.onRevoke, {
+                userId: passkey.userId,
+                passkey: { ...passkey, ...revocation },
+                reason: revocation.revokedReason,
+                trigger: "counter_regression",
+                request,
+              });
+            }
+
+            if (counterPolicy === "revoke" || counterPolicy === "reject") {
+              throw new APIError("UNAUTHORIZED", {
+                code: ERROR_CODES.SERVER.COUNTER_REGRESSION,
+                message: getErrorMessage(
+                  ERROR_CODES.SERVER.COUNTER_REGRESSION,
+                  locale,
+                ),
+              });
+            }
+          }
+
           // Find the user associated with the credential
           const user = await ctx.context.adapter.findOne<User>({
             model: "user",
@@ -250,10 +385,16 @@ export const createAuthenticateEndpoint = (options: {
             });
             throw new APIError("UNAUTHORIZED", {
               code: ERROR_CODES.SERVER.USER_NOT_FOUND,
-              message: ERROR_MESSAGES[ERROR_CODES.SERVER.USER_NOT_FOUND],
+              message: getErrorMessage(
+                ERROR_CODES.SERVER.USER_NOT_FOUND,
+                locale,
+              ),
             });
           }
 
+          // Give the application a chance to veto the sign-in
+          await hooks?.beforeAuthenticate?.({ user, passkey, request });
+
           const now = new Date().toISOString();
 
           // Parse existing metadata safely to prevent crashes from corrupted data
@@ -269,35 +410,54 @@ export const createAuthenticateEndpoint = (options: {
             }
           }
 
+          const { credentialDeviceType, credentialBackedUp } =
+            verification.authenticationInfo;
+
+          // The backup state changes when a passkey syncs or stops syncing
+          if (
+            passkey.backedUp !== undefined &&
+            passkey.backedUp !== null &&
+            passkey.backedUp !== credentialBackedUp
+          ) {
+            logger.info("Passkey backup state changed", {
+              credentialId,
+              backedUp: credentialBackedUp,
+            });
+          }
+
+          const update = {
+            lastUsed: now,
+            updatedAt: now,
+            // Update counter from authentication response, never moving it
+            // backwards when the counter policy let a regression through
+            counter: Math.max(
+              passkey.counter,
+              verification.authenticationInfo.newCounter
+            ),
+            deviceType: credentialDeviceType,
+            backedUp: credentialBackedUp,
+            metadata: JSON.stringify({
+              ...existingMetadata,
+              ...metadata,
+              lastAuthenticationAt: now,
+            }),
+          };
+
           // Update passkey metadata and counter
           await ctx.context.adapter.update({
             model: schemaConfig.authPasskeyModel,
             where: [{ field: "id", operator: "eq", value: passkey.id }],
-            update: {
-              lastUsed: now,
-              updatedAt: now,
-              // Update counter from authentication response
-              counter: verification.authenticationInfo.newCounter,
-              metadata: JSON.stringify({
-                ...existingMetadata,
-                ...metadata,
-                lastAuthenticationAt: now,
-              }),
-            },
-          });
-
-          // Delete the used challenge
-          await ctx.context.adapter.delete({
-            model: schemaConfig.passkeyChallengeModel,
-            where: [{ field: "id", operator: "eq", value: storedChallenge.id }],
+            update,
           });
 
           // Create session token using internal adapter
-          // We pass false to prevent automatic cookie setting
+          // We pass false to prevent automatic cookie setting, and record the
+          // credential so the session can be ended when the passkey is revoked
           const sessionToken = await ctx.context.internalAdapter.createSession(
             user.id,
             ctx,
-            false
+            false,
+            { [PASSKEY_SESSION_FIELD]: passkey.credentialId }
           );
 
           // Get session configuration from context
@@ -319,11 +479,8 @@ export const createAuthenticateEndpoint = (options: {
               updatedAt: new Date(),
 
               // Request metadata
-              ipAddress:
-                ctx.request?.headers?.get("x-forwarded-for") ||
-                ctx.request?.headers?.get("x-real-ip") ||
-                null,
-              userAgent: ctx.request?.headers?.get("user-agent") || null,
+              ipAddress: request.ipAddress,
+              userAgent: request.userAgent,
             },
             user,
           };
@@ -341,30 +498,97 @@ export const createAuthenticateEndpoint = (options: {
             credentialId,
           });
 
+          await auditLog?.record(ctx.context, {
+            type: "authenticated",
+            userId: user.id,
+            credentialId,
+            platform: passkey.platform,
+            request,
+          });
+
+          // Accepted regressions are still recorded when the policy is "warn"
+          if (counterAnomaly) {
+            await auditLog?.record(ctx.context, {
+              type: "counter_anomaly",
+              userId: user.id,
+              credentialId,
+              platform: passkey.platform,
+              request,
+              details: {
+                code: ERROR_CODES.SERVER.COUNTER_REGRESSION,
+                ...counterAnomaly,
+              },
+            });
+          }
+
+          await runAfterHook(logger, "onAuthenticate", hooks?.onAuthenticate, {
+            user,
+            passkey: { ...passkey, ...update },
+            session: { token: sessionToken.token },
+            request,
+          });
+
           // Return response with token and user data
           return ctx.json({
             token: sessionToken.token,
             user: sessionData.user,
           });
         } catch (verificationError) {
+          if (verificationError instanceof APIError) {
+            throw verificationError;
+          }
           logger.error("WebAuthn verification failed:", verificationError);
+
           throw new APIError("UNAUTHORIZED", {
-            code: "VERIFICATION_FAILED",
-            message:
-              verificationError instanceof Error
-                ? verificationError.message
-                : "WebAuthn verification failed",
+            code: ERROR_CODES.SERVER.VERIFICATION_FAILED,
+            message: getErrorMessage(
+              ERROR_CODES.SERVER.VERIFICATION_FAILED,
+              locale,
+            ),
           });
         }
       } catch (error) {
         logger.error("Authentication error:", error);
-        if (error instanceof APIError) {
-          throw error;
+        const apiError =
+          error instanceof APIError
+            ? error
+            : new APIError("UNAUTHORIZED", {
+                code: ERROR_CODES.SERVER.AUTHENTICATION_FAILED,
+                message: getErrorMessage(
+                  ERROR_CODES.SERVER.AUTHENTICATION_FAILED,
+                  locale,
+                ),
+              });
+
+        const errorCode =
+          apiError.body?.code ?? ERROR_CODES.SERVER.AUTHENTICATION_FAILED;
+
+        // Failures can only be attributed to a user once the credential is known
+        if (storedPasskey) {
+          await auditLog?.record(ctx.context, {
+            type: counterAnomaly ? "counter_anomaly" : "authentication_failed",
+            userId: storedPasskey.userId,
+            credentialId,
+            platform: storedPasskey.platform,
+            request,
+            details: { code: errorCode, ...counterAnomaly },
+          });
         }
-        throw new APIError("UNAUTHORIZED", {
-          code: ERROR_CODES.SERVER.AUTHENTICATION_FAILED,
-          message: ERROR_MESSAGES[ERROR_CODES.SERVER.AUTHENTICATION_FAILED],
-        });
+
+        await runAfterHook(
+          logger,
+          "onVerificationFailure",
+          hooks?.onVerificationFailure,
+          {
+            ceremony: "authentication",
+            credentialId,
+            userId: storedPasskey?.userId ?? null,
+            error: { code: errorCode, message: apiError.message },
+            request,
+          }
+        );
+
+        throw apiError;
       }
     }
   );
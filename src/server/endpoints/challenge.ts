@@ -6,7 +6,20 @@
 import { createAuthEndpoint, getSessionFromCtx } from "better-auth/api";
 import { APIError } from "better-call";
 import crypto from "crypto";
-import type { ResolvedSchemaConfig } from "../../types";
+import type {
+  AuthenticatorSelectionPolicy,
+  ChallengeOptions,
+  ChallengeStore,
+  ResolvedSchemaConfig,
+} from "../../types";
+import { ERROR_CODES, getErrorMessage } from "../../types/errors";
+import { applyRegistrationPolicy } from "../utils/authenticator-selection";
+import {
+  getCeremonyTimeout,
+  getChallengeByteLength,
+  getChallengeTtl,
+} from "../utils/challenge";
+import { createDatabaseChallengeStore } from "../utils/challenge-store";
 import type { Logger } from "../utils/logger";
 import { challengeSchema } from "../utils/schema";
 
@@ -21,11 +34,28 @@ export const _getSession = getSessionFromCtx;
  */
 export const createChallengeEndpoint = (options: {
   logger: Logger;
+  locale?: string;
   schemaConfig: ResolvedSchemaConfig;
+  /** Server policy the client's registration options are checked against */
+  authenticatorSelection?: AuthenticatorSelectionPolicy;
+  /** Challenge lifetime and size */
+  challengeOptions?: ChallengeOptions;
+  /** Where pending challenges are kept, defaults to the database */
+  challengeStore?: ChallengeStore;
   /** @internal For testing only */
   _sessionFetcher?: typeof getSessionFromCtx;
 }) => {
-  const { logger, schemaConfig, _sessionFetcher = _getSession } = options;
+  const {
+    logger,
+    locale,
+    schemaConfig,
+    authenticatorSelection,
+    challengeOptions,
+    challengeStore = createDatabaseChallengeStore(
+      schemaConfig.passkeyChallengeModel
+    ),
+    _sessionFetcher = _getSession,
+  } = options;
 
   return createAuthEndpoint(
     "/expo-passkey/challenge",
@@ -46,6 +76,12 @@ export const createChallengeEndpoint = (options: {
                     type: "object",
                     properties: {
                       challenge: { type: "string" },
+                      challengeId: { type: "string" },
+                      timeout: {
+                        type: "number",
+                        description:
+                          "WebAuthn timeout in milliseconds, never longer than the challenge lifetime",
+                      },
                     },
                   },
                 },
@@ -75,7 +111,8 @@ export const createChallengeEndpoint = (options: {
       },
     },
     async (ctx) => {
-      const { type, registrationOptions } = ctx.body;
+      const { type } = ctx.body;
+      let { registrationOptions } = ctx.body;
       let userId: string;
 
       try {
@@ -100,8 +137,11 @@ export const createChallengeEndpoint = (options: {
               hasSession: !!session,
             });
             throw new APIError("UNAUTHORIZED", {
-              code: "SESSION_REQUIRED",
-              message: "You must be logged in to register a passkey",
+              code: ERROR_CODES.SERVER.SESSION_REQUIRED,
+              message: getErrorMessage(
+                ERROR_CODES.SERVER.SESSION_REQUIRED,
+                locale,
+              ),
             });
           }
           userId = session.user.id;
@@ -117,10 +157,37 @@ export const createChallengeEndpoint = (options: {
               userId,
             });
             throw new APIError("BAD_REQUEST", {
-              code: "USER_NOT_FOUND",
-              message: "User not found",
+              code: ERROR_CODES.SERVER.USER_NOT_FOUND,
+              message: getErrorMessage(
+                ERROR_CODES.SERVER.USER_NOT_FOUND,
+                locale,
+              ),
+            });
+          }
+
+          // Never store options weaker than the server's defaults and policy
+          const enforced = applyRegistrationPolicy(
+            registrationOptions ?? {},
+            authenticatorSelection
+          );
+
+          if (enforced.violations.length > 0) {
+            logger.warn("Registration options violate the server policy", {
+              userId,
+              violations: enforced.violations,
             });
+            if (authenticatorSelection?.onViolation === "reject") {
+              throw new APIError("BAD_REQUEST", {
+                code: ERROR_CODES.SERVER.AUTHENTICATOR_SELECTION_NOT_ALLOWED,
+                message: getErrorMessage(
+                  ERROR_CODES.SERVER.AUTHENTICATOR_SELECTION_NOT_ALLOWED,
+                  locale,
+                ),
+              });
+            }
           }
+
+          registrationOptions = enforced.registrationOptions;
         } else {
           // For authentication challenges, userId can be provided by client or omitted for discoverable credentials
           userId = ctx.body.userId || "auto-discovery";
@@ -132,32 +199,41 @@ export const createChallengeEndpoint = (options: {
         });
 
         // Generate a random challenge with sufficient entropy
-        const randomBytes = crypto.randomBytes(32);
+        const randomBytes = crypto.randomBytes(
+          getChallengeByteLength(challengeOptions)
+        );
         const challenge = randomBytes.toString("base64url");
 
-        // Calculate expiration (5 minutes from now)
         const now = new Date();
-        const expiresAt = new Date(now.getTime() + 5 * 60 * 1000);
-
-        // Store challenge in database
-        await ctx.context.adapter.create({
-          model: schemaConfig.passkeyChallengeModel,
-          data: {
-            id: ctx.context.generateId({
-              model: schemaConfig.passkeyChallengeModel,
-              size: 32,
-            }),
-            userId,
-            challenge,
-            type,
-            createdAt: now.toISOString(),
-            expiresAt: expiresAt.toISOString(),
-            // Store registration options if provided (for registration challenges)
-            registrationOptions: registrationOptions
-              ? JSON.stringify(registrationOptions)
-              : null,
-          },
-          forceAllowId: true,
+        const expiresAt = new Date(
+          now.getTime() + getChallengeTtl(challengeOptions, type) * 1000
+        );
+        const timeout = getCeremonyTimeout(
+          challengeOptions,
+          type,
+          ctx.body.timeout ?? registrationOptions?.timeout
+        );
+
+        // Store the challenge until the response arrives
+        // generateId returns false when the database assigns IDs, but
+        // challenges are not necessarily stored in the database
+        const challengeId =
+          ctx.context.generateId({
+            model: schemaConfig.passkeyChallengeModel,
+            size: 32,
+          }) || crypto.randomUUID();
+
+        await challengeStore.save(ctx.context, {
+          id: challengeId,
+          userId,
+          challenge,
+          type,
+          createdAt: now.toISOString(),
+          expiresAt: expiresAt.toISOString(),
+          // Store registration options if provided (for registration challenges)
+          registrationOptions: registrationOptions
+            ? JSON.stringify(registrationOptions)
+            : undefined,
         });
 
         logger.debug("Challenge generated successfully", {
@@ -166,9 +242,11 @@ export const createChallengeEndpoint = (options: {
           challengeLength: challenge.length,
         });
 
-        // Return the challenge
+        // Return the challenge along with the ID the client echoes back
         return ctx.json({
           challenge,
+          challengeId,
+          timeout,
         });
       } catch (error) {
         logger.error("Failed to generate challenge:", error);
@@ -176,8 +254,11 @@ export const createChallengeEndpoint = (options: {
           throw error;
         }
         throw new APIError("INTERNAL_SERVER_ERROR", {
-          code: "CHALLENGE_GENERATION_FAILED",
-          message: "Failed to generate challenge",
+          code: ERROR_CODES.SERVER.CHALLENGE_GENERATION_FAILED,
+          message: getErrorMessage(
+            ERROR_CODES.SERVER.CHALLENGE_GENERATION_FAILED,
+            locale,
+          ),
         });
       }
     }
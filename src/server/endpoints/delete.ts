@@ -0,0 +1,224 @@
+/**
+ * @file Delete passkey endpoint
+ * @description Implementation of the endpoint to permanently delete WebAuthn passkeys
+ */
+
+import { createAuthEndpoint, sessionMiddleware } from "better-auth/api";
+import { APIError } from "better-call";
+
+import { ERROR_CODES, getErrorMessage } from "../../types/errors";
+import type { AuditLog } from "../utils/audit";
+import { getRequestMetadata, runAfterHook } from "../utils/hooks";
+import type { Logger } from "../utils/logger";
+import { deletePasskeySchema } from "../utils/schema";
+import { revokePasskeySessions } from "../utils/sessions";
+
+import type {
+  AuthPasskey,
+  ExpoPasskeyHooks,
+  ResolvedSchemaConfig,
+} from "../../types";
+
+/**
+ * Create endpoint to permanently delete passkeys
+ */
+export const createDeleteEndpoint = (options: {
+  logger: Logger;
+  locale?: string;
+  schemaConfig: ResolvedSchemaConfig;
+  /** End sessions created with an active passkey once it is deleted */
+  revokeSessions?: boolean;
+  hooks?: ExpoPasskeyHooks;
+  auditLog?: AuditLog;
+}) => {
+  const {
+    logger,
+    locale,
+    schemaConfig,
+    revokeSessions = false,
+    hooks,
+    auditLog,
+  } = options;
+
+  return createAuthEndpoint(
+    "/expo-passkey/delete",
+    {
+      method: "POST",
+      body: deletePasskeySchema,
+      use: [sessionMiddleware],
+      metadata: {
+        openapi: {
+          description:
+            "Permanently delete a passkey and/or all revoked passkeys of the user",
+          tags: ["Authentication"],
+          responses: {
+            200: {
+              description: "Passkeys successfully deleted",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      deleted: { type: "number" },
+                    },
+                  },
+                },
+              },
+            },
+            404: {
+              description: "Passkey not found",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      error: {
+                        type: "object",
+                        properties: {
+                          code: { type: "string" },
+                          message: { type: "string" },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (ctx) => {
+      const { credentialId, purgeRevoked } = ctx.body;
+
+      // Get userId from authenticated session
+      if (!ctx.context.session?.user?.id) {
+        logger.warn("Deletion requires authentication", {
+          hasSession: !!ctx.context.session,
+        });
+        throw new APIError("UNAUTHORIZED", {
+          code: ERROR_CODES.SERVER.SESSION_REQUIRED,
+          message: getErrorMessage(ERROR_CODES.SERVER.SESSION_REQUIRED, locale),
+        });
+      }
+
+      const userId = ctx.context.session.user.id;
+
+      try {
+        logger.debug("Deleting passkeys", {
+          userId,
+          credentialId,
+          purgeRevoked,
+        });
+
+        let deleted = 0;
+
+        if (credentialId) {
+          // Unlike revocation, revoked credentials can be deleted too
+          const credential = await ctx.context.adapter.findOne<AuthPasskey>({
+            model: schemaConfig.authPasskeyModel,
+            where: [
+              { field: "credentialId", operator: "eq", value: credentialId },
+              { field: "userId", operator: "eq", value: userId },
+            ],
+          });
+
+          if (!credential) {
+            logger.warn("Delete failed: Passkey not found", { credentialId });
+            throw new APIError("NOT_FOUND", {
+              code: ERROR_CODES.SERVER.CREDENTIAL_NOT_FOUND,
+              message: getErrorMessage(
+                ERROR_CODES.SERVER.CREDENTIAL_NOT_FOUND,
+                locale,
+              ),
+            });
+          }
+
+          // An active passkey goes through revocation first, so deleting
+          // cannot skip the veto, the session cleanup or the audit trail
+          const revoking = credential.status === "active";
+          const revokedReason = "deleted";
+          const request = getRequestMetadata(ctx);
+
+          if (revoking) {
+            await hooks?.beforeRevoke?.({
+              user: ctx.context.session.user,
+              passkey: credential,
+              reason: revokedReason,
+              request,
+            });
+          }
+
+          await ctx.context.adapter.delete({
+            model: schemaConfig.authPasskeyModel,
+            where: [{ field: "id", operator: "eq", value: credential.id }],
+          });
+          deleted += 1;
+
+          if (revoking) {
+            const now = new Date().toISOString();
+            const sessionsRevoked = revokeSessions
+              ? await revokePasskeySessions(
+                  ctx.context.internalAdapter,
+                  userId,
+                  [credentialId],
+                )
+              : 0;
+
+            await auditLog?.record(ctx.context, {
+              type: "revoked",
+              userId,
+              credentialId,
+              platform: credential.platform,
+              request,
+              details: { reason: revokedReason, sessionsRevoked },
+            });
+
+            await runAfterHook(logger, "onRevoke", hooks?.onRevoke, {
+              userId,
+              passkey: {
+                ...credential,
+                status: "revoked",
+                revokedAt: now,
+                revokedReason,
+                updatedAt: now,
+              },
+              reason: revokedReason,
+              trigger: "user",
+              request,
+            });
+          }
+        }
+
+        if (purgeRevoked) {
+          deleted += await ctx.context.adapter.deleteMany({
+            model: schemaConfig.authPasskeyModel,
+            where: [
+              { field: "userId", operator: "eq", value: userId },
+              { field: "status", operator: "eq", value: "revoked" },
+            ],
+          });
+        }
+
+        logger.info("Passkeys deleted successfully", {
+          userId,
+          credentialId,
+          purgeRevoked,
+          deleted,
+        });
+
+        return ctx.json({ success: true, deleted });
+      } catch (error) {
+        logger.error("Failed to delete passkeys", error);
+        if (error instanceof APIError) {
+          throw error;
+        }
+        throw new APIError("BAD_REQUEST", {
+          code: ERROR_CODES.SERVER.DELETION_FAILED,
+          message: getErrorMessage(ERROR_CODES.SERVER.DELETION_FAILED, locale),
+        });
+      }
+    },
+  );
+};
@@ -0,0 +1,176 @@
+/**
+ * @file List passkey events endpoint
+ * @description Implementation of the endpoint to page through a user's passkey audit events
+ */
+
+import { createAuthEndpoint, sessionMiddleware } from "better-auth/api";
+import type { Where } from "better-auth/types";
+import { APIError } from "better-call";
+
+import { ERROR_CODES, getErrorMessage } from "../../types/errors";
+import type { AuditLog } from "../utils/audit";
+import type { Logger } from "../utils/logger";
+import { listPasskeyEventsQuerySchema } from "../utils/schema";
+
+import type { PasskeyEvent } from "../../types";
+
+/**
+ * Create endpoint to list the current user's passkey events, newest first
+ */
+export const createEventsEndpoint = (options: {
+  logger: Logger;
+  locale?: string;
+  auditLog: AuditLog;
+}) => {
+  const { logger, locale, auditLog } = options;
+
+  return createAuthEndpoint(
+    "/expo-passkey/events",
+    {
+      method: "GET",
+      query: listPasskeyEventsQuerySchema,
+      use: [sessionMiddleware],
+      metadata: {
+        openapi: {
+          description:
+            "Retrieve the audit events of the current user's passkeys, newest first",
+          tags: ["Authentication"],
+          responses: {
+            200: {
+              description: "List of passkey events",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      events: {
+                        type: "array",
+                        items: {
+                          type: "object",
+                          properties: {
+                            id: { type: "string" },
+                            type: { type: "string" },
+                            credentialId: { type: "string", nullable: true },
+                            ipAddress: { type: "string", nullable: true },
+                            userAgent: { type: "string", nullable: true },
+                            platform: { type: "string", nullable: true },
+                            metadata: {
+                              type: "object",
+                              additionalProperties: true,
+                            },
+                            createdAt: {
+                              type: "string",
+                              format: "date-time",
+                            },
+                          },
+                        },
+                      },
+                      nextOffset: { type: "number", nullable: true },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (ctx) => {
+      // Get userId from authenticated session
+      if (!ctx.context.session?.user?.id) {
+        logger.warn("Listing passkey events requires authentication", {
+          hasSession: !!ctx.context.session,
+        });
+        throw new APIError("UNAUTHORIZED", {
+          code: ERROR_CODES.SERVER.SESSION_REQUIRED,
+          message: getErrorMessage(ERROR_CODES.SERVER.SESSION_REQUIRED, locale),
+        });
+      }
+
+      const userId = ctx.context.session.user.id;
+
+      try {
+        const limit = Math.min(parseInt(ctx.query.limit || "20", 10), 100);
+        const offset = ctx.query.offset ? parseInt(ctx.query.offset, 10) : 0;
+        const { credentialId, type } = ctx.query;
+
+        logger.debug("Passkey events request received:", {
+          userId,
+          limit,
+          offset,
+          credentialId,
+          type,
+        });
+
+        // Only the user's own events can match
+        const where: Where[] = [
+          { field: "userId", operator: "eq", value: userId },
+        ];
+        if (credentialId) {
+          where.push({
+            field: "credentialId",
+            operator: "eq",
+            value: credentialId,
+          });
+        }
+        if (type) {
+          where.push({ field: "type", operator: "eq", value: type });
+        }
+
+        const events = await ctx.context.adapter.findMany<PasskeyEvent>({
+          model: auditLog.model,
+          where,
+          sortBy: { field: "createdAt", direction: "desc" },
+          limit: limit + 1,
+          offset,
+        });
+
+        // Check if there are more results
+        const hasMore = events.length > limit;
+        const results = hasMore ? events.slice(0, limit) : events;
+
+        const formattedEvents = results.map((event) => {
+          let parsedMetadata: Record<string, unknown> = {};
+          if (event.metadata) {
+            try {
+              parsedMetadata = JSON.parse(event.metadata);
+            } catch (parseError) {
+              logger.warn("Failed to parse passkey event metadata:", {
+                eventId: event.id,
+                error: parseError,
+              });
+            }
+          }
+
+          return {
+            id: event.id,
+            type: event.type,
+            credentialId: event.credentialId || null,
+            ipAddress: event.ipAddress || null,
+            userAgent: event.userAgent || null,
+            platform: event.platform || null,
+            metadata: parsedMetadata,
+            createdAt: event.createdAt,
+          };
+        });
+
+        return ctx.json({
+          events: formattedEvents,
+          nextOffset: hasMore ? offset + limit : undefined,
+        });
+      } catch (error) {
+        logger.error("Error listing passkey events:", error);
+        if (error instanceof APIError) {
+          throw error;
+        }
+        throw new APIError("INTERNAL_SERVER_ERROR", {
+          code: ERROR_CODES.SERVER.EVENTS_RETRIEVAL_FAILED,
+          message: getErrorMessage(
+            ERROR_CODES.SERVER.EVENTS_RETRIEVAL_FAILED,
+            locale,
+          ),
+        });
+      }
+    },
+  );
+};
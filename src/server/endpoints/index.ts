@@ -6,4 +6,14 @@ export { createListEndpoint } from "./list";
 
 export { createRevokeEndpoint } from "./revoke";
 
+export { createRevokeManyEndpoint } from "./revoke-many";
+
+export { createDeleteEndpoint } from "./delete";
+
+export { createUpdateEndpoint } from "./update";
+
+export { createEventsEndpoint } from "./events";
+
 export { createChallengeEndpoint } from "./challenge";
+
+export { createRegistrationOptionsEndpoint } from "./registration-options";
@@ -6,7 +6,8 @@
 import { createAuthEndpoint, sessionMiddleware } from "better-auth/api";
 import { APIError } from "better-call";
 
-import { ERROR_CODES, ERROR_MESSAGES } from "../../types/errors";
+import { ERROR_CODES, getErrorMessage } from "../../types/errors";
+import { normalizeAaguid, type AaguidResolver } from "../utils/aaguid";
 import type { Logger } from "../utils/logger";
 import {
   listPasskeysParamsSchema,
@@ -20,9 +21,11 @@ import type { AuthPasskey, ResolvedSchemaConfig } from "../../types";
  */
 export const createListEndpoint = (options: {
   logger: Logger;
+  locale?: string;
   schemaConfig: ResolvedSchemaConfig;
+  resolveProvider: AaguidResolver;
 }) => {
-  const { logger, schemaConfig } = options;
+  const { logger, locale, schemaConfig, resolveProvider } = options;
 
   return createAuthEndpoint(
     "/expo-passkey/list/:userId",
@@ -60,7 +63,37 @@ export const createListEndpoint = (options: {
                               type: "string",
                               enum: ["active", "revoked"],
                             },
+                            name: {
+                              type: "string",
+                              nullable: true,
+                            },
                             aaguid: {
+                              type: "string",
+                              format: "uuid",
+                              nullable: true,
+                            },
+                            provider: {
+                              type: "object",
+                              nullable: true,
+                              properties: {
+                                name: { type: "string" },
+                                icon: { type: "string" },
+                              },
+                            },
+                            transports: {
+                              type: "array",
+                              items: { type: "string" },
+                            },
+                            deviceType: {
+                              type: "string",
+                              enum: ["singleDevice", "multiDevice"],
+                              nullable: true,
+                            },
+                            backedUp: {
+                              type: "boolean",
+                              nullable: true,
+                            },
+                            algorithm: {
                               type: "string",
                               nullable: true,
                             },
@@ -136,8 +169,11 @@ export const createListEndpoint = (options: {
             sessionUserId: ctx.context.session?.user?.id,
           });
           throw new APIError("UNAUTHORIZED", {
-            code: "UNAUTHORIZED_ACCESS",
-            message: "You can only view your own passkeys",
+            code: ERROR_CODES.SERVER.UNAUTHORIZED_ACCESS,
+            message: getErrorMessage(
+              ERROR_CODES.SERVER.UNAUTHORIZED_ACCESS,
+              locale,
+            ),
           });
         }
 
@@ -178,7 +214,15 @@ export const createListEndpoint = (options: {
             platform: passkey.platform,
             lastUsed: passkey.lastUsed,
             status: passkey.status,
-            aaguid: passkey.aaguid || null,
+            name: passkey.name || null,
+            aaguid: normalizeAaguid(passkey.aaguid),
+            provider: resolveProvider(passkey.aaguid),
+            transports: passkey.transports
+              ? passkey.transports.split(",")
+              : [],
+            deviceType: passkey.deviceType ?? null,
+            backedUp: passkey.backedUp ?? null,
+            algorithm: passkey.algorithm ?? null,
             createdAt: passkey.createdAt,
             updatedAt: passkey.updatedAt,
             revokedAt: passkey.revokedAt,
@@ -206,7 +250,10 @@ export const createListEndpoint = (options: {
 
         throw new APIError("INTERNAL_SERVER_ERROR", {
           code: ERROR_CODES.SERVER.PASSKEYS_RETRIEVAL_FAILED,
-          message: ERROR_MESSAGES[ERROR_CODES.SERVER.PASSKEYS_RETRIEVAL_FAILED],
+          message: getErrorMessage(
+            ERROR_CODES.SERVER.PASSKEYS_RETRIEVAL_FAILED,
+            locale,
+          ),
         });
       }
     },
@@ -4,6 +4,7 @@
  */
 
 import { createAuthEndpoint, sessionMiddleware } from "better-auth/api";
+import type { User } from "better-auth/types";
 import { APIError } from "better-call";
 import {
   verifyRegistrationResponse,
@@ -12,12 +13,26 @@ import {
 } from "@simplewebauthn/server";
 import { isoBase64URL } from "@simplewebauthn/server/helpers";
 
-import { ERROR_CODES, ERROR_MESSAGES } from "../../types/errors";
+import { ERROR_CODES, getErrorMessage } from "../../types/errors";
+import { normalizeAaguid } from "../utils/aaguid";
+import {
+  getPublicKeyAlgorithm,
+  resolveAlgorithmIds,
+} from "../utils/algorithms";
+import type { AttestationPolicy } from "../utils/attestation";
+import type { AuditLog } from "../utils/audit";
+import { isUserVerificationRequired } from "../utils/authenticator-selection";
+import { consumeCeremonyChallenge } from "../utils/challenge";
+import { createDatabaseChallengeStore } from "../utils/challenge-store";
+import { getRequestMetadata, runAfterHook } from "../utils/hooks";
 import type { Logger } from "../utils/logger";
 import { registerPasskeySchema } from "../utils/schema";
 import type {
+  AuthenticatorSelectionPolicy,
   AuthPasskey,
-  PasskeyChallenge,
+  ChallengeStore,
+  ExpoPasskeyHooks,
+  PasskeyAlgorithm,
   ResolvedSchemaConfig,
 } from "../../types/server";
 
@@ -43,9 +58,35 @@ export const createRegisterEndpoint = (options: {
   rpId: string;
   origin?: string | string[];
   logger: Logger;
+  locale?: string;
   schemaConfig: ResolvedSchemaConfig;
+  attestationPolicy?: AttestationPolicy;
+  hooks?: ExpoPasskeyHooks;
+  auditLog?: AuditLog;
+  authenticatorSelection?: AuthenticatorSelectionPolicy;
+  /** Signature algorithms accepted for new credentials */
+  supportedAlgorithms?: PasskeyAlgorithm[];
+  /** Where pending challenges are kept, defaults to the database */
+  challengeStore?: ChallengeStore;
 }) => {
-  const { rpName, rpId, origin, logger, schemaConfig } = options;
+  const {
+    rpName,
+    rpId,
+    origin,
+    logger,
+    locale,
+    schemaConfig,
+    attestationPolicy,
+    hooks,
+    auditLog,
+    authenticatorSelection,
+    supportedAlgorithms,
+    challengeStore = createDatabaseChallengeStore(
+      schemaConfig.passkeyChallengeModel
+    ),
+  } = options;
+
+  const supportedAlgorithmIDs = resolveAlgorithmIds(supportedAlgorithms);
 
   // Convert to array of origins for consistency, or use empty array if undefined
   const expectedOrigins = origin
@@ -104,7 +145,7 @@ export const createRegisterEndpoint = (options: {
       },
     },
     async (ctx) => {
-      const { credential, platform, metadata } = ctx.body;
+      const { credential, platform, metadata, challengeId } = ctx.body;
 
       // Get userId from authenticated session
       if (!ctx.context.session?.user?.id) {
@@ -112,12 +153,13 @@ export const createRegisterEndpoint = (options: {
           hasSession: !!ctx.context.session,
         });
         throw new APIError("UNAUTHORIZED", {
-          code: "SESSION_REQUIRED",
-          message: "You must be logged in to register a passkey",
+          code: ERROR_CODES.SERVER.SESSION_REQUIRED,
+          message: getErrorMessage(ERROR_CODES.SERVER.SESSION_REQUIRED, locale),
         });
       }
 
       const userId = ctx.context.session.user.id;
+      const request = getRequestMetadata(ctx);
 
       try {
         logger.debug("WebAuthn registration attempt:", {
@@ -127,7 +169,7 @@ export const createRegisterEndpoint = (options: {
         });
 
         // Verify user exists
-        const user = await ctx.context.adapter.findOne({
+        const user = await ctx.context.adapter.findOne<User>({
           model: "user",
           where: [{ field: "id", operator: "eq", value: userId }],
         });
@@ -136,30 +178,33 @@ export const createRegisterEndpoint = (options: {
           logger.warn("Registration failed: User not found", { userId });
           throw new APIError("BAD_REQUEST", {
             code: ERROR_CODES.SERVER.USER_NOT_FOUND,
-            message: ERROR_MESSAGES[ERROR_CODES.SERVER.USER_NOT_FOUND],
+            message: getErrorMessage(ERROR_CODES.SERVER.USER_NOT_FOUND, locale),
           });
         }
 
-        // Get latest challenge for this user
-        const challenges = await ctx.context.adapter.findMany<PasskeyChallenge>(
+        // Resolve and consume the challenge this response was issued for,
+        // so it cannot be used again even if verification fails
+        const storedChallenge = await consumeCeremonyChallenge(
+          challengeStore,
+          ctx.context,
           {
-            model: schemaConfig.passkeyChallengeModel,
-            where: [
-              { field: "userId", operator: "eq", value: userId },
-              { field: "type", operator: "eq", value: "registration" },
-            ],
-            sortBy: { field: "createdAt", direction: "desc" },
-            limit: 1,
+            type: "registration",
+            clientDataJSON: credential.response.clientDataJSON,
+            challengeId,
           }
         );
 
-        const storedChallenge = challenges[0];
-
-        if (!storedChallenge) {
-          logger.warn("Registration failed: No challenge found", { userId });
+        if (!storedChallenge || storedChallenge.userId !== userId) {
+          logger.warn("Registration failed: No matching challenge found", {
+            userId,
+            challengeId,
+          });
           throw new APIError("BAD_REQUEST", {
-            code: "INVALID_CHALLENGE",
-            message: "No challenge found for registration",
+            code: ERROR_CODES.SERVER.INVALID_CHALLENGE,
+            message: getErrorMessage(
+              ERROR_CODES.SERVER.INVALID_CHALLENGE,
+              locale,
+            ),
           });
         }
 
@@ -167,8 +212,11 @@ export const createRegisterEndpoint = (options: {
         if (new Date(storedChallenge.expiresAt) < new Date()) {
           logger.warn("Registration failed: Challenge expired", { userId });
           throw new APIError("BAD_REQUEST", {
-            code: "EXPIRED_CHALLENGE",
-            message: "Challenge has expired. Please request a new one.",
+            code: ERROR_CODES.SERVER.EXPIRED_CHALLENGE,
+            message: getErrorMessage(
+              ERROR_CODES.SERVER.EXPIRED_CHALLENGE,
+              locale,
+            ),
           });
         }
 
@@ -197,8 +245,31 @@ export const createRegisterEndpoint = (options: {
           registrationOptions.authenticatorSelection?.userVerification ||
           "preferred";
 
+        // The server policy applies even to challenges stored before it changed
         const requireUserVerification =
-          userVerificationRequirement === "required";
+          userVerificationRequirement === "required" ||
+          isUserVerificationRequired(authenticatorSelection, "registration");
+
+        // The attachment is reported by the client, so this only catches
+        // clients that ignored the attachment they were asked for
+        const { allowedAttachments } = authenticatorSelection ?? {};
+        if (
+          allowedAttachments?.length &&
+          credential.authenticatorAttachment &&
+          !allowedAttachments.includes(credential.authenticatorAttachment)
+        ) {
+          logger.warn("Registration rejected: Attachment not allowed", {
+            userId,
+            authenticatorAttachment: credential.authenticatorAttachment,
+          });
+          throw new APIError("FORBIDDEN", {
+            code: ERROR_CODES.SERVER.AUTHENTICATOR_SELECTION_NOT_ALLOWED,
+            message: getErrorMessage(
+              ERROR_CODES.SERVER.AUTHENTICATOR_SELECTION_NOT_ALLOWED,
+              locale,
+            ),
+          });
+        }
 
         logger.debug("Registration verification settings:", {
           userVerificationRequirement,
@@ -214,6 +285,9 @@ export const createRegisterEndpoint = (options: {
           credential as unknown as RegistrationResponseJSON;
 
         try {
+          // Trust anchors and metadata must be in place before verification
+          await attestationPolicy?.load();
+
           // Create verification options with client preferences
           const verificationOptions: VerifyRegistrationResponseOpts = {
             response: verifiableCredential,
@@ -221,6 +295,7 @@ export const createRegisterEndpoint = (options: {
             expectedOrigin: expectedOrigins,
             expectedRPID: rpId,
             requireUserVerification, // Use client preference
+            supportedAlgorithmIDs,
           };
 
           // Verify the registration response
@@ -233,8 +308,33 @@ export const createRegisterEndpoint = (options: {
           }
 
           // Extract credential information from the WebAuthnCredential object
-          const { credential: webAuthnCredential, aaguid } =
-            verification.registrationInfo;
+          const {
+            credential: webAuthnCredential,
+            aaguid,
+            fmt,
+            credentialDeviceType,
+            credentialBackedUp,
+          } = verification.registrationInfo;
+
+          // Apply the server's authenticator policy to the verified attestation
+          if (attestationPolicy) {
+            const decision = await attestationPolicy.evaluate(aaguid, fmt);
+            if (!decision.allowed) {
+              logger.warn("Registration rejected by attestation policy", {
+                userId,
+                aaguid,
+                fmt,
+                reason: decision.reason,
+              });
+              throw new APIError("FORBIDDEN", {
+                code: ERROR_CODES.SERVER.AUTHENTICATOR_NOT_ALLOWED,
+                message: getErrorMessage(
+                  ERROR_CODES.SERVER.AUTHENTICATOR_NOT_ALLOWED,
+                  locale,
+                ),
+              });
+            }
+          }
 
           // Use credential data directly or convert as needed
           const credentialIdStr =
@@ -247,12 +347,19 @@ export const createRegisterEndpoint = (options: {
               ? webAuthnCredential.publicKey
               : isoBase64URL.fromBuffer(webAuthnCredential.publicKey);
 
-          const aaguidStr = aaguid
-            ? typeof aaguid === "string"
-              ? aaguid
-              : Buffer.from(aaguid).toString("base64")
+          // Transports reported by the client, used to build future credential descriptors
+          const transportsStr = credential.response.transports?.length
+            ? credential.response.transports.join(",")
             : null;
 
+          const aaguidStr = normalizeAaguid(aaguid);
+
+          // Recorded so credentials using an algorithm can be found and phased out
+          const algorithm =
+            typeof webAuthnCredential.publicKey === "string"
+              ? null
+              : getPublicKeyAlgorithm(webAuthnCredential.publicKey);
+
           // Check if credential already exists
           const existingCredentials =
             await ctx.context.adapter.findMany<AuthPasskey>({
@@ -270,6 +377,32 @@ export const createRegisterEndpoint = (options: {
           const existingCredential =
             existingCredentials.length > 0 ? existingCredentials[0] : null;
 
+          // If the existing credential is already active, throw error
+          if (existingCredential?.status === "active") {
+            logger.warn("Registration failed: Credential already exists", {
+              credentialId: credentialIdStr,
+            });
+            throw new APIError("BAD_REQUEST", {
+              code: ERROR_CODES.SERVER.CREDENTIAL_EXISTS,
+              message: getErrorMessage(
+                ERROR_CODES.SERVER.CREDENTIAL_EXISTS,
+                locale,
+              ),
+            });
+          }
+
+          // Give the application a chance to veto the new passkey
+          await hooks?.beforeRegister?.({
+            user,
+            credentialId: credentialIdStr,
+            platform,
+            aaguid: aaguidStr,
+            deviceType: credentialDeviceType,
+            backedUp: credentialBackedUp,
+            existingPasskey: existingCredential,
+            request,
+          });
+
           const now = new Date().toISOString();
 
           // Prepare enhanced metadata with client preferences
@@ -295,18 +428,9 @@ export const createRegisterEndpoint = (options: {
             },
           };
 
-          if (existingCredential) {
-            // If the existing credential is already active, throw error
-            if (existingCredential.status === "active") {
-              logger.warn("Registration failed: Credential already exists", {
-                credentialId: credentialIdStr,
-              });
-              throw new APIError("BAD_REQUEST", {
-                code: ERROR_CODES.SERVER.CREDENTIAL_EXISTS,
-                message: ERROR_MESSAGES[ERROR_CODES.SERVER.CREDENTIAL_EXISTS],
-              });
-            }
+          let passkey: AuthPasskey;
 
+          if (existingCredential) {
             // Update the existing revoked credential
             logger.info("Reactivating previously revoked passkey", {
               credentialId: credentialIdStr,
@@ -314,55 +438,65 @@ export const createRegisterEndpoint = (options: {
               clientPreferences: registrationOptions,
             });
 
+            const update = {
+              userId,
+              platform,
+              lastUsed: now,
+              status: "active" as const,
+              updatedAt: now,
+              publicKey: publicKeyStr,
+              counter: 0,
+              aaguid: aaguidStr,
+              transports: transportsStr,
+              deviceType: credentialDeviceType,
+              backedUp: credentialBackedUp,
+              algorithm,
+              revokedAt: null,
+              revokedReason: null,
+              metadata: JSON.stringify(enhancedMetadata),
+            };
+
             await ctx.context.adapter.update({
               model: schemaConfig.authPasskeyModel,
               where: [
                 { field: "id", operator: "eq", value: existingCredential.id },
               ],
-              update: {
-                userId,
-                platform,
-                lastUsed: now,
-                status: "active",
-                updatedAt: now,
-                publicKey: publicKeyStr,
-                counter: 0,
-                aaguid: aaguidStr,
-                revokedAt: null,
-                revokedReason: null,
-                metadata: JSON.stringify(enhancedMetadata),
-              },
+              update,
             });
+
+            passkey = { ...existingCredential, ...update } as unknown as AuthPasskey;
           } else {
             // Create new passkey record if one doesn't exist
+            const data = {
+              id: ctx.context.generateId({
+                model: schemaConfig.authPasskeyModel,
+                size: 32,
+              }),
+              userId,
+              credentialId: credentialIdStr,
+              publicKey: publicKeyStr,
+              counter: 0,
+              platform,
+              aaguid: aaguidStr,
+              transports: transportsStr,
+              deviceType: credentialDeviceType,
+              backedUp: credentialBackedUp,
+              algorithm,
+              lastUsed: now,
+              status: "active" as const,
+              createdAt: now,
+              updatedAt: now,
+              metadata: JSON.stringify(enhancedMetadata),
+            };
+
             await ctx.context.adapter.create({
               model: schemaConfig.authPasskeyModel,
-              data: {
-                id: ctx.context.generateId({
-                  model: schemaConfig.authPasskeyModel,
-                  size: 32,
-                }),
-                userId,
-                credentialId: credentialIdStr,
-                publicKey: publicKeyStr,
-                counter: 0,
-                platform,
-                aaguid: aaguidStr,
-                lastUsed: now,
-                status: "active",
-                createdAt: now,
-                updatedAt: now,
-                metadata: JSON.stringify(enhancedMetadata),
-              },
+              data,
               forceAllowId: true,
             });
-          }
 
-          // Delete the used challenge
-          await ctx.context.adapter.delete({
-            model: schemaConfig.passkeyChallengeModel,
-            where: [{ field: "id", operator: "eq", value: storedChallenge.id }],
-          });
+            passkey = data as unknown as AuthPasskey;
+          }
 
           logger.info("WebAuthn passkey registration successful", {
             userId,
@@ -378,12 +512,33 @@ export const createRegisterEndpoint = (options: {
             },
           });
 
+          const outcome = existingCredential ? "reactivated" : "created";
+
+          await auditLog?.record(ctx.context, {
+            type: "registered",
+            userId,
+            credentialId: credentialIdStr,
+            platform,
+            request,
+            details: { outcome, aaguid: aaguidStr },
+          });
+
+          await runAfterHook(logger, "onRegister", hooks?.onRegister, {
+            user,
+            passkey,
+            outcome,
+            request,
+          });
+
           return ctx.json({
             success: true,
             rpName,
             rpId,
           });
         } catch (verificationError) {
+          if (verificationError instanceof APIError) {
+            throw verificationError;
+          }
           logger.error("WebAuthn verification failed:", {
             error: verificationError,
             userId,
@@ -391,22 +546,43 @@ export const createRegisterEndpoint = (options: {
             clientPreferences: registrationOptions,
           });
           throw new APIError("BAD_REQUEST", {
-            code: "VERIFICATION_FAILED",
-            message:
-              verificationError instanceof Error
-                ? `WebAuthn verification failed: ${verificationError.message}`
-                : "WebAuthn verification failed",
+            code: ERROR_CODES.SERVER.VERIFICATION_FAILED,
+            message: getErrorMessage(
+              ERROR_CODES.SERVER.VERIFICATION_FAILED,
+              locale,
+            ),
           });
         }
       } catch (error) {
         logger.error("Registration error:", error);
-        if (error instanceof APIError) {
-          throw error;
-        }
-        throw new APIError("BAD_REQUEST", {
-          code: ERROR_CODES.SERVER.REGISTRATION_FAILED,
-          message: ERROR_MESSAGES[ERROR_CODES.SERVER.REGISTRATION_FAILED],
-        });
+        const apiError =
+          error instanceof APIError
+            ? error
+            : new APIError("BAD_REQUEST", {
+                code: ERROR_CODES.SERVER.REGISTRATION_FAILED,
+                message: getErrorMessage(
+                  ERROR_CODES.SERVER.REGISTRATION_FAILED,
+                  locale,
+                ),
+              });
+
+        await runAfterHook(
+          logger,
+          "onVerificationFailure",
+          hooks?.onVerificationFailure,
+          {
+            ceremony: "registration",
+            credentialId: credential.id,
+            userId,
+            error: {
+              code: apiError.body?.code ?? ERROR_CODES.SERVER.REGISTRATION_FAILED,
+              message: apiError.message,
+            },
+            request,
+          }
+        );
+
+        throw apiError;
       }
     }
   );
@@ -0,0 +1,267 @@
+/**
+ * @file Registration options endpoint
+ * @description Generates server-authoritative WebAuthn creation options for passkey registration
+ */
+
+import {
+  generateRegistrationOptions,
+  type AuthenticatorTransportFuture,
+} from "@simplewebauthn/server";
+import { isoUint8Array } from "@simplewebauthn/server/helpers";
+import { createAuthEndpoint, sessionMiddleware } from "better-auth/api";
+import { APIError } from "better-call";
+import crypto from "crypto";
+
+import { ERROR_CODES, getErrorMessage } from "../../types/errors";
+import { resolveAlgorithmIds } from "../utils/algorithms";
+import { applyRegistrationPolicy } from "../utils/authenticator-selection";
+import {
+  getCeremonyTimeout,
+  getChallengeByteLength,
+  getChallengeTtl,
+} from "../utils/challenge";
+import { createDatabaseChallengeStore } from "../utils/challenge-store";
+import type { Logger } from "../utils/logger";
+import { registrationOptionsSchema } from "../utils/schema";
+
+import type {
+  AuthenticatorSelectionPolicy,
+  AuthPasskey,
+  ChallengeOptions,
+  ChallengeStore,
+  PasskeyAlgorithm,
+  ResolvedSchemaConfig,
+} from "../../types";
+
+/**
+ * Create endpoint that returns complete PublicKeyCredentialCreationOptionsJSON
+ */
+export const createRegistrationOptionsEndpoint = (options: {
+  rpName: string;
+  rpId: string;
+  logger: Logger;
+  locale?: string;
+  schemaConfig: ResolvedSchemaConfig;
+  /** Attestation conveyance enforced by the server's attestation policy */
+  attestationConveyance?: "none" | "direct" | "enterprise";
+  /** Server policy the client's preferences are checked against */
+  authenticatorSelection?: AuthenticatorSelectionPolicy;
+  /** Signature algorithms offered to authenticators, in order of preference */
+  supportedAlgorithms?: PasskeyAlgorithm[];
+  /** Challenge lifetime and size */
+  challengeOptions?: ChallengeOptions;
+  /** Where pending challenges are kept, defaults to the database */
+  challengeStore?: ChallengeStore;
+}) => {
+  const {
+    rpName,
+    rpId,
+    logger,
+    locale,
+    schemaConfig,
+    attestationConveyance,
+    authenticatorSelection,
+    supportedAlgorithms,
+    challengeOptions,
+    challengeStore = createDatabaseChallengeStore(
+      schemaConfig.passkeyChallengeModel,
+    ),
+  } = options;
+
+  const supportedAlgorithmIDs = resolveAlgorithmIds(supportedAlgorithms);
+
+  return createAuthEndpoint(
+    "/expo-passkey/registration-options",
+    {
+      method: "POST",
+      body: registrationOptionsSchema,
+      use: [sessionMiddleware],
+      metadata: {
+        openapi: {
+          description:
+            "Generate WebAuthn creation options for registering a new passkey",
+          tags: ["Authentication"],
+          responses: {
+            200: {
+              description: "Registration options successfully generated",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      rp: { type: "object" },
+                      user: { type: "object" },
+                      challenge: { type: "string" },
+                      pubKeyCredParams: { type: "array" },
+                      timeout: { type: "number" },
+                      excludeCredentials: { type: "array" },
+                      authenticatorSelection: { type: "object" },
+                      attestation: { type: "string" },
+                      challengeId: { type: "string" },
+                    },
+                  },
+                },
+              },
+            },
+            401: {
+              description: "Unauthorized",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      error: {
+                        type: "object",
+                        properties: {
+                          code: { type: "string" },
+                          message: { type: "string" },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (ctx) => {
+      // Get user from authenticated session
+      const sessionUser = ctx.context.session?.user;
+      if (!sessionUser?.id) {
+        logger.warn("Registration options require authentication", {
+          hasSession: !!ctx.context.session,
+        });
+        throw new APIError("UNAUTHORIZED", {
+          code: ERROR_CODES.SERVER.SESSION_REQUIRED,
+          message: getErrorMessage(ERROR_CODES.SERVER.SESSION_REQUIRED, locale),
+        });
+      }
+
+      const userId = sessionUser.id;
+
+      try {
+        // The server's defaults and policy win over anything the client
+        // weakened, so the stored options describe what was asked for
+        const requestedOptions = ctx.body || {};
+        const { registrationOptions, violations } = applyRegistrationPolicy(
+          {
+            authenticatorSelection: requestedOptions.authenticatorSelection,
+            timeout: getCeremonyTimeout(
+              challengeOptions,
+              "registration",
+              requestedOptions.timeout
+            ),
+          },
+          authenticatorSelection,
+          attestationConveyance,
+        );
+
+        if (violations.length > 0) {
+          logger.warn("Registration options violate the server policy", {
+            userId,
+            violations,
+          });
+          if (authenticatorSelection?.onViolation === "reject") {
+            throw new APIError("BAD_REQUEST", {
+              code: ERROR_CODES.SERVER.AUTHENTICATOR_SELECTION_NOT_ALLOWED,
+              message: getErrorMessage(
+                ERROR_CODES.SERVER.AUTHENTICATOR_SELECTION_NOT_ALLOWED,
+                locale,
+              ),
+            });
+          }
+        }
+
+        logger.debug("Generating registration options:", {
+          userId,
+          registrationOptions,
+        });
+
+        // Exclude credentials the user already has so the platform can
+        // refuse to create a duplicate on the same authenticator
+        const existingPasskeys = await ctx.context.adapter.findMany<AuthPasskey>(
+          {
+            model: schemaConfig.authPasskeyModel,
+            where: [
+              { field: "userId", operator: "eq", value: userId },
+              { field: "status", operator: "eq", value: "active" },
+            ],
+          },
+        );
+
+        const userName = sessionUser.email || userId;
+
+        const creationOptions = await generateRegistrationOptions({
+          rpName,
+          rpID: rpId,
+          userID: isoUint8Array.fromUTF8String(userId),
+          userName,
+          userDisplayName: sessionUser.name || userName,
+          challenge: new Uint8Array(
+            crypto.randomBytes(getChallengeByteLength(challengeOptions)),
+          ),
+          timeout: registrationOptions.timeout,
+          attestationType:
+            registrationOptions.attestation === "direct" ||
+            registrationOptions.attestation === "enterprise"
+              ? registrationOptions.attestation
+              : "none",
+          authenticatorSelection: registrationOptions.authenticatorSelection,
+          excludeCredentials: existingPasskeys.map((passkey) => ({
+            id: passkey.credentialId,
+            transports: passkey.transports
+              ? (passkey.transports.split(",") as AuthenticatorTransportFuture[])
+              : undefined,
+          })),
+          supportedAlgorithmIDs,
+        });
+
+        // Store the challenge so the register endpoint can verify against it
+        const now = new Date();
+        const expiresAt = new Date(
+          now.getTime() +
+            getChallengeTtl(challengeOptions, "registration") * 1000,
+        );
+
+        // generateId returns false when the database assigns IDs, but
+        // challenges are not necessarily stored in the database
+        const challengeId =
+          ctx.context.generateId({
+            model: schemaConfig.passkeyChallengeModel,
+            size: 32,
+          }) || crypto.randomUUID();
+
+        await challengeStore.save(ctx.context, {
+          id: challengeId,
+          userId,
+          challenge: creationOptions.challenge,
+          type: "registration",
+          createdAt: now.toISOString(),
+          expiresAt: expiresAt.toISOString(),
+          registrationOptions: JSON.stringify(registrationOptions),
+        });
+
+        logger.debug("Registration options generated successfully", {
+          userId,
+          excludedCredentials: existingPasskeys.length,
+        });
+
+        return ctx.json({ ...creationOptions, challengeId });
+      } catch (error) {
+        logger.error("Failed to generate registration options:", error);
+        if (error instanceof APIError) {
+          throw error;
+        }
+        throw new APIError("INTERNAL_SERVER_ERROR", {
+          code: ERROR_CODES.SERVER.CHALLENGE_GENERATION_FAILED,
+          message: getErrorMessage(
+            ERROR_CODES.SERVER.CHALLENGE_GENERATION_FAILED,
+            locale,
+          ),
+        });
+      }
+    },
+  );
+};
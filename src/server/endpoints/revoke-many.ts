@@ -0,0 +1,236 @@
+/**
+ * @file Bulk revoke passkeys endpoint
+ * @description Implementation of the endpoint to revoke several WebAuthn passkeys at once
+ */
+
+import { createAuthEndpoint, sessionMiddleware } from "better-auth/api";
+import type { Where } from "better-auth/types";
+import { APIError } from "better-call";
+
+import { ERROR_CODES, getErrorMessage } from "../../types/errors";
+import type { AuditLog } from "../utils/audit";
+import { getRequestMetadata, runAfterHook } from "../utils/hooks";
+import type { Logger } from "../utils/logger";
+import { revokePasskeysSchema } from "../utils/schema";
+import { revokePasskeySessions } from "../utils/sessions";
+
+import type {
+  AuthPasskey,
+  ExpoPasskeyHooks,
+  ResolvedSchemaConfig,
+} from "../../types";
+
+/**
+ * Create endpoint to revoke every passkey matching a filter
+ */
+export const createRevokeManyEndpoint = (options: {
+  logger: Logger;
+  locale?: string;
+  schemaConfig: ResolvedSchemaConfig;
+  /** Always end sessions created with the revoked passkeys */
+  revokeSessions?: boolean;
+  hooks?: ExpoPasskeyHooks;
+  auditLog?: AuditLog;
+}) => {
+  const {
+    logger,
+    locale,
+    schemaConfig,
+    revokeSessions: revokeSessionsByDefault,
+    hooks,
+    auditLog,
+  } = options;
+
+  return createAuthEndpoint(
+    "/expo-passkey/revoke-many",
+    {
+      method: "POST",
+      body: revokePasskeysSchema,
+      use: [sessionMiddleware],
+      metadata: {
+        openapi: {
+          description:
+            "Revoke the user's passkeys matching credential IDs, a platform, or all except one",
+          tags: ["Authentication"],
+          responses: {
+            200: {
+              description: "Matching passkeys revoked",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      revoked: { type: "number" },
+                      credentialIds: {
+                        type: "array",
+                        items: { type: "string" },
+                      },
+                      sessionsRevoked: {
+                        type: "number",
+                        description:
+                          "Sessions created with the revoked passkeys that were ended",
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (ctx) => {
+      const {
+        credentialIds,
+        platform,
+        exceptCredentialId,
+        reason,
+        revokeSessions,
+      } = ctx.body;
+
+      // Get userId from authenticated session
+      if (!ctx.context.session?.user?.id) {
+        logger.warn("Bulk revocation requires authentication", {
+          hasSession: !!ctx.context.session,
+        });
+        throw new APIError("UNAUTHORIZED", {
+          code: ERROR_CODES.SERVER.SESSION_REQUIRED,
+          message: getErrorMessage(ERROR_CODES.SERVER.SESSION_REQUIRED, locale),
+        });
+      }
+
+      const userId = ctx.context.session.user.id;
+      const revokedReason = reason || "user_initiated";
+      const request = getRequestMetadata(ctx);
+
+      try {
+        logger.debug("Revoking passkeys", {
+          userId,
+          credentialIds,
+          platform,
+          exceptCredentialId,
+        });
+
+        // Only the user's own active credentials can match
+        const where: Where[] = [
+          { field: "userId", operator: "eq", value: userId },
+          { field: "status", operator: "eq", value: "active" },
+        ];
+        if (credentialIds) {
+          where.push({
+            field: "credentialId",
+            operator: "in",
+            value: credentialIds,
+          });
+        }
+        if (platform) {
+          where.push({ field: "platform", operator: "eq", value: platform });
+        }
+        if (exceptCredentialId) {
+          where.push({
+            field: "credentialId",
+            operator: "ne",
+            value: exceptCredentialId,
+          });
+        }
+
+        const credentials = await ctx.context.adapter.findMany<AuthPasskey>({
+          model: schemaConfig.authPasskeyModel,
+          where,
+        });
+
+        // A veto for any passkey leaves all of them untouched
+        for (const credential of credentials) {
+          await hooks?.beforeRevoke?.({
+            user: ctx.context.session.user,
+            passkey: credential,
+            reason: revokedReason,
+            request,
+          });
+        }
+
+        const now = new Date().toISOString();
+        const update = {
+          status: "revoked" as const,
+          revokedAt: now,
+          revokedReason,
+          updatedAt: now,
+        };
+
+        if (credentials.length > 0) {
+          await ctx.context.adapter.updateMany({
+            model: schemaConfig.authPasskeyModel,
+            where: [
+              {
+                field: "id",
+                operator: "in",
+                value: credentials.map((credential) => credential.id),
+              },
+            ],
+            update,
+          });
+        }
+
+        const revokedCredentialIds = credentials.map(
+          (credential) => credential.credentialId,
+        );
+
+        // A request can ask for more than the plugin option, never less
+        const sessionsRevoked =
+          revokeSessionsByDefault || revokeSessions === true
+            ? await revokePasskeySessions(
+                ctx.context.internalAdapter,
+                userId,
+                revokedCredentialIds,
+              )
+            : 0;
+
+        logger.info("Passkeys revoked successfully", {
+          userId,
+          revoked: revokedCredentialIds.length,
+          sessionsRevoked,
+          reason: revokedReason,
+        });
+
+        for (const credential of credentials) {
+          await auditLog?.record(ctx.context, {
+            type: "revoked",
+            userId,
+            credentialId: credential.credentialId,
+            platform: credential.platform,
+            request,
+            details: { reason: revokedReason, sessionsRevoked },
+          });
+
+          await runAfterHook(logger, "onRevoke", hooks?.onRevoke, {
+            userId,
+            passkey: { ...credential, ...update },
+            reason: revokedReason,
+            trigger: "user",
+            request,
+          });
+        }
+
+        return ctx.json({
+          success: true,
+          revoked: revokedCredentialIds.length,
+          credentialIds: revokedCredentialIds,
+          sessionsRevoked,
+        });
+      } catch (error) {
+        logger.error("Failed to revoke passkeys", error);
+        if (error instanceof APIError) {
+          throw error;
+        }
+        throw new APIError("BAD_REQUEST", {
+          code: ERROR_CODES.SERVER.REVOCATION_FAILED,
+          message: getErrorMessage(
+            ERROR_CODES.SERVER.REVOCATION_FAILED,
+            locale,
+          ),
+        });
+      }
+    },
+  );
+};
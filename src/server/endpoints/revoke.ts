@@ -6,20 +6,39 @@
 import { createAuthEndpoint, sessionMiddleware } from "better-auth/api";
 import { APIError } from "better-call";
 
-import { ERROR_CODES, ERROR_MESSAGES } from "../../types/errors";
+import { ERROR_CODES, getErrorMessage } from "../../types/errors";
+import type { AuditLog } from "../utils/audit";
+import { getRequestMetadata, runAfterHook } from "../utils/hooks";
 import type { Logger } from "../utils/logger";
 import { revokePasskeySchema } from "../utils/schema";
+import { revokePasskeySessions } from "../utils/sessions";
 
-import type { AuthPasskey, ResolvedSchemaConfig } from "../../types";
+import type {
+  AuthPasskey,
+  ExpoPasskeyHooks,
+  ResolvedSchemaConfig,
+} from "../../types";
 
 /**
  * Create endpoint to revoke a passkey
  */
 export const createRevokeEndpoint = (options: {
   logger: Logger;
+  locale?: string;
   schemaConfig: ResolvedSchemaConfig;
+  /** End sessions created with the passkey once it is revoked */
+  revokeSessions?: boolean;
+  hooks?: ExpoPasskeyHooks;
+  auditLog?: AuditLog;
 }) => {
-  const { logger, schemaConfig } = options;
+  const {
+    logger,
+    locale,
+    schemaConfig,
+    revokeSessions = false,
+    hooks,
+    auditLog,
+  } = options;
 
   return createAuthEndpoint(
     "/expo-passkey/revoke",
@@ -77,12 +96,14 @@ export const createRevokeEndpoint = (options: {
           hasSession: !!ctx.context.session,
         });
         throw new APIError("UNAUTHORIZED", {
-          code: "SESSION_REQUIRED",
-          message: "You must be logged in to revoke a passkey",
+          code: ERROR_CODES.SERVER.SESSION_REQUIRED,
+          message: getErrorMessage(ERROR_CODES.SERVER.SESSION_REQUIRED, locale),
         });
       }
 
       const userId = ctx.context.session.user.id;
+      const revokedReason = reason || "user_initiated";
+      const request = getRequestMetadata(ctx);
 
       try {
         logger.debug("Revoking passkey", { userId, credentialId });
@@ -101,28 +122,66 @@ export const createRevokeEndpoint = (options: {
           logger.warn("Revoke failed: Passkey not found", { credentialId });
           throw new APIError("NOT_FOUND", {
             code: ERROR_CODES.SERVER.CREDENTIAL_NOT_FOUND,
-            message: ERROR_MESSAGES[ERROR_CODES.SERVER.CREDENTIAL_NOT_FOUND],
+            message: getErrorMessage(
+              ERROR_CODES.SERVER.CREDENTIAL_NOT_FOUND,
+              locale,
+            ),
           });
         }
 
+        // Give the application a chance to veto the revocation
+        await hooks?.beforeRevoke?.({
+          user: ctx.context.session.user,
+          passkey: credential,
+          reason: revokedReason,
+          request,
+        });
+
         const now = new Date().toISOString();
+        const update = {
+          status: "revoked" as const,
+          revokedAt: now,
+          revokedReason,
+          updatedAt: now,
+        };
 
         // Update the credential to revoked status
         await ctx.context.adapter.update({
           model: schemaConfig.authPasskeyModel,
           where: [{ field: "id", operator: "eq", value: credential.id }],
-          update: {
-            status: "revoked",
-            revokedAt: now,
-            revokedReason: reason || "user_initiated",
-            updatedAt: now,
-          },
+          update,
         });
 
+        const sessionsRevoked = revokeSessions
+          ? await revokePasskeySessions(
+              ctx.context.internalAdapter,
+              userId,
+              [credentialId],
+            )
+          : 0;
+
         logger.info("Passkey revoked successfully", {
           userId,
           credentialId,
-          reason: reason || "user_initiated",
+          reason: revokedReason,
+          sessionsRevoked,
+        });
+
+        await auditLog?.record(ctx.context, {
+          type: "revoked",
+          userId,
+          credentialId,
+          platform: credential.platform,
+          request,
+          details: { reason: revokedReason, sessionsRevoked },
+        });
+
+        await runAfterHook(logger, "onRevoke", hooks?.onRevoke, {
+          userId,
+          passkey: { ...credential, ...update },
+          reason: revokedReason,
+          trigger: "user",
+          request,
         });
 
         return ctx.json({ success: true });
@@ -131,7 +190,10 @@ export const createRevokeEndpoint = (options: {
         if (error instanceof APIError) {throw error;}
         throw new APIError("BAD_REQUEST", {
           code: ERROR_CODES.SERVER.REVOCATION_FAILED,
-          message: ERROR_MESSAGES[ERROR_CODES.SERVER.REVOCATION_FAILED],
+          message: getErrorMessage(
+            ERROR_CODES.SERVER.REVOCATION_FAILED,
+            locale,
+          ),
         });
       }
     },
@@ -0,0 +1,138 @@
+/**
+ * @file Update passkey endpoint
+ * @description Implementation of the endpoint to rename a WebAuthn passkey
+ */
+
+import { createAuthEndpoint, sessionMiddleware } from "better-auth/api";
+import { APIError } from "better-call";
+
+import { ERROR_CODES, getErrorMessage } from "../../types/errors";
+import type { Logger } from "../utils/logger";
+import { updatePasskeySchema } from "../utils/schema";
+
+import type { AuthPasskey, ResolvedSchemaConfig } from "../../types";
+
+/**
+ * Create endpoint to update a passkey's display name
+ */
+export const createUpdateEndpoint = (options: {
+  logger: Logger;
+  locale?: string;
+  schemaConfig: ResolvedSchemaConfig;
+}) => {
+  const { logger, locale, schemaConfig } = options;
+
+  return createAuthEndpoint(
+    "/expo-passkey/update",
+    {
+      method: "POST",
+      body: updatePasskeySchema,
+      use: [sessionMiddleware],
+      metadata: {
+        openapi: {
+          description: "Set the display name of a registered WebAuthn passkey",
+          tags: ["Authentication"],
+          responses: {
+            200: {
+              description: "Passkey successfully updated",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      credentialId: { type: "string" },
+                      name: { type: "string" },
+                    },
+                  },
+                },
+              },
+            },
+            404: {
+              description: "Passkey not found",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      error: {
+                        type: "object",
+                        properties: {
+                          code: { type: "string" },
+                          message: { type: "string" },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (ctx) => {
+      const { credentialId, name } = ctx.body;
+
+      // Get userId from authenticated session
+      if (!ctx.context.session?.user?.id) {
+        logger.warn("Passkey update requires authentication", {
+          hasSession: !!ctx.context.session,
+        });
+        throw new APIError("UNAUTHORIZED", {
+          code: ERROR_CODES.SERVER.SESSION_REQUIRED,
+          message: getErrorMessage(ERROR_CODES.SERVER.SESSION_REQUIRED, locale),
+        });
+      }
+
+      const userId = ctx.context.session.user.id;
+
+      try {
+        logger.debug("Updating passkey", { userId, credentialId });
+
+        // Only the owner of an active credential may rename it
+        const credential = await ctx.context.adapter.findOne<AuthPasskey>({
+          model: schemaConfig.authPasskeyModel,
+          where: [
+            { field: "credentialId", operator: "eq", value: credentialId },
+            { field: "userId", operator: "eq", value: userId },
+            { field: "status", operator: "eq", value: "active" },
+          ],
+        });
+
+        if (!credential) {
+          logger.warn("Update failed: Passkey not found", { credentialId });
+          throw new APIError("NOT_FOUND", {
+            code: ERROR_CODES.SERVER.CREDENTIAL_NOT_FOUND,
+            message: getErrorMessage(
+              ERROR_CODES.SERVER.CREDENTIAL_NOT_FOUND,
+              locale,
+            ),
+          });
+        }
+
+        await ctx.context.adapter.update({
+          model: schemaConfig.authPasskeyModel,
+          where: [{ field: "id", operator: "eq", value: credential.id }],
+          update: {
+            name,
+            updatedAt: new Date().toISOString(),
+          },
+        });
+
+        logger.info("Passkey renamed successfully", { userId, credentialId });
+
+        return ctx.json({ success: true, credentialId, name });
+      } catch (error) {
+        logger.error("Failed to update passkey", error);
+        if (error instanceof APIError) {
+          throw error;
+        }
+        throw new APIError("BAD_REQUEST", {
+          code: ERROR_CODES.SERVER.UPDATE_FAILED,
+          message: getErrorMessage(ERROR_CODES.SERVER.UPDATE_FAILED, locale),
+        });
+      }
+    },
+  );
+};
@@ -4,5 +4,31 @@
  * @module expo-passkey/server
  */
 
-export { ERROR_CODES } from "../types/errors";
-export { expoPasskey } from "./core";
+export {
+  ERROR_CODES,
+  getErrorMessage,
+  registerErrorMessages,
+} from "../types/errors";
+export type { ErrorMessageBundle } from "../types/errors";
+export { deletePasskeyUserData, expoPasskey } from "./core";
+export type {
+  AtomicSecondaryStorage,
+  AuthenticatorSelectionPolicy,
+  ChallengeOptions,
+  ChallengeStore,
+  ChallengeStoreContext,
+  CounterPolicy,
+  CredentialDeviceType,
+  PasskeyAlgorithm,
+  ExpoPasskeyHooks,
+  ExpoPasskeyOptions,
+  PasskeyAuthenticateEvent,
+  PasskeyBeforeAuthenticateEvent,
+  PasskeyBeforeRegisterEvent,
+  PasskeyBeforeRevokeEvent,
+  PasskeyRegisterEvent,
+  PasskeyRequirement,
+  PasskeyRequestMetadata,
+  PasskeyRevokeEvent,
+  PasskeyVerificationFailureEvent,
+} from "../types/server";
@@ -0,0 +1,145 @@
+/**
+ * @file AAGUID utility
+ * @description Normalizes authenticator AAGUIDs and resolves them to passkey providers
+ */
+
+import type { AuthenticatorProvider } from "../../types/server";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const HEX_PATTERN = /^[0-9a-f]{32}$/i;
+const BASE64_PATTERN = /^[A-Za-z0-9+/_-]{22}(==)?$/;
+
+/**
+ * Known passkey providers by AAGUID.
+ * Sourced from the community maintained passkey-authenticator-aaguids list.
+ * Names only; icons can be added through the `aaguidProviders` option.
+ */
+export const DEFAULT_AAGUID_PROVIDERS: Record<string, AuthenticatorProvider> =
+  {
+    "fbfc3007-154e-4ecc-8c0b-6e020557d7bd": { name: "iCloud Keychain" },
+    "dd4ec289-e01d-41c9-bb89-70fa845d4bf2": {
+      name: "iCloud Keychain (Managed)",
+    },
+    "ea9b8d66-4d01-1d21-3ce4-b6b48cb575d4": {
+      name: "Google Password Manager",
+    },
+    "adce0002-35bc-c60a-648b-0b25f1f05503": { name: "Chrome on Mac" },
+    "b5397666-4885-aa6b-cebf-e52262a439a2": { name: "Chromium Browser" },
+    "771b48fd-d3d4-4f74-9232-fc157ab0507a": { name: "Edge on Mac" },
+    "08987058-cadc-4b81-b6e1-30de50dcbe96": { name: "Windows Hello" },
+    "9ddd1817-af5a-4672-a2b9-3e3dd95000a9": { name: "Windows Hello" },
+    "6028b017-b1d4-4c02-b4b3-afcdafc96bb2": { name: "Windows Hello" },
+    "53414d53-554e-4700-0000-000000000000": { name: "Samsung Pass" },
+    "bada5566-a7aa-401f-bd96-45619a55120d": { name: "1Password" },
+    "d548826e-79b4-db40-a3d8-11116f7e8349": { name: "Bitwarden" },
+    "531126d6-e717-415c-9320-3d9aa6981239": { name: "Dashlane" },
+    "0ea242b4-43c4-4a1b-8b17-dd6d0b6baec6": { name: "Keeper" },
+    "b84e4048-15dc-4dd0-8640-f4f60813c8af": { name: "NordPass" },
+    "f3809540-7f14-49c1-a8b3-8f813b225541": { name: "Enpass" },
+    "50726f74-6f6e-5061-7373-50726f746f6e": { name: "Proton Pass" },
+    "fdb141b2-5d84-443e-8a35-4698c205a502": { name: "KeePassXC" },
+    "eaecdef2-1c31-5634-8639-f1cbd9c00a08": { name: "KeePassDX" },
+    "b35a26b2-8f6e-4697-ab1d-d44db4da28c6": { name: "Zoho Vault" },
+    "cb69481e-8ff7-4039-93ec-0a2729a154a8": { name: "YubiKey 5 Series" },
+    "ee882879-721c-4913-9775-3dfcce97072a": { name: "YubiKey 5 Series" },
+    "fa2b99dc-9e39-4257-8f92-4a30d23c4118": {
+      name: "YubiKey 5 Series with NFC",
+    },
+    "2fc0579f-8113-47ea-b116-bb5a8db9202a": {
+      name: "YubiKey 5 Series with NFC",
+    },
+    "c5ef55ff-ad9a-4b9f-b580-adebafe026d0": { name: "YubiKey 5Ci" },
+    "73bb0cd4-e502-49b8-9c6f-b59445bf720b": { name: "YubiKey 5 FIPS Series" },
+    "149a2021-8ef6-4133-96b8-81f8d5b7f1f5": {
+      name: "Security Key by Yubico with NFC",
+    },
+    "a4e9fc6d-4cbe-4758-b8ba-37598bb5bbaa": {
+      name: "Security Key NFC by Yubico",
+    },
+  };
+
+/**
+ * Formats 16 raw bytes as a lowercase UUID string
+ */
+const bytesToUuid = (bytes: Uint8Array): string => {
+  const hex = Buffer.from(bytes).toString("hex");
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join("-");
+};
+
+/**
+ * Normalizes an AAGUID to its canonical lowercase UUID form.
+ * Accepts UUID strings, bare hex, standard or URL-safe base64 and raw bytes,
+ * so rows stored by older versions resolve the same as new ones.
+ * Returns null when the value is missing or not a 16-byte identifier.
+ */
+export const normalizeAaguid = (
+  aaguid: string | Uint8Array | null | undefined,
+): string | null => {
+  if (!aaguid) {
+    return null;
+  }
+
+  if (aaguid instanceof Uint8Array) {
+    return aaguid.length === 16 ? bytesToUuid(aaguid) : null;
+  }
+
+  const value = aaguid.trim();
+
+  if (UUID_PATTERN.test(value)) {
+    return value.toLowerCase();
+  }
+
+  if (HEX_PATTERN.test(value)) {
+    return bytesToUuid(Buffer.from(value, "hex"));
+  }
+
+  if (BASE64_PATTERN.test(value)) {
+    const bytes = Buffer.from(value, "base64");
+    return bytes.length === 16 ? bytesToUuid(bytes) : null;
+  }
+
+  return null;
+};
+
+/**
+ * Creates a resolver from AAGUIDs to passkey providers.
+ * Overrides are merged over the bundled table; a null override hides an entry.
+ */
+export const createAaguidResolver = (
+  overrides: Record<string, AuthenticatorProvider | null> = {},
+) => {
+  const providers = new Map<string, AuthenticatorProvider>(
+    Object.entries(DEFAULT_AAGUID_PROVIDERS),
+  );
+
+  for (const [aaguid, provider] of Object.entries(overrides)) {
+    const key = normalizeAaguid(aaguid);
+    if (!key) {
+      continue;
+    }
+    if (provider) {
+      providers.set(key, provider);
+    } else {
+      providers.delete(key);
+    }
+  }
+
+  return (
+    aaguid: string | Uint8Array | null | undefined,
+  ): AuthenticatorProvider | null => {
+    const key = normalizeAaguid(aaguid);
+    return (key && providers.get(key)) || null;
+  };
+};
+
+/**
+ * Resolves an AAGUID to its passkey provider
+ */
+export type AaguidResolver = ReturnType<typeof createAaguidResolver>;
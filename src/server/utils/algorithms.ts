@@ -0,0 +1,56 @@
+/**
+ * @file Signature algorithm utility
+ * @description Maps supported signature algorithms to COSE identifiers and reads them from public keys
+ */
+
+import {
+  cose,
+  decodeCredentialPublicKey,
+} from "@simplewebauthn/server/helpers";
+
+import type { PasskeyAlgorithm } from "../../types/server";
+
+/**
+ * COSE algorithm identifiers of the algorithms the plugin can verify
+ */
+export const COSE_ALGORITHM_IDS: Record<PasskeyAlgorithm, number> = {
+  EdDSA: -8,
+  ES256: -7,
+  PS256: -37,
+  RS256: -257,
+};
+
+/**
+ * Algorithms offered to authenticators unless configured otherwise
+ */
+export const DEFAULT_ALGORITHMS: PasskeyAlgorithm[] = ["ES256", "RS256"];
+
+/**
+ * Resolves configured algorithms to COSE identifiers, keeping their order of preference
+ */
+export const resolveAlgorithmIds = (
+  algorithms: PasskeyAlgorithm[] = DEFAULT_ALGORITHMS,
+): number[] => algorithms.map((algorithm) => COSE_ALGORITHM_IDS[algorithm]);
+
+/**
+ * Reads the signature algorithm from a COSE encoded credential public key
+ * @returns The algorithm name, the COSE identifier for unknown algorithms,
+ * or null when the key cannot be decoded
+ */
+export const getPublicKeyAlgorithm = (publicKey: Uint8Array): string | null => {
+  try {
+    const algorithmId = decodeCredentialPublicKey(publicKey).get(
+      cose.COSEKEYS.alg,
+    );
+    if (algorithmId === undefined) {
+      return null;
+    }
+
+    const name = (
+      Object.keys(COSE_ALGORITHM_IDS) as PasskeyAlgorithm[]
+    ).find((algorithm) => COSE_ALGORITHM_IDS[algorithm] === algorithmId);
+    return name ?? String(algorithmId);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,276 @@
+/**
+ * @file Attestation policy utility
+ * @description Loads trust anchors and FIDO metadata and decides which authenticators may register
+ */
+
+import {
+  MetadataService,
+  SettingsService,
+  type MDSJWTHeader,
+  type MDSJWTPayload,
+  type MetadataBLOBPayloadEntry,
+} from "@simplewebauthn/server";
+import {
+  convertCertBufferToPEM,
+  isoBase64URL,
+  validateCertificatePath,
+} from "@simplewebauthn/server/helpers";
+import crypto from "crypto";
+import { promises as fs } from "fs";
+
+import type {
+  AttestationOptions,
+  AuthenticatorCertificationLevel,
+} from "../../types/server";
+import type { Logger } from "./logger";
+
+/**
+ * Certification levels in ascending order of assurance
+ */
+const CERTIFICATION_LEVELS: AuthenticatorCertificationLevel[] = [
+  "FIDO_CERTIFIED",
+  "FIDO_CERTIFIED_L1",
+  "FIDO_CERTIFIED_L1plus",
+  "FIDO_CERTIFIED_L2",
+  "FIDO_CERTIFIED_L2plus",
+  "FIDO_CERTIFIED_L3",
+  "FIDO_CERTIFIED_L3plus",
+];
+
+/**
+ * Status reports that mean an authenticator must never be trusted
+ */
+const COMPROMISED_STATUSES = new Set([
+  "USER_VERIFICATION_BYPASS",
+  "ATTESTATION_KEY_COMPROMISE",
+  "USER_KEY_REMOTE_COMPROMISE",
+  "USER_KEY_PHYSICAL_COMPROMISE",
+  "REVOKED",
+]);
+
+/**
+ * Outcome of evaluating an authenticator against the attestation policy
+ */
+export type AttestationDecision =
+  | { allowed: true }
+  | { allowed: false; reason: string };
+
+/**
+ * Attestation policy applied during passkey registration
+ */
+export interface AttestationPolicy {
+  /** Attestation conveyance the server requests from authenticators */
+  conveyance?: AttestationOptions["conveyance"];
+  /** Loads trust anchors and metadata. Safe to call repeatedly. */
+  load: () => Promise<void>;
+  /** Decides whether a verified authenticator may register */
+  evaluate: (aaguid: string, fmt: string) => Promise<AttestationDecision>;
+}
+
+/**
+ * Verifies a FIDO MDS3 BLOB signature and certificate chain, returning its payload
+ */
+export const parseMetadataBlob = async (
+  blob: string,
+  trustAnchorsPEM: string[],
+): Promise<MDSJWTPayload> => {
+  const [encodedHeader, encodedPayload, encodedSignature] = blob
+    .trim()
+    .split(".");
+  if (!encodedHeader || !encodedPayload || !encodedSignature) {
+    throw new Error("Metadata BLOB is not a valid JWT");
+  }
+
+  const header: MDSJWTHeader = JSON.parse(
+    isoBase64URL.toUTF8String(encodedHeader),
+  );
+  if (!header.x5c?.length) {
+    throw new Error("Metadata BLOB header is missing its x5c certificate chain");
+  }
+
+  // The signing certificate must chain back to a trusted MDS root
+  const chainPEM = header.x5c.map((cert) => convertCertBufferToPEM(cert));
+  await validateCertificatePath(chainPEM, trustAnchorsPEM);
+
+  const signedData = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+  const signature = Buffer.from(isoBase64URL.toBuffer(encodedSignature));
+  const leafKey = crypto.createPublicKey(chainPEM[0]);
+
+  let signatureValid: boolean;
+  if (header.alg === "ES256") {
+    signatureValid = crypto.verify(
+      "sha256",
+      signedData,
+      { key: leafKey, dsaEncoding: "ieee-p1363" },
+      signature,
+    );
+  } else if (header.alg === "RS256") {
+    signatureValid = crypto.verify("sha256", signedData, leafKey, signature);
+  } else {
+    throw new Error(`Unsupported metadata BLOB algorithm: ${header.alg}`);
+  }
+
+  if (!signatureValid) {
+    throw new Error("Metadata BLOB signature is invalid");
+  }
+
+  return JSON.parse(isoBase64URL.toUTF8String(encodedPayload));
+};
+
+/**
+ * Returns the highest certification level an MDS entry has been granted
+ */
+export const getCertificationLevel = (
+  entry: MetadataBLOBPayloadEntry,
+): AuthenticatorCertificationLevel | null => {
+  let highest = -1;
+  for (const report of entry.statusReports) {
+    const index = CERTIFICATION_LEVELS.indexOf(
+      report.status as AuthenticatorCertificationLevel,
+    );
+    highest = Math.max(highest, index);
+  }
+  return highest >= 0 ? CERTIFICATION_LEVELS[highest] : null;
+};
+
+/**
+ * Creates the attestation policy from plugin options
+ */
+export const createAttestationPolicy = (
+  options: AttestationOptions,
+  logger: Logger,
+): AttestationPolicy => {
+  const allowed = new Set(
+    (options.allowedAAGUIDs ?? []).map((aaguid) => aaguid.toLowerCase()),
+  );
+  const blocked = new Set(
+    (options.blockedAAGUIDs ?? []).map((aaguid) => aaguid.toLowerCase()),
+  );
+  const entries = new Map<string, MetadataBLOBPayloadEntry>();
+  let loading: Promise<void> | null = null;
+
+  const loadMetadata = async () => {
+    // Register trust anchors for attestation chain verification
+    for (const [identifier, certificates] of Object.entries(
+      options.rootCertificates ?? {},
+    )) {
+      if (certificates?.length) {
+        SettingsService.setRootCertificates({
+          identifier: identifier as Parameters<
+            typeof SettingsService.setRootCertificates
+          >[0]["identifier"],
+          certificates,
+        });
+      }
+    }
+
+    const blob =
+      options.mdsBlob ??
+      (options.mdsBlobPath
+        ? await fs.readFile(options.mdsBlobPath, "utf8")
+        : undefined);
+
+    if (!blob) {
+      return;
+    }
+
+    const payload = await parseMetadataBlob(
+      blob,
+      SettingsService.getRootCertificates({ identifier: "mds" }),
+    );
+
+    if (new Date(payload.nextUpdate) < new Date()) {
+      logger.warn("Metadata BLOB is past its nextUpdate date", {
+        no: payload.no,
+        nextUpdate: payload.nextUpdate,
+      });
+    }
+
+    for (const entry of payload.entries) {
+      if (entry.aaguid) {
+        entries.set(entry.aaguid.toLowerCase(), entry);
+      }
+    }
+
+    // Hand statements to SimpleWebAuthn so attestation statements are
+    // verified against each authenticator's own attestation roots
+    await MetadataService.initialize({
+      mdsServers: [],
+      statements: payload.entries
+        .map((entry) => entry.metadataStatement)
+        .filter((statement) => statement !== undefined),
+      verificationMode: "permissive",
+    });
+
+    logger.info("Loaded FIDO metadata BLOB", {
+      no: payload.no,
+      entries: entries.size,
+    });
+  };
+
+  const load = () => {
+    if (!loading) {
+      loading = loadMetadata().catch((error) => {
+        // Allow a later registration to retry loading
+        loading = null;
+        throw error;
+      });
+    }
+    return loading;
+  };
+
+  const evaluate = async (
+    aaguid: string,
+    fmt: string,
+  ): Promise<AttestationDecision> => {
+    await load();
+
+    const normalizedAaguid = aaguid.toLowerCase();
+
+    if (options.requireAttestation && fmt === "none") {
+      return { allowed: false, reason: "attestation statement required" };
+    }
+
+    if (blocked.has(normalizedAaguid)) {
+      return { allowed: false, reason: "AAGUID is blocked" };
+    }
+
+    if (allowed.size > 0 && !allowed.has(normalizedAaguid)) {
+      return { allowed: false, reason: "AAGUID is not in the allow list" };
+    }
+
+    const entry = entries.get(normalizedAaguid);
+
+    const compromised = entry?.statusReports.find((report) =>
+      COMPROMISED_STATUSES.has(report.status),
+    );
+    if (compromised) {
+      return {
+        allowed: false,
+        reason: `authenticator status is ${compromised.status}`,
+      };
+    }
+
+    if (options.minimumCertificationLevel) {
+      const level = entry ? getCertificationLevel(entry) : null;
+      if (
+        !level ||
+        CERTIFICATION_LEVELS.indexOf(level) <
+          CERTIFICATION_LEVELS.indexOf(options.minimumCertificationLevel)
+      ) {
+        return {
+          allowed: false,
+          reason: `certification level ${level ?? "unknown"} is below ${options.minimumCertificationLevel}`,
+        };
+      }
+    }
+
+    return { allowed: true };
+  };
+
+  return {
+    conveyance: options.conveyance,
+    load,
+    evaluate,
+  };
+};
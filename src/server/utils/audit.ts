@@ -0,0 +1,105 @@
+/**
+ * @file Audit log utility
+ * @description Records passkey events in the passkeyEvent model and enforces their retention
+ */
+
+import type { AuthContext } from "better-auth/types";
+import crypto from "crypto";
+
+import type {
+  AuditLogOptions,
+  PasskeyEventType,
+  PasskeyRequestMetadata,
+} from "../../types/server";
+import type { Logger } from "./logger";
+
+/**
+ * Event to record, as passed by endpoints and jobs
+ */
+export interface PasskeyEventInput {
+  type: PasskeyEventType;
+  userId: string;
+  credentialId?: string | null;
+  platform?: string | null;
+  /** Null for events recorded by background jobs */
+  request?: PasskeyRequestMetadata | null;
+  /** Event specific details, stored as JSON */
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Records passkey events for later review
+ */
+export interface AuditLog {
+  /** Model the events are stored in */
+  model: string;
+
+  /**
+   * Stores an event. Failures are logged and never thrown so that an audit
+   * problem cannot break a ceremony.
+   */
+  record(
+    ctx: Pick<AuthContext, "adapter" | "generateId">,
+    event: PasskeyEventInput,
+  ): Promise<void>;
+
+  /**
+   * Deletes events older than the retention period
+   * @returns Number of events deleted
+   */
+  prune(adapter: AuthContext["adapter"]): Promise<number>;
+}
+
+/**
+ * Creates the audit log for the plugin's passkeyEvent model
+ */
+export const createAuditLog = (
+  options: AuditLogOptions & { model: string },
+  logger: Logger,
+): AuditLog => {
+  const { model, retentionDays = 90 } = options;
+
+  const record: AuditLog["record"] = async (ctx, event) => {
+    try {
+      await ctx.adapter.create({
+        model,
+        data: {
+          // generateId returns false when the database assigns IDs
+          id: ctx.generateId({ model, size: 32 }) || crypto.randomUUID(),
+          userId: event.userId,
+          credentialId: event.credentialId ?? null,
+          type: event.type,
+          ipAddress: event.request?.ipAddress ?? null,
+          userAgent: event.request?.userAgent ?? null,
+          platform: event.platform ?? null,
+          metadata: event.details ? JSON.stringify(event.details) : null,
+          createdAt: new Date().toISOString(),
+        },
+        forceAllowId: true,
+      });
+    } catch (error) {
+      logger.error("Failed to record passkey event:", {
+        type: event.type,
+        error,
+      });
+    }
+  };
+
+  const prune: AuditLog["prune"] = async (adapter) => {
+    if (retentionDays <= 0) {
+      return 0;
+    }
+
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - retentionDays);
+
+    return adapter.deleteMany({
+      model,
+      where: [
+        { field: "createdAt", operator: "lt", value: cutoff.toISOString() },
+      ],
+    });
+  };
+
+  return { model, record, prune };
+};
@@ -0,0 +1,137 @@
+/**
+ * @file Authenticator selection policy utility
+ * @description Enforces the server's user verification, attachment and resident key policy
+ */
+
+import type {
+  AuthenticatorSelectionPolicy,
+  PasskeyRequirement,
+} from "../../types/server";
+import type { RegistrationOptions } from "./schema";
+
+const REQUIREMENT_RANK: Record<PasskeyRequirement, number> = {
+  discouraged: 0,
+  preferred: 1,
+  required: 2,
+};
+
+/**
+ * Authenticator selection the server asks for unless its policy says otherwise
+ */
+const DEFAULT_AUTHENTICATOR_SELECTION = {
+  authenticatorAttachment: "platform",
+  residentKey: "required",
+  userVerification: "required",
+} as const;
+
+/**
+ * Registration options after the policy was applied
+ */
+export interface EnforcedRegistrationOptions {
+  registrationOptions: RegistrationOptions;
+  /** Options the client requested that are weaker than the policy allows */
+  violations: Array<"userVerification" | "authenticatorAttachment" | "residentKey">;
+}
+
+/**
+ * Raises the client's authenticator selection to the policy's minimums.
+ * Values the client left out are filled in without counting as violations.
+ */
+export const enforceAuthenticatorSelection = (
+  registrationOptions: RegistrationOptions,
+  policy: AuthenticatorSelectionPolicy = {},
+): EnforcedRegistrationOptions => {
+  const selection = { ...registrationOptions.authenticatorSelection };
+  const violations: EnforcedRegistrationOptions["violations"] = [];
+
+  // WebAuthn treats a missing userVerification as "preferred"
+  const minimumUserVerification = policy.userVerification?.registration;
+  if (
+    minimumUserVerification &&
+    REQUIREMENT_RANK[selection.userVerification ?? "preferred"] <
+      REQUIREMENT_RANK[minimumUserVerification]
+  ) {
+    if (selection.userVerification) {
+      violations.push("userVerification");
+    }
+    selection.userVerification = minimumUserVerification;
+  }
+
+  const { allowedAttachments } = policy;
+  if (allowedAttachments?.length) {
+    const requested = selection.authenticatorAttachment;
+    if (requested && !allowedAttachments.includes(requested)) {
+      violations.push("authenticatorAttachment");
+      delete selection.authenticatorAttachment;
+    }
+    if (!selection.authenticatorAttachment && allowedAttachments.length === 1) {
+      selection.authenticatorAttachment = allowedAttachments[0];
+    }
+  }
+
+  // A missing residentKey falls back to requireResidentKey, then "discouraged"
+  const minimumResidentKey = policy.residentKey;
+  const requestedResidentKey =
+    selection.residentKey ??
+    (selection.requireResidentKey ? "required" : undefined);
+  if (
+    minimumResidentKey &&
+    REQUIREMENT_RANK[requestedResidentKey ?? "discouraged"] <
+      REQUIREMENT_RANK[minimumResidentKey]
+  ) {
+    if (
+      requestedResidentKey ||
+      selection.requireResidentKey !== undefined
+    ) {
+      violations.push("residentKey");
+    }
+    selection.residentKey = minimumResidentKey;
+    selection.requireResidentKey = minimumResidentKey === "required";
+  }
+
+  return {
+    registrationOptions: {
+      ...registrationOptions,
+      authenticatorSelection: selection,
+    },
+    violations,
+  };
+};
+
+/**
+ * Applies the server's registration defaults to the options a client asked for.
+ * The defaults act as minimums the configured policy can relax, so a client
+ * can only ask for something stricter. Attestation is always the server's.
+ */
+export const applyRegistrationPolicy = (
+  registrationOptions: RegistrationOptions,
+  policy: AuthenticatorSelectionPolicy = {},
+  attestation: RegistrationOptions["attestation"] = "none",
+): EnforcedRegistrationOptions =>
+  enforceAuthenticatorSelection(
+    { ...registrationOptions, attestation },
+    {
+      ...policy,
+      userVerification: {
+        ...policy.userVerification,
+        registration:
+          policy.userVerification?.registration ??
+          DEFAULT_AUTHENTICATOR_SELECTION.userVerification,
+      },
+      residentKey:
+        policy.residentKey ?? DEFAULT_AUTHENTICATOR_SELECTION.residentKey,
+      allowedAttachments: policy.allowedAttachments?.length
+        ? policy.allowedAttachments
+        : [DEFAULT_AUTHENTICATOR_SELECTION.authenticatorAttachment],
+    },
+  );
+
+/**
+ * Whether user verification must be enforced when verifying a ceremony
+ */
+export const isUserVerificationRequired = (
+  policy: AuthenticatorSelectionPolicy | undefined,
+  ceremony: "registration" | "authentication",
+): boolean =>
+  (policy?.userVerification?.[ceremony] ??
+    (ceremony === "authentication" ? "required" : undefined)) === "required";
@@ -0,0 +1,240 @@
+/**
+ * @file Challenge store utility
+ * @description Database, in-memory and secondary storage implementations of the challenge store
+ */
+
+import type {
+  AtomicSecondaryStorage,
+  ChallengeOptions,
+  ChallengeStore,
+  ChallengeStoreContext,
+  PasskeyChallenge,
+} from "../../types/server";
+
+/**
+ * Stores that expire entries themselves keep them this many seconds past
+ * `expiresAt`, so a late response is reported as expired rather than unknown
+ */
+const EXPIRY_GRACE_SECONDS = 60;
+
+/** Key prefix of challenges kept in secondary storage */
+const SECONDARY_STORAGE_PREFIX = "expo-passkey:challenge:";
+
+/**
+ * Seconds until a challenge can be evicted
+ */
+const getRetentionSeconds = (challenge: PasskeyChallenge): number =>
+  Math.max(
+    1,
+    Math.ceil((new Date(challenge.expiresAt).getTime() - Date.now()) / 1000),
+  ) + EXPIRY_GRACE_SECONDS;
+
+/**
+ * Keeps challenges in the passkeyChallenge model
+ */
+export const createDatabaseChallengeStore = (model: string): ChallengeStore => {
+  const findOne = (
+    ctx: ChallengeStoreContext,
+    field: "id" | "challenge",
+    value: string,
+    type: PasskeyChallenge["type"],
+  ) =>
+    ctx.adapter.findOne<PasskeyChallenge>({
+      model,
+      where: [
+        { field, operator: "eq", value },
+        { field: "type", operator: "eq", value: type },
+      ],
+    });
+
+  return {
+    async save(ctx, challenge) {
+      await ctx.adapter.create({
+        model,
+        data: {
+          ...challenge,
+          registrationOptions: challenge.registrationOptions ?? null,
+        },
+        forceAllowId: true,
+      });
+    },
+
+    findById: (ctx, id, type) => findOne(ctx, "id", id, type),
+
+    findByChallenge: (ctx, challenge, type) =>
+      findOne(ctx, "challenge", challenge, type),
+
+    // The database reports how many rows each delete removed, so only one
+    // of several concurrent requests sees the row go away
+    consume: async (ctx, id) =>
+      (await ctx.adapter.deleteMany({
+        model,
+        where: [{ field: "id", operator: "eq", value: id }],
+      })) > 0,
+
+    deleteExpired: (ctx) =>
+      ctx.adapter.deleteMany({
+        model,
+        where: [
+          { field: "expiresAt", operator: "lt", value: new Date().toISOString() },
+        ],
+      }),
+  };
+};
+
+/**
+ * Keeps challenges in the memory of this process. Challenges are not shared
+ * between instances, so this store suits tests and single-instance deployments.
+ */
+export const createMemoryChallengeStore = (): ChallengeStore => {
+  const challenges = new Map<
+    string,
+    { challenge: PasskeyChallenge; evictAt: number }
+  >();
+  const idsByChallenge = new Map<string, string>();
+
+  const remove = (id: string): boolean => {
+    const entry = challenges.get(id);
+    if (entry) {
+      idsByChallenge.delete(entry.challenge.challenge);
+    }
+    return challenges.delete(id);
+  };
+
+  const findById: ChallengeStore["findById"] = async (_ctx, id, type) => {
+    const entry = challenges.get(id);
+    if (!entry || entry.evictAt <= Date.now()) {
+      remove(id);
+      return null;
+    }
+    return entry.challenge.type === type ? { ...entry.challenge } : null;
+  };
+
+  return {
+    async save(_ctx, challenge) {
+      // Evict on write so the store needs no timer
+      const now = Date.now();
+      for (const [id, entry] of challenges) {
+        if (entry.evictAt <= now) {
+          remove(id);
+        }
+      }
+
+      challenges.set(challenge.id, {
+        challenge: { ...challenge },
+        evictAt: now + getRetentionSeconds(challenge) * 1000,
+      });
+      idsByChallenge.set(challenge.challenge, challenge.id);
+    },
+
+    findById,
+
+    async findByChallenge(ctx, challenge, type) {
+      const id = idsByChallenge.get(challenge);
+      return id ? findById(ctx, id, type) : null;
+    },
+
+    // Runs without awaiting, so no other request can interleave
+    consume: async (_ctx, id) => remove(id),
+  };
+};
+
+/**
+ * Keeps challenges in Better Auth's `secondaryStorage`, which expires them
+ * through the TTL of each key.
+ *
+ * The storage must implement `getAndDelete` so that a challenge is consumed
+ * by one request only, even when several server instances share it.
+ */
+export const createSecondaryStorageChallengeStore = (): ChallengeStore => {
+  const getStorage = (ctx: ChallengeStoreContext): AtomicSecondaryStorage => {
+    if (!ctx.secondaryStorage) {
+      throw new Error(
+        'challenge.store is "secondary-storage" but Better Auth has no secondaryStorage configured',
+      );
+    }
+    if (!("getAndDelete" in ctx.secondaryStorage)) {
+      throw new Error(
+        'challenge.store is "secondary-storage" but Better Auth\'s secondaryStorage has no getAndDelete method',
+      );
+    }
+    return ctx.secondaryStorage as AtomicSecondaryStorage;
+  };
+
+  const idKey = (id: string) => `${SECONDARY_STORAGE_PREFIX}id:${id}`;
+  const valueKey = (challenge: string) =>
+    `${SECONDARY_STORAGE_PREFIX}value:${challenge}`;
+
+  const read = async (
+    ctx: ChallengeStoreContext,
+    id: string,
+  ): Promise<PasskeyChallenge | null> => {
+    const stored = await getStorage(ctx).get(idKey(id));
+    if (!stored) {
+      return null;
+    }
+    try {
+      return JSON.parse(stored) as PasskeyChallenge;
+    } catch {
+      return null;
+    }
+  };
+
+  const findById: ChallengeStore["findById"] = async (ctx, id, type) => {
+    const challenge = await read(ctx, id);
+    return challenge?.type === type ? challenge : null;
+  };
+
+  return {
+    async save(ctx, challenge) {
+      const storage = getStorage(ctx);
+      const ttl = getRetentionSeconds(challenge);
+      await storage.set(idKey(challenge.id), JSON.stringify(challenge), ttl);
+      await storage.set(valueKey(challenge.challenge), challenge.id, ttl);
+    },
+
+    findById,
+
+    async findByChallenge(ctx, challenge, type) {
+      const id = await getStorage(ctx).get(valueKey(challenge));
+      return id ? findById(ctx, id, type) : null;
+    },
+
+    async consume(ctx, id) {
+      // Only one caller receives the challenge, even across instances
+      const storage = getStorage(ctx);
+      const stored = await storage.getAndDelete(idKey(id));
+      if (!stored) {
+        return false;
+      }
+      try {
+        const { challenge } = JSON.parse(stored) as PasskeyChallenge;
+        await storage.delete(valueKey(challenge));
+      } catch {
+        // The value key expires on its own
+      }
+      return true;
+    },
+  };
+};
+
+/**
+ * Creates the challenge store selected by the `challenge.store` option
+ * @param store The configured store, defaults to the database
+ * @param model Model name of the passkeyChallenge model
+ */
+export const createChallengeStore = (
+  store: ChallengeOptions["store"] = "database",
+  model: string,
+): ChallengeStore => {
+  switch (store) {
+    case "database":
+      return createDatabaseChallengeStore(model);
+    case "memory":
+      return createMemoryChallengeStore();
+    case "secondary-storage":
+      return createSecondaryStorageChallengeStore();
+    default:
+      return store;
+  }
+};
@@ -0,0 +1,114 @@
+/**
+ * @file Challenge lookup utility
+ * @description Resolves the stored challenge a WebAuthn ceremony response answers
+ */
+
+import type {
+  ChallengeOptions,
+  ChallengeStore,
+  ChallengeStoreContext,
+  PasskeyChallenge,
+} from "../../types";
+
+/** Seconds a challenge stays valid unless configured otherwise */
+const DEFAULT_CHALLENGE_TTL = 5 * 60;
+
+/** Random bytes per challenge unless configured otherwise */
+const DEFAULT_CHALLENGE_BYTE_LENGTH = 32;
+
+/** WebAuthn timeout in milliseconds when the client does not ask for one */
+const DEFAULT_CEREMONY_TIMEOUT = 60000;
+
+/**
+ * Seconds a challenge of the given ceremony stays valid
+ */
+export const getChallengeTtl = (
+  options: ChallengeOptions | undefined,
+  type: "registration" | "authentication",
+): number => options?.ttl?.[type] ?? DEFAULT_CHALLENGE_TTL;
+
+/**
+ * Number of random bytes in a challenge
+ */
+export const getChallengeByteLength = (
+  options: ChallengeOptions | undefined,
+): number => options?.byteLength ?? DEFAULT_CHALLENGE_BYTE_LENGTH;
+
+/**
+ * WebAuthn timeout in milliseconds for a ceremony. The requested timeout is
+ * capped so the platform never waits on a challenge that already expired.
+ */
+export const getCeremonyTimeout = (
+  options: ChallengeOptions | undefined,
+  type: "registration" | "authentication",
+  requestedTimeout?: number,
+): number =>
+  Math.min(
+    requestedTimeout || DEFAULT_CEREMONY_TIMEOUT,
+    getChallengeTtl(options, type) * 1000,
+  );
+
+/**
+ * Extracts the challenge the authenticator signed from base64url clientDataJSON.
+ * Returns null when the client data cannot be decoded.
+ */
+export const getClientDataChallenge = (
+  clientDataJSON: string,
+): string | null => {
+  try {
+    const clientData = JSON.parse(
+      Buffer.from(clientDataJSON, "base64url").toString("utf8"),
+    );
+    return typeof clientData?.challenge === "string"
+      ? clientData.challenge
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Finds the challenge a ceremony response was issued for and consumes it.
+ *
+ * The challenge is addressed by the ID echoed back by the client, or by the
+ * challenge signed into clientDataJSON when no ID is sent. Either way the
+ * signed challenge must match, so concurrent ceremonies for the same user
+ * (or for discoverable login) never resolve to each other's challenge.
+ *
+ * The challenge is consumed before the response is verified, so a failed
+ * attempt cannot be retried with it and only one of several concurrent
+ * submissions gets it. The others resolve to null.
+ */
+export const consumeCeremonyChallenge = async (
+  store: ChallengeStore,
+  ctx: ChallengeStoreContext,
+  options: {
+    type: "registration" | "authentication";
+    clientDataJSON: string;
+    challengeId?: string;
+  },
+): Promise<PasskeyChallenge | null> => {
+  const { type, clientDataJSON, challengeId } = options;
+  const signedChallenge = getClientDataChallenge(clientDataJSON);
+
+  const storedChallenge = challengeId
+    ? await store.findById(ctx, challengeId, type)
+    : signedChallenge
+      ? await store.findByChallenge(ctx, signedChallenge, type)
+      : null;
+
+  if (!storedChallenge) {
+    return null;
+  }
+
+  // A challenge ID must not be paired with a response to a different challenge
+  if (signedChallenge && storedChallenge.challenge !== signedChallenge) {
+    return null;
+  }
+
+  if (!(await store.consume(ctx, storedChallenge.id))) {
+    return null;
+  }
+
+  return storedChallenge;
+};
@@ -3,9 +3,16 @@
  * @description Handles cleanup of inactive passkeys
  */
 
-import type { AuthContext } from "better-auth/types";
-import type { ResolvedSchemaConfig } from "../../types";
+import type { AuthContext, Where } from "better-auth/types";
+import type {
+  AuthPasskey,
+  ExpoPasskeyHooks,
+  ResolvedSchemaConfig,
+} from "../../types";
+import type { AuditLog } from "./audit";
+import { runAfterHook } from "./hooks";
 import type { Logger } from "./logger";
+import { revokePasskeySessions } from "./sessions";
 
 export interface CleanupOptions {
   /**
@@ -21,6 +28,20 @@ export interface CleanupOptions {
   disableInterval?: boolean;
 }
 
+/**
+ * What happens to a passkey after the cleanup job revokes it
+ */
+export interface CleanupRevocationOptions {
+  /** End the sessions created with the revoked passkeys */
+  revokeSessions?: boolean;
+
+  /** Called for each revoked passkey */
+  onRevoke?: ExpoPasskeyHooks["onRevoke"];
+
+  /** Records a cleanup event for each revoked passkey */
+  auditLog?: AuditLog;
+}
+
 /**
  * Initializes the cleanup job for inactive passkeys
  */
@@ -29,7 +50,10 @@ export const setupCleanupJob = (
   options: CleanupOptions = {},
   logger: Logger,
   schemaConfig: ResolvedSchemaConfig,
+  revocation: CleanupRevocationOptions = {},
 ) => {
+  const { revokeSessions = false, onRevoke, auditLog } = revocation;
+
   const inactiveDays = options.inactiveDays ?? 30;
   const disableInterval = options.disableInterval ?? false;
 
@@ -48,28 +72,115 @@ export const setupCleanupJob = (
     const inactiveCutoff = new Date();
     inactiveCutoff.setDate(inactiveCutoff.getDate() - inactiveDays);
 
+    const where: Where[] = [
+      {
+        field: "lastUsed",
+        operator: "lt",
+        value: inactiveCutoff.toISOString(),
+      },
+      { field: "status", operator: "eq", value: "active" },
+    ];
+
     try {
-      const result = await ctx.adapter.updateMany({
-        model: schemaConfig.authPasskeyModel,
-        where: [
-          {
-            field: "lastUsed",
-            operator: "lt",
-            value: inactiveCutoff.toISOString(),
-          },
-          { field: "status", operator: "eq", value: "active" },
-        ],
-        update: {
-          status: "revoked",
-          revokedAt: new Date().toISOString(),
-          revokedReason: "automatic_inactive",
-          updatedAt: new Date().toISOString(),
-        },
-      });
+      // Look up the affected credentials first so their sessions can be
+      // ended, the onRevoke hook receives each of them and events are recorded
+      const hasFollowUp = !!(revokeSessions || onRevoke || auditLog);
+      const staleCredentials = hasFollowUp
+        ? await ctx.adapter.findMany<AuthPasskey>({
+            model: schemaConfig.authPasskeyModel,
+            where,
+          })
+        : [];
+      const staleIds = staleCredentials.map((credential) => credential.id);
+
+      const now = new Date().toISOString();
+      const update = {
+        status: "revoked" as const,
+        revokedAt: now,
+        revokedReason: "automatic_inactive",
+        updatedAt: now,
+      };
+
+      // With follow-up work only the credentials looked up are revoked, and
+      // only while still active, so nothing is reported that was not revoked
+      let result = 0;
+      if (!hasFollowUp) {
+        result = await ctx.adapter.updateMany({
+          model: schemaConfig.authPasskeyModel,
+          where,
+          update,
+        });
+      } else if (staleIds.length > 0) {
+        result = await ctx.adapter.updateMany({
+          model: schemaConfig.authPasskeyModel,
+          where: [
+            { field: "id", operator: "in", value: staleIds },
+            { field: "status", operator: "eq", value: "active" },
+          ],
+          update,
+        });
+      }
 
       if (process.env.NODE_ENV !== "production") {
         logger.info(`Cleaned up ${result} inactive passkeys`);
       }
+
+      // A passkey revoked or deleted in the meantime was not updated by this
+      // run; tell them apart by the revocation this run wrote
+      const revokedCredentials =
+        result < staleCredentials.length
+          ? (
+              await ctx.adapter.findMany<AuthPasskey>({
+                model: schemaConfig.authPasskeyModel,
+                where: [{ field: "id", operator: "in", value: staleIds }],
+              })
+            ).filter(
+              (credential) =>
+                credential.status === "revoked" &&
+                credential.revokedAt === update.revokedAt &&
+                credential.revokedReason === update.revokedReason,
+            )
+          : staleCredentials;
+
+      for (const credential of revokedCredentials) {
+        await auditLog?.record(ctx, {
+          type: "cleanup_revoked",
+          userId: credential.userId,
+          credentialId: credential.credentialId,
+          platform: credential.platform,
+          details: { reason: update.revokedReason, inactiveDays },
+        });
+
+        await runAfterHook(logger, "onRevoke", onRevoke, {
+          userId: credential.userId,
+          passkey: { ...credential, ...update },
+          reason: update.revokedReason,
+          trigger: "cleanup",
+          request: null,
+        });
+      }
+
+      if (revokeSessions && revokedCredentials.length > 0) {
+        const credentialIdsByUser = new Map<string, string[]>();
+        for (const credential of revokedCredentials) {
+          const credentialIds = credentialIdsByUser.get(credential.userId) ?? [];
+          credentialIds.push(credential.credentialId);
+          credentialIdsByUser.set(credential.userId, credentialIds);
+        }
+
+        let sessionsRevoked = 0;
+        for (const [userId, credentialIds] of credentialIdsByUser) {
+          sessionsRevoked += await revokePasskeySessions(
+            ctx.internalAdapter,
+            userId,
+            credentialIds,
+          );
+        }
+
+        logger.info(
+          `Ended ${sessionsRevoked} sessions of inactive passkeys`,
+        );
+      }
     } catch (error) {
       logger.error("Cleanup job failed:", error);
     }
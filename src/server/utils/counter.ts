@@ -0,0 +1,36 @@
+/**
+ * @file Signature counter utility
+ * @description Reads and compares authenticator signature counters
+ */
+
+/**
+ * Offset of the 4-byte big-endian signature counter in authenticator data,
+ * after the 32-byte RP ID hash and the flags byte
+ */
+const COUNTER_OFFSET = 33;
+
+/**
+ * Reads the signature counter from base64url encoded authenticator data
+ * @returns The counter, or null when the data is too short to contain one
+ */
+export const getAuthenticatorCounter = (
+  authenticatorData: string,
+): number | null => {
+  const bytes = Buffer.from(authenticatorData, "base64url");
+  if (bytes.length < COUNTER_OFFSET + 4) {
+    return null;
+  }
+  return bytes.readUInt32BE(COUNTER_OFFSET);
+};
+
+/**
+ * Whether the counter did not increase since the last authentication.
+ * Authenticators without a counter (e.g. synced passkeys) always report 0,
+ * which is not a regression.
+ */
+export const isCounterRegression = (
+  storedCounter: number,
+  receivedCounter: number,
+): boolean =>
+  (receivedCounter > 0 || storedCounter > 0) &&
+  receivedCounter <= storedCounter;
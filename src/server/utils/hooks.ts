@@ -0,0 +1,44 @@
+/**
+ * @file Lifecycle hook utilities
+ * @description Helpers for invoking the plugin's lifecycle hooks from endpoints and jobs
+ */
+
+import type { PasskeyRequestMetadata } from "../../types/server";
+import type { Logger } from "./logger";
+
+/**
+ * Extracts the client IP address and user agent of a request
+ */
+export const getRequestMetadata = (ctx: {
+  request?: Request;
+  headers?: Headers;
+}): PasskeyRequestMetadata => {
+  const headers = ctx.request?.headers ?? ctx.headers;
+
+  return {
+    ipAddress:
+      headers?.get("x-forwarded-for") || headers?.get("x-real-ip") || null,
+    userAgent: headers?.get("user-agent") || null,
+  };
+};
+
+/**
+ * Runs a hook that observes a completed operation. Failures are logged
+ * instead of thrown because the operation can no longer be undone.
+ */
+export const runAfterHook = async <TEvent>(
+  logger: Logger,
+  name: string,
+  hook: ((event: TEvent) => void | Promise<void>) | undefined,
+  event: TEvent,
+): Promise<void> => {
+  if (!hook) {
+    return;
+  }
+
+  try {
+    await hook(event);
+  } catch (error) {
+    logger.error(`Passkey ${name} hook failed:`, error);
+  }
+};
@@ -3,7 +3,17 @@
  * @description Exports all utility functions for the server implementation
  */
 
+export * from "./aaguid";
+export * from "./algorithms";
+export * from "./attestation";
+export * from "./audit";
+export * from "./authenticator-selection";
+export * from "./challenge";
+export * from "./challenge-store";
 export * from "./cleanup";
+export * from "./counter";
+export * from "./hooks";
 export * from "./logger";
 export * from "./rate-limit";
 export * from "./schema";
+export * from "./sessions";
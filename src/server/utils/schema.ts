@@ -5,6 +5,8 @@
 
 import { z } from "zod";
 
+import { passkeyEventSchema } from "../../types/server";
+
 /**
  * Schema for authenticator selection criteria
  */
@@ -37,6 +39,7 @@ export const challengeSchema = z.object({
   type: z.enum(["registration", "authentication"]),
   userId: z.string().optional(), // Only used for authentication challenges
   registrationOptions: registrationOptionsSchema.optional(),
+  timeout: z.number().positive().optional(), // Requested WebAuthn timeout in milliseconds
 });
 
 /**
@@ -60,6 +63,7 @@ export const registerPasskeySchema = z.object({
       .optional(),
   }),
   platform: z.string(),
+  challengeId: z.string().optional(),
   metadata: z
     .object({
       deviceName: z.string().optional(),
@@ -88,6 +92,7 @@ export const authenticatePasskeySchema = z.object({
     type: z.literal("public-key"),
     clientExtensionResults: z.object({}).optional(),
   }),
+  challengeId: z.string().optional(),
   metadata: z
     .object({
       lastLocation: z.string().optional(),
@@ -107,6 +112,16 @@ export const listPasskeysQuerySchema = z.object({
   offset: z.string().optional(),
 });
 
+/**
+ * Schema for list passkey events query parameters
+ */
+export const listPasskeyEventsQuerySchema = z.object({
+  limit: z.string().optional(),
+  offset: z.string().optional(),
+  credentialId: z.string().optional(),
+  type: passkeyEventSchema.shape.type.optional(),
+});
+
 /**
  * Schema for list passkeys URL parameters
  */
@@ -126,3 +141,48 @@ export const revokePasskeySchema = z.object({
   credentialId: z.string(),
   reason: z.string().optional(),
 });
+
+/**
+ * Schema for bulk passkey revocation requests
+ * Note: userId is obtained from the authenticated session for security.
+ * Filters are combined; at least one of credentialIds, platform or
+ * exceptCredentialId must be provided.
+ */
+export const revokePasskeysSchema = z
+  .object({
+    credentialIds: z.array(z.string()).min(1).optional(),
+    platform: z.string().optional(),
+    exceptCredentialId: z.string().optional(),
+    reason: z.string().optional(),
+    // Ends sessions even when the plugin's revokeSessionsOnRevoke is off
+    revokeSessions: z.boolean().optional(),
+  })
+  .refine(
+    (data) => !!data.credentialIds || !!data.platform || !!data.exceptCredentialId,
+    {
+      message: "credentialIds, platform or exceptCredentialId is required",
+    },
+  );
+
+/**
+ * Schema for passkey deletion requests
+ * Note: userId is obtained from the authenticated session for security.
+ * Either a credential ID or purgeRevoked must be provided.
+ */
+export const deletePasskeySchema = z
+  .object({
+    credentialId: z.string().optional(),
+    purgeRevoked: z.boolean().optional(),
+  })
+  .refine((data) => !!data.credentialId || !!data.purgeRevoked, {
+    message: "credentialId or purgeRevoked is required",
+  });
+
+/**
+ * Schema for passkey update requests
+ * Note: userId is obtained from the authenticated session for security.
+ */
+export const updatePasskeySchema = z.object({
+  credentialId: z.string(),
+  name: z.string().trim().min(1).max(64),
+});
@@ -0,0 +1,47 @@
+/**
+ * @file Passkey session utility
+ * @description Ends the sessions that were created by authenticating with specific passkeys
+ */
+
+import type { AuthContext, Session } from "better-auth/types";
+
+/**
+ * Session field recording the credential that created the session
+ */
+export const PASSKEY_SESSION_FIELD = "passkeyCredentialId";
+
+type PasskeySession = Session & { [PASSKEY_SESSION_FIELD]?: string | null };
+
+/**
+ * Deletes a user's sessions that were created with any of the given credentials.
+ * Goes through the internal adapter so sessions kept in secondary storage are
+ * removed as well.
+ * @returns Number of sessions deleted
+ */
+export const revokePasskeySessions = async (
+  internalAdapter: AuthContext["internalAdapter"],
+  userId: string,
+  credentialIds: string[],
+): Promise<number> => {
+  if (credentialIds.length === 0) {
+    return 0;
+  }
+
+  const credentialIdSet = new Set(credentialIds);
+  const sessions = (await internalAdapter.listSessions(
+    userId,
+  )) as PasskeySession[];
+
+  const tokens = sessions
+    .filter((session) => {
+      const credentialId = session[PASSKEY_SESSION_FIELD];
+      return !!credentialId && credentialIdSet.has(credentialId);
+    })
+    .map((session) => session.token);
+
+  if (tokens.length > 0) {
+    await internalAdapter.deleteSessions(tokens);
+  }
+
+  return tokens.length;
+};
@@ -6,6 +6,8 @@
 import type { BetterAuthPlugin, User } from "better-auth/types";
 
 import type { BiometricSupportInfo } from "./passkey";
+import type { PasskeyEventType } from "./server";
+import type { PublicKeyCredentialCreationOptions } from "./webauthn";
 
 /**
  * Client options for the Expo Passkey plugin
@@ -29,6 +31,14 @@ export interface ExpoPasskeyClientOptions {
    * @example 'example.com'
    */
   rpId?: string;
+
+  /**
+   * Locale of the error messages the actions resolve with, looked up in the
+   * bundles passed to registerErrorMessages
+   * @default 'en'
+   * @example 'pt-BR'
+   */
+  locale?: string;
 }
 
 /**
@@ -46,8 +56,21 @@ export interface StorageKeys {
  */
 export interface ChallengeResponse {
   challenge: string;
+  /** Opaque ID of the stored challenge, echoed back when verifying */
+  challengeId: string;
+  /** WebAuthn timeout in milliseconds that fits the challenge lifetime */
+  timeout?: number;
 }
 
+/**
+ * Registration options response from the server.
+ * Complete creation options ready to hand to the platform authenticator,
+ * plus the ID of the stored challenge to echo back on registration.
+ */
+export type RegistrationOptionsResponse = PublicKeyCredentialCreationOptions & {
+  challengeId: string;
+};
+
 /**
  * Response from registration endpoint
  */
@@ -88,6 +111,14 @@ export interface ChallengeResult {
   error: Error | null;
 }
 
+/**
+ * Result object for the getRegistrationOptions function
+ */
+export interface RegistrationOptionsResult {
+  data: RegistrationOptionsResponse | null;
+  error: Error | null;
+}
+
 /**
  * Result object for the registerPasskey function
  */
@@ -123,7 +154,16 @@ export interface ListPasskeysSuccessResponse {
     platform: string;
     lastUsed: string;
     status: "active" | "revoked";
+    name?: string | null;
     aaguid?: string;
+    provider?: { name: string; icon?: string } | null;
+    transports?: string[];
+    /** "multiDevice" passkeys can sync between devices, null for older passkeys */
+    deviceType?: "singleDevice" | "multiDevice" | null;
+    /** Whether the passkey is backed up, null for older passkeys */
+    backedUp?: boolean | null;
+    /** Signature algorithm, e.g. "ES256", null for older passkeys */
+    algorithm?: string | null;
     createdAt: string;
     updatedAt: string;
     revokedAt?: string;
@@ -141,6 +181,31 @@ export interface ListPasskeysResult {
   error: Error | null;
 }
 
+/**
+ * Response from the passkey events endpoint
+ */
+export interface ListPasskeyEventsSuccessResponse {
+  events: Array<{
+    id: string;
+    type: PasskeyEventType;
+    credentialId: string | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+    platform: string | null;
+    metadata: Record<string, unknown>;
+    createdAt: string;
+  }>;
+  nextOffset?: number;
+}
+
+/**
+ * Result object for the listPasskeyEvents function
+ */
+export interface ListPasskeyEventsResult {
+  data: ListPasskeyEventsSuccessResponse | null;
+  error: Error | null;
+}
+
 /**
  * Result object for the revokePasskey function
  */
@@ -149,6 +214,57 @@ export interface RevokePasskeyResult {
   error: Error | null;
 }
 
+/**
+ * Response from the bulk revoke passkeys endpoint
+ */
+export interface RevokePasskeysSuccessResponse {
+  success: boolean;
+  revoked: number;
+  credentialIds: string[];
+  sessionsRevoked: number;
+}
+
+/**
+ * Result object for the revokePasskeys function
+ */
+export interface RevokePasskeysResult {
+  data: RevokePasskeysSuccessResponse | null;
+  error: Error | null;
+}
+
+/**
+ * Response from the delete passkey endpoint
+ */
+export interface DeletePasskeySuccessResponse {
+  success: boolean;
+  deleted: number;
+}
+
+/**
+ * Result object for the deletePasskey function
+ */
+export interface DeletePasskeyResult {
+  data: DeletePasskeySuccessResponse | null;
+  error: Error | null;
+}
+
+/**
+ * Response from the update passkey endpoint
+ */
+export interface UpdatePasskeySuccessResponse {
+  success: boolean;
+  credentialId: string;
+  name: string;
+}
+
+/**
+ * Result object for the renamePasskey function
+ */
+export interface UpdatePasskeyResult {
+  data: UpdatePasskeySuccessResponse | null;
+  error: Error | null;
+}
+
 /**
  * Passkey check result
  */
@@ -169,6 +285,10 @@ export type ExpoPasskeyServerPlugin = BetterAuthPlugin & {
       path: "/expo-passkey/challenge";
       response: { data: ChallengeResponse; error?: FetchError };
     };
+    passkeyRegistrationOptions: {
+      path: "/expo-passkey/registration-options";
+      response: { data: RegistrationOptionsResponse; error?: FetchError };
+    };
     registerPasskey: {
       path: "/expo-passkey/register";
       response: { data: RegisterPasskeySuccessResponse; error?: FetchError };
@@ -185,5 +305,21 @@ export type ExpoPasskeyServerPlugin = BetterAuthPlugin & {
       path: "/expo-passkey/revoke";
       response: { data: { success: boolean }; error?: FetchError };
     };
+    revokePasskeys: {
+      path: "/expo-passkey/revoke-many";
+      response: { data: RevokePasskeysSuccessResponse; error?: FetchError };
+    };
+    deletePasskey: {
+      path: "/expo-passkey/delete";
+      response: { data: DeletePasskeySuccessResponse; error?: FetchError };
+    };
+    updatePasskey: {
+      path: "/expo-passkey/update";
+      response: { data: UpdatePasskeySuccessResponse; error?: FetchError };
+    };
+    listPasskeyEvents: {
+      path: "/expo-passkey/events";
+      response: { data: ListPasskeyEventsSuccessResponse; error?: FetchError };
+    };
   };
 };
@@ -34,6 +34,9 @@ export const ERROR_CODES = {
     NOT_SECURE_CONTEXT: "webauthn_not_secure_context",
     INVALID_CREDENTIAL: "webauthn_invalid_credential",
     NATIVE_MODULE_ERROR: "webauthn_native_module_error",
+    CREDENTIAL_EXCLUDED: "webauthn_credential_excluded",
+    NO_CREDENTIAL: "webauthn_no_credential",
+    INVALID_RP_ID: "webauthn_invalid_rp_id",
   },
 
   // Server-side error codes
@@ -44,15 +47,23 @@ export const ERROR_CODES = {
     REGISTRATION_FAILED: "registration_failed",
     AUTHENTICATION_FAILED: "authentication_failed",
     REVOCATION_FAILED: "revocation_failed",
+    UPDATE_FAILED: "update_failed",
+    DELETION_FAILED: "deletion_failed",
     INVALID_ORIGIN: "invalid_origin",
     INVALID_CLIENT: "invalid_client",
     PASSKEYS_RETRIEVAL_FAILED: "passkeys_retrieval_failed",
+    EVENTS_RETRIEVAL_FAILED: "events_retrieval_failed",
     USER_NOT_FOUND: "user_not_found",
-    CHALLENGE_GENERATION_FAILED: "challenge_generation_failed",
-    INVALID_CHALLENGE: "invalid_challenge",
-    EXPIRED_CHALLENGE: "expired_challenge",
-    VERIFICATION_FAILED: "verification_failed",
+    CHALLENGE_GENERATION_FAILED: "CHALLENGE_GENERATION_FAILED",
+    INVALID_CHALLENGE: "INVALID_CHALLENGE",
+    EXPIRED_CHALLENGE: "EXPIRED_CHALLENGE",
+    VERIFICATION_FAILED: "VERIFICATION_FAILED",
     USER_MISMATCH: "user_mismatch",
+    AUTHENTICATOR_NOT_ALLOWED: "authenticator_not_allowed",
+    COUNTER_REGRESSION: "counter_regression",
+    AUTHENTICATOR_SELECTION_NOT_ALLOWED: "authenticator_selection_not_allowed",
+    SESSION_REQUIRED: "SESSION_REQUIRED",
+    UNAUTHORIZED_ACCESS: "UNAUTHORIZED_ACCESS",
   },
 } as const;
 
@@ -83,6 +94,12 @@ export const ERROR_MESSAGES = {
     "WebAuthn requires a secure context (HTTPS)",
   [ERROR_CODES.WEBAUTHN.INVALID_CREDENTIAL]: "Invalid WebAuthn credential",
   [ERROR_CODES.WEBAUTHN.NATIVE_MODULE_ERROR]: "Error in WebAuthn native module",
+  [ERROR_CODES.WEBAUTHN.CREDENTIAL_EXCLUDED]:
+    "A passkey for this account is already registered on this authenticator",
+  [ERROR_CODES.WEBAUTHN.NO_CREDENTIAL]:
+    "No passkey for this account was found on this device",
+  [ERROR_CODES.WEBAUTHN.INVALID_RP_ID]:
+    "The relying party ID is not valid for this app or website",
 
   [ERROR_CODES.SERVER.CREDENTIAL_EXISTS]: "Device already registered",
   [ERROR_CODES.SERVER.INVALID_CREDENTIAL]: "Invalid credential",
@@ -90,9 +107,12 @@ export const ERROR_MESSAGES = {
   [ERROR_CODES.SERVER.REGISTRATION_FAILED]: "Failed to register device",
   [ERROR_CODES.SERVER.AUTHENTICATION_FAILED]: "Authentication failed",
   [ERROR_CODES.SERVER.REVOCATION_FAILED]: "Failed to revoke credential",
+  [ERROR_CODES.SERVER.UPDATE_FAILED]: "Failed to update credential",
+  [ERROR_CODES.SERVER.DELETION_FAILED]: "Failed to delete credential",
   [ERROR_CODES.SERVER.INVALID_ORIGIN]: "Invalid origin",
   [ERROR_CODES.SERVER.INVALID_CLIENT]: "Invalid client",
   [ERROR_CODES.SERVER.PASSKEYS_RETRIEVAL_FAILED]: "Failed to retrieve passkeys",
+  [ERROR_CODES.SERVER.EVENTS_RETRIEVAL_FAILED]: "Failed to retrieve passkey events",
   [ERROR_CODES.SERVER.USER_NOT_FOUND]: "User not found",
   [ERROR_CODES.SERVER.CHALLENGE_GENERATION_FAILED]:
     "Failed to generate challenge",
@@ -101,21 +121,127 @@ export const ERROR_MESSAGES = {
   [ERROR_CODES.SERVER.VERIFICATION_FAILED]: "WebAuthn verification failed",
   [ERROR_CODES.SERVER.USER_MISMATCH]:
     "This passkey belongs to a different account. Please use a passkey registered to your current account.",
+  [ERROR_CODES.SERVER.AUTHENTICATOR_NOT_ALLOWED]:
+    "This authenticator is not allowed. Please use a different security key or device.",
+  [ERROR_CODES.SERVER.COUNTER_REGRESSION]:
+    "This passkey may have been cloned. Please sign in with a different method.",
+  [ERROR_CODES.SERVER.AUTHENTICATOR_SELECTION_NOT_ALLOWED]:
+    "The requested authenticator options are not allowed by the server",
+  [ERROR_CODES.SERVER.SESSION_REQUIRED]: "You must be logged in to do this",
+  [ERROR_CODES.SERVER.UNAUTHORIZED_ACCESS]:
+    "You can only access your own passkeys",
 } as const;
 
+/**
+ * Messages of a locale, keyed by error code
+ */
+export type ErrorMessageBundle = Partial<Record<string, string>>;
+
+/**
+ * Locale of ERROR_MESSAGES, the last step of every fallback chain
+ */
+export const DEFAULT_LOCALE = "en";
+
+const messageBundles = new Map<string, ErrorMessageBundle>([
+  [DEFAULT_LOCALE, { ...ERROR_MESSAGES }],
+]);
+
+/**
+ * Normalizes a BCP 47 tag so "pt_BR" and "pt-br" find the same bundle
+ */
+const normalizeLocale = (locale: string): string =>
+  locale.trim().replace(/_/g, "-").toLowerCase();
+
+/**
+ * Registers the messages of a locale. Messages are merged into the ones
+ * already registered for it, so a bundle may override only a few codes.
+ * @param locale BCP 47 language tag, e.g. "de" or "pt-BR"
+ */
+export const registerErrorMessages = (
+  locale: string,
+  messages: ErrorMessageBundle,
+): void => {
+  const key = normalizeLocale(locale);
+  messageBundles.set(key, { ...messageBundles.get(key), ...messages });
+};
+
+/**
+ * Lists the locales searched for a message, most specific first.
+ * "pt-BR" resolves to ["pt-br", "pt", "en"].
+ */
+export const getLocaleFallbacks = (locale?: string): string[] => {
+  const chain: string[] = [];
+  if (locale) {
+    const subtags = normalizeLocale(locale).split("-");
+    for (let length = subtags.length; length > 0; length--) {
+      chain.push(subtags.slice(0, length).join("-"));
+    }
+  }
+  if (!chain.includes(DEFAULT_LOCALE)) {
+    chain.push(DEFAULT_LOCALE);
+  }
+  return chain;
+};
+
+/**
+ * Looks up the message of an error code in the first locale of the fallback
+ * chain that has one
+ * @param locale Preferred locale, DEFAULT_LOCALE when omitted
+ */
+export const getErrorMessage = (code: string, locale?: string): string => {
+  for (const candidate of getLocaleFallbacks(locale)) {
+    const message = messageBundles.get(candidate)?.[code];
+    if (message) {
+      return message;
+    }
+  }
+  return "Unknown error";
+};
+
+/**
+ * Codes of failures that may succeed when the operation is started again
+ */
+export const RETRYABLE_ERROR_CODES: readonly string[] = [
+  ERROR_CODES.NETWORK.REQUEST_FAILED,
+  ERROR_CODES.WEBAUTHN.TIMEOUT,
+  ERROR_CODES.WEBAUTHN.CHALLENGE_EXPIRED,
+  ERROR_CODES.SERVER.INVALID_CHALLENGE,
+  ERROR_CODES.SERVER.EXPIRED_CHALLENGE,
+  ERROR_CODES.SERVER.CHALLENGE_GENERATION_FAILED,
+];
+
+/**
+ * Additional details of a passkey error
+ */
+export interface PasskeyErrorOptions {
+  /** HTTP status of the server response the error was read from */
+  status?: number;
+  /**
+   * Whether starting the operation again may succeed. Defaults to true for
+   * RETRYABLE_ERROR_CODES, rate limiting and server errors.
+   */
+  retryable?: boolean;
+  /** Locale of the message looked up when none is given */
+  locale?: string;
+}
+
 /**
  * Custom error class for passkey errors
  */
 export class PasskeyError extends Error {
   code: string;
+  status?: number;
+  retryable: boolean;
 
-  constructor(code: string, message?: string) {
-    super(
-      message ||
-        ERROR_MESSAGES[code as keyof typeof ERROR_MESSAGES] ||
-        "Unknown error",
-    );
+  constructor(code: string, message?: string, options: PasskeyErrorOptions = {}) {
+    super(message || getErrorMessage(code, options.locale));
     this.name = "PasskeyError";
     this.code = code;
+    this.status = options.status;
+    this.retryable =
+      options.retryable ??
+      (RETRYABLE_ERROR_CODES.includes(code) ||
+        (options.status !== undefined &&
+          (options.status === 429 || options.status >= 500)));
   }
 }
@@ -6,5 +6,6 @@
 export * from "./client";
 export * from "./errors";
 export * from "./passkey";
+export * from "./react";
 export * from "./server";
 export * from "./webauthn";
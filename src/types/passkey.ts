@@ -61,11 +61,13 @@ export interface DeviceInfo {
 
 /**
  * Passkey state used for managing passkeys in UI applications
+ * @typeParam TPasskey Type of the listed passkeys
+ * @typeParam TError Type of the error
  */
-export interface PasskeyState {
-  passkeys: AuthPasskey[];
+export interface PasskeyState<TPasskey = AuthPasskey, TError = string> {
+  passkeys: TPasskey[];
   loading: boolean;
-  error: string | null;
+  error: TError | null;
   isSupported: boolean;
 }
 
@@ -0,0 +1,105 @@
+/**
+ * @file React hook type definitions
+ * @module expo-passkey/types/react
+ */
+
+import type {
+  ListPasskeysResult,
+  ListPasskeysSuccessResponse,
+} from "./client";
+import type { BiometricSupportInfo, PasskeyState } from "./passkey";
+
+/**
+ * Result every client action resolves with
+ */
+export interface PasskeyActionResult<TData> {
+  data: TData | null;
+  error: Error | null;
+}
+
+/**
+ * Client actions used by usePasskeys, provided by the native and web clients
+ */
+export interface PasskeyListClient {
+  listPasskeys: (data: {
+    userId: string;
+    limit?: number;
+    offset?: number;
+  }) => Promise<ListPasskeysResult>;
+  isPasskeySupported: () => Promise<boolean>;
+}
+
+/**
+ * Options for usePasskeys
+ */
+export interface UsePasskeysOptions {
+  /** User whose passkeys are listed. Nothing is loaded while it is empty. */
+  userId?: string | null;
+  /**
+   * Number of passkeys per page
+   * @default 10
+   */
+  limit?: number;
+}
+
+/**
+ * State and controls returned by usePasskeys. `passkeys` holds the loaded
+ * pages as returned by listPasskeys.
+ */
+export interface UsePasskeysResult
+  extends PasskeyState<ListPasskeysSuccessResponse["passkeys"][number], Error> {
+  /** Whether the server has passkeys after the loaded pages */
+  hasMore: boolean;
+  /** Loads the page at the last response's nextOffset and appends it */
+  loadMore: () => Promise<void>;
+  /** Reloads the first page, e.g. after registering or revoking a passkey */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * State of a mutation hook
+ */
+export interface PasskeyMutationState<TData> {
+  /** Data of the last successful call */
+  data: TData | null;
+  /** Error of the last failed call */
+  error: Error | null;
+  loading: boolean;
+}
+
+/**
+ * State and controls returned by the mutation hooks
+ */
+export interface PasskeyMutation<TVariables, TData>
+  extends PasskeyMutationState<TData> {
+  /** Calls the action. Resolves with its result and never rejects. */
+  mutate: (
+    ...args: undefined extends TVariables
+      ? [variables?: TVariables]
+      : [variables: TVariables]
+  ) => Promise<PasskeyActionResult<TData>>;
+  /** Clears data and error, and ignores the result of a pending call */
+  reset: () => void;
+}
+
+/**
+ * Client actions used by usePasskeySupport, provided by the native and web
+ * clients
+ */
+export interface PasskeySupportClient {
+  isPasskeySupported: () => Promise<boolean>;
+  getBiometricInfo: () => Promise<BiometricSupportInfo | null>;
+}
+
+/**
+ * State returned by usePasskeySupport
+ */
+export interface UsePasskeySupportResult {
+  isSupported: boolean;
+  /** Biometric capabilities of the device, null on web */
+  biometricInfo: BiometricSupportInfo | null;
+  loading: boolean;
+  error: Error | null;
+  /** Checks support again, e.g. after the user enrolled biometrics */
+  refresh: () => Promise<void>;
+}
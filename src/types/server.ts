@@ -3,6 +3,7 @@
  * @module expo-passkey/types/server
  */
 
+import type { AuthContext, User } from "better-auth/types";
 import { z } from "zod";
 
 /**
@@ -15,6 +16,350 @@ export interface ExpoPasskeySchemaConfig {
   passkeyChallenge?: {
     modelName?: string;
   };
+  passkeyEvent?: {
+    modelName?: string;
+  };
+}
+
+/**
+ * FIDO certification levels, lowest to highest
+ */
+export type AuthenticatorCertificationLevel =
+  | "FIDO_CERTIFIED"
+  | "FIDO_CERTIFIED_L1"
+  | "FIDO_CERTIFIED_L1plus"
+  | "FIDO_CERTIFIED_L2"
+  | "FIDO_CERTIFIED_L2plus"
+  | "FIDO_CERTIFIED_L3"
+  | "FIDO_CERTIFIED_L3plus";
+
+/**
+ * Attestation verification configuration
+ */
+export interface AttestationOptions {
+  /**
+   * Attestation conveyance requested from authenticators. Overrides the
+   * client's preference. Use "direct" or "enterprise" so authenticators
+   * report a real AAGUID and attestation statement.
+   */
+  conveyance?: "none" | "direct" | "enterprise";
+
+  /**
+   * Trusted root certificates (PEM strings or DER bytes) keyed by attestation
+   * statement format, e.g. "packed", "tpm", "apple", "android-key". The "mds"
+   * key holds the roots used to verify the metadata BLOB signature.
+   */
+  rootCertificates?: Partial<
+    Record<
+      | "fido-u2f"
+      | "packed"
+      | "android-safetynet"
+      | "android-key"
+      | "tpm"
+      | "apple"
+      | "none"
+      | "mds",
+      Array<string | Uint8Array>
+    >
+  >;
+
+  /** Contents of a locally downloaded FIDO MDS3 BLOB (the raw JWT) */
+  mdsBlob?: string;
+
+  /** Path to a locally downloaded FIDO MDS3 BLOB file, read on first use */
+  mdsBlobPath?: string;
+
+  /** Reject registrations that carry no attestation statement (fmt "none") */
+  requireAttestation?: boolean;
+
+  /** Only accept authenticators with these AAGUIDs (UUID form) */
+  allowedAAGUIDs?: string[];
+
+  /** Reject authenticators with these AAGUIDs (UUID form) */
+  blockedAAGUIDs?: string[];
+
+  /**
+   * Minimum FIDO certification level according to the MDS BLOB.
+   * Authenticators without a metadata entry are rejected when set.
+   */
+  minimumCertificationLevel?: AuthenticatorCertificationLevel;
+}
+
+/**
+ * Parts of the Better Auth context a challenge store can use
+ */
+export type ChallengeStoreContext = Pick<
+  AuthContext,
+  "adapter" | "secondaryStorage"
+>;
+
+/**
+ * Better Auth secondary storage that can also take a key atomically,
+ * as required by the `"secondary-storage"` challenge store
+ */
+export type AtomicSecondaryStorage = NonNullable<
+  AuthContext["secondaryStorage"]
+> & {
+  /**
+   * Returns a key's value and deletes it in one step, or null when the key
+   * does not exist. When several calls take the same key at once, only one
+   * may receive the value (e.g. Redis `GETDEL`).
+   */
+  getAndDelete(key: string): Promise<string | null>;
+};
+
+/**
+ * Keeps pending challenges between issuing them and verifying the response
+ */
+export interface ChallengeStore {
+  /** Saves a challenge until its `expiresAt` */
+  save(ctx: ChallengeStoreContext, challenge: PasskeyChallenge): Promise<void>;
+
+  /** Finds a challenge of the given ceremony by its ID */
+  findById(
+    ctx: ChallengeStoreContext,
+    id: string,
+    type: PasskeyChallenge["type"],
+  ): Promise<PasskeyChallenge | null>;
+
+  /** Finds a challenge of the given ceremony by its base64url value */
+  findByChallenge(
+    ctx: ChallengeStoreContext,
+    challenge: string,
+    type: PasskeyChallenge["type"],
+  ): Promise<PasskeyChallenge | null>;
+
+  /**
+   * Deletes a challenge so it cannot be used again. When several requests
+   * consume the same challenge at once, only one of them may resolve true.
+   * @returns Whether this call removed the challenge
+   */
+  consume(ctx: ChallengeStoreContext, id: string): Promise<boolean>;
+
+  /**
+   * Deletes expired challenges. Called hourly; stores that expire
+   * entries on their own leave it out.
+   * @returns Number of challenges deleted
+   */
+  deleteExpired?(ctx: ChallengeStoreContext): Promise<number>;
+}
+
+/**
+ * Challenge generation settings
+ */
+export interface ChallengeOptions {
+  /** Seconds a challenge stays valid, per ceremony. Both default to 300. */
+  ttl?: {
+    registration?: number;
+    authentication?: number;
+  };
+
+  /** Random bytes per challenge, at least 16. Defaults to 32. */
+  byteLength?: number;
+
+  /**
+   * Where pending challenges are kept:
+   * - `"database"` (default): the passkeyChallenge model, swept hourly
+   * - `"memory"`: this process only, for tests and single-instance deployments
+   * - `"secondary-storage"`: Better Auth's `secondaryStorage`, which expires them itself.
+   *   It must also implement `getAndDelete` (see {@link AtomicSecondaryStorage})
+   *   so that only one request can consume a challenge across instances.
+   * - a custom {@link ChallengeStore}
+   */
+  store?: "database" | "memory" | "secondary-storage" | ChallengeStore;
+}
+
+/**
+ * Signature algorithms that can be offered to authenticators
+ */
+export type PasskeyAlgorithm = "EdDSA" | "ES256" | "PS256" | "RS256";
+
+/**
+ * WebAuthn requirement levels, from weakest to strongest
+ */
+export type PasskeyRequirement = "discouraged" | "preferred" | "required";
+
+/**
+ * Server-side authenticator selection policy. Client supplied registration
+ * options are checked against it before a registration challenge is stored.
+ */
+export interface AuthenticatorSelectionPolicy {
+  /** Minimum user verification for each ceremony */
+  userVerification?: {
+    /** Defaults to "required" */
+    registration?: PasskeyRequirement;
+    /** Defaults to "required" */
+    authentication?: PasskeyRequirement;
+  };
+
+  /**
+   * Authenticator attachments that may be requested and registered.
+   * Only "platform" may be requested by default.
+   */
+  allowedAttachments?: Array<"platform" | "cross-platform">;
+
+  /**
+   * Minimum resident key (discoverable credential) requirement.
+   * Defaults to "required".
+   */
+  residentKey?: PasskeyRequirement;
+
+  /**
+   * What to do with client options weaker than the policy: "override"
+   * replaces them with the policy's values, "reject" fails the request.
+   * Defaults to "override".
+   */
+  onViolation?: "override" | "reject";
+}
+
+/**
+ * Audit log configuration
+ */
+export interface AuditLogOptions {
+  /**
+   * Number of days events are kept before the hourly cleanup deletes them.
+   * Set to 0 to keep events forever. Defaults to 90.
+   */
+  retentionDays?: number;
+}
+
+/**
+ * How to react when an authenticator reports a signature counter that did not
+ * increase, which may mean the credential was cloned:
+ * - "ignore": accept the authentication silently
+ * - "warn": accept the authentication but log and audit the anomaly
+ * - "revoke": reject the authentication and revoke the credential
+ * - "reject": reject the authentication only
+ */
+export type CounterPolicy = "ignore" | "warn" | "revoke" | "reject";
+
+/**
+ * Backup eligibility of a credential, from the authenticator data BE flag
+ */
+export type CredentialDeviceType = "singleDevice" | "multiDevice";
+
+/**
+ * Display information for the passkey provider behind an AAGUID
+ */
+export interface AuthenticatorProvider {
+  /** Human readable provider name, e.g. "iCloud Keychain" */
+  name: string;
+
+  /** Icon URL or data URI suitable for an <img> src */
+  icon?: string;
+}
+
+/**
+ * Request details passed to lifecycle hooks
+ */
+export interface PasskeyRequestMetadata {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * Event passed to `beforeRegister`, after the attestation was verified but
+ * before the passkey is stored
+ */
+export interface PasskeyBeforeRegisterEvent {
+  user: User;
+  credentialId: string;
+  platform: string;
+  aaguid: string | null;
+  /** "singleDevice" credentials are bound to one authenticator, "multiDevice" ones can sync */
+  deviceType: CredentialDeviceType;
+  /** Whether the credential is currently backed up, e.g. to a cloud keychain */
+  backedUp: boolean;
+  /** Revoked row with the same credential ID that would be reactivated */
+  existingPasskey: AuthPasskey | null;
+  request: PasskeyRequestMetadata;
+}
+
+/**
+ * Event passed to `onRegister` once the passkey has been stored
+ */
+export interface PasskeyRegisterEvent {
+  user: User;
+  passkey: AuthPasskey;
+  outcome: "created" | "reactivated";
+  request: PasskeyRequestMetadata;
+}
+
+/**
+ * Event passed to `beforeAuthenticate`, after the assertion was verified but
+ * before the counter is updated and a session is created
+ */
+export interface PasskeyBeforeAuthenticateEvent {
+  user: User;
+  passkey: AuthPasskey;
+  request: PasskeyRequestMetadata;
+}
+
+/**
+ * Event passed to `onAuthenticate` once the session has been created
+ */
+export interface PasskeyAuthenticateEvent {
+  user: User;
+  passkey: AuthPasskey;
+  session: { token: string };
+  request: PasskeyRequestMetadata;
+}
+
+/**
+ * Event passed to `beforeRevoke` for each passkey a user is about to revoke
+ */
+export interface PasskeyBeforeRevokeEvent {
+  user: User;
+  passkey: AuthPasskey;
+  reason: string;
+  request: PasskeyRequestMetadata;
+}
+
+/**
+ * Event passed to `onRevoke` for each passkey that was revoked
+ */
+export interface PasskeyRevokeEvent {
+  userId: string;
+  passkey: AuthPasskey;
+  reason: string;
+  /**
+   * "user" for the revoke endpoints, "cleanup" for the inactivity job and
+   * "counter_regression" when the counter policy revoked a possibly cloned passkey
+   */
+  trigger: "user" | "cleanup" | "counter_regression";
+  /** Null when revoked by the cleanup job */
+  request: PasskeyRequestMetadata | null;
+}
+
+/**
+ * Event passed to `onVerificationFailure` when a ceremony is rejected
+ */
+export interface PasskeyVerificationFailureEvent {
+  ceremony: "registration" | "authentication";
+  credentialId: string;
+  /** Known for registrations and for authentications with a matching credential */
+  userId: string | null;
+  error: { code: string; message: string };
+  request: PasskeyRequestMetadata;
+}
+
+type PasskeyHook<TEvent> = (event: TEvent) => void | Promise<void>;
+
+/**
+ * Lifecycle hooks of the Expo Passkey server plugin.
+ * `before*` hooks can veto the operation by throwing an `APIError`, which is
+ * returned to the client as is. Errors thrown by the other hooks are logged
+ * and do not affect the response.
+ */
+export interface ExpoPasskeyHooks {
+  beforeRegister?: PasskeyHook<PasskeyBeforeRegisterEvent>;
+  onRegister?: PasskeyHook<PasskeyRegisterEvent>;
+  beforeAuthenticate?: PasskeyHook<PasskeyBeforeAuthenticateEvent>;
+  onAuthenticate?: PasskeyHook<PasskeyAuthenticateEvent>;
+  /** Not called for revocations by the cleanup job */
+  beforeRevoke?: PasskeyHook<PasskeyBeforeRevokeEvent>;
+  onRevoke?: PasskeyHook<PasskeyRevokeEvent>;
+  onVerificationFailure?: PasskeyHook<PasskeyVerificationFailureEvent>;
 }
 
 /**
@@ -61,6 +406,64 @@ export interface ExpoPasskeyOptions {
     disableInterval?: boolean;
   };
 
+  /**
+   * End the sessions created by signing in with a passkey when that passkey is
+   * revoked, whether by the user, in bulk, by deleting it while active or by
+   * the inactivity cleanup job. Defaults to false.
+   */
+  revokeSessionsOnRevoke?: boolean;
+
+  /**
+   * Server-enforced user verification, attachment and resident key policy.
+   * A client cannot request weaker options than configured here.
+   */
+  authenticatorSelection?: AuthenticatorSelectionPolicy;
+
+  /**
+   * Challenge lifetime and size. The WebAuthn timeout returned to clients
+   * never exceeds the lifetime of the challenge.
+   */
+  challenge?: ChallengeOptions;
+
+  /**
+   * Signature algorithms offered to authenticators and accepted at
+   * registration, in order of preference. Defaults to ["ES256", "RS256"].
+   */
+  supportedAlgorithms?: PasskeyAlgorithm[];
+
+  /**
+   * Reaction to a signature counter that did not increase, a sign of a
+   * cloned authenticator. Authenticators that always report 0, such as
+   * synced passkeys, are never affected. Defaults to "reject".
+   */
+  counterPolicy?: CounterPolicy;
+
+  /** Attestation verification and authenticator policy */
+  attestation?: AttestationOptions;
+
+  /**
+   * Additional AAGUID (UUID form) to provider mappings merged over the bundled table.
+   * Map an AAGUID to null to hide a bundled provider.
+   */
+  aaguidProviders?: Record<string, AuthenticatorProvider | null>;
+
+  /**
+   * Record registrations, authentications, revocations and counter anomalies
+   * in the passkeyEvent model. Disabled unless set.
+   */
+  auditLog?: AuditLogOptions;
+
+  /** Lifecycle hooks for notifications, auditing and custom policies */
+  hooks?: ExpoPasskeyHooks;
+
+  /**
+   * Locale of the error messages sent to clients, looked up in the bundles
+   * passed to registerErrorMessages. Falls back to the language without its
+   * region, then to English.
+   * @default 'en'
+   */
+  locale?: string;
+
   /** Logger configuration */
   logger?: {
     enabled?: boolean;
@@ -93,7 +496,12 @@ export const authPasskeySchema = z.object({
   revokedAt: z.string().optional(),
   revokedReason: z.string().optional(),
   metadata: z.string().optional(),
+  name: z.string().optional(), // User-chosen display name
   aaguid: z.string().optional(),
+  transports: z.string().optional(), // Comma-separated authenticator transports
+  deviceType: z.enum(["singleDevice", "multiDevice"]).optional(), // Backup eligibility (BE flag)
+  backedUp: z.boolean().optional(), // Backup state (BS flag)
+  algorithm: z.string().optional(), // Signature algorithm, e.g. "ES256"
 });
 
 /**
@@ -109,8 +517,36 @@ export const passkeyChallengeSchema = z.object({
   registrationOptions: z.string().optional(), // JSON string containing client registration preferences
 });
 
+/**
+ * Database schema for the passkeyEvent audit model
+ */
+export const passkeyEventSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  credentialId: z.string().optional(),
+  type: z.enum([
+    "registered",
+    "authenticated",
+    "authentication_failed",
+    "counter_anomaly",
+    "revoked",
+    "cleanup_revoked",
+  ]),
+  ipAddress: z.string().optional(),
+  userAgent: z.string().optional(),
+  platform: z.string().optional(),
+  metadata: z.string().optional(), // JSON string with event specific details
+  createdAt: z.string(),
+});
+
 /** AuthPasskey model type */
 export type AuthPasskey = z.infer<typeof authPasskeySchema>;
 
 /** PasskeyChallenge model type */
 export type PasskeyChallenge = z.infer<typeof passkeyChallengeSchema>;
+
+/** PasskeyEvent model type */
+export type PasskeyEvent = z.infer<typeof passkeyEventSchema>;
+
+/** Kind of event recorded in the audit log */
+export type PasskeyEventType = PasskeyEvent["type"];